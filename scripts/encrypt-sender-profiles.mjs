@@ -0,0 +1,41 @@
+/**
+ * Encrypt a sender profiles JSON file for SENDER_PROFILES_FILE
+ *
+ * Usage: SENDER_PROFILES_KEY=... node scripts/encrypt-sender-profiles.mjs profiles.json profiles.enc.json
+ * The server reads the file with decryptProfiles() in
+ * src/lib/server/sender-profiles/crypto.ts; keep the two in sync.
+ */
+
+import { createCipheriv, randomBytes, scryptSync } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+
+const [input, output] = process.argv.slice(2);
+const passphrase = process.env.SENDER_PROFILES_KEY;
+
+if (!input || !output || !passphrase) {
+  console.error(
+    "Usage: SENDER_PROFILES_KEY=... node scripts/encrypt-sender-profiles.mjs <input.json> <output.json>"
+  );
+  process.exit(1);
+}
+
+const plaintext = readFileSync(input, "utf8");
+// Fail early on a file the server couldn't read
+JSON.parse(plaintext);
+
+const salt = randomBytes(16);
+const iv = randomBytes(12);
+const cipher = createCipheriv("aes-256-gcm", scryptSync(passphrase, salt, 32), iv);
+const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+const file = {
+  version: 1,
+  algorithm: "aes-256-gcm",
+  salt: salt.toString("base64"),
+  iv: iv.toString("base64"),
+  tag: cipher.getAuthTag().toString("base64"),
+  data: data.toString("base64"),
+};
+
+writeFileSync(output, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+console.log(`Encrypted ${input} to ${output}`);
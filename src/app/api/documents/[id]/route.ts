@@ -0,0 +1,121 @@
+/**
+ * Single Document API Route
+ * - GET: fetch a document
+ * - PUT: update a document; requires the revision it was based on
+ * - DELETE: delete a document; an optional ?revision= guards against stale deletes
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDocumentStorage,
+  isEditorNode,
+  isHeadSettings,
+  isValidDocumentId,
+  DocumentNotFoundError,
+  RevisionConflictError,
+  type UpdateDocumentInput,
+} from "@/lib/server/documents";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface UpdateDocumentRequest extends UpdateDocumentInput {
+  // Revision the client's copy is based on
+  revision: number;
+}
+
+// Map storage errors to HTTP responses
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof DocumentNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof RevisionConflictError) {
+    return NextResponse.json(
+      { error: error.message, currentRevision: error.currentRevision },
+      { status: 409 }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  try {
+    const document = await getDocumentStorage().get(id);
+    if (!document) {
+      return NextResponse.json({ error: `Document "${id}" not found` }, { status: 404 });
+    }
+    return NextResponse.json({ document });
+  } catch (error) {
+    return errorResponse(error, "Failed to load document");
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  try {
+    const body: Partial<UpdateDocumentRequest> | null = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    if (typeof body.revision !== "number") {
+      return NextResponse.json({ error: "Missing document revision" }, { status: 400 });
+    }
+    if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+      return NextResponse.json({ error: "Document name cannot be empty" }, { status: 400 });
+    }
+    if (body.document !== undefined && !isEditorNode(body.document)) {
+      return NextResponse.json({ error: "Invalid document" }, { status: 400 });
+    }
+    if (body.headSettings !== undefined && !isHeadSettings(body.headSettings)) {
+      return NextResponse.json({ error: "Invalid head settings" }, { status: 400 });
+    }
+
+    const document = await getDocumentStorage().update(
+      id,
+      {
+        name: body.name?.trim(),
+        document: body.document,
+        headSettings: body.headSettings,
+      },
+      body.revision
+    );
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    return errorResponse(error, "Failed to update document");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  const revisionParam = request.nextUrl.searchParams.get("revision");
+  const expectedRevision = revisionParam !== null ? Number(revisionParam) : undefined;
+  if (expectedRevision !== undefined && !Number.isInteger(expectedRevision)) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  }
+
+  try {
+    await getDocumentStorage().delete(id, expectedRevision);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, "Failed to delete document");
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Documents API Route
+ * - GET: list stored documents (without document trees)
+ * - POST: create a document
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDocumentStorage,
+  isEditorNode,
+  isHeadSettings,
+  type CreateDocumentInput,
+} from "@/lib/server/documents";
+
+export async function GET() {
+  try {
+    const documents = await getDocumentStorage().list();
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("Document list error:", error);
+    return NextResponse.json({ error: "Failed to list documents" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<CreateDocumentInput> | null = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "Missing document name" }, { status: 400 });
+    }
+    if (!isEditorNode(body.document)) {
+      return NextResponse.json({ error: "Invalid or missing document" }, { status: 400 });
+    }
+    if (body.headSettings !== undefined && !isHeadSettings(body.headSettings)) {
+      return NextResponse.json({ error: "Invalid head settings" }, { status: 400 });
+    }
+
+    const document = await getDocumentStorage().create({
+      name: body.name.trim(),
+      document: body.document,
+      headSettings: body.headSettings,
+    });
+
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    console.error("Document create error:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Failed to create document";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
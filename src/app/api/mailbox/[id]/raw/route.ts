@@ -0,0 +1,34 @@
+/**
+ * Raw Message API Route
+ * - GET: download a captured message as an .eml file
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMailboxStorage, isValidMessageId } from "@/lib/server/mailbox";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidMessageId(id)) {
+    return NextResponse.json({ error: "Invalid message id" }, { status: 400 });
+  }
+
+  try {
+    const message = await getMailboxStorage().get(id);
+    if (!message) {
+      return NextResponse.json({ error: `Message "${id}" not found` }, { status: 404 });
+    }
+    return new NextResponse(message.raw, {
+      headers: {
+        "Content-Type": "message/rfc822",
+        "Content-Disposition": `attachment; filename="${id}.eml"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to load message:", error);
+    return NextResponse.json({ error: "Failed to load message" }, { status: 500 });
+  }
+}
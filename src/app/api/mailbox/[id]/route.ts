@@ -0,0 +1,48 @@
+/**
+ * Captured Message API Route
+ * - GET: fetch a captured message with its bodies, headers, and attachments
+ * - DELETE: delete a captured message
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMailboxStorage, isValidMessageId, MessageNotFoundError } from "@/lib/server/mailbox";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidMessageId(id)) {
+    return NextResponse.json({ error: "Invalid message id" }, { status: 400 });
+  }
+
+  try {
+    const message = await getMailboxStorage().get(id);
+    if (!message) {
+      return NextResponse.json({ error: `Message "${id}" not found` }, { status: 404 });
+    }
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error("Failed to load message:", error);
+    return NextResponse.json({ error: "Failed to load message" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidMessageId(id)) {
+    return NextResponse.json({ error: "Invalid message id" }, { status: 400 });
+  }
+
+  try {
+    await getMailboxStorage().delete(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MessageNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Failed to delete message:", error);
+    return NextResponse.json({ error: "Failed to delete message" }, { status: 500 });
+  }
+}
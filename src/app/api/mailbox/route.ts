@@ -0,0 +1,28 @@
+/**
+ * Local Mailbox API Route
+ * - GET: list messages captured by the "local" send mode (newest first)
+ * - DELETE: delete all captured messages
+ */
+
+import { NextResponse } from "next/server";
+import { getMailboxStorage } from "@/lib/server/mailbox";
+
+export async function GET() {
+  try {
+    const messages = await getMailboxStorage().list();
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Mailbox list error:", error);
+    return NextResponse.json({ error: "Failed to list messages" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    await getMailboxStorage().clear();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Mailbox clear error:", error);
+    return NextResponse.json({ error: "Failed to clear mailbox" }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Scheduled Send API Route
+ * - GET: fetch a scheduled send with its content snapshot
+ * - PATCH: reschedule to `sendAt`; finished or failed sends are queued again
+ * - DELETE: cancel a scheduled send, or remove a finished one from the list
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getJobStore,
+  isValidJobId,
+  parseSendAt,
+  toJobDetails,
+  toJobSummary,
+  JobConflictError,
+  JobInProgressError,
+  JobNotFoundError,
+} from "@/lib/server/schedule";
+import { isCredentialFreeMode } from "@/lib/server/sender-profiles";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+  }
+
+  try {
+    const job = await getJobStore().get(id);
+    if (!job) {
+      return NextResponse.json({ error: `Scheduled send "${id}" not found` }, { status: 404 });
+    }
+    return NextResponse.json({ job: toJobDetails(job) });
+  } catch (error) {
+    console.error("Failed to load scheduled send:", error);
+    return NextResponse.json({ error: "Failed to load scheduled send" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const sendAt = parseSendAt(body.sendAt);
+    if (!sendAt) {
+      return NextResponse.json(
+        { error: "The send time must be a date in the future" },
+        { status: 400 }
+      );
+    }
+
+    const store = getJobStore();
+    const job = await store.get(id);
+    if (!job) throw new JobNotFoundError(id);
+    if (job.status === "sending") throw new JobInProgressError(id);
+    // Bulk sends made with credentials from the dialog can't be sent again later
+    if (job.transport.profileId === undefined && !isCredentialFreeMode(job.transport.mode)) {
+      return NextResponse.json(
+        { error: "This send used credentials that are not stored; send it again instead" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await store.update({
+      ...job,
+      sendAt: sendAt.toISOString(),
+      status: "scheduled",
+      result: undefined,
+      error: undefined,
+    });
+    return NextResponse.json({ job: toJobSummary(updated) });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof JobInProgressError || error instanceof JobConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to reschedule send:", error);
+    return NextResponse.json({ error: "Failed to reschedule send" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+  }
+
+  try {
+    const store = getJobStore();
+    const job = await store.get(id);
+    if (!job) throw new JobNotFoundError(id);
+    if (job.status === "sending") throw new JobInProgressError(id);
+
+    // Fails if the scheduler picked the job up since it was read
+    await store.delete(id, job.updatedAt);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof JobInProgressError || error instanceof JobConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to delete scheduled send:", error);
+    return NextResponse.json({ error: "Failed to delete scheduled send" }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Scheduled Sends API Route
+ * - GET: list scheduled and finished sends (soonest first)
+ * - POST: schedule a single or bulk send for a future time. The request has the
+ *   same fields as /api/send-email (with `to`) or /api/send-email/bulk (with
+ *   `recipients`), plus `sendAt`. The content is stored as sent, so later edits
+ *   to the document don't change it. Only sender profiles and credential-free
+ *   modes can be scheduled.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { BulkRecipient, BulkSendOptions, EmailMessage } from "@/lib/server/email";
+import {
+  resolveTransport,
+  RawCredentialsRefusedError,
+  SenderProfileNotFoundError,
+  type SenderTransportRequest,
+} from "@/lib/server/sender-profiles";
+import {
+  getJobStore,
+  startScheduler,
+  toJobSummary,
+  validateScheduleInput,
+  type ScheduleInput,
+} from "@/lib/server/schedule";
+
+interface ScheduleRequest extends Pick<SenderTransportRequest, "mode" | "profileId"> {
+  sendAt: string;
+  // `to` is used for single sends only
+  email: Partial<EmailMessage>;
+  recipients?: BulkRecipient[];
+  options?: Partial<BulkSendOptions>;
+}
+
+const DEFAULT_BULK_OPTIONS: BulkSendOptions = { concurrency: 2, intervalMs: 500 };
+
+export async function GET() {
+  try {
+    startScheduler();
+    const jobs = await getJobStore().list();
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("Schedule list error:", error);
+    return NextResponse.json({ error: "Failed to list scheduled sends" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ScheduleRequest | null = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { to, ...email } = body.email ?? {};
+    // Only a profile id is stored; credentials would sit on disk until the job runs
+    const { mode, profileId } = body;
+    const transport = { mode, profileId };
+
+    const input: Partial<ScheduleInput> = {
+      sendAt: body.sendAt,
+      transport,
+      email: email as ScheduleInput["email"],
+    };
+    if (body.recipients !== undefined) {
+      input.recipients = Array.isArray(body.recipients)
+        ? body.recipients.map((recipient) =>
+            typeof recipient?.to === "string"
+              ? { ...recipient, to: recipient.to.trim() }
+              : recipient
+          )
+        : body.recipients;
+      input.bulkOptions = {
+        concurrency: Number(body.options?.concurrency) || DEFAULT_BULK_OPTIONS.concurrency,
+        intervalMs: Number(body.options?.intervalMs ?? DEFAULT_BULK_OPTIONS.intervalMs) || 0,
+      };
+    } else {
+      input.to = Array.isArray(to) ? to : to ? [to] : [];
+    }
+
+    const invalidField = validateScheduleInput(input);
+    if (invalidField) {
+      return NextResponse.json({ error: invalidField }, { status: 400 });
+    }
+
+    // Refuse credentials or unknown profiles now rather than when the job runs
+    await resolveTransport(transport);
+
+    startScheduler();
+    const job = await getJobStore().add({
+      ...(input as ScheduleInput),
+      sendAt: new Date(body.sendAt).toISOString(),
+    });
+    return NextResponse.json({ job: toJobSummary(job) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RawCredentialsRefusedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof SenderProfileNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Schedule create error:", error);
+    return NextResponse.json({ error: "Failed to schedule send" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Bulk Send Progress API Route
+ * - GET: counts while the send runs; once finished, a result for every recipient
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore, isValidJobId } from "@/lib/server/schedule";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+  }
+
+  try {
+    const job = await getJobStore().get(id);
+    if (!job?.recipients) {
+      return NextResponse.json({ error: `Bulk send "${id}" not found` }, { status: 404 });
+    }
+
+    const finished = job.status !== "sending" && job.status !== "scheduled";
+    return NextResponse.json({
+      status: job.status,
+      total: job.recipients.length,
+      sent: job.result?.sent ?? 0,
+      failed: job.result?.failed ?? 0,
+      realDelivery: job.result?.realDelivery ?? false,
+      results: finished ? job.result?.results : undefined,
+      error: job.error,
+    });
+  } catch (error) {
+    console.error("Failed to load bulk send:", error);
+    return NextResponse.json({ error: "Failed to load bulk send" }, { status: 500 });
+  }
+}
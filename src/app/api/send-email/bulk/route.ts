@@ -0,0 +1,117 @@
+/**
+ * Bulk Email Sending API Route
+ * Renders one personalized message per recipient from a compiled template
+ * (merge tags and show-if / repeat blocks) and sends them with the chosen transport
+ * or sender profile.
+ * The send runs as a job in the schedule queue: responds 202 with the job right
+ * away; poll /api/send-email/bulk/[id] for progress and per-recipient results.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isBulkRecipient,
+  EmailConfigError,
+  MAX_BULK_RECIPIENTS,
+  validateMessageFields,
+  type BulkRecipient,
+  type BulkSendOptions,
+  type EmailTemplate,
+} from "@/lib/server/email";
+import {
+  resolveTransport,
+  RawCredentialsRefusedError,
+  SenderProfileNotFoundError,
+  type SenderTransportRequest,
+} from "@/lib/server/sender-profiles";
+import { getJobStore, runJob, startScheduler, toJobSummary } from "@/lib/server/schedule";
+
+interface BulkSendRequest extends SenderTransportRequest {
+  // Content for every message; `to` comes from each recipient
+  email: EmailTemplate;
+  recipients: BulkRecipient[];
+  options?: Partial<BulkSendOptions>;
+}
+
+const DEFAULT_OPTIONS: BulkSendOptions = { concurrency: 2, intervalMs: 500 };
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: BulkSendRequest | null = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    if (!body.email?.subject || !body.email?.html) {
+      return NextResponse.json({ error: "Missing email content (subject, html)" }, { status: 400 });
+    }
+    if (!Array.isArray(body.recipients) || body.recipients.length === 0) {
+      return NextResponse.json({ error: "Missing recipients" }, { status: 400 });
+    }
+    if (body.recipients.length > MAX_BULK_RECIPIENTS) {
+      return NextResponse.json(
+        { error: `Too many recipients (maximum ${MAX_BULK_RECIPIENTS})` },
+        { status: 400 }
+      );
+    }
+    if (!body.recipients.every(isBulkRecipient)) {
+      return NextResponse.json(
+        { error: "Every recipient needs a valid email address and a data object" },
+        { status: 400 }
+      );
+    }
+    const invalidField = validateMessageFields(body.email);
+    if (invalidField) {
+      return NextResponse.json({ error: invalidField }, { status: 400 });
+    }
+
+    const { transport, from } = await resolveTransport(body);
+    const template = { ...body.email, from: body.email.from || from };
+    if (transport.mode === "smtp" && !template.from) {
+      return NextResponse.json({ error: "Missing sender email address" }, { status: 400 });
+    }
+
+    const options: BulkSendOptions = {
+      concurrency: Number(body.options?.concurrency) || DEFAULT_OPTIONS.concurrency,
+      intervalMs: Number(body.options?.intervalMs ?? DEFAULT_OPTIONS.intervalMs) || 0,
+    };
+
+    // Credentials stay in memory for this run; the job stores the profile id only
+    const store = getJobStore();
+    startScheduler();
+    const job = await store.add(
+      {
+        sendAt: new Date().toISOString(),
+        transport: { mode: body.mode, profileId: body.profileId },
+        email: template,
+        recipients: body.recipients.map((recipient) => ({
+          ...recipient,
+          to: recipient.to.trim(),
+        })),
+        bulkOptions: options,
+      },
+      "sending"
+    );
+
+    runJob(store, job, { transport, from }).catch((error) =>
+      console.error(`Bulk send ${job.id} failed:`, error)
+    );
+
+    return NextResponse.json({ job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof RawCredentialsRefusedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof SenderProfileNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof EmailConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Bulk email send error:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Failed to send emails";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
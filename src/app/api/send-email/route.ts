@@ -2,42 +2,45 @@
  * Email Sending API Route
  * Handles sending emails via:
  * - Ethereal (test mode, virtual mailbox)
+ * - Local mailbox (captured on this server, works offline)
  * - Resend (real delivery with simple API key)
  * - Custom SMTP
+ * - Postmark, SendGrid, Mailgun, and Amazon SES HTTP APIs
+ * Each mode is a provider adapter (see lib/server/email/providers).
+ * Credentials come from a server-side sender profile (profileId) or the request body.
+ *
+ * Supports multiple recipients, CC / BCC / Reply-To, attachments (including inline
+ * CID images), and custom headers such as List-Unsubscribe.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import nodemailer from "nodemailer";
-import { Resend } from "resend";
-
-interface SendEmailRequest {
-  // Mode: 'test' for Ethereal, 'resend' for Resend API, 'smtp' for custom SMTP
-  mode: "test" | "resend" | "smtp";
-  // Resend API Key (required for 'resend' mode)
-  resendApiKey?: string;
-  // SMTP Configuration (required for 'smtp' mode)
-  smtp?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      pass: string;
-    };
-  };
+import {
+  createEmailSender,
+  EmailConfigError,
+  EmailRejectedError,
+  toAddressList,
+  validateMessageFields,
+  type EmailMessage,
+} from "@/lib/server/email";
+import {
+  resolveTransport,
+  RawCredentialsRefusedError,
+  SenderProfileNotFoundError,
+  type SenderTransportRequest,
+} from "@/lib/server/sender-profiles";
+
+interface SendEmailRequest extends SenderTransportRequest {
   // Email Content
-  email: {
-    from?: string;
-    to: string;
-    subject: string;
-    html: string;
-    text?: string;
-  };
+  email: EmailMessage;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body: SendEmailRequest = await request.json();
+    const body: SendEmailRequest | null = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
 
     // Validate email content
     if (!body.email?.to || !body.email?.subject || !body.email?.html) {
@@ -46,104 +49,34 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-
-    // Handle Resend mode
-    if (body.mode === "resend") {
-      if (!body.resendApiKey) {
-        return NextResponse.json({ error: "Missing Resend API Key" }, { status: 400 });
-      }
-
-      const resend = new Resend(body.resendApiKey);
-
-      // Use Resend's default from address if not provided
-      const fromAddress = body.email.from || "Mail Studio <onboarding@resend.dev>";
-
-      const { data, error } = await resend.emails.send({
-        from: fromAddress,
-        to: body.email.to,
-        subject: body.email.subject,
-        html: body.email.html,
-        text: body.email.text || undefined,
-      });
-
-      if (error) {
-        return NextResponse.json({ error: error.message }, { status: 400 });
-      }
-
-      return NextResponse.json({
-        success: true,
-        messageId: data?.id,
-        mode: "resend",
-        realDelivery: true,
-      });
+    const invalidField = validateMessageFields(body.email);
+    if (invalidField) {
+      return NextResponse.json({ error: invalidField }, { status: 400 });
     }
-
-    // Handle Ethereal test mode and SMTP mode with nodemailer
-    let transporter: nodemailer.Transporter;
-    let fromAddress: string;
-    let previewUrl: string | null = null;
-
-    if (body.mode === "test") {
-      // Create Ethereal test account automatically
-      const testAccount = await nodemailer.createTestAccount();
-
-      transporter = nodemailer.createTransport({
-        host: "smtp.ethereal.email",
-        port: 587,
-        secure: false,
-        auth: {
-          user: testAccount.user,
-          pass: testAccount.pass,
-        },
-      });
-
-      fromAddress = `"Mail Studio Test" <${testAccount.user}>`;
-    } else {
-      // Validate SMTP configuration for custom mode
-      if (!body.smtp?.host || !body.smtp?.auth?.user || !body.smtp?.auth?.pass) {
-        return NextResponse.json({ error: "Missing SMTP configuration" }, { status: 400 });
-      }
-
-      if (!body.email?.from) {
-        return NextResponse.json({ error: "Missing sender email address" }, { status: 400 });
-      }
-
-      transporter = nodemailer.createTransport({
-        host: body.smtp.host,
-        port: body.smtp.port,
-        secure: body.smtp.secure,
-        auth: {
-          user: body.smtp.auth.user,
-          pass: body.smtp.auth.pass,
-        },
-      });
-
-      fromAddress = body.email.from;
+    if (toAddressList(body.email.to).length === 0) {
+      return NextResponse.json({ error: "Missing recipient address" }, { status: 400 });
     }
 
-    // Send email
-    const info = await transporter.sendMail({
-      from: fromAddress,
-      to: body.email.to,
-      subject: body.email.subject,
-      html: body.email.html,
-      text: body.email.text || "",
-    });
-
-    // Get preview URL for test mode (Ethereal)
-    if (body.mode === "test") {
-      previewUrl = nodemailer.getTestMessageUrl(info) || null;
-    }
+    const { transport, from } = await resolveTransport(body);
+    const sender = await createEmailSender(transport);
+    const result = await sender.send({ ...body.email, from: body.email.from || from });
 
     return NextResponse.json({
       success: true,
-      messageId: info.messageId,
-      response: info.response,
-      previewUrl,
-      mode: body.mode,
-      realDelivery: body.mode === "smtp",
+      ...result,
+      mode: transport.mode,
     });
   } catch (error) {
+    if (error instanceof RawCredentialsRefusedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof SenderProfileNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof EmailConfigError || error instanceof EmailRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Email send error:", error);
 
     const errorMessage = error instanceof Error ? error.message : "Failed to send email";
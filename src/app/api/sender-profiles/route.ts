@@ -0,0 +1,24 @@
+/**
+ * Sender Profiles API Route
+ * - GET: list the sender profiles configured on the server (without credentials),
+ *   and whether clients must use them
+ */
+
+import { NextResponse } from "next/server";
+import {
+  getSenderProfiles,
+  SenderProfileConfigError,
+  toProfileSummary,
+} from "@/lib/server/sender-profiles";
+
+export async function GET() {
+  try {
+    const { profiles, enforced } = await getSenderProfiles();
+    return NextResponse.json({ profiles: profiles.map(toProfileSummary), enforced });
+  } catch (error) {
+    console.error("Sender profiles error:", error);
+    const message =
+      error instanceof SenderProfileConfigError ? error.message : "Failed to load sender profiles";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -22,10 +22,22 @@ import {
 import { sortableKeyboardCoordinates, arrayMove } from "@dnd-kit/sortable";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Button } from "@/components/ui/button";
-import { useEditorStore, useUIStore, useSelectedNode } from "@/features/editor/stores";
-import { useKeyboardShortcuts, useIsMediumScreen } from "@/features/editor/hooks";
+import {
+  useEditorStore,
+  useUIStore,
+  useSelectedNode,
+  useBrandKitStore,
+  selectBrandKit,
+} from "@/features/editor/stores";
+import {
+  useKeyboardShortcuts,
+  useAutosave,
+  useBrandKitSync,
+  useIsMediumScreen,
+} from "@/features/editor/hooks";
 import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
-import type { MJMLComponentType } from "@/features/editor/types";
+import { createBlockInstance } from "@/features/editor/lib/blocks";
+import type { MJMLComponentType, SavedBlock } from "@/features/editor/types";
 import { Toolbar } from "./toolbar";
 import { Sidebar } from "./sidebar";
 import { Canvas } from "./canvas";
@@ -33,6 +45,7 @@ import { Properties } from "./properties";
 import { EditMode } from "./edit-mode";
 import { Preview } from "./preview";
 import { CodeEditor } from "./code-editor";
+import { RecoveryBanner } from "./autosave";
 
 // Direct icon imports for better performance
 import {
@@ -80,7 +93,8 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
 const customCollisionDetection: CollisionDetection = (args) => {
   const activeData = args.active.data.current;
   const activeType = activeData?.type;
-  const isDraggingNewComponent = activeType === "new-component";
+  // Saved blocks are dropped like new components
+  const isDraggingNewComponent = activeType === "new-component" || activeType === "saved-block";
   const activeParentId = activeData?.parentId;
 
   if (isDraggingNewComponent) {
@@ -117,9 +131,11 @@ const customCollisionDetection: CollisionDetection = (args) => {
 
 export const Editor = memo(function Editor() {
   const addNode = useEditorStore((s) => s.addNode);
+  const addChildNode = useEditorStore((s) => s.addChildNode);
   const moveNode = useEditorStore((s) => s.moveNode);
   const findNode = useEditorStore((s) => s.findNode);
   const updateNodeChildren = useEditorStore((s) => s.updateNodeChildren);
+  const brandKit = useBrandKitStore(selectBrandKit);
   const editorMode = useUIStore((s) => s.editorMode);
   const setIsDragging = useUIStore((s) => s.setIsDragging);
   const setIsDraggingNewComponent = useUIStore((s) => s.setIsDraggingNewComponent);
@@ -133,6 +149,8 @@ export const Editor = memo(function Editor() {
 
   const [, setActiveId] = useState<string | null>(null);
   const [activeType, setActiveType] = useState<MJMLComponentType | null>(null);
+  // Name shown in the drag overlay instead of the component name (saved blocks)
+  const [activeLabel, setActiveLabel] = useState<string | null>(null);
 
   // Configure sensors to match EditMode for consistent drag behavior
   const sensors = useSensors(
@@ -149,22 +167,31 @@ export const Editor = memo(function Editor() {
   // Initialize keyboard shortcuts
   useKeyboardShortcuts();
 
+  // Restore and autosave the working document
+  useAutosave();
+
+  // Restyle emails using the brand kit when it changes
+  useBrandKitSync();
+
   const handleDragStart = useCallback(
     (event: DragStartEvent) => {
       const { active } = event;
       setIsDragging(true);
       setActiveId(active.id as string);
 
-      // Check if it's a new component drag
-      const isNewComponent = active.data.current?.type === "new-component";
+      // Check if it's a new component (or saved block) drag
+      const dragType = active.data.current?.type;
+      const isNewComponent = dragType === "new-component" || dragType === "saved-block";
       setIsDraggingNewComponent(isNewComponent);
 
       if (isNewComponent && active.data.current) {
         setActiveType(active.data.current.componentType);
+        setActiveLabel(dragType === "saved-block" ? active.data.current.block.name : null);
         // Auto-close sidebar when dragging a new component (for mobile UX)
         setSidebarOpen(false);
       } else {
         setActiveType(null);
+        setActiveLabel(null);
       }
     },
     [setIsDragging, setIsDraggingNewComponent, setSidebarOpen]
@@ -180,6 +207,7 @@ export const Editor = memo(function Editor() {
       setIsDraggingNewComponent(false);
       setActiveId(null);
       setActiveType(null);
+      setActiveLabel(null);
       lastOverId.current = null;
 
       if (!over) return;
@@ -198,8 +226,8 @@ export const Editor = memo(function Editor() {
         return acceptTypes.includes(componentType);
       };
 
-      // Handle new component drop
-      if (activeData.type === "new-component") {
+      // Handle new component (or saved block) drop
+      if (activeData.type === "new-component" || activeData.type === "saved-block") {
         const componentType = activeData.componentType as MJMLComponentType;
         const overId = over.id as string;
         const isDropContainer = overId.startsWith("drop-") || overId.startsWith("empty-");
@@ -231,7 +259,16 @@ export const Editor = memo(function Editor() {
           return;
         }
 
-        addNode(targetId, componentType, targetIndex);
+        if (activeData.type === "saved-block") {
+          const block = activeData.block as SavedBlock;
+          addChildNode(
+            targetId,
+            createBlockInstance(block, Boolean(activeData.synced)),
+            targetIndex
+          );
+        } else {
+          addNode(targetId, componentType, targetIndex, brandKit);
+        }
       }
       // Handle existing node drag (reorder within same parent or move to different parent)
       else if (activeData.type === "existing-node") {
@@ -283,7 +320,16 @@ export const Editor = memo(function Editor() {
         moveNode(nodeId, targetParentId, targetIndex);
       }
     },
-    [addNode, moveNode, findNode, updateNodeChildren, setIsDragging, setIsDraggingNewComponent]
+    [
+      addNode,
+      addChildNode,
+      moveNode,
+      findNode,
+      updateNodeChildren,
+      brandKit,
+      setIsDragging,
+      setIsDraggingNewComponent,
+    ]
   );
 
   const handleDragCancel = useCallback(() => {
@@ -291,6 +337,7 @@ export const Editor = memo(function Editor() {
     setIsDraggingNewComponent(false);
     setActiveId(null);
     setActiveType(null);
+    setActiveLabel(null);
     lastOverId.current = null;
   }, [setIsDragging, setIsDraggingNewComponent]);
 
@@ -306,7 +353,7 @@ export const Editor = memo(function Editor() {
         <div className="p-1.5 bg-blue-50 rounded-md">
           {IconComponent && <IconComponent className="w-4 h-4 text-blue-600" />}
         </div>
-        <span className="text-sm font-semibold text-gray-700">{def.name}</span>
+        <span className="text-sm font-semibold text-gray-700">{activeLabel ?? def.name}</span>
         <div className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-700 text-xs rounded font-medium">
           Dragging
         </div>
@@ -330,6 +377,7 @@ export const Editor = memo(function Editor() {
     >
       <div className="h-screen flex flex-col bg-background">
         <Toolbar />
+        <RecoveryBanner />
 
         {/* Main Content Area */}
         <div className="flex-1 flex overflow-hidden relative">
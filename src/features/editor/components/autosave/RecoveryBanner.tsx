@@ -0,0 +1,79 @@
+/**
+ * Recovery banner - shown when an autosaved document was restored on startup,
+ * or when restoring it failed
+ */
+
+"use client";
+
+import { memo, useCallback } from "react";
+import { AlertCircle, History, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useDocumentsStore, useUIStore } from "@/features/editor/stores";
+
+function formatSavedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export const RecoveryBanner = memo(function RecoveryBanner() {
+  const recoveredAt = useUIStore((s) => s.recoveredAt);
+  const setRecoveredAt = useUIStore((s) => s.setRecoveredAt);
+  const restoreError = useUIStore((s) => s.restoreError);
+  const setRestoreError = useUIStore((s) => s.setRestoreError);
+  const reloadActiveDocument = useDocumentsStore((s) => s.reloadActiveDocument);
+
+  const handleKeep = useCallback(() => {
+    setRecoveredAt(null);
+  }, [setRecoveredAt]);
+
+  // Go back to the email as last saved to "My Emails"; autosave then overwrites the snapshot
+  const handleDiscard = useCallback(() => {
+    reloadActiveDocument();
+    setRecoveredAt(null);
+  }, [reloadActiveDocument, setRecoveredAt]);
+
+  const handleDismissError = useCallback(() => {
+    setRestoreError(null);
+  }, [setRestoreError]);
+
+  if (restoreError !== null) {
+    return (
+      <div className="flex items-center gap-2 px-3 md:px-4 py-2 bg-red-500/10 border-b border-red-500/20">
+        <AlertCircle className="w-4 h-4 flex-shrink-0 text-red-600" />
+        <span className="flex-1 min-w-0 text-sm text-red-700 truncate" title={restoreError}>
+          Could not restore your last session: {restoreError}. New changes are still autosaved.
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={handleDismissError}
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  if (recoveredAt === null) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 md:px-4 py-2 bg-blue-500/10 border-b border-blue-500/20">
+      <History className="w-4 h-4 flex-shrink-0 text-blue-600" />
+      <span className="flex-1 min-w-0 text-sm text-blue-700 truncate">
+        Recovered unsaved changes from {formatSavedAt(recoveredAt)}
+      </span>
+      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDiscard}>
+        Discard
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleKeep} title="Keep">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+});
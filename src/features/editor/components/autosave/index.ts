@@ -0,0 +1,5 @@
+/**
+ * Autosave components exports
+ */
+
+export { RecoveryBanner } from "./RecoveryBanner";
@@ -31,7 +31,7 @@ const BreadcrumbItem = memo(function BreadcrumbItem({ node, isLast }: Breadcrumb
           : "hover:bg-muted text-muted-foreground hover:text-foreground"
       )}
     >
-      {def?.name || node.type}
+      {node.label || def?.name || node.type}
     </button>
   );
 });
@@ -14,6 +14,7 @@ import type { EditorNode, MJMLComponentType } from "@/features/editor/types";
 import { cn } from "@/lib/utils";
 import { SectionNode } from "./SectionNode";
 import { ColumnNode } from "./ColumnNode";
+import { DynamicContentBadge } from "./DynamicContentBadge";
 import {
   TextNode,
   ImageNode,
@@ -43,7 +44,10 @@ export const CanvasNode = memo(function CanvasNode({
 }: CanvasNodeProps) {
   const selectedId = useEditorStore((s) => s.selectedId);
   const hoveredId = useEditorStore((s) => s.hoveredId);
+  const isInSelection = useEditorStore((s) => s.selectedIds.includes(node.id));
+  const isMultiSelect = useEditorStore((s) => s.selectedIds.length > 1);
   const setSelectedId = useEditorStore((s) => s.setSelectedId);
+  const toggleSelectedId = useEditorStore((s) => s.toggleSelectedId);
   const setHoveredId = useEditorStore((s) => s.setHoveredId);
   const removeNode = useEditorStore((s) => s.removeNode);
   const duplicateNode = useEditorStore((s) => s.duplicateNode);
@@ -97,9 +101,14 @@ export const CanvasNode = memo(function CanvasNode({
   const handleClick = useCallback(
     (e: React.MouseEvent) => {
       e.stopPropagation();
-      setSelectedId(node.id);
+      // Shift or Cmd/Ctrl adds to (or removes from) the selection
+      if (e.shiftKey || e.metaKey || e.ctrlKey) {
+        toggleSelectedId(node.id);
+      } else {
+        setSelectedId(node.id);
+      }
     },
-    [node.id, setSelectedId]
+    [node.id, setSelectedId, toggleSelectedId]
   );
 
   const handleMouseEnter = useCallback(() => {
@@ -169,13 +178,13 @@ export const CanvasNode = memo(function CanvasNode({
         "relative group transition-all duration-150",
         // Selection states - use amber for locked nodes
         !isDragging &&
-          isSelected &&
+          isInSelection &&
           (isLocked
             ? "ring-2 ring-amber-500 ring-offset-2 rounded-sm z-10"
             : "ring-2 ring-blue-500 ring-offset-2 rounded-sm z-10"),
         !isDragging &&
           isHovered &&
-          !isSelected &&
+          !isInSelection &&
           (isLocked
             ? "ring-2 ring-amber-300/50 rounded-sm z-10"
             : "ring-2 ring-blue-300/50 rounded-sm z-10"),
@@ -189,7 +198,7 @@ export const CanvasNode = memo(function CanvasNode({
       onMouseLeave={handleMouseLeave}
     >
       {/* Component Label */}
-      {(isSelected || isHovered) && !isDragging && (
+      {(isInSelection || isHovered) && !isDragging && (
         <div className="absolute -top-7 left-0 z-[9999] flex items-center gap-1 animate-in fade-in slide-in-from-bottom-1 duration-150">
           {/* Drag Handle - disabled for locked nodes */}
           {!isLocked ? (
@@ -226,8 +235,8 @@ export const CanvasNode = memo(function CanvasNode({
         </div>
       )}
 
-      {/* Actions - hide for locked nodes */}
-      {isSelected && !isDragging && !isLocked && (
+      {/* Actions - hide for locked nodes; several selected nodes use the Properties panel */}
+      {isSelected && !isMultiSelect && !isDragging && !isLocked && (
         <div className="absolute -top-7 right-0 z-[9999] flex items-center gap-1 animate-in fade-in slide-in-from-bottom-1 duration-150">
           <button
             onClick={handleDuplicate}
@@ -254,6 +263,9 @@ export const CanvasNode = memo(function CanvasNode({
         </div>
       )}
 
+      {/* Show-if / repeat indicator */}
+      {!isDragging && <DynamicContentBadge node={node} />}
+
       {/* Content */}
       <div className={cn(isDragging && "pointer-events-none")}>{renderContent()}</div>
     </div>
@@ -0,0 +1,37 @@
+/**
+ * Badge showing a node's show-if condition and repeat binding on the canvas
+ */
+
+"use client";
+
+import { memo } from "react";
+import { Eye, Repeat } from "lucide-react";
+import type { EditorNode } from "@/features/editor/types";
+import { formatCondition, formatRepeat } from "@/features/editor/lib/merge-tags";
+
+export const DynamicContentBadge = memo(function DynamicContentBadge({
+  node,
+}: {
+  node: EditorNode;
+}) {
+  const condition = node.condition?.variable ? node.condition : null;
+  const repeat = node.repeat?.alias && node.repeat.source ? node.repeat : null;
+  if (!condition && !repeat) return null;
+
+  return (
+    <div className="absolute top-0 right-0 -translate-y-1/2 z-[20] flex items-center gap-1 pointer-events-none">
+      {repeat && (
+        <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-violet-600 text-white text-[10px] font-medium shadow-sm max-w-[180px]">
+          <Repeat className="w-3 h-3 shrink-0" />
+          <span className="truncate">each {formatRepeat(repeat)}</span>
+        </span>
+      )}
+      {condition && (
+        <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-violet-100 text-violet-700 border border-violet-300 text-[10px] font-medium shadow-sm max-w-[180px]">
+          <Eye className="w-3 h-3 shrink-0" />
+          <span className="truncate">if {formatCondition(condition)}</span>
+        </span>
+      )}
+    </div>
+  );
+});
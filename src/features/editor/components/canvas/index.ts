@@ -10,3 +10,4 @@ export { ColumnNode } from "./ColumnNode";
 export { DroppableContainer } from "./DroppableContainer";
 export { EmptyDropZone } from "./EmptyDropZone";
 export { Breadcrumb } from "./Breadcrumb";
+export { DynamicContentBadge } from "./DynamicContentBadge";
@@ -8,6 +8,7 @@ import { memo, useState, useCallback, useMemo } from "react";
 import { useEditorStore } from "@/features/editor/stores";
 import type { EditorNode } from "@/features/editor/types";
 import { cn } from "@/lib/utils";
+import { MergeTagText } from "@/features/editor/components/merge-tags";
 
 interface ButtonNodeProps {
   node: EditorNode;
@@ -77,7 +78,7 @@ export const ButtonNode = memo(function ButtonNode({ node }: ButtonNodeProps) {
         )}
         style={buttonStyle}
       >
-        {node.content || "Button"}
+        {isEditing ? node.content || "Button" : <MergeTagText text={node.content || "Button"} />}
       </span>
     </div>
   );
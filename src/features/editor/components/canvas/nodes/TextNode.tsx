@@ -18,8 +18,15 @@ import {
   Palette,
   Type,
   RemoveFormatting,
+  Braces,
 } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { InsertVariablePopover } from "@/features/editor/components/merge-tags";
+import {
+  decorateMergeTags,
+  mergeTagChipHtml,
+  stripMergeTagChips,
+} from "@/features/editor/lib/merge-tags";
 
 interface TextNodeProps {
   node: EditorNode;
@@ -68,17 +75,20 @@ const FloatingToolbar = memo(function FloatingToolbar({
   onColorChange,
   onFontSizeChange,
   onRemoveFormat,
+  onInsertVariable,
   onPopoverOpenChange,
 }: {
   onFormat: (command: string, value?: string) => void;
   onColorChange: (color: string) => void;
   onFontSizeChange: (size: string) => void;
   onRemoveFormat: () => void;
+  onInsertVariable: (name: string, fallback?: string) => void;
   onPopoverOpenChange?: (isOpen: boolean) => void;
 }) {
   const [colorPickerOpen, setColorPickerOpen] = useState(false);
   const [fontSizeOpen, setFontSizeOpen] = useState(false);
   const [linkPopoverOpen, setLinkPopoverOpen] = useState(false);
+  const [variablePopoverOpen, setVariablePopoverOpen] = useState(false);
   const [linkUrl, setLinkUrl] = useState("");
   const [customColor, setCustomColor] = useState("#000000");
 
@@ -86,25 +96,33 @@ const FloatingToolbar = memo(function FloatingToolbar({
   const handleColorPickerOpenChange = useCallback(
     (open: boolean) => {
       setColorPickerOpen(open);
-      onPopoverOpenChange?.(open || fontSizeOpen || linkPopoverOpen);
+      onPopoverOpenChange?.(open || fontSizeOpen || linkPopoverOpen || variablePopoverOpen);
     },
-    [fontSizeOpen, linkPopoverOpen, onPopoverOpenChange]
+    [fontSizeOpen, linkPopoverOpen, variablePopoverOpen, onPopoverOpenChange]
   );
 
   const handleFontSizeOpenChange = useCallback(
     (open: boolean) => {
       setFontSizeOpen(open);
-      onPopoverOpenChange?.(colorPickerOpen || open || linkPopoverOpen);
+      onPopoverOpenChange?.(colorPickerOpen || open || linkPopoverOpen || variablePopoverOpen);
     },
-    [colorPickerOpen, linkPopoverOpen, onPopoverOpenChange]
+    [colorPickerOpen, linkPopoverOpen, variablePopoverOpen, onPopoverOpenChange]
   );
 
   const handleLinkPopoverOpenChange = useCallback(
     (open: boolean) => {
       setLinkPopoverOpen(open);
-      onPopoverOpenChange?.(colorPickerOpen || fontSizeOpen || open);
+      onPopoverOpenChange?.(colorPickerOpen || fontSizeOpen || open || variablePopoverOpen);
+    },
+    [colorPickerOpen, fontSizeOpen, variablePopoverOpen, onPopoverOpenChange]
+  );
+
+  const handleVariablePopoverOpenChange = useCallback(
+    (open: boolean) => {
+      setVariablePopoverOpen(open);
+      onPopoverOpenChange?.(colorPickerOpen || fontSizeOpen || linkPopoverOpen || open);
     },
-    [colorPickerOpen, fontSizeOpen, onPopoverOpenChange]
+    [colorPickerOpen, fontSizeOpen, linkPopoverOpen, onPopoverOpenChange]
   );
 
   return (
@@ -301,6 +319,24 @@ const FloatingToolbar = memo(function FloatingToolbar({
         </PopoverContent>
       </Popover>
 
+      {/* Insert Variable */}
+      <InsertVariablePopover
+        onInsert={onInsertVariable}
+        onOpenChange={handleVariablePopoverOpenChange}
+        align="center"
+      >
+        <button
+          onMouseDown={() => {
+            // Notify parent immediately on mousedown (before any blur fires)
+            onPopoverOpenChange?.(true);
+          }}
+          className="p-1.5 rounded hover:bg-gray-100 text-gray-700 transition-colors"
+          title="Insert Variable"
+        >
+          <Braces className="w-4 h-4" />
+        </button>
+      </InsertVariablePopover>
+
       {/* Remove Formatting */}
       <button
         onClick={onRemoveFormat}
@@ -335,7 +371,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
     if (contentRef.current && !isEditing) {
       // Only update if not currently focused/editing
       if (document.activeElement !== contentRef.current) {
-        contentRef.current.innerHTML = node.content || "";
+        contentRef.current.innerHTML = decorateMergeTags(node.content || "");
       }
     }
   }, [node.id, node.content, isEditing]);
@@ -412,7 +448,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
       restoreSelection();
       document.execCommand(command, false, value);
       if (contentRef.current) {
-        updateNodeContent(node.id, contentRef.current.innerHTML);
+        updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
       }
     },
     [node.id, updateNodeContent, restoreSelection]
@@ -424,7 +460,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
       restoreSelection();
       document.execCommand("foreColor", false, color);
       if (contentRef.current) {
-        updateNodeContent(node.id, contentRef.current.innerHTML);
+        updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
       }
     },
     [node.id, updateNodeContent, restoreSelection]
@@ -436,7 +472,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
       restoreSelection();
       document.execCommand("fontSize", false, size);
       if (contentRef.current) {
-        updateNodeContent(node.id, contentRef.current.innerHTML);
+        updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
       }
     },
     [node.id, updateNodeContent, restoreSelection]
@@ -447,10 +483,23 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
     restoreSelection();
     document.execCommand("removeFormat", false);
     if (contentRef.current) {
-      updateNodeContent(node.id, contentRef.current.innerHTML);
+      updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
     }
   }, [node.id, updateNodeContent, restoreSelection]);
 
+  // Insert a merge tag chip at the saved caret position
+  const handleInsertVariable = useCallback(
+    (name: string, fallback?: string) => {
+      contentRef.current?.focus();
+      restoreSelection();
+      document.execCommand("insertHTML", false, mergeTagChipHtml(name, fallback));
+      if (contentRef.current) {
+        updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
+      }
+    },
+    [node.id, updateNodeContent, restoreSelection]
+  );
+
   const handleDoubleClick = useCallback(() => {
     setIsEditing(true);
   }, []);
@@ -472,7 +521,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
         if (isPopoverOpenRef.current) return;
 
         if (contentRef.current) {
-          updateNodeContent(node.id, contentRef.current.innerHTML);
+          updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
         }
         setIsEditing(false);
       }, 150);
@@ -482,7 +531,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
 
   const handleInput = useCallback(() => {
     if (contentRef.current) {
-      updateNodeContent(node.id, contentRef.current.innerHTML);
+      updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
     }
   }, [node.id, updateNodeContent]);
 
@@ -518,6 +567,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
           onColorChange={handleColorChange}
           onFontSizeChange={handleFontSizeChange}
           onRemoveFormat={handleRemoveFormat}
+          onInsertVariable={handleInsertVariable}
           onPopoverOpenChange={handlePopoverOpenChange}
         />
       )}
@@ -527,7 +577,7 @@ export const TextNode = memo(function TextNode({ node }: TextNodeProps) {
           contentRef.current = el;
           // Set initial content only when element is mounted and empty
           if (el && !el.innerHTML) {
-            el.innerHTML = initialContentRef.current;
+            el.innerHTML = decorateMergeTags(initialContentRef.current);
           }
         }}
         contentEditable={isEditing}
@@ -4,7 +4,7 @@
  */
 
 import { useState, useCallback, useEffect, useMemo } from "react";
-import { useEditorStore } from "@/features/editor/stores";
+import { useEditorStore, useBrandKitStore } from "@/features/editor/stores";
 import { generateMjml, parseMjmlToNode } from "@/features/editor/lib/mjml";
 
 interface UseCodeSyncResult {
@@ -32,6 +32,7 @@ interface UseCodeSyncResult {
 export function useCodeSync(): UseCodeSyncResult {
   const document = useEditorStore((s) => s.document);
   const headSettings = useEditorStore((s) => s.headSettings);
+  const brandKit = useBrandKitStore((s) => s.kit);
   const setDocument = useEditorStore((s) => s.setDocument);
 
   const [editedCode, setEditedCode] = useState<string | null>(null);
@@ -39,8 +40,8 @@ export function useCodeSync(): UseCodeSyncResult {
 
   // Generate MJML from document using useMemo (derived state)
   const generatedMjml = useMemo(
-    () => generateMjml(document, headSettings),
-    [document, headSettings]
+    () => generateMjml(document, headSettings, brandKit),
+    [document, headSettings, brandKit]
   );
 
   // Use edited code if user has made changes, otherwise use generated
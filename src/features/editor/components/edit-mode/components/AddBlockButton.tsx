@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useEditorStore } from "@/features/editor/stores";
+import { useEditorStore, useBrandKitStore, selectBrandKit } from "@/features/editor/stores";
 import type { MJMLComponentType } from "@/features/editor/types";
 import { cn } from "@/lib/utils";
 import {
@@ -46,6 +46,7 @@ const blockTypes = [
 
 export function AddBlockButton({ parentId, hasColoredParent = false }: AddBlockButtonProps) {
   const { addNode, findNode } = useEditorStore();
+  const brandKit = useBrandKitStore(selectBrandKit);
   const [isOpen, setIsOpen] = useState(false);
 
   const getTargetParentId = () => {
@@ -66,7 +67,7 @@ export function AddBlockButton({ parentId, hasColoredParent = false }: AddBlockB
 
   const handleAddBlock = (type: MJMLComponentType) => {
     const targetId = getTargetParentId();
-    addNode(targetId, type);
+    addNode(targetId, type, undefined, brandKit);
     setIsOpen(false);
   };
 
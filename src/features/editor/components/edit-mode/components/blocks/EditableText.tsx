@@ -4,8 +4,23 @@ import { useCallback, useState, useRef, useEffect } from "react";
 import { useEditorStore } from "@/features/editor/stores";
 import type { EditorNode } from "@/features/editor/types";
 import { cn } from "@/lib/utils";
-import { Bold, Italic, Underline, Link, AlignLeft, AlignCenter, AlignRight } from "lucide-react";
+import {
+  Bold,
+  Italic,
+  Underline,
+  Link,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  Braces,
+} from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { InsertVariablePopover } from "@/features/editor/components/merge-tags";
+import {
+  decorateMergeTags,
+  mergeTagChipHtml,
+  stripMergeTagChips,
+} from "@/features/editor/lib/merge-tags";
 
 interface EditableTextProps {
   node: EditorNode;
@@ -19,6 +34,8 @@ export function EditableText({ node, isLocked = false }: EditableTextProps) {
   const [linkUrl, setLinkUrl] = useState("");
   const contentRef = useRef<HTMLDivElement>(null);
   const linkPopoverOpenRef = useRef(false);
+  const variablePopoverOpenRef = useRef(false);
+  const savedSelectionRef = useRef<Range | null>(null);
   const isSelected = selectedId === node.id;
   const initialContentRef = useRef(node.content || "");
 
@@ -28,31 +45,32 @@ export function EditableText({ node, isLocked = false }: EditableTextProps) {
   }, [linkPopoverOpen]);
 
   useEffect(() => {
-    if (contentRef.current && contentRef.current.innerHTML !== node.content) {
+    const html = decorateMergeTags(node.content || "");
+    if (contentRef.current && contentRef.current.innerHTML !== html) {
       if (document.activeElement !== contentRef.current) {
-        contentRef.current.innerHTML = node.content || "";
+        contentRef.current.innerHTML = html;
       }
     }
   }, [node.id, node.content]);
 
   const handleInput = useCallback(() => {
     if (contentRef.current) {
-      updateNodeContent(node.id, contentRef.current.innerHTML);
+      updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
     }
   }, [node.id, updateNodeContent]);
 
   const handleFocus = () => setShowToolbar(true);
 
   const handleBlur = useCallback(() => {
-    // Don't close toolbar if link popover is open (use ref for latest value)
-    if (linkPopoverOpenRef.current) return;
+    // Don't close toolbar if a popover is open (use refs for latest value)
+    if (linkPopoverOpenRef.current || variablePopoverOpenRef.current) return;
 
     if (contentRef.current) {
-      updateNodeContent(node.id, contentRef.current.innerHTML);
+      updateNodeContent(node.id, stripMergeTagChips(contentRef.current.innerHTML));
     }
     setTimeout(() => {
       // Check again in case popover opened during the timeout
-      if (!linkPopoverOpenRef.current) {
+      if (!linkPopoverOpenRef.current && !variablePopoverOpenRef.current) {
         setShowToolbar(false);
       }
     }, 200);
@@ -63,6 +81,27 @@ export function EditableText({ node, isLocked = false }: EditableTextProps) {
     handleInput();
   };
 
+  // Remember the caret so a variable can be inserted after the popover takes focus
+  const saveSelection = () => {
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && contentRef.current) {
+      const range = selection.getRangeAt(0);
+      if (contentRef.current.contains(range.commonAncestorContainer)) {
+        savedSelectionRef.current = range.cloneRange();
+      }
+    }
+  };
+
+  const insertVariable = (name: string, fallback?: string) => {
+    contentRef.current?.focus();
+    const selection = window.getSelection();
+    if (selection && savedSelectionRef.current) {
+      selection.removeAllRanges();
+      selection.addRange(savedSelectionRef.current);
+    }
+    execCommand("insertHTML", mergeTagChipHtml(name, fallback));
+  };
+
   const containerStyle = {
     backgroundColor: node.props["container-background-color"] as string,
     padding: (node.props["padding"] as string) || "10px 25px",
@@ -212,6 +251,25 @@ export function EditableText({ node, isLocked = false }: EditableTextProps) {
               </div>
             </PopoverContent>
           </Popover>
+          <InsertVariablePopover
+            onInsert={insertVariable}
+            onOpenChange={(open) => {
+              variablePopoverOpenRef.current = open;
+            }}
+          >
+            <button
+              onMouseDown={(e) => {
+                e.preventDefault();
+                // Set ref immediately on mousedown (before blur fires)
+                variablePopoverOpenRef.current = true;
+                saveSelection();
+              }}
+              className="p-1.5 rounded hover:bg-gray-100"
+              title="Insert Variable"
+            >
+              <Braces className="w-4 h-4" />
+            </button>
+          </InsertVariablePopover>
         </div>
       )}
 
@@ -219,7 +277,7 @@ export function EditableText({ node, isLocked = false }: EditableTextProps) {
         ref={(el) => {
           contentRef.current = el;
           if (el && !el.innerHTML) {
-            el.innerHTML = initialContentRef.current;
+            el.innerHTML = decorateMergeTags(initialContentRef.current);
           }
         }}
         contentEditable={!isLocked}
@@ -0,0 +1,159 @@
+/**
+ * Version diff view - Tree of nodes highlighted by what changed between two revisions
+ */
+
+"use client";
+
+import { memo, useMemo } from "react";
+import type { EditorNode } from "@/features/editor/types";
+import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import {
+  diffDocuments,
+  summarizeDiff,
+  type DiffStatus,
+  type DiffTreeNode,
+  type NodeChanges,
+  type NodeSettingKey,
+} from "@/features/editor/lib/diff";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; row: string; badge: string }> = {
+  added: {
+    label: "Added",
+    row: "bg-green-500/10",
+    badge: "bg-green-100 text-green-700",
+  },
+  removed: {
+    label: "Removed",
+    row: "bg-red-500/10 line-through decoration-red-400/60",
+    badge: "bg-red-100 text-red-700",
+  },
+  moved: {
+    label: "Moved",
+    row: "bg-blue-500/10",
+    badge: "bg-blue-100 text-blue-700",
+  },
+  changed: {
+    label: "Changed",
+    row: "bg-amber-500/10",
+    badge: "bg-amber-100 text-amber-700",
+  },
+  unchanged: { label: "", row: "", badge: "" },
+};
+
+const SETTING_LABELS: Record<NodeSettingKey, string> = {
+  condition: "show if",
+  repeat: "repeat",
+  label: "layer name",
+  tokens: "brand tokens",
+};
+
+// Plain-text excerpt of (possibly HTML) content
+function excerpt(content?: string): string {
+  const text = (content ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text || "(empty)";
+}
+
+function nodeLabel(node: EditorNode): string {
+  const name = componentDefinitions[node.type]?.name || node.type;
+  return node.content ? `${name} · ${excerpt(node.content)}` : name;
+}
+
+const ChangeDetails = memo(function ChangeDetails({ changes }: { changes: NodeChanges }) {
+  return (
+    <div className="ml-6 mt-0.5 space-y-0.5 text-[11px] text-muted-foreground">
+      {changes.props.map((change) => (
+        <div key={change.key} className="font-mono truncate">
+          {change.key}: <span className="text-red-600">{String(change.before ?? "—")}</span>
+          {" → "}
+          <span className="text-green-700">{String(change.after ?? "—")}</span>
+        </div>
+      ))}
+      {changes.settings.map((change) => (
+        <div key={change.key} className="truncate">
+          {SETTING_LABELS[change.key]}: <span className="text-red-600">{change.before ?? "—"}</span>
+          {" → "}
+          <span className="text-green-700">{change.after ?? "—"}</span>
+        </div>
+      ))}
+      {changes.content && (
+        <div className="truncate">
+          content: <span className="text-red-600">{excerpt(changes.content.before)}</span>
+          {" → "}
+          <span className="text-green-700">{excerpt(changes.content.after)}</span>
+        </div>
+      )}
+      {changes.locked && <div>{changes.locked.after ? "locked" : "unlocked"}</div>}
+    </div>
+  );
+});
+
+const DiffRow = memo(function DiffRow({ diff, depth }: { diff: DiffTreeNode; depth: number }) {
+  const style = STATUS_STYLES[diff.status];
+
+  return (
+    <>
+      <div
+        className={cn("px-2 py-1 rounded text-xs", style.row)}
+        style={{ marginLeft: depth * 14 }}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="truncate">{nodeLabel(diff.node)}</span>
+          {style.label && (
+            <span className={cn("px-1.5 py-0.5 rounded text-[10px] font-medium", style.badge)}>
+              {style.label}
+            </span>
+          )}
+        </div>
+        {diff.changes && <ChangeDetails changes={diff.changes} />}
+      </div>
+      {diff.children.map((child) => (
+        <DiffRow key={`${child.status}-${child.node.id}`} diff={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+});
+
+interface VersionDiffViewProps {
+  before: EditorNode;
+  after: EditorNode;
+}
+
+export const VersionDiffView = memo(function VersionDiffView({
+  before,
+  after,
+}: VersionDiffViewProps) {
+  const diff = useMemo(() => diffDocuments(before, after), [before, after]);
+  const summary = useMemo(() => summarizeDiff(diff), [diff]);
+  const hasChanges = summary.added + summary.removed + summary.moved + summary.changed > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5 text-[11px]">
+        <span className={cn("px-1.5 py-0.5 rounded", STATUS_STYLES.added.badge)}>
+          {summary.added} added
+        </span>
+        <span className={cn("px-1.5 py-0.5 rounded", STATUS_STYLES.removed.badge)}>
+          {summary.removed} removed
+        </span>
+        <span className={cn("px-1.5 py-0.5 rounded", STATUS_STYLES.moved.badge)}>
+          {summary.moved} moved
+        </span>
+        <span className={cn("px-1.5 py-0.5 rounded", STATUS_STYLES.changed.badge)}>
+          {summary.changed} changed
+        </span>
+      </div>
+
+      {hasChanges ? (
+        <div className="space-y-0.5">
+          <DiffRow diff={diff} depth={0} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-6">No differences.</p>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,243 @@
+/**
+ * Version history button with dialog - save named versions, restore and compare them
+ */
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { History, Save, RotateCcw, Trash2, GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useEditorStore, useDocumentsStore, useVersionsStore } from "@/features/editor/stores";
+import { cn } from "@/lib/utils";
+import { VersionDiffView } from "./VersionDiffView";
+
+// Compare target representing the document as it is in the editor
+const CURRENT = "current";
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export const VersionHistoryButton = memo(function VersionHistoryButton() {
+  const document = useEditorStore((s) => s.document);
+  const activeDocumentId = useDocumentsStore((s) => s.activeDocumentId);
+  const versions = useVersionsStore((s) => s.versions);
+  const loadVersions = useVersionsStore((s) => s.loadVersions);
+  const saveVersion = useVersionsStore((s) => s.saveVersion);
+  const restoreVersion = useVersionsStore((s) => s.restoreVersion);
+  const deleteVersion = useVersionsStore((s) => s.deleteVersion);
+
+  const [open, setOpen] = useState(false);
+  const [versionName, setVersionName] = useState("");
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+
+  // Load versions when the dialog opens or the active document changes
+  useEffect(() => {
+    if (open && activeDocumentId) {
+      void loadVersions(activeDocumentId);
+    }
+  }, [open, activeDocumentId, loadVersions]);
+
+  const handleSave = useCallback(async () => {
+    if (!versionName.trim()) return;
+    await saveVersion(versionName);
+    setVersionName("");
+  }, [versionName, saveVersion]);
+
+  const handleRestore = useCallback(
+    (id: string) => {
+      restoreVersion(id);
+      setOpen(false);
+    },
+    [restoreVersion]
+  );
+
+  const handleDelete = useCallback(
+    (id: string, name: string) => {
+      if (confirm(`Delete version "${name}"?`)) {
+        if (compareFrom === id) setCompareFrom(null);
+        if (compareTo === id) setCompareTo(CURRENT);
+        void deleteVersion(id);
+      }
+    },
+    [compareFrom, compareTo, deleteVersion]
+  );
+
+  const resolveDocument = useCallback(
+    (key: string | null) => {
+      if (key === CURRENT) return document;
+      return versions.find((v) => v.id === key)?.document ?? null;
+    },
+    [document, versions]
+  );
+
+  const fromKey = compareFrom ?? versions[0]?.id ?? null;
+  const before = useMemo(() => resolveDocument(fromKey), [resolveDocument, fromKey]);
+  const after = useMemo(() => resolveDocument(compareTo), [resolveDocument, compareTo]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7">
+              <History className="w-4 h-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Version History</TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Save named versions of this email, restore them, or compare two revisions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-[280px_1fr] gap-6">
+          {/* Versions list */}
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="versionName">Save current version</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="versionName"
+                  value={versionName}
+                  onChange={(e) => setVersionName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                  placeholder="v3 – legal approved"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  size="sm"
+                  className="h-8"
+                  onClick={handleSave}
+                  disabled={!versionName.trim() || !activeDocumentId}
+                >
+                  <Save className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[360px]">
+              <div className="space-y-2 pr-3">
+                {versions.length === 0 && (
+                  <div className="text-xs text-muted-foreground text-center py-4 border border-dashed rounded-lg">
+                    No saved versions yet.
+                  </div>
+                )}
+                {versions.map((version) => (
+                  <div
+                    key={version.id}
+                    className={cn(
+                      "group p-2 rounded-lg border bg-background",
+                      fromKey === version.id ? "border-primary/60" : "border-border"
+                    )}
+                  >
+                    <button className="w-full text-left" onClick={() => setCompareFrom(version.id)}>
+                      <div className="text-sm font-medium truncate">{version.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDate(version.createdAt)}
+                      </div>
+                    </button>
+                    <div className="flex justify-end gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => handleRestore(version.id)}
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(version.id, version.name)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          {/* Diff */}
+          <div className="space-y-3 min-w-0">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={fromKey ?? undefined} onValueChange={setCompareFrom}>
+                <SelectTrigger className="h-8 text-sm w-full">
+                  <SelectValue placeholder="From version..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {version.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={compareTo} onValueChange={setCompareTo}>
+                <SelectTrigger className="h-8 text-sm w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT}>Current document</SelectItem>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {version.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="h-[360px] rounded-lg border border-border">
+              <div className="p-2">
+                {before && after ? (
+                  <VersionDiffView before={before} after={after} />
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    Save a version to compare it with the current document.
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
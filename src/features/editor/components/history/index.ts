@@ -0,0 +1,6 @@
+/**
+ * Version history components exports
+ */
+
+export { VersionHistoryButton } from "./VersionHistoryButton";
+export { VersionDiffView } from "./VersionDiffView";
@@ -10,3 +10,6 @@ export * from "./properties";
 export * from "./code-editor";
 export * from "./preview";
 export * from "./edit-mode";
+export * from "./autosave";
+export * from "./history";
+export * from "./merge-tags";
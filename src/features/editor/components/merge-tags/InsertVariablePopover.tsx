@@ -0,0 +1,124 @@
+/**
+ * Insert variable popover - pick or create a merge tag to insert
+ */
+
+"use client";
+
+import { memo, useCallback, useMemo, useState } from "react";
+import { Braces } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useEditorStore } from "@/features/editor/stores";
+import {
+  SUGGESTED_VARIABLES,
+  collectVariableNames,
+  formatMergeTag,
+  isValidVariableName,
+} from "@/features/editor/lib/merge-tags";
+
+interface InsertVariablePopoverProps {
+  // Called with the variable name and optional default value
+  onInsert: (name: string, fallback?: string) => void;
+  onOpenChange?: (open: boolean) => void;
+  align?: "start" | "center" | "end";
+  children: React.ReactNode;
+}
+
+export const InsertVariablePopover = memo(function InsertVariablePopover({
+  onInsert,
+  onOpenChange,
+  align = "start",
+  children,
+}: InsertVariablePopoverProps) {
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [fallback, setFallback] = useState("");
+
+  // Variables already used in the document first, then suggestions
+  const variables = useMemo(() => {
+    const used = collectVariableNames(document, headSettings);
+    return [...used, ...SUGGESTED_VARIABLES.filter((v) => !used.includes(v))];
+  }, [document, headSettings]);
+
+  const handleOpenChange = useCallback(
+    (isOpen: boolean) => {
+      setOpen(isOpen);
+      onOpenChange?.(isOpen);
+      if (!isOpen) {
+        setName("");
+        setFallback("");
+      }
+    },
+    [onOpenChange]
+  );
+
+  const insert = useCallback(
+    (variableName: string) => {
+      onInsert(variableName, fallback.trim() || undefined);
+      handleOpenChange(false);
+    },
+    [fallback, onInsert, handleOpenChange]
+  );
+
+  const trimmedName = name.trim();
+  const isNameValid = isValidVariableName(trimmedName);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align={align} sideOffset={8}>
+        <div className="space-y-3">
+          <div className="flex items-center gap-1.5 text-sm font-medium text-gray-700">
+            <Braces className="w-4 h-4" />
+            Insert variable
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {variables.map((variable) => (
+              <button
+                key={variable}
+                onClick={() => insert(variable)}
+                className="px-2 py-0.5 rounded-full bg-violet-100 text-violet-700 text-xs font-medium hover:bg-violet-200 transition-colors"
+              >
+                {variable}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2 pt-2 border-t border-gray-100">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && isNameValid && insert(trimmedName)}
+              placeholder="custom_variable"
+              className="h-7 text-xs"
+            />
+            <Input
+              value={fallback}
+              onChange={(e) => setFallback(e.target.value)}
+              placeholder="Default value (optional)"
+              className="h-7 text-xs"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <code className="text-[10px] text-muted-foreground truncate">
+                {formatMergeTag(isNameValid ? trimmedName : "name", fallback.trim() || undefined)}
+              </code>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={!isNameValid}
+                onClick={() => insert(trimmedName)}
+              >
+                Insert
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
@@ -0,0 +1,38 @@
+/**
+ * Merge tag text - renders plain text with variables shown as chips
+ */
+
+"use client";
+
+import { memo, useMemo } from "react";
+import { parseMergeTags } from "@/features/editor/lib/merge-tags";
+
+export const MergeTagText = memo(function MergeTagText({ text }: { text: string }) {
+  const parts = useMemo(() => {
+    const result: React.ReactNode[] = [];
+    let lastIndex = 0;
+
+    parseMergeTags(text).forEach((tag) => {
+      if (tag.index > lastIndex) {
+        result.push(text.slice(lastIndex, tag.index));
+      }
+      result.push(
+        <span
+          key={tag.index}
+          className="inline-flex items-center px-1.5 mx-0.5 rounded-full bg-violet-100 text-violet-700 text-[0.85em] font-medium leading-normal whitespace-nowrap"
+          title={tag.fallback !== undefined ? `${tag.name} (default: ${tag.fallback})` : tag.name}
+        >
+          {tag.name}
+        </span>
+      );
+      lastIndex = tag.index + tag.raw.length;
+    });
+
+    if (lastIndex < text.length) {
+      result.push(text.slice(lastIndex));
+    }
+    return result;
+  }, [text]);
+
+  return <>{parts}</>;
+});
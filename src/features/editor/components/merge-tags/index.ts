@@ -0,0 +1,6 @@
+/**
+ * Merge tag components exports
+ */
+
+export { InsertVariablePopover } from "./InsertVariablePopover";
+export { MergeTagText } from "./MergeTagText";
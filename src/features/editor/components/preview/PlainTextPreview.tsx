@@ -0,0 +1,105 @@
+/**
+ * Plain Text Preview - Text version of the email, generated or edited by hand
+ */
+
+"use client";
+
+import { memo, useMemo, useState } from "react";
+import { Pencil, Check, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useEditorStore, useActiveSampleProfile } from "@/features/editor/stores";
+import { renderMergeTags, resolveDynamicNodes } from "@/features/editor/lib/merge-tags";
+import { generatePlainText } from "@/features/editor/lib/plain-text";
+import { cn } from "@/lib/utils";
+
+interface PlainTextPreviewProps {
+  maxWidth: string;
+}
+
+export const PlainTextPreview = memo(function PlainTextPreview({
+  maxWidth,
+}: PlainTextPreviewProps) {
+  const document = useEditorStore((s) => s.document);
+  const plainText = useEditorStore((s) => s.headSettings.plainText);
+  const updateHeadSettings = useEditorStore((s) => s.updateHeadSettings);
+  const activeProfile = useActiveSampleProfile();
+  const [editing, setEditing] = useState(false);
+
+  const isEdited = plainText !== undefined;
+
+  // Text as the selected sample recipient would receive it
+  const previewText = useMemo(() => {
+    if (!activeProfile) return plainText ?? generatePlainText(document);
+    const text = plainText ?? generatePlainText(resolveDynamicNodes(document, activeProfile.data));
+    return renderMergeTags(text, activeProfile.data).output;
+  }, [document, plainText, activeProfile]);
+
+  const startEditing = () => {
+    // Start from the generated text, keeping merge tags
+    if (!isEdited) updateHeadSettings({ plainText: generatePlainText(document) });
+    setEditing(true);
+  };
+
+  return (
+    <div className="w-full space-y-2" style={{ maxWidth }}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">
+          {isEdited ? "Edited by hand" : "Generated from the email content"}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {isEdited && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => {
+                updateHeadSettings({ plainText: undefined });
+                setEditing(false);
+              }}
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+              Reset to generated
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={editing ? () => setEditing(false) : startEditing}
+          >
+            {editing ? (
+              <Check className="w-3.5 h-3.5 mr-1.5" />
+            ) : (
+              <Pencil className="w-3.5 h-3.5 mr-1.5" />
+            )}
+            {editing ? "Done" : "Edit"}
+          </Button>
+        </div>
+      </div>
+
+      {editing ? (
+        <>
+          <textarea
+            value={plainText ?? ""}
+            onChange={(e) => updateHeadSettings({ plainText: e.target.value })}
+            className="w-full min-h-[500px] p-4 text-sm rounded-lg border border-input bg-background font-mono resize-y"
+            spellCheck
+          />
+          <p className="text-xs text-muted-foreground">
+            Merge tags are filled for each recipient. Show-if and repeat settings don&apos;t apply
+            to edited text.
+          </p>
+        </>
+      ) : (
+        <pre
+          className={cn(
+            "bg-white text-gray-900 shadow-lg rounded-lg p-6 text-sm font-mono whitespace-pre-wrap break-words",
+            !previewText && "text-gray-400"
+          )}
+        >
+          {previewText || "No text content"}
+        </pre>
+      )}
+    </div>
+  );
+});
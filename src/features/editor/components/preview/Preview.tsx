@@ -1,24 +1,72 @@
 /**
- * Preview - Email preview component with desktop/mobile views
+ * Preview - Email preview component with desktop/mobile views and the plain-text version
+ * Merge tags are filled from the selected sample data profile
  */
 
 "use client";
 
-import { useMemo } from "react";
-import { useEditorStore, useUIStore } from "@/features/editor/stores";
+import { useMemo, useState } from "react";
+import { Braces } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useEditorStore,
+  useUIStore,
+  useSampleDataStore,
+  useActiveSampleProfile,
+  useBrandKitStore,
+} from "@/features/editor/stores";
 import { compileDocument } from "@/features/editor/lib/mjml";
+import { renderMergeTagsInHtml, resolveDynamicNodes } from "@/features/editor/lib/merge-tags";
 import { cn } from "@/lib/utils";
+import { SampleDataDialog } from "./SampleDataDialog";
+import { PlainTextPreview } from "./PlainTextPreview";
+
+// Select value for showing merge tags verbatim
+const NO_PROFILE = "none";
+
+type PreviewView = "html" | "text";
 
 export function Preview() {
   const document = useEditorStore((s) => s.document);
   const headSettings = useEditorStore((s) => s.headSettings);
+  const brandKit = useBrandKitStore((s) => s.kit);
   const previewMode = useUIStore((s) => s.previewMode);
+  const profiles = useSampleDataStore((s) => s.profiles);
+  const setActiveProfile = useSampleDataStore((s) => s.setActiveProfile);
+  const activeProfile = useActiveSampleProfile();
+  const [view, setView] = useState<PreviewView>("html");
+
+  // Evaluate show-if conditions and repeats (same document when it has none)
+  const resolvedDocument = useMemo(
+    () => (activeProfile ? resolveDynamicNodes(document, activeProfile.data) : document),
+    [document, activeProfile]
+  );
 
   // Compile MJML to HTML using useMemo (derived state)
   const { compiledHtml, errors } = useMemo(() => {
-    const { html, errors: compileErrors } = compileDocument(document, headSettings);
+    const { html, errors: compileErrors } = compileDocument(
+      resolvedDocument,
+      headSettings,
+      brandKit
+    );
     return { compiledHtml: html, errors: compileErrors };
-  }, [document, headSettings]);
+  }, [resolvedDocument, headSettings, brandKit]);
+
+  // Fill merge tags separately so switching profiles doesn't recompile static documents
+  const { output: previewHtml, missing } = useMemo(
+    () =>
+      activeProfile
+        ? renderMergeTagsInHtml(compiledHtml, activeProfile.data, { highlightMissing: true })
+        : { output: compiledHtml, missing: [] },
+    [compiledHtml, activeProfile]
+  );
 
   const frameWidth = previewMode === "desktop" ? "100%" : "375px";
   const frameMaxWidth = previewMode === "desktop" ? "800px" : "375px";
@@ -34,44 +82,89 @@ export function Preview() {
         </div>
       )}
 
+      {/* Sample Data */}
+      <div className="px-4 py-2 border-b border-border bg-background flex items-center gap-2">
+        <Braces className="w-4 h-4 text-muted-foreground shrink-0" />
+        <Select
+          value={activeProfile?.id ?? NO_PROFILE}
+          onValueChange={(value) => setActiveProfile(value === NO_PROFILE ? null : value)}
+        >
+          <SelectTrigger className="h-7 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>No sample data</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name || "Untitled profile"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <SampleDataDialog />
+        {missing.length > 0 && (
+          <span className="text-xs text-amber-600 truncate" title={missing.join(", ")}>
+            {missing.length} missing: {missing.join(", ")}
+          </span>
+        )}
+        <Tabs
+          value={view}
+          onValueChange={(value) => setView(value as PreviewView)}
+          className="ml-auto shrink-0"
+        >
+          <TabsList className="h-7">
+            <TabsTrigger value="html" className="text-xs px-2">
+              HTML
+            </TabsTrigger>
+            <TabsTrigger value="text" className="text-xs px-2">
+              Plain text
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
       {/* Preview Frame */}
       <div className="flex-1 overflow-auto">
         <div className="min-h-full flex items-start justify-center p-4 sm:p-6 lg:p-8">
-          <div
-            className={cn(
-              "bg-white shadow-lg rounded-lg overflow-hidden transition-all duration-300 w-full",
-              previewMode === "mobile" && "border-8 border-gray-800 rounded-[2rem] w-auto"
-            )}
-            style={{
-              width: previewMode === "mobile" ? frameWidth : "100%",
-              maxWidth: frameMaxWidth,
-            }}
-          >
-            {/* Mobile Notch */}
-            {previewMode === "mobile" && (
-              <div className="h-6 bg-gray-800 flex items-center justify-center">
-                <div className="w-20 h-4 bg-black rounded-b-xl" />
-              </div>
-            )}
-
-            {/* HTML Preview */}
-            <iframe
-              srcDoc={compiledHtml}
-              className="w-full border-0"
+          {view === "text" ? (
+            <PlainTextPreview maxWidth={frameMaxWidth} />
+          ) : (
+            <div
+              className={cn(
+                "bg-white shadow-lg rounded-lg overflow-hidden transition-all duration-300 w-full",
+                previewMode === "mobile" && "border-8 border-gray-800 rounded-[2rem] w-auto"
+              )}
               style={{
-                height: previewMode === "mobile" ? "600px" : "800px",
+                width: previewMode === "mobile" ? frameWidth : "100%",
+                maxWidth: frameMaxWidth,
               }}
-              title="Email Preview"
-              sandbox="allow-same-origin"
-            />
+            >
+              {/* Mobile Notch */}
+              {previewMode === "mobile" && (
+                <div className="h-6 bg-gray-800 flex items-center justify-center">
+                  <div className="w-20 h-4 bg-black rounded-b-xl" />
+                </div>
+              )}
+
+              {/* HTML Preview */}
+              <iframe
+                srcDoc={previewHtml}
+                className="w-full border-0"
+                style={{
+                  height: previewMode === "mobile" ? "600px" : "800px",
+                }}
+                title="Email Preview"
+                sandbox="allow-same-origin"
+              />
 
-            {/* Mobile Home Indicator */}
-            {previewMode === "mobile" && (
-              <div className="h-6 bg-gray-800 flex items-center justify-center">
-                <div className="w-32 h-1 bg-white rounded-full" />
-              </div>
-            )}
-          </div>
+              {/* Mobile Home Indicator */}
+              {previewMode === "mobile" && (
+                <div className="h-6 bg-gray-800 flex items-center justify-center">
+                  <div className="w-32 h-1 bg-white rounded-full" />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
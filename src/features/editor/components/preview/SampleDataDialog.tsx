@@ -0,0 +1,191 @@
+/**
+ * Sample data dialog - manage the JSON profiles used to fill merge tags
+ */
+
+"use client";
+
+import { memo, useCallback, useState } from "react";
+import { Database, Plus, Trash2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useEditorStore, useSampleDataStore } from "@/features/editor/stores";
+import { collectVariableNames } from "@/features/editor/lib/merge-tags";
+import type { SampleData, SampleDataProfile } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+// Parse profile JSON, which must be an object at the top level
+function parseSampleData(json: string): { data?: SampleData; error?: string } {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { error: "Sample data must be a JSON object" };
+    }
+    return { data: parsed as SampleData };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+// Editor for a single profile; keyed by profile id so drafts reset when switching
+const ProfileEditor = memo(function ProfileEditor({ profile }: { profile: SampleDataProfile }) {
+  const updateProfile = useSampleDataStore((s) => s.updateProfile);
+  const deleteProfile = useSampleDataStore((s) => s.deleteProfile);
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+
+  const [draft, setDraft] = useState(() => JSON.stringify(profile.data, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDraftChange = useCallback(
+    (value: string) => {
+      setDraft(value);
+      const { data, error: parseError } = parseSampleData(value);
+      setError(parseError ?? null);
+      if (data) {
+        updateProfile(profile.id, { data });
+      }
+    },
+    [profile.id, updateProfile]
+  );
+
+  // Add keys for variables used in the document but missing from this profile
+  const handleAddMissingKeys = useCallback(() => {
+    const { data } = parseSampleData(draft);
+    if (!data) return;
+    const next = { ...data };
+    collectVariableNames(document, headSettings).forEach((name) => {
+      if (!(name in next)) next[name] = "";
+    });
+    handleDraftChange(JSON.stringify(next, null, 2));
+  }, [draft, document, headSettings, handleDraftChange]);
+
+  return (
+    <div className="space-y-3 min-w-0">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="profileName">Profile name</Label>
+          <Input
+            id="profileName"
+            value={profile.name}
+            onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+            className="h-8 text-sm"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-destructive hover:text-destructive"
+          onClick={() => deleteProfile(profile.id)}
+          title="Delete profile"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="profileData">Data (JSON)</Label>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={handleAddMissingKeys}
+            disabled={!!error}
+          >
+            Add variables used in this email
+          </Button>
+        </div>
+        <textarea
+          id="profileData"
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          spellCheck={false}
+          className={cn(
+            "w-full h-[280px] px-3 py-2 text-xs font-mono rounded-md border bg-background resize-none",
+            error ? "border-destructive" : "border-input"
+          )}
+        />
+        {error && (
+          <p className="flex items-center gap-1.5 text-xs text-destructive">
+            <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const SampleDataDialog = memo(function SampleDataDialog() {
+  const profiles = useSampleDataStore((s) => s.profiles);
+  const activeProfileId = useSampleDataStore((s) => s.activeProfileId);
+  const addProfile = useSampleDataStore((s) => s.addProfile);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing =
+    profiles.find((p) => p.id === (editingId ?? activeProfileId)) ?? profiles[0] ?? null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs">
+          <Database className="w-3.5 h-3.5 mr-1.5" />
+          Edit profiles
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sample Data</DialogTitle>
+          <DialogDescription>
+            JSON profiles used to fill merge tags like {"{{first_name}}"} in the preview and in test
+            emails.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-[180px_1fr] gap-4">
+          <div className="space-y-1">
+            {profiles.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => setEditingId(profile.id)}
+                className={cn(
+                  "w-full px-2 py-1.5 rounded-md text-left text-sm truncate transition-colors",
+                  editing?.id === profile.id ? "bg-accent font-medium" : "hover:bg-accent/50"
+                )}
+              >
+                {profile.name || "Untitled profile"}
+              </button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-8 text-xs mt-2"
+              onClick={() => setEditingId(addProfile())}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              New Profile
+            </Button>
+          </div>
+
+          {editing ? (
+            <ProfileEditor key={editing.id} profile={editing} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Create a profile to preview your email with sample data.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
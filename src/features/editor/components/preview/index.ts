@@ -2,7 +2,10 @@
  * Preview module
  *
  * Provides email preview functionality with desktop and mobile view modes.
- * Compiles MJML to HTML and renders in an iframe for accurate preview.
+ * Compiles MJML to HTML and renders in an iframe for accurate preview,
+ * and shows the plain-text version sent alongside the HTML.
  */
 
 export { Preview } from "./Preview";
+export { SampleDataDialog } from "./SampleDataDialog";
+export { PlainTextPreview } from "./PlainTextPreview";
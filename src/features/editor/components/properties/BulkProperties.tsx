@@ -0,0 +1,191 @@
+/**
+ * Bulk properties panel - actions and shared properties for several selected nodes
+ */
+
+"use client";
+
+import { memo } from "react";
+import { Copy, Trash2, Lock, Unlock, Rows3, X } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import {
+  useEditorStore,
+  isNodeOrAncestorLocked,
+  canWrapNodesInSection,
+} from "@/features/editor/stores";
+import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import type { EditorNode } from "@/features/editor/types";
+import { PropertyField } from "./PropertyField";
+
+export const BulkProperties = memo(function BulkProperties() {
+  const document = useEditorStore((s) => s.document);
+  const selectedIds = useEditorStore((s) => s.selectedIds);
+  const findNode = useEditorStore((s) => s.findNode);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+  const removeNodes = useEditorStore((s) => s.removeNodes);
+  const duplicateNodes = useEditorStore((s) => s.duplicateNodes);
+  const setNodesLocked = useEditorStore((s) => s.setNodesLocked);
+  const wrapNodesInSection = useEditorStore((s) => s.wrapNodesInSection);
+
+  // Re-rendered on document changes, so these are always current
+  const nodes = selectedIds
+    .map((id) => findNode(id))
+    .filter((node): node is EditorNode => node !== null);
+  const editableIds = nodes
+    .filter((node) => !isNodeOrAncestorLocked(document, node.id))
+    .map((node) => node.id);
+  const lockedCount = nodes.length - editableIds.length;
+
+  // Count of each selected type, e.g. "3 Text · 2 Button"
+  const typeCounts = new Map<EditorNode["type"], number>();
+  for (const node of nodes) {
+    typeCounts.set(node.type, (typeCounts.get(node.type) ?? 0) + 1);
+  }
+  const sharedType = typeCounts.size === 1 ? nodes[0].type : null;
+  const def = sharedType ? componentDefinitions[sharedType] : undefined;
+
+  // Props whose value is the same on every selected node; the rest show as empty
+  let sharedNode: EditorNode | null = null;
+  if (sharedType) {
+    const props: EditorNode["props"] = {};
+    for (const key of new Set(nodes.flatMap((node) => Object.keys(node.props)))) {
+      const value = nodes[0].props[key];
+      if (nodes.every((node) => node.props[key] === value)) props[key] = value;
+    }
+    // Likewise for brand kit tokens
+    const tokens: Record<string, string> = {};
+    for (const [key, tokenId] of Object.entries(nodes[0].tokens ?? {})) {
+      if (nodes.every((node) => node.tokens?.[key] === tokenId)) tokens[key] = tokenId;
+    }
+    // The id keys the fields, so they reset when the selection changes
+    sharedNode = {
+      id: selectedIds.join(","),
+      type: sharedType,
+      props,
+      ...(Object.keys(tokens).length > 0 && { tokens }),
+    };
+  }
+
+  const canWrap = canWrapNodesInSection(document, selectedIds);
+  const canLock = nodes.some((node) => !node.locked);
+  const canUnlock = nodes.some((node) => node.locked);
+
+  return (
+    <div className="h-full bg-muted/30 flex flex-col overflow-y-hidden">
+      <div className="p-4 pr-10 lg:pr-4 border-b border-border">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex-1 min-w-0">
+            <h2 className="font-semibold truncate">{nodes.length} elements selected</h2>
+            <p className="text-xs text-muted-foreground mt-0.5 truncate">
+              {Array.from(
+                typeCounts,
+                ([type, count]) => `${count} ${componentDefinitions[type]?.name || type}`
+              ).join(" · ")}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 flex-shrink-0"
+            onClick={() => setSelectedId(null)}
+            title="Clear selection (Esc)"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {lockedCount > 0 && (
+        <div className="px-4 py-3 bg-amber-50 border-b border-amber-200">
+          <div className="flex items-center gap-2 text-amber-700 text-sm">
+            <Lock className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {lockedCount === nodes.length
+                ? "All selected elements are locked and cannot be edited."
+                : `${lockedCount} of the selected elements are locked and will be left unchanged.`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              disabled={editableIds.length === 0}
+              onClick={() => duplicateNodes(selectedIds)}
+            >
+              <Copy className="w-3.5 h-3.5" />
+              Duplicate
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs text-destructive hover:text-destructive"
+              disabled={editableIds.length === 0}
+              onClick={() => removeNodes(selectedIds)}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Delete
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              disabled={!canLock}
+              onClick={() => setNodesLocked(selectedIds, true)}
+            >
+              <Lock className="w-3.5 h-3.5" />
+              Lock
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              disabled={!canUnlock}
+              onClick={() => setNodesLocked(selectedIds, false)}
+            >
+              <Unlock className="w-3.5 h-3.5" />
+              Unlock
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs col-span-2"
+              disabled={!canWrap}
+              onClick={() => wrapNodesInSection(selectedIds)}
+              title="Move the selected blocks or columns into a new section"
+            >
+              <Rows3 className="w-3.5 h-3.5" />
+              Wrap in Section
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Drag any of them in the Layers panel to move them together.
+          </p>
+
+          {def && sharedNode ? (
+            <div className="space-y-4 pt-2 border-t border-border">
+              {def.propsSchema.map((schema) => (
+                <PropertyField
+                  key={schema.key}
+                  schema={schema}
+                  node={sharedNode}
+                  nodeIds={editableIds}
+                  isLocked={editableIds.length === 0}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center pt-2 border-t border-border">
+              Select elements of the same type to edit their properties together
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
@@ -0,0 +1,64 @@
+/**
+ * Button style field - bind a button to one of the brand kit's button styles
+ */
+
+"use client";
+
+import { memo, useCallback } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEditorStore, useBrandKitStore, selectBrandKit } from "@/features/editor/stores";
+import { getButtonStyleBindings, getButtonStyleId } from "@/features/editor/lib/brand-kit";
+import type { EditorNode } from "@/features/editor/types";
+
+interface ButtonStyleFieldProps {
+  node: EditorNode;
+  isLocked?: boolean;
+}
+
+export const ButtonStyleField = memo(function ButtonStyleField({
+  node,
+  isLocked = false,
+}: ButtonStyleFieldProps) {
+  const setNodesTokens = useEditorStore((s) => s.setNodesTokens);
+  const brandKit = useBrandKitStore(selectBrandKit);
+
+  const styleId = getButtonStyleId(node, brandKit);
+
+  const handleChange = useCallback(
+    (value: string) => {
+      if (isLocked) return;
+      const style = brandKit.buttonStyles.find((s) => s.id === value) ?? null;
+      setNodesTokens([node.id], getButtonStyleBindings(node, brandKit, style), brandKit.id);
+    },
+    [node, brandKit, setNodesTokens, isLocked]
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Button Style</Label>
+      <Select value={styleId ?? "none"} onValueChange={handleChange} disabled={isLocked}>
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None</SelectItem>
+          {brandKit.buttonStyles.map((style) => (
+            <SelectItem key={style.id} value={style.id}>
+              {style.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Colors, border and font follow the brand kit. Editing one of them detaches it.
+      </p>
+    </div>
+  );
+});
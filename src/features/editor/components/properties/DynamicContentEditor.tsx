@@ -0,0 +1,166 @@
+/**
+ * Dynamic content editor - show-if condition and repeat binding of a node
+ */
+
+"use client";
+
+import { memo, useCallback } from "react";
+import { Eye, Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEditorStore } from "@/features/editor/stores";
+import { CONDITION_OPERATORS, operatorNeedsValue } from "@/features/editor/lib/merge-tags";
+import type { ConditionOperator, EditorNode, NodeCondition } from "@/features/editor/types";
+
+interface DynamicContentEditorProps {
+  node: EditorNode;
+  isLocked?: boolean;
+}
+
+const DEFAULT_CONDITION: NodeCondition = { variable: "", operator: "is-set" };
+
+export const DynamicContentEditor = memo(function DynamicContentEditor({
+  node,
+  isLocked = false,
+}: DynamicContentEditorProps) {
+  const updateNodeCondition = useEditorStore((s) => s.updateNodeCondition);
+  const updateNodeRepeat = useEditorStore((s) => s.updateNodeRepeat);
+  const { condition, repeat } = node;
+
+  const updateCondition = useCallback(
+    (updates: Partial<NodeCondition>) => {
+      updateNodeCondition(node.id, { ...(condition ?? DEFAULT_CONDITION), ...updates });
+    },
+    [node.id, condition, updateNodeCondition]
+  );
+
+  return (
+    <div className="space-y-4">
+      <Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+        Dynamic Content
+      </Label>
+
+      {/* Show if */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="showIf"
+            checked={!!condition}
+            disabled={isLocked}
+            onChange={(e) =>
+              updateNodeCondition(node.id, e.target.checked ? DEFAULT_CONDITION : undefined)
+            }
+            className="h-4 w-4 rounded border-input"
+          />
+          <Label htmlFor="showIf" className="text-xs font-normal cursor-pointer">
+            <Eye className="w-3.5 h-3.5" />
+            Show only if…
+          </Label>
+        </div>
+
+        {condition && (
+          <div className="space-y-2 pl-6">
+            <Input
+              value={condition.variable}
+              onChange={(e) => updateCondition({ variable: e.target.value.trim() })}
+              disabled={isLocked}
+              placeholder="variable, e.g. plan"
+              className="h-8 text-sm font-mono"
+            />
+            <Select
+              value={condition.operator}
+              onValueChange={(value) => updateCondition({ operator: value as ConditionOperator })}
+              disabled={isLocked}
+            >
+              <SelectTrigger className="h-8 text-sm w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITION_OPERATORS.map((operator) => (
+                  <SelectItem key={operator.value} value={operator.value}>
+                    {operator.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {operatorNeedsValue(condition.operator) && (
+              <Input
+                value={condition.value ?? ""}
+                onChange={(e) => updateCondition({ value: e.target.value })}
+                disabled={isLocked}
+                placeholder="value"
+                className="h-8 text-sm"
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Repeat */}
+      {node.type !== "mj-body" && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="repeat"
+              checked={!!repeat}
+              disabled={isLocked}
+              onChange={(e) =>
+                updateNodeRepeat(
+                  node.id,
+                  e.target.checked ? { alias: "item", source: "items" } : undefined
+                )
+              }
+              className="h-4 w-4 rounded border-input"
+            />
+            <Label htmlFor="repeat" className="text-xs font-normal cursor-pointer">
+              <Repeat className="w-3.5 h-3.5" />
+              Repeat for each item
+            </Label>
+          </div>
+
+          {repeat && (
+            <div className="space-y-2 pl-6">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={repeat.alias}
+                  onChange={(e) =>
+                    updateNodeRepeat(node.id, { ...repeat, alias: e.target.value.trim() })
+                  }
+                  disabled={isLocked}
+                  placeholder="item"
+                  className="h-8 text-sm font-mono w-24"
+                />
+                <span className="text-xs text-muted-foreground">in</span>
+                <Input
+                  value={repeat.source}
+                  onChange={(e) =>
+                    updateNodeRepeat(node.id, { ...repeat, source: e.target.value.trim() })
+                  }
+                  disabled={isLocked}
+                  placeholder="order.items"
+                  className="h-8 text-sm font-mono flex-1"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Use {`{{${repeat.alias || "item"}.name}}`} inside this block to show fields of each
+                item.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Separator />
+    </div>
+  );
+});
@@ -13,6 +13,10 @@ import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
 import { ContentEditor } from "./ContentEditor";
 import { ChildrenEditor } from "./ChildrenEditor";
 import { PropertyField } from "./PropertyField";
+import { DynamicContentEditor } from "./DynamicContentEditor";
+import { BulkProperties } from "./BulkProperties";
+import { SavedBlockEditor } from "./SavedBlockEditor";
+import { ButtonStyleField } from "./ButtonStyleField";
 
 // Components that have editable child elements
 const COMPONENTS_WITH_CHILDREN_EDITOR = ["mj-social", "mj-navbar", "mj-accordion", "mj-carousel"];
@@ -22,6 +26,11 @@ export const Properties = memo(function Properties() {
   const selectedNode = useSelectedNode();
   const selectedId = useEditorStore((s) => s.selectedId);
   const isLocked = useIsNodeLocked(selectedId || "");
+  const selectedCount = useEditorStore((s) => s.selectedIds.length);
+
+  if (selectedCount > 1) {
+    return <BulkProperties />;
+  }
 
   if (!selectedNode) {
     return (
@@ -98,6 +107,17 @@ export const Properties = memo(function Properties() {
           {/* Children Editor for components with child elements */}
           {hasChildrenEditor && <ChildrenEditor node={selectedNode} isLocked={isLocked} />}
 
+          {/* Save as a reusable block, or the synced block it belongs to */}
+          <SavedBlockEditor node={selectedNode} />
+
+          {/* Show-if condition and repeat binding */}
+          <DynamicContentEditor node={selectedNode} isLocked={isLocked} />
+
+          {/* Brand kit button style */}
+          {selectedNode.type === "mj-button" && (
+            <ButtonStyleField node={selectedNode} isLocked={isLocked} />
+          )}
+
           {/* Property Fields */}
           {def?.propsSchema.map((schema) => (
             <PropertyField
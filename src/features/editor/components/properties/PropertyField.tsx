@@ -4,8 +4,8 @@
 
 "use client";
 
-import { memo, useCallback, useState } from "react";
-import { AlignLeft, AlignCenter, AlignRight } from "lucide-react";
+import { memo, useCallback, useRef, useState } from "react";
+import { AlignLeft, AlignCenter, AlignRight, Braces, Unlink } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -16,13 +16,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useEditorStore } from "@/features/editor/stores";
-import type { EditorNode, PropSchema } from "@/features/editor/types";
+import { useEditorStore, useBrandKitStore, selectBrandKit } from "@/features/editor/stores";
+import { InsertVariablePopover } from "@/features/editor/components/merge-tags";
+import { formatMergeTag } from "@/features/editor/lib/merge-tags";
+import { findToken } from "@/features/editor/lib/brand-kit";
+import type { BrandToken, BrandTokenGroup, EditorNode, PropSchema } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
 
 interface PropertyFieldProps {
   schema: PropSchema;
   node: EditorNode;
   isLocked?: boolean;
+  // Apply changes to all of these nodes instead of just node (bulk editing)
+  nodeIds?: string[];
 }
 
 // Separate component for text-based inputs to manage local state properly
@@ -33,14 +39,17 @@ const TextInputField = memo(function TextInputField({
   placeholder,
   type = "text",
   className = "h-8 text-sm",
+  allowVariables = false,
 }: {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
   type?: "text" | "number";
   className?: string;
+  allowVariables?: boolean;
 }) {
   const [localValue, setLocalValue] = useState(value);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -51,8 +60,23 @@ const TextInputField = memo(function TextInputField({
     [onChange]
   );
 
-  return (
+  // Insert a merge tag at the caret (or replace the selected text)
+  const handleInsertVariable = useCallback(
+    (name: string, fallback?: string) => {
+      const input = inputRef.current;
+      const start = input?.selectionStart ?? localValue.length;
+      const end = input?.selectionEnd ?? localValue.length;
+      const newValue =
+        localValue.slice(0, start) + formatMergeTag(name, fallback) + localValue.slice(end);
+      setLocalValue(newValue);
+      onChange(newValue);
+    },
+    [localValue, onChange]
+  );
+
+  const input = (
     <Input
+      ref={inputRef}
       type={type}
       value={localValue}
       onChange={handleChange}
@@ -60,6 +84,24 @@ const TextInputField = memo(function TextInputField({
       className={className}
     />
   );
+
+  if (!allowVariables) return input;
+
+  return (
+    <div className="flex gap-1">
+      {input}
+      <InsertVariablePopover onInsert={handleInsertVariable} align="end">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          title="Insert Variable"
+        >
+          <Braces className="w-4 h-4" />
+        </Button>
+      </InsertVariablePopover>
+    </div>
+  );
 });
 
 // Separate component for textarea to manage local state properly
@@ -146,25 +188,157 @@ const ColorInputField = memo(function ColorInputField({
   );
 });
 
+// Brand kit tokens a field offers, by what the prop sets
+function getTokenGroup(schema: PropSchema): BrandTokenGroup | null {
+  if (schema.type === "color") return "colors";
+  if (schema.key === "font-family") return "fonts";
+  if (schema.type === "size" && (schema.key.includes("padding") || schema.key === "height")) {
+    return "spacing";
+  }
+  return null;
+}
+
+// Brand kit tokens the field can be bound to: swatches for colors, names otherwise
+const TokenOptions = memo(function TokenOptions({
+  group,
+  tokens,
+  boundId,
+  onSelect,
+}: {
+  group: BrandTokenGroup;
+  tokens: BrandToken[];
+  boundId?: string;
+  onSelect: (token: BrandToken) => void;
+}) {
+  if (tokens.length === 0) return null;
+
+  if (group === "colors") {
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {tokens.map((token) => (
+          <button
+            key={token.id}
+            type="button"
+            title={`${token.name} (${token.value})`}
+            onClick={() => onSelect(token)}
+            className={cn(
+              "w-5 h-5 rounded-full border border-input",
+              token.id === boundId && "ring-2 ring-blue-500 ring-offset-1"
+            )}
+            style={{ backgroundColor: token.value }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tokens.map((token) => (
+        <button
+          key={token.id}
+          type="button"
+          title={token.value}
+          onClick={() => onSelect(token)}
+          className={cn(
+            "px-1.5 py-0.5 text-xs rounded border transition-colors",
+            token.id === boundId
+              ? "border-blue-500 bg-blue-50 text-blue-700"
+              : "border-border hover:bg-muted"
+          )}
+        >
+          {token.name}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+// A prop bound to a brand kit token follows the kit; detaching keeps the current value
+const BoundTokenField = memo(function BoundTokenField({
+  name,
+  value,
+  isColor,
+  onDetach,
+}: {
+  name: string;
+  value: string;
+  isColor: boolean;
+  onDetach: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 h-8 pl-2 rounded-md border border-input bg-background text-sm">
+      {isColor && (
+        <span
+          className="w-4 h-4 rounded-full border border-input flex-shrink-0"
+          style={{ backgroundColor: value }}
+        />
+      )}
+      <span className="font-medium truncate">{name}</span>
+      <span className="text-xs text-muted-foreground truncate">{value}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 ml-auto flex-shrink-0"
+        onClick={onDetach}
+        title="Detach from brand kit"
+      >
+        <Unlink className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+});
+
 export const PropertyField = memo(function PropertyField({
   schema,
   node,
   isLocked = false,
+  nodeIds,
 }: PropertyFieldProps) {
   const updateNodeProps = useEditorStore((s) => s.updateNodeProps);
+  const updateNodesProps = useEditorStore((s) => s.updateNodesProps);
+  const setNodesTokens = useEditorStore((s) => s.setNodesTokens);
+  const brandKit = useBrandKitStore(selectBrandKit);
   const value = node.props[schema.key];
+  const tokenId = node.tokens?.[schema.key];
+  const tokenGroup = getTokenGroup(schema);
 
   const handleChange = useCallback(
     (newValue: string | number | undefined) => {
       if (isLocked) return;
-      updateNodeProps(node.id, { [schema.key]: newValue });
+      if (nodeIds) {
+        updateNodesProps(nodeIds, { [schema.key]: newValue });
+      } else {
+        updateNodeProps(node.id, { [schema.key]: newValue });
+      }
+    },
+    [node.id, nodeIds, schema.key, updateNodeProps, updateNodesProps, isLocked]
+  );
+
+  const handleTokenSelect = useCallback(
+    (token: BrandToken) => {
+      if (isLocked) return;
+      setNodesTokens(
+        nodeIds ?? [node.id],
+        { [schema.key]: { id: token.id, value: token.value } },
+        brandKit.id
+      );
     },
-    [node.id, schema.key, updateNodeProps, isLocked]
+    [node.id, nodeIds, schema.key, setNodesTokens, brandKit.id, isLocked]
   );
 
   // Use combined key to reset input state when node or schema changes
   const fieldKey = `${node.id}-${schema.key}`;
 
+  const tokenOptions = tokenGroup && (
+    <TokenOptions
+      group={tokenGroup}
+      tokens={brandKit[tokenGroup]}
+      boundId={tokenId}
+      onSelect={handleTokenSelect}
+    />
+  );
+
   // If locked, render as disabled
   if (isLocked) {
     return (
@@ -179,6 +353,25 @@ export const PropertyField = memo(function PropertyField({
     );
   }
 
+  if (tokenId) {
+    const name =
+      findToken(brandKit, tokenId)?.name ??
+      brandKit.buttonStyles.find((style) => style.id === tokenId)?.name ??
+      "Deleted token";
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs">{schema.label}</Label>
+        <BoundTokenField
+          name={name}
+          value={value !== undefined ? String(value) : ""}
+          isColor={schema.type === "color"}
+          onDetach={() => handleChange(value)}
+        />
+        {tokenOptions}
+      </div>
+    );
+  }
+
   switch (schema.type) {
     case "text":
     case "size":
@@ -191,7 +384,9 @@ export const PropertyField = memo(function PropertyField({
             value={(value as string) || ""}
             onChange={handleChange}
             placeholder={schema.placeholder || schema.defaultValue?.toString()}
+            allowVariables={schema.type !== "size"}
           />
+          {tokenOptions}
         </div>
       );
 
@@ -232,6 +427,7 @@ export const PropertyField = memo(function PropertyField({
             onChange={handleChange}
             placeholder={schema.defaultValue?.toString()}
           />
+          {tokenOptions}
         </div>
       );
 
@@ -251,6 +447,7 @@ export const PropertyField = memo(function PropertyField({
               ))}
             </SelectContent>
           </Select>
+          {tokenOptions}
         </div>
       );
 
@@ -0,0 +1,230 @@
+/**
+ * Saved block editor - save a node as a reusable block, or manage the synced
+ * instance it belongs to
+ */
+
+"use client";
+
+import { memo, useCallback, useId, useState } from "react";
+import { BookmarkPlus, Link2, Unlink, Upload, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  useEditorStore,
+  useBlocksStore,
+  useSavedBlock,
+  useUIStore,
+  isNodeOrAncestorLocked,
+} from "@/features/editor/stores";
+import { findBlockInstance, isInstanceModified } from "@/features/editor/lib/blocks";
+import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import type { EditorNode } from "@/features/editor/types";
+
+interface SaveBlockDialogProps {
+  node: EditorNode;
+}
+
+const SaveBlockDialog = memo(function SaveBlockDialog({ node }: SaveBlockDialogProps) {
+  const blocks = useBlocksStore((s) => s.blocks);
+  const saveBlock = useBlocksStore((s) => s.saveBlock);
+  const setActiveTab = useUIStore((s) => s.setActiveTab);
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("");
+  const formId = useId();
+
+  const categories = Array.from(new Set(blocks.map((block) => block.category)));
+
+  const handleOpenChange = useCallback(
+    (nextOpen: boolean) => {
+      if (nextOpen) {
+        setName(node.label || componentDefinitions[node.type]?.name || "");
+        setCategory("");
+      }
+      setOpen(nextOpen);
+    },
+    [node.label, node.type]
+  );
+
+  const handleSave = useCallback(async () => {
+    await saveBlock(node, name, category);
+    setOpen(false);
+    setActiveTab("blocks");
+  }, [node, name, category, saveBlock, setActiveTab]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full h-8 text-xs">
+          <BookmarkPlus className="w-3.5 h-3.5" />
+          Save as block
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as block</DialogTitle>
+          <DialogDescription>
+            Add this element and everything inside it to your saved blocks, to reuse it in any
+            email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleSave();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor={`${formId}-name`}>Name</Label>
+            <Input
+              id={`${formId}-name`}
+              value={name}
+              autoFocus
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Footer with social links"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${formId}-category`}>Category</Label>
+            <Input
+              id={`${formId}-category`}
+              value={category}
+              list={`${formId}-categories`}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="General"
+            />
+            <datalist id={`${formId}-categories`}>
+              {categories.map((existing) => (
+                <option key={existing} value={existing} />
+              ))}
+            </datalist>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              Save block
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+interface SavedBlockEditorProps {
+  node: EditorNode;
+}
+
+export const SavedBlockEditor = memo(function SavedBlockEditor({ node }: SavedBlockEditorProps) {
+  const document = useEditorStore((s) => s.document);
+  const syncBlockInstances = useEditorStore((s) => s.syncBlockInstances);
+  const detachBlockInstance = useEditorStore((s) => s.detachBlockInstance);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+  const updateMasterFromInstance = useBlocksStore((s) => s.updateMasterFromInstance);
+
+  const instance = findBlockInstance(document, node.id);
+  const block = useSavedBlock(instance?.block?.blockId);
+
+  if (!instance) {
+    // The body is the whole email, not a block
+    return node.type === "mj-body" ? null : <SaveBlockDialog node={node} />;
+  }
+
+  const isModified = block ? isInstanceModified(instance, block) : false;
+  // The instance may be an ancestor of the selected node
+  const isLocked = isNodeOrAncestorLocked(document, instance.id);
+
+  return (
+    <div className="rounded-lg border border-violet-200 bg-violet-50 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm text-violet-800">
+        <Link2 className="w-4 h-4 flex-shrink-0" />
+        <span className="min-w-0 truncate">
+          {block ? (
+            <>
+              Synced block <span className="font-medium">{block.name}</span>
+            </>
+          ) : (
+            "Synced block (deleted)"
+          )}
+        </span>
+        {isModified && (
+          <span className="ml-auto px-1.5 py-0.5 text-xs rounded bg-violet-100 text-violet-700 flex-shrink-0">
+            Modified
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-violet-700/80">
+        {block
+          ? isModified
+            ? "Update the block to use these changes in every email, or reset to the block's content."
+            : "Changes to this block update it in every email that uses it."
+          : "The saved block no longer exists. Detach to keep this content as regular elements."}
+      </p>
+
+      {instance.id !== node.id && (
+        <button
+          type="button"
+          onClick={() => setSelectedId(instance.id)}
+          className="text-xs text-violet-700 hover:underline"
+        >
+          Select the whole block
+        </button>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {block && isModified && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs bg-background"
+              onClick={() => void updateMasterFromInstance(instance.id)}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Update block
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs bg-background"
+              disabled={isLocked}
+              onClick={() => syncBlockInstances([block], [instance.id])}
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset
+            </Button>
+          </>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs bg-background"
+          disabled={isLocked}
+          onClick={() => detachBlockInstance(instance.id)}
+          title="Keep the content, but stop updating it from the block"
+        >
+          <Unlink className="w-3.5 h-3.5" />
+          Detach
+        </Button>
+      </div>
+    </div>
+  );
+});
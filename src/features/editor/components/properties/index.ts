@@ -6,3 +6,7 @@ export { Properties } from "./Properties";
 export { ContentEditor } from "./ContentEditor";
 export { ChildrenEditor } from "./ChildrenEditor";
 export { PropertyField } from "./PropertyField";
+export { DynamicContentEditor } from "./DynamicContentEditor";
+export { BulkProperties } from "./BulkProperties";
+export { SavedBlockEditor } from "./SavedBlockEditor";
+export { ButtonStyleField } from "./ButtonStyleField";
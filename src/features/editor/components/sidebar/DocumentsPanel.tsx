@@ -0,0 +1,187 @@
+/**
+ * Documents panel - "My Emails" library of saved documents
+ */
+
+"use client";
+
+import { memo, useCallback, useState } from "react";
+import { Plus, MoreHorizontal, Pencil, Copy, Trash2, Mail } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useDocumentsStore } from "@/features/editor/stores";
+import type { SavedDocument } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+// Format a timestamp relative to now ("5 min ago", "Yesterday", ...)
+function formatLastEdited(timestamp: number): string {
+  const diffMinutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMinutes < 1) return "Just now";
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours} h ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays === 1) return "Yesterday";
+  if (diffDays < 7) return `${diffDays} days ago`;
+
+  return new Date(timestamp).toLocaleDateString();
+}
+
+// Scaled-down rendering of the compiled email
+const DocumentThumbnail = memo(function DocumentThumbnail({ html }: { html?: string }) {
+  if (!html) {
+    return (
+      <div className="w-12 h-16 rounded-md bg-gradient-to-br from-muted to-muted-foreground/20 flex items-center justify-center flex-shrink-0">
+        <Mail className="w-4 h-4 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-12 h-16 rounded-md border border-border bg-white overflow-hidden flex-shrink-0 relative">
+      <iframe
+        srcDoc={html}
+        title="Email thumbnail"
+        tabIndex={-1}
+        loading="lazy"
+        sandbox=""
+        className="absolute top-0 left-0 border-0 pointer-events-none origin-top-left"
+        style={{ width: "600px", height: "800px", transform: "scale(0.08)" }}
+      />
+    </div>
+  );
+});
+
+interface DocumentItemProps {
+  doc: SavedDocument;
+  isActive: boolean;
+}
+
+const DocumentItem = memo(function DocumentItem({ doc, isActive }: DocumentItemProps) {
+  const openDocument = useDocumentsStore((s) => s.openDocument);
+  const renameDocument = useDocumentsStore((s) => s.renameDocument);
+  const duplicateDocument = useDocumentsStore((s) => s.duplicateDocument);
+  const deleteDocument = useDocumentsStore((s) => s.deleteDocument);
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(doc.name);
+
+  const startRename = useCallback(() => {
+    setDraftName(doc.name);
+    setIsRenaming(true);
+  }, [doc.name]);
+
+  const commitRename = useCallback(() => {
+    setIsRenaming(false);
+    void renameDocument(doc.id, draftName);
+  }, [doc.id, draftName, renameDocument]);
+
+  const handleDelete = useCallback(() => {
+    if (confirm(`Delete "${doc.name}"? This cannot be undone.`)) {
+      void deleteDocument(doc.id);
+    }
+  }, [doc.id, doc.name, deleteDocument]);
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-3 p-2 rounded-lg border bg-background transition-all duration-200",
+        isActive ? "border-primary/60 bg-accent/50" : "border-border hover:border-primary/50"
+      )}
+    >
+      {isRenaming ? (
+        <div className="flex flex-1 min-w-0 items-center gap-3">
+          <DocumentThumbnail html={doc.thumbnailHtml} />
+          <Input
+            value={draftName}
+            autoFocus
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            className="h-7 text-sm"
+          />
+        </div>
+      ) : (
+        <button
+          className="flex flex-1 min-w-0 items-center gap-3 text-left focus:outline-none"
+          onClick={() => openDocument(doc.id)}
+          onDoubleClick={startRename}
+        >
+          <DocumentThumbnail html={doc.thumbnailHtml} />
+          <div className="min-w-0 flex-1">
+            <div className="font-medium text-sm truncate">{doc.name}</div>
+            <div className="text-xs text-muted-foreground">
+              {isActive ? "Editing · " : ""}
+              {formatLastEdited(doc.updatedAt)}
+            </div>
+          </div>
+        </button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 flex-shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-40">
+          <DropdownMenuItem onClick={startRename}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => duplicateDocument(doc.id)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+});
+
+export const DocumentsPanel = memo(function DocumentsPanel() {
+  const documents = useDocumentsStore((s) => s.documents);
+  const activeDocumentId = useDocumentsStore((s) => s.activeDocumentId);
+  const createDocument = useDocumentsStore((s) => s.createDocument);
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-3 space-y-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-8 text-xs"
+          onClick={() => createDocument()}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          New Email
+        </Button>
+
+        {documents.map((doc) => (
+          <DocumentItem key={doc.id} doc={doc} isActive={doc.id === activeDocumentId} />
+        ))}
+      </div>
+    </ScrollArea>
+  );
+});
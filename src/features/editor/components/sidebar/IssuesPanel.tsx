@@ -0,0 +1,107 @@
+/**
+ * Issues panel - accessibility problems in the current email
+ */
+
+"use client";
+
+import { memo, useMemo } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useEditorStore } from "@/features/editor/stores";
+import {
+  countAccessibilityIssues,
+  runAccessibilityChecks,
+  type AccessibilityCheck,
+} from "@/features/editor/lib/accessibility";
+import { cn } from "@/lib/utils";
+
+interface IssueGroupProps {
+  check: AccessibilityCheck;
+  selectedId: string | null;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const IssueGroup = memo(function IssueGroup({ check, selectedId, onSelectNode }: IssueGroupProps) {
+  const isError = check.severity === "error";
+  const Icon = isError ? AlertCircle : AlertTriangle;
+
+  return (
+    <div className="rounded-lg border bg-background">
+      <div className="flex items-center gap-2 px-2.5 py-2 text-xs font-medium border-b">
+        <Icon className={cn("w-3.5 h-3.5 shrink-0", isError ? "text-red-600" : "text-amber-600")} />
+        <span className="flex-1">{check.label}</span>
+        <span className="text-muted-foreground">{check.issues.length}</span>
+      </div>
+      <ul className="py-1">
+        {check.issues.map(({ message, nodeId }, index) => (
+          <li key={index}>
+            {nodeId ? (
+              <button
+                type="button"
+                onClick={() => onSelectNode(nodeId)}
+                className={cn(
+                  "w-full px-2.5 py-1.5 text-left text-xs break-words hover:bg-muted/50 transition-colors",
+                  nodeId === selectedId ? "bg-accent/50" : "text-muted-foreground"
+                )}
+              >
+                {message}
+              </button>
+            ) : (
+              <p className="px-2.5 py-1.5 text-xs text-muted-foreground break-words">
+                {message}
+                <span className="block mt-0.5 text-[11px]">Set it in Head Settings</span>
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+export const IssuesPanel = memo(function IssuesPanel() {
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+  const selectedId = useEditorStore((s) => s.selectedId);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+
+  const checks = useMemo(
+    () => runAccessibilityChecks(document, headSettings),
+    [document, headSettings]
+  );
+  const failed = checks.filter((check) => check.issues.length > 0);
+  const passed = checks.filter((check) => check.issues.length === 0);
+  const issueCount = countAccessibilityIssues(checks);
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-3 space-y-2">
+        <p className="text-xs text-muted-foreground">
+          {issueCount === 0
+            ? "No accessibility issues found"
+            : `${issueCount} accessibility issue${issueCount === 1 ? "" : "s"} · click one to select the block`}
+        </p>
+
+        {failed.map((check) => (
+          <IssueGroup
+            key={check.id}
+            check={check}
+            selectedId={selectedId}
+            onSelectNode={setSelectedId}
+          />
+        ))}
+
+        {passed.length > 0 && (
+          <div className="space-y-1 pt-1">
+            {passed.map((check) => (
+              <p key={check.id} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-green-600" />
+                {check.label}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  );
+});
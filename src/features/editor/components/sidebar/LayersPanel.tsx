@@ -0,0 +1,462 @@
+/**
+ * Layers panel - the whole document as a collapsible tree, with drag to reorder,
+ * renameable layers and multi-selection
+ */
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragMoveEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import {
+  Type,
+  Image,
+  Minus,
+  Space,
+  Table,
+  Code,
+  MousePointerClick,
+  Menu,
+  ChevronDown,
+  ChevronRight,
+  GalleryHorizontal,
+  Share2,
+  Rows3,
+  Columns3,
+  Group,
+  Square,
+  LayoutTemplate,
+  Lock,
+} from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useEditorStore } from "@/features/editor/stores";
+import { canContain, componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import type { EditorNode } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+// Icon mapping - avoiding barrel imports for better performance
+const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
+  Type,
+  Image,
+  Minus,
+  Space,
+  Table,
+  Code,
+  MousePointerClick,
+  Menu,
+  ChevronDown,
+  GalleryHorizontal,
+  Share2,
+  Rows3,
+  Columns3,
+  Group,
+  Square,
+  LayoutTemplate,
+};
+
+type DropPosition = "before" | "after" | "inside";
+
+interface DropTarget {
+  nodeId: string;
+  position: DropPosition;
+}
+
+// Where each node sits, and whether it is locked directly or through an ancestor
+interface LayerInfo {
+  node: EditorNode;
+  parent: EditorNode | null;
+  index: number;
+  locked: boolean;
+}
+
+function indexLayers(document: EditorNode): Map<string, LayerInfo> {
+  const layers = new Map<string, LayerInfo>();
+
+  const visit = (node: EditorNode, parent: EditorNode | null, index: number, locked: boolean) => {
+    const isLocked = locked || Boolean(node.locked);
+    layers.set(node.id, { node, parent, index, locked: isLocked });
+    node.children?.forEach((child, childIndex) => visit(child, node, childIndex, isLocked));
+  };
+  visit(document, null, 0, false);
+
+  return layers;
+}
+
+// Parent first, up to the body
+function getAncestorIds(layers: Map<string, LayerInfo>, nodeId: string): string[] {
+  const ids: string[] = [];
+  for (let info = layers.get(nodeId); info?.parent; info = layers.get(info.parent.id)) {
+    ids.push(info.parent.id);
+  }
+  return ids;
+}
+
+function getLayerName(node: EditorNode): string {
+  return node.label || componentDefinitions[node.type]?.name || node.type;
+}
+
+interface LayerItemProps {
+  node: EditorNode;
+  depth: number;
+  layers: Map<string, LayerInfo>;
+  collapsed: Set<string>;
+  draggingIds: string[];
+  dropTarget: DropTarget | null;
+  onToggle: (nodeId: string) => void;
+}
+
+const LayerItem = memo(function LayerItem({
+  node,
+  depth,
+  layers,
+  collapsed,
+  draggingIds,
+  dropTarget,
+  onToggle,
+}: LayerItemProps) {
+  const isSelected = useEditorStore((s) => s.selectedIds.includes(node.id));
+  const isHovered = useEditorStore((s) => s.hoveredId === node.id);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+  const toggleSelectedId = useEditorStore((s) => s.toggleSelectedId);
+  const setHoveredId = useEditorStore((s) => s.setHoveredId);
+  const updateNodeLabel = useEditorStore((s) => s.updateNodeLabel);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const rowRef = useRef<HTMLDivElement | null>(null);
+  // Escape leaves the name as it was
+  const cancelEditRef = useRef(false);
+
+  const def = componentDefinitions[node.type];
+  const Icon = iconMap[def?.icon] || Square;
+  const isLocked = layers.get(node.id)?.locked ?? false;
+  const isBody = node.type === "mj-body";
+  const hasChildren = Boolean(node.children?.length);
+  const isCollapsed = collapsed.has(node.id);
+  // The dragged layers and everything inside them can't be drop targets
+  const isDragged =
+    draggingIds.length > 0 &&
+    [node.id, ...getAncestorIds(layers, node.id)].some((id) => draggingIds.includes(id));
+  const dropPosition = dropTarget?.nodeId === node.id ? dropTarget.position : null;
+
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDraggableRef,
+  } = useDraggable({ id: node.id, disabled: isBody || isLocked || isEditing });
+  const { setNodeRef: setDroppableRef } = useDroppable({ id: node.id, disabled: isDragged });
+
+  const setRefs = useCallback(
+    (element: HTMLDivElement | null) => {
+      rowRef.current = element;
+      setDraggableRef(element);
+      setDroppableRef(element);
+    },
+    [setDraggableRef, setDroppableRef]
+  );
+
+  // Keep the selection in view when it changes on the canvas
+  useEffect(() => {
+    if (isSelected) rowRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isSelected]);
+
+  const commitLabel = (value: string) => {
+    setIsEditing(false);
+    if (cancelEditRef.current) {
+      cancelEditRef.current = false;
+      return;
+    }
+    if (value.trim() !== (node.label ?? "")) updateNodeLabel(node.id, value);
+  };
+
+  return (
+    <div>
+      <div
+        ref={setRefs}
+        {...attributes}
+        {...listeners}
+        role="treeitem"
+        aria-selected={isSelected}
+        aria-expanded={hasChildren ? !isCollapsed : undefined}
+        onClick={(e) => {
+          // Shift or Cmd/Ctrl adds to (or removes from) the selection
+          if (e.shiftKey || e.metaKey || e.ctrlKey) {
+            toggleSelectedId(node.id);
+          } else {
+            setSelectedId(node.id);
+          }
+        }}
+        onMouseEnter={() => setHoveredId(node.id)}
+        onMouseLeave={() => setHoveredId(null)}
+        style={{ paddingLeft: depth * 12 + 4 }}
+        className={cn(
+          "relative flex items-center gap-1.5 h-7 pr-2 rounded text-xs cursor-pointer select-none transition-colors",
+          isSelected ? "bg-accent text-accent-foreground" : isHovered && "bg-muted",
+          isDragged && "opacity-40",
+          dropPosition === "inside" && "ring-2 ring-inset ring-primary",
+          dropPosition === "before" &&
+            "before:absolute before:inset-x-0 before:top-0 before:h-0.5 before:bg-primary",
+          dropPosition === "after" &&
+            "after:absolute after:inset-x-0 after:bottom-0 after:h-0.5 after:bg-primary"
+        )}
+      >
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-label={isCollapsed ? "Expand" : "Collapse"}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle(node.id);
+          }}
+          onPointerDown={(e) => e.stopPropagation()}
+          className={cn(
+            "w-4 h-4 flex items-center justify-center rounded text-muted-foreground hover:text-foreground",
+            !hasChildren && "invisible"
+          )}
+        >
+          {isCollapsed ? (
+            <ChevronRight className="w-3.5 h-3.5" />
+          ) : (
+            <ChevronDown className="w-3.5 h-3.5" />
+          )}
+        </button>
+        <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+
+        {isEditing ? (
+          <input
+            autoFocus
+            defaultValue={node.label ?? ""}
+            placeholder={def?.name || node.type}
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Escape") cancelEditRef.current = true;
+              if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+            }}
+            onBlur={(e) => commitLabel(e.currentTarget.value)}
+            className="flex-1 min-w-0 h-5 px-1 rounded border border-input bg-background text-xs outline-none focus:ring-1 focus:ring-ring"
+          />
+        ) : (
+          <span
+            onDoubleClick={() => !isLocked && setIsEditing(true)}
+            title={isLocked ? undefined : "Double-click to rename"}
+            className={cn("flex-1 truncate", node.label && "font-medium")}
+          >
+            {getLayerName(node)}
+          </span>
+        )}
+
+        {node.locked && <Lock className="w-3 h-3 shrink-0 text-amber-600" />}
+      </div>
+
+      {hasChildren && !isCollapsed && (
+        <div role="group">
+          {node.children!.map((child) => (
+            <LayerItem
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              layers={layers}
+              collapsed={collapsed}
+              draggingIds={draggingIds}
+              dropTarget={dropTarget}
+              onToggle={onToggle}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const LayersPanel = memo(function LayersPanel() {
+  const document = useEditorStore((s) => s.document);
+  const selectedId = useEditorStore((s) => s.selectedId);
+  const selectedIds = useEditorStore((s) => s.selectedIds);
+  const moveNode = useEditorStore((s) => s.moveNode);
+  const moveNodes = useEditorStore((s) => s.moveNodes);
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const layers = useMemo(() => indexLayers(document), [document]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Start drag after 8px movement, so clicks still select
+      },
+    })
+  );
+
+  // Expand the ancestors of a layer selected on the canvas
+  const [revealedId, setRevealedId] = useState(selectedId);
+  if (selectedId !== revealedId) {
+    setRevealedId(selectedId);
+    const ancestors = selectedId ? getAncestorIds(layers, selectedId) : [];
+    if (ancestors.some((id) => collapsed.has(id))) {
+      setCollapsed(new Set([...collapsed].filter((id) => !ancestors.includes(id))));
+    }
+  }
+
+  const handleToggle = useCallback((nodeId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  }, []);
+
+  // Drop on the middle of a layer that accepts the dragged ones to nest them,
+  // otherwise before or after it
+  const getDropTarget = useCallback(
+    ({ over, activatorEvent, delta }: DragMoveEvent): DropTarget | null => {
+      if (!over || !(activatorEvent instanceof PointerEvent)) return null;
+
+      const target = layers.get(over.id as string);
+      if (!target || draggingIds.length === 0) return null;
+      const accepts = (parent: EditorNode) =>
+        draggingIds.every((id) => {
+          const dragged = layers.get(id);
+          return dragged !== undefined && canContain(parent.type, dragged.node.type);
+        });
+
+      const ratio = (activatorEvent.clientY + delta.y - over.rect.top) / over.rect.height;
+      const canNest = !target.locked && accepts(target.node);
+      const canPlaceBeside =
+        target.parent !== null &&
+        !target.locked &&
+        !layers.get(target.parent.id)?.locked &&
+        accepts(target.parent);
+
+      if (canNest && (!canPlaceBeside || (ratio > 0.25 && ratio < 0.75))) {
+        return { nodeId: target.node.id, position: "inside" };
+      }
+      if (canPlaceBeside) {
+        return { nodeId: target.node.id, position: ratio < 0.5 ? "before" : "after" };
+      }
+      return null;
+    },
+    [layers, draggingIds]
+  );
+
+  // Dragging one of several selected layers drags all of them that can move
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      const activeId = event.active.id as string;
+      const movable = selectedIds.filter((id) => {
+        const info = layers.get(id);
+        return info?.parent && !info.locked;
+      });
+      // The active layer first, for the drag preview
+      setDraggingIds(
+        movable.includes(activeId)
+          ? [activeId, ...movable.filter((id) => id !== activeId)]
+          : [activeId]
+      );
+    },
+    [layers, selectedIds]
+  );
+
+  const handleDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      const next = getDropTarget(event);
+      setDropTarget((current) =>
+        current?.nodeId === next?.nodeId && current?.position === next?.position ? current : next
+      );
+    },
+    [getDropTarget]
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const target = getDropTarget(event);
+      const nodeIds = draggingIds;
+      setDraggingIds([]);
+      setDropTarget(null);
+      if (!target) return;
+
+      const info = layers.get(target.nodeId);
+      if (!info) return;
+      const move = (parentId: string, index: number) =>
+        nodeIds.length > 1
+          ? moveNodes(nodeIds, parentId, index)
+          : moveNode(nodeIds[0], parentId, index);
+
+      if (target.position === "inside") {
+        move(info.node.id, info.node.children?.length ?? 0);
+        // Show where it went
+        setCollapsed((current) => {
+          if (!current.has(info.node.id)) return current;
+          const next = new Set(current);
+          next.delete(info.node.id);
+          return next;
+        });
+      } else if (info.parent) {
+        move(info.parent.id, info.index + (target.position === "after" ? 1 : 0));
+      }
+    },
+    [getDropTarget, draggingIds, layers, moveNode, moveNodes]
+  );
+
+  const handleDragCancel = useCallback(() => {
+    setDraggingIds([]);
+    setDropTarget(null);
+  }, []);
+
+  const draggedNode = draggingIds.length > 0 ? layers.get(draggingIds[0])?.node : undefined;
+  const DraggedIcon = draggedNode
+    ? iconMap[componentDefinitions[draggedNode.type]?.icon] || Square
+    : null;
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <ScrollArea className="h-full">
+        <div role="tree" className="p-2">
+          <LayerItem
+            node={document}
+            depth={0}
+            layers={layers}
+            collapsed={collapsed}
+            draggingIds={draggingIds}
+            dropTarget={dropTarget}
+            onToggle={handleToggle}
+          />
+        </div>
+      </ScrollArea>
+
+      <DragOverlay dropAnimation={null}>
+        {draggedNode && DraggedIcon && (
+          <div className="inline-flex items-center gap-1.5 h-7 px-2 rounded border bg-background shadow-md text-xs">
+            <DraggedIcon className="w-3.5 h-3.5 text-muted-foreground" />
+            {getLayerName(draggedNode)}
+            {draggingIds.length > 1 && (
+              <span className="text-muted-foreground">+{draggingIds.length - 1}</span>
+            )}
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+});
@@ -0,0 +1,259 @@
+/**
+ * Saved blocks panel - reusable blocks dragged into the email, optionally as synced instances
+ */
+
+"use client";
+
+import { memo, useCallback, useId, useState } from "react";
+import { useDraggable } from "@dnd-kit/core";
+import {
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  Link2,
+  Type,
+  Image,
+  Minus,
+  Space,
+  Table,
+  Code,
+  MousePointerClick,
+  Menu,
+  ChevronDown,
+  GalleryHorizontal,
+  Share2,
+  Rows3,
+  Columns3,
+  Group,
+  Square,
+  LayoutTemplate,
+} from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useBlocksStore } from "@/features/editor/stores";
+import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import type { SavedBlock } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+// Icon mapping - avoiding barrel imports for better performance
+const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
+  Type,
+  Image,
+  Minus,
+  Space,
+  Table,
+  Code,
+  MousePointerClick,
+  Menu,
+  ChevronDown,
+  GalleryHorizontal,
+  Share2,
+  Rows3,
+  Columns3,
+  Group,
+  Square,
+  LayoutTemplate,
+};
+
+interface SavedBlockItemProps {
+  block: SavedBlock;
+  synced: boolean;
+  idPrefix: string;
+}
+
+const SavedBlockItem = memo(function SavedBlockItem({
+  block,
+  synced,
+  idPrefix,
+}: SavedBlockItemProps) {
+  const renameBlock = useBlocksStore((s) => s.renameBlock);
+  const deleteBlock = useBlocksStore((s) => s.deleteBlock);
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(block.name);
+
+  const def = componentDefinitions[block.node.type];
+  const IconComponent = def ? iconMap[def.icon] : undefined;
+
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `${idPrefix}block-${block.id}`,
+    data: {
+      type: "saved-block",
+      componentType: block.node.type,
+      block,
+      synced,
+    },
+    disabled: isRenaming,
+  });
+
+  const startRename = useCallback(() => {
+    setDraftName(block.name);
+    setIsRenaming(true);
+  }, [block.name]);
+
+  const commitRename = useCallback(() => {
+    setIsRenaming(false);
+    void renameBlock(block.id, draftName);
+  }, [block.id, draftName, renameBlock]);
+
+  const handleDelete = useCallback(() => {
+    if (
+      confirm(
+        `Delete "${block.name}"? Emails that use it keep their copy, but it will no longer update.`
+      )
+    ) {
+      void deleteBlock(block.id);
+    }
+  }, [block.id, block.name, deleteBlock]);
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-2 p-2 rounded-lg border bg-background transition-all duration-200",
+        isDragging
+          ? "opacity-30 border-dashed border-blue-400 bg-blue-50/30"
+          : "border-border hover:border-blue-300 hover:bg-blue-50/50"
+      )}
+    >
+      <div
+        ref={setNodeRef}
+        {...listeners}
+        {...attributes}
+        onDoubleClick={startRename}
+        className={cn(
+          "flex flex-1 min-w-0 items-center gap-2 focus:outline-none",
+          !isRenaming && "cursor-grab active:cursor-grabbing"
+        )}
+      >
+        <div className="p-1.5 rounded-md bg-muted flex-shrink-0">
+          {IconComponent && <IconComponent className="w-4 h-4 text-muted-foreground" />}
+        </div>
+        {isRenaming ? (
+          <Input
+            value={draftName}
+            autoFocus
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            className="h-7 text-sm"
+          />
+        ) : (
+          <div className="min-w-0 flex-1">
+            <div className="font-medium text-sm truncate">{block.name}</div>
+            <div className="text-xs text-muted-foreground truncate">{def?.name}</div>
+          </div>
+        )}
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 flex-shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-40">
+          <DropdownMenuItem onClick={startRename}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+});
+
+interface SavedBlocksPanelProps {
+  idPrefix?: string;
+}
+
+export const SavedBlocksPanel = memo(function SavedBlocksPanel({
+  idPrefix = "",
+}: SavedBlocksPanelProps) {
+  const blocks = useBlocksStore((s) => s.blocks);
+  const [synced, setSynced] = useState(true);
+  const syncedInputId = useId();
+
+  // Blocks are kept sorted by category, so each category is a run
+  const categories: { name: string; blocks: SavedBlock[] }[] = [];
+  for (const block of blocks) {
+    const last = categories.at(-1);
+    if (last?.name === block.category) {
+      last.blocks.push(block);
+    } else {
+      categories.push({ name: block.category, blocks: [block] });
+    }
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-3 space-y-4">
+        <label
+          htmlFor={syncedInputId}
+          className="flex items-start gap-2 rounded-lg border border-border bg-background p-2.5 cursor-pointer"
+        >
+          <input
+            id={syncedInputId}
+            type="checkbox"
+            checked={synced}
+            onChange={(e) => setSynced(e.target.checked)}
+            className="h-4 w-4 mt-0.5 rounded border-input"
+          />
+          <span className="space-y-0.5">
+            <span className="flex items-center gap-1 text-sm font-medium">
+              <Link2 className="w-3.5 h-3.5" />
+              Insert as synced instance
+            </span>
+            <span className="block text-xs text-muted-foreground">
+              Synced instances update in every email when the block changes.
+            </span>
+          </span>
+        </label>
+
+        {categories.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center px-2 py-6">
+            No saved blocks yet. Select an element and use &quot;Save as block&quot; in the
+            properties panel.
+          </p>
+        ) : (
+          categories.map((category) => (
+            <div key={category.name}>
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2 px-1">
+                {category.name}
+              </h3>
+              <div className="space-y-2">
+                {category.blocks.map((block) => (
+                  <SavedBlockItem
+                    key={block.id}
+                    block={block}
+                    synced={synced}
+                    idPrefix={idPrefix}
+                  />
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </ScrollArea>
+  );
+});
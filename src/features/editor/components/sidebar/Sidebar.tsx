@@ -1,15 +1,25 @@
 /**
- * Sidebar component with tabs for components and templates
+ * Sidebar component with tabs for components, templates, saved documents, saved blocks,
+ * layers and issues
  */
 
 "use client";
 
-import { memo } from "react";
+import { memo, useMemo } from "react";
+import { Accessibility, Blocks, Layers } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useUIStore } from "@/features/editor/stores";
+import { useEditorStore, useUIStore } from "@/features/editor/stores";
+import {
+  countAccessibilityIssues,
+  runAccessibilityChecks,
+} from "@/features/editor/lib/accessibility";
 import type { SidebarTab } from "@/features/editor/types";
 import { ComponentsPanel } from "./ComponentsPanel";
 import { TemplatesPanel } from "./TemplatesPanel";
+import { DocumentsPanel } from "./DocumentsPanel";
+import { SavedBlocksPanel } from "./SavedBlocksPanel";
+import { LayersPanel } from "./LayersPanel";
+import { IssuesPanel } from "./IssuesPanel";
 
 interface SidebarProps {
   idPrefix?: string;
@@ -18,6 +28,13 @@ interface SidebarProps {
 export const Sidebar = memo(function Sidebar({ idPrefix = "" }: SidebarProps) {
   const activeTab = useUIStore((s) => s.activeTab);
   const setActiveTab = useUIStore((s) => s.setActiveTab);
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+
+  const issueCount = useMemo(
+    () => countAccessibilityIssues(runAccessibilityChecks(document, headSettings)),
+    [document, headSettings]
+  );
 
   return (
     <div className="h-full bg-muted/30 flex flex-col">
@@ -27,13 +44,26 @@ export const Sidebar = memo(function Sidebar({ idPrefix = "" }: SidebarProps) {
         className="flex-1 flex flex-col overflow-y-auto"
       >
         <div className="px-3 pt-3 pb-2">
-          <TabsList className="w-full grid grid-cols-2">
+          <TabsList className="w-full grid grid-cols-[repeat(3,1fr)_auto_auto_auto]">
             <TabsTrigger value="components" className="text-xs">
               Components
             </TabsTrigger>
             <TabsTrigger value="templates" className="text-xs">
               Templates
             </TabsTrigger>
+            <TabsTrigger value="documents" className="text-xs">
+              My Emails
+            </TabsTrigger>
+            <TabsTrigger value="blocks" className="text-xs" title="Saved blocks">
+              <Blocks className="w-3.5 h-3.5" />
+            </TabsTrigger>
+            <TabsTrigger value="layers" className="text-xs" title="Layers">
+              <Layers className="w-3.5 h-3.5" />
+            </TabsTrigger>
+            <TabsTrigger value="issues" className="text-xs" title="Accessibility issues">
+              <Accessibility className="w-3.5 h-3.5" />
+              {issueCount > 0 && issueCount}
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -44,6 +74,22 @@ export const Sidebar = memo(function Sidebar({ idPrefix = "" }: SidebarProps) {
         <TabsContent value="templates" className="flex-1 mt-0 overflow-hidden">
           <TemplatesPanel />
         </TabsContent>
+
+        <TabsContent value="documents" className="flex-1 mt-0 overflow-hidden">
+          <DocumentsPanel />
+        </TabsContent>
+
+        <TabsContent value="blocks" className="flex-1 mt-0 overflow-hidden">
+          <SavedBlocksPanel idPrefix={idPrefix} />
+        </TabsContent>
+
+        <TabsContent value="layers" className="flex-1 mt-0 overflow-hidden">
+          <LayersPanel />
+        </TabsContent>
+
+        <TabsContent value="issues" className="flex-1 mt-0 overflow-hidden">
+          <IssuesPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -5,4 +5,8 @@
 export { Sidebar } from "./Sidebar";
 export { ComponentsPanel } from "./ComponentsPanel";
 export { TemplatesPanel } from "./TemplatesPanel";
+export { DocumentsPanel } from "./DocumentsPanel";
+export { SavedBlocksPanel } from "./SavedBlocksPanel";
+export { LayersPanel } from "./LayersPanel";
+export { IssuesPanel } from "./IssuesPanel";
 export { DraggableComponent } from "./DraggableComponent";
@@ -0,0 +1,218 @@
+/**
+ * API Provider Settings - Provider choice and credentials for HTTP API delivery
+ * (Postmark, SendGrid, Mailgun, Amazon SES)
+ */
+
+"use client";
+
+import { memo } from "react";
+import { Cloud } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ApiCredentials, ApiProvider, SendMode } from "@/features/editor/types";
+
+interface ApiProviderField {
+  key: keyof ApiCredentials;
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  required?: boolean;
+  options?: { value: string; label: string }[];
+}
+
+interface ApiProviderInfo {
+  name: string;
+  website: string;
+  fields: ApiProviderField[];
+}
+
+export const API_PROVIDERS: Record<ApiProvider, ApiProviderInfo> = {
+  postmark: {
+    name: "Postmark",
+    website: "postmarkapp.com",
+    fields: [
+      {
+        key: "apiKey",
+        label: "Server Token",
+        placeholder: "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+        secret: true,
+        required: true,
+      },
+    ],
+  },
+  sendgrid: {
+    name: "SendGrid",
+    website: "sendgrid.com",
+    fields: [
+      {
+        key: "apiKey",
+        label: "API Key",
+        placeholder: "SG.xxxxxxxxxx",
+        secret: true,
+        required: true,
+      },
+    ],
+  },
+  mailgun: {
+    name: "Mailgun",
+    website: "mailgun.com",
+    fields: [
+      {
+        key: "apiKey",
+        label: "API Key",
+        placeholder: "key-xxxxxxxxxx",
+        secret: true,
+        required: true,
+      },
+      { key: "domain", label: "Sending Domain", placeholder: "mg.example.com", required: true },
+      {
+        key: "region",
+        label: "Region",
+        placeholder: "us",
+        options: [
+          { value: "us", label: "US" },
+          { value: "eu", label: "EU" },
+        ],
+      },
+    ],
+  },
+  ses: {
+    name: "Amazon SES",
+    website: "aws.amazon.com/ses",
+    fields: [
+      { key: "apiKey", label: "Access Key ID", placeholder: "AKIAxxxxxxxxxx", required: true },
+      {
+        key: "secretKey",
+        label: "Secret Access Key",
+        placeholder: "••••••••",
+        secret: true,
+        required: true,
+      },
+      { key: "region", label: "Region", placeholder: "us-east-1" },
+    ],
+  },
+};
+
+export const API_PROVIDER_KEYS = Object.keys(API_PROVIDERS) as ApiProvider[];
+
+export const DEFAULT_API_CREDENTIALS: Record<ApiProvider, ApiCredentials> = {
+  postmark: { apiKey: "" },
+  sendgrid: { apiKey: "" },
+  mailgun: { apiKey: "", domain: "", region: "us" },
+  ses: { apiKey: "", secretKey: "", region: "us-east-1" },
+};
+
+export function isApiProvider(mode: SendMode | string): mode is ApiProvider {
+  return API_PROVIDER_KEYS.includes(mode as ApiProvider);
+}
+
+export function isApiCredentialsComplete(
+  provider: ApiProvider,
+  credentials: ApiCredentials
+): boolean {
+  return API_PROVIDERS[provider].fields.every(
+    (field) => !field.required || !!credentials[field.key]?.trim()
+  );
+}
+
+interface ApiProviderSettingsProps {
+  provider: ApiProvider;
+  onProviderChange: (provider: ApiProvider) => void;
+  credentials: ApiCredentials;
+  onChange: (credentials: ApiCredentials) => void;
+}
+
+export const ApiProviderSettings = memo(function ApiProviderSettings({
+  provider,
+  onProviderChange,
+  credentials,
+  onChange,
+}: ApiProviderSettingsProps) {
+  const info = API_PROVIDERS[provider];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <Cloud className="w-4 h-4" />
+        API Configuration
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="apiProvider">Email Provider</Label>
+        <Select value={provider} onValueChange={(v) => onProviderChange(v as ApiProvider)}>
+          <SelectTrigger id="apiProvider" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {API_PROVIDER_KEYS.map((key) => (
+              <SelectItem key={key} value={key}>
+                {API_PROVIDERS[key].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {info.fields.map((field) => {
+        const id = `api-${field.key}`;
+        const value = credentials[field.key] ?? "";
+
+        return (
+          <div key={field.key} className="grid gap-2">
+            <Label htmlFor={id}>
+              {field.label}
+              {!field.required && (
+                <span className="text-muted-foreground font-normal"> (optional)</span>
+              )}
+            </Label>
+            {field.options ? (
+              <Select
+                value={value || field.options[0].value}
+                onValueChange={(v) => onChange({ ...credentials, [field.key]: v })}
+              >
+                <SelectTrigger id={id} className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.secret ? "password" : "text"}
+                placeholder={field.placeholder}
+                value={value}
+                onChange={(e) => onChange({ ...credentials, [field.key]: e.target.value })}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-muted-foreground">
+        Create credentials at{" "}
+        <a
+          href={`https://${info.website}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary hover:underline"
+        >
+          {info.website}
+        </a>
+        . The sender address must be verified with {info.name}.
+      </p>
+    </div>
+  );
+});
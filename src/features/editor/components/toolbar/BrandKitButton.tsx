@@ -0,0 +1,318 @@
+/**
+ * Brand kit button with dialog - edit the colors, fonts, spacing and button
+ * styles shared by the emails in "My Emails"
+ */
+
+"use client";
+
+import { memo, useCallback } from "react";
+import { Palette, Plus, Trash2, Star, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { useBrandKitStore, selectBrandKit } from "@/features/editor/stores";
+import { BUTTON_STYLE_PROPS, TOKEN_GROUPS } from "@/features/editor/lib/brand-kit";
+import type { BrandButtonStyle, BrandToken, BrandTokenGroup } from "@/features/editor/types";
+
+const GROUP_LABELS: Record<BrandTokenGroup, { title: string; add: string; description: string }> = {
+  colors: {
+    title: "Colors",
+    add: "Add Color",
+    description: "Offered as swatches in every color field",
+  },
+  fonts: {
+    title: "Fonts",
+    add: "Add Font",
+    description: "Font stacks; the starred one is the email's base font",
+  },
+  spacing: {
+    title: "Spacing",
+    add: "Add Size",
+    description: "Sizes offered in padding and height fields",
+  },
+};
+
+const BUTTON_PROP_LABELS: Record<(typeof BUTTON_STYLE_PROPS)[number], string> = {
+  "background-color": "Background",
+  color: "Text Color",
+  border: "Border",
+  "border-radius": "Border Radius",
+  "font-family": "Font Family",
+  "font-weight": "Font Weight",
+  "inner-padding": "Inner Padding",
+};
+
+const COLOR_PROPS = new Set(["background-color", "color"]);
+
+interface TokenRowProps {
+  group: BrandTokenGroup;
+  token: BrandToken;
+  isDefault?: boolean;
+}
+
+const TokenRow = memo(function TokenRow({ group, token, isDefault }: TokenRowProps) {
+  const updateToken = useBrandKitStore((s) => s.updateToken);
+  const removeToken = useBrandKitStore((s) => s.removeToken);
+  const setDefaultFont = useBrandKitStore((s) => s.setDefaultFont);
+
+  return (
+    <div className="flex items-center gap-2">
+      {group === "colors" && (
+        <input
+          type="color"
+          value={token.value}
+          onChange={(e) => updateToken(group, token.id, { value: e.target.value })}
+          className="w-8 h-8 rounded border border-input cursor-pointer flex-shrink-0"
+        />
+      )}
+      <Input
+        value={token.name}
+        onChange={(e) => updateToken(group, token.id, { name: e.target.value })}
+        placeholder="Name"
+        className="h-8 text-sm w-28 flex-shrink-0"
+      />
+      <Input
+        value={token.value}
+        onChange={(e) => updateToken(group, token.id, { value: e.target.value })}
+        placeholder="Value"
+        className="h-8 text-sm flex-1 min-w-0"
+        style={group === "fonts" ? { fontFamily: token.value } : undefined}
+      />
+      {group === "fonts" && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 flex-shrink-0"
+          onClick={() => setDefaultFont(token.id)}
+          disabled={isDefault}
+          title={isDefault ? "Default font" : "Make default font"}
+        >
+          <Star className={isDefault ? "w-3.5 h-3.5 fill-current" : "w-3.5 h-3.5"} />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 flex-shrink-0 text-destructive hover:text-destructive"
+        onClick={() => removeToken(group, token.id)}
+        title="Remove (elements using it keep its current value)"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+});
+
+interface ButtonStyleEditorProps {
+  style: BrandButtonStyle;
+  isDefault: boolean;
+}
+
+const ButtonStyleEditor = memo(function ButtonStyleEditor({
+  style,
+  isDefault,
+}: ButtonStyleEditorProps) {
+  const updateButtonStyle = useBrandKitStore((s) => s.updateButtonStyle);
+  const removeButtonStyle = useBrandKitStore((s) => s.removeButtonStyle);
+  const setDefaultButtonStyle = useBrandKitStore((s) => s.setDefaultButtonStyle);
+
+  const handlePropChange = useCallback(
+    (key: string, value: string) => {
+      const props = { ...style.props };
+      if (value) {
+        props[key] = value;
+      } else {
+        delete props[key];
+      }
+      updateButtonStyle(style.id, { props });
+    },
+    [style.id, style.props, updateButtonStyle]
+  );
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <Input
+          value={style.name}
+          onChange={(e) => updateButtonStyle(style.id, { name: e.target.value })}
+          placeholder="Name"
+          className="h-8 text-sm flex-1"
+        />
+        <span
+          className="px-3 py-1.5 text-xs flex-shrink-0 max-w-[120px] truncate"
+          style={{
+            backgroundColor: style.props["background-color"],
+            color: style.props.color,
+            border: style.props.border,
+            borderRadius: style.props["border-radius"],
+            fontFamily: style.props["font-family"],
+            fontWeight: style.props["font-weight"],
+          }}
+        >
+          {style.name || "Button"}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 flex-shrink-0"
+          onClick={() => setDefaultButtonStyle(style.id)}
+          disabled={isDefault}
+          title={isDefault ? "Style of new buttons" : "Use for new buttons"}
+        >
+          <Star className={isDefault ? "w-3.5 h-3.5 fill-current" : "w-3.5 h-3.5"} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 flex-shrink-0 text-destructive hover:text-destructive"
+          onClick={() => removeButtonStyle(style.id)}
+          title="Remove (buttons using it keep their current look)"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {BUTTON_STYLE_PROPS.map((key) => (
+          <div key={key} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{BUTTON_PROP_LABELS[key]}</Label>
+            <div className="flex gap-1">
+              {COLOR_PROPS.has(key) && (
+                <input
+                  type="color"
+                  value={style.props[key] || "#000000"}
+                  onChange={(e) => handlePropChange(key, e.target.value)}
+                  className="w-8 h-8 rounded border border-input cursor-pointer flex-shrink-0"
+                />
+              )}
+              <Input
+                value={style.props[key] || ""}
+                onChange={(e) => handlePropChange(key, e.target.value)}
+                placeholder="Not set"
+                className="h-8 text-sm min-w-0"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export const BrandKitButton = memo(function BrandKitButton() {
+  const kit = useBrandKitStore(selectBrandKit);
+  const isLoaded = useBrandKitStore((s) => s.isLoaded);
+  const addToken = useBrandKitStore((s) => s.addToken);
+  const addButtonStyle = useBrandKitStore((s) => s.addButtonStyle);
+  const resetKit = useBrandKitStore((s) => s.resetKit);
+
+  const handleReset = useCallback(() => {
+    if (confirm("Reset the brand kit to its defaults? Every email using it will be restyled.")) {
+      resetKit();
+    }
+  }, [resetKit]);
+
+  return (
+    <Dialog>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!isLoaded}>
+              <Palette className="w-4 h-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Brand Kit</TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Brand Kit</DialogTitle>
+          <DialogDescription>
+            Colors, fonts, spacing and button styles shared by your saved emails. Changing one
+            restyles every element that uses it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-6 pr-4">
+            {TOKEN_GROUPS.map((group) => (
+              <div key={group} className="space-y-3">
+                <div>
+                  <Label>{GROUP_LABELS[group].title}</Label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {GROUP_LABELS[group].description}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  {kit[group].map((token, index) => (
+                    <TokenRow
+                      key={token.id}
+                      group={group}
+                      token={token}
+                      isDefault={group === "fonts" && index === 0}
+                    />
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => addToken(group)}
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  {GROUP_LABELS[group].add}
+                </Button>
+                <Separator />
+              </div>
+            ))}
+
+            <div className="space-y-3">
+              <div>
+                <Label>Button Styles</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Applied from a button&apos;s properties; the starred one is used for new buttons
+                </p>
+              </div>
+              {kit.buttonStyles.map((style, index) => (
+                <ButtonStyleEditor key={style.id} style={style} isDefault={index === 0} />
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => addButtonStyle()}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add Button Style
+              </Button>
+            </div>
+
+            <Separator />
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground"
+              onClick={handleReset}
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset to defaults
+            </Button>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+});
@@ -0,0 +1,364 @@
+/**
+ * Bulk Recipients - CSV recipient list with column mapping, row preview, and send results
+ */
+
+"use client";
+
+import { memo, useCallback, useMemo, useRef } from "react";
+import {
+  Upload,
+  FileSpreadsheet,
+  CheckCircle2,
+  XCircle,
+  ExternalLink,
+  AlertTriangle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { parseCsv, type ParsedCsv } from "@/features/editor/lib/csv";
+import { renderMergeTags } from "@/features/editor/lib/merge-tags";
+import type { SampleData } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+export interface BulkSettings {
+  fileName: string;
+  csv: ParsedCsv | null;
+  // Column holding the recipient address
+  emailColumn: string;
+  // Template variable -> CSV column ("" when unmapped)
+  mapping: Record<string, string>;
+  // Messages sent at the same time
+  concurrency: number;
+  // Minimum delay between two sends, in milliseconds
+  intervalMs: number;
+}
+
+export interface BulkRecipientResult {
+  to: string;
+  success: boolean;
+  messageId?: string;
+  previewUrl?: string | null;
+  error?: string;
+  missing?: string[];
+}
+
+export const DEFAULT_BULK_SETTINGS: BulkSettings = {
+  fileName: "",
+  csv: null,
+  emailColumn: "",
+  mapping: {},
+  concurrency: 2,
+  intervalMs: 500,
+};
+
+const UNMAPPED = "none";
+const PREVIEW_ROWS = 3;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pick the column whose name matches a variable (e.g. "First Name" for first_name)
+function guessColumn(headers: string[], variable: string): string {
+  const target = normalizeName(variable);
+  return headers.find((header) => normalizeName(header) === target) ?? "";
+}
+
+function guessEmailColumn(headers: string[]): string {
+  return (
+    headers.find((header) => /^e-?mail(address)?$/.test(normalizeName(header))) ??
+    headers.find((header) => /mail/i.test(header)) ??
+    headers[0] ??
+    ""
+  );
+}
+
+// Build each recipient's address and template data from the mapped columns
+export function buildBulkRecipients(settings: BulkSettings): { to: string; data: SampleData }[] {
+  if (!settings.csv || !settings.emailColumn) return [];
+
+  return settings.csv.rows
+    .map((row) => ({
+      to: row[settings.emailColumn] ?? "",
+      data: Object.fromEntries(
+        Object.entries(settings.mapping)
+          .filter(([, column]) => column)
+          .map(([variable, column]) => [variable, row[column] ?? ""])
+      ),
+    }))
+    .filter((recipient) => recipient.to !== "");
+}
+
+interface BulkRecipientsEditorProps {
+  settings: BulkSettings;
+  onChange: (settings: BulkSettings) => void;
+  // Variables used by the email and subject
+  variables: string[];
+  subject: string;
+}
+
+export const BulkRecipientsEditor = memo(function BulkRecipientsEditor({
+  settings,
+  onChange,
+  variables,
+  subject,
+}: BulkRecipientsEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const headers = useMemo(() => settings.csv?.headers ?? [], [settings.csv]);
+
+  const handleFileChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const csv = parseCsv((e.target?.result as string) ?? "");
+        onChange({
+          ...settings,
+          fileName: file.name,
+          csv,
+          emailColumn: guessEmailColumn(csv.headers),
+          mapping: Object.fromEntries(
+            variables.map((variable) => [variable, guessColumn(csv.headers, variable)])
+          ),
+        });
+      };
+      reader.readAsText(file);
+
+      // Reset file input so the same file can be loaded again
+      event.target.value = "";
+    },
+    [onChange, settings, variables]
+  );
+
+  const recipients = useMemo(() => buildBulkRecipients(settings), [settings]);
+  const skippedRows = (settings.csv?.rows.length ?? 0) - recipients.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-4 h-4 mr-1.5" />
+          {settings.csv ? "Replace CSV" : "Upload CSV"}
+        </Button>
+        {settings.csv && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground truncate">
+            <FileSpreadsheet className="w-3.5 h-3.5 shrink-0" />
+            {settings.fileName} &middot; {settings.csv.rows.length} rows
+          </span>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {!settings.csv && (
+        <p className="text-xs text-muted-foreground">
+          The first row must contain column names. Each following row is one recipient.
+        </p>
+      )}
+
+      {settings.csv && (
+        <>
+          {/* Column mapping */}
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 items-center gap-2">
+              <Label className="text-xs">Email address</Label>
+              <Select
+                value={settings.emailColumn || UNMAPPED}
+                onValueChange={(value) =>
+                  onChange({ ...settings, emailColumn: value === UNMAPPED ? "" : value })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Select column…</SelectItem>
+                  {headers.map((header) => (
+                    <SelectItem key={header} value={header}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {variables.map((variable) => (
+              <div key={variable} className="grid grid-cols-2 items-center gap-2">
+                <Label className="text-xs font-mono truncate">{`{{${variable}}}`}</Label>
+                <Select
+                  value={settings.mapping[variable] || UNMAPPED}
+                  onValueChange={(value) =>
+                    onChange({
+                      ...settings,
+                      mapping: { ...settings.mapping, [variable]: value === UNMAPPED ? "" : value },
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped (use default)</SelectItem>
+                    {headers.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {/* Row preview */}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">
+              Preview ({Math.min(PREVIEW_ROWS, recipients.length)} of {recipients.length}{" "}
+              recipients)
+            </Label>
+            <div className="rounded-md border divide-y">
+              {recipients.slice(0, PREVIEW_ROWS).map((recipient, index) => {
+                const rendered = renderMergeTags(subject, recipient.data);
+                return (
+                  <div key={index} className="px-3 py-2 text-xs space-y-0.5">
+                    <div className="font-medium truncate">{recipient.to}</div>
+                    <div className="text-muted-foreground truncate">{rendered.output}</div>
+                  </div>
+                );
+              })}
+              {recipients.length === 0 && (
+                <div className="px-3 py-2 text-xs text-muted-foreground">
+                  No rows with an email address
+                </div>
+              )}
+            </div>
+            {skippedRows > 0 && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {skippedRows} row{skippedRows === 1 ? "" : "s"} without an email address will be
+                skipped.
+              </p>
+            )}
+          </div>
+
+          {/* Throttling */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="bulkConcurrency" className="text-xs">
+                Parallel sends
+              </Label>
+              <Input
+                id="bulkConcurrency"
+                type="number"
+                min={1}
+                max={10}
+                value={settings.concurrency}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    concurrency: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)),
+                  })
+                }
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="bulkInterval" className="text-xs">
+                Delay between sends (ms)
+              </Label>
+              <Input
+                id="bulkInterval"
+                type="number"
+                min={0}
+                step={100}
+                value={settings.intervalMs}
+                onChange={(e) =>
+                  onChange({ ...settings, intervalMs: Math.max(0, parseInt(e.target.value) || 0) })
+                }
+                className="h-8 text-sm"
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+export const BulkSendResults = memo(function BulkSendResults({
+  results,
+}: {
+  results: BulkRecipientResult[];
+}) {
+  const sent = results.filter((result) => result.success).length;
+  const failed = results.length - sent;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={cn(
+          "flex items-center gap-2 p-3 rounded-md text-sm",
+          failed === 0
+            ? "bg-green-500/10 text-green-600 dark:text-green-400"
+            : "bg-amber-500/10 text-amber-700 dark:text-amber-400"
+        )}
+      >
+        {failed === 0 ? (
+          <CheckCircle2 className="w-4 h-4 shrink-0" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+        )}
+        Sent {sent} of {results.length} emails
+        {failed > 0 && ` (${failed} failed)`}
+      </div>
+
+      <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+        {results.map((result, index) => (
+          <div key={index} className="flex items-start gap-2 px-3 py-2 text-xs">
+            {result.success ? (
+              <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-600" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="font-medium truncate">{result.to}</div>
+              {result.error && <div className="text-red-600">{result.error}</div>}
+              {result.missing && result.missing.length > 0 && (
+                <div className="text-muted-foreground">Missing: {result.missing.join(", ")}</div>
+              )}
+            </div>
+            {result.previewUrl && (
+              <a
+                href={result.previewUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline shrink-0"
+                title="View in virtual inbox"
+              >
+                <ExternalLink className="w-3.5 h-3.5" />
+              </a>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,197 @@
+/**
+ * Compatibility button with dialog - CSS and HTML features of the email that some
+ * email clients don't support, and the blocks that use them
+ */
+
+"use client";
+
+import { memo, useCallback, useMemo, useState } from "react";
+import { MonitorCheck, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useEditorStore, useBrandKitStore } from "@/features/editor/stores";
+import { compileDocument } from "@/features/editor/lib/mjml/compiler";
+import {
+  EMAIL_CLIENTS,
+  checkCompatibility,
+  summarizeByClient,
+  type CompatibilityIssue,
+  type EmailClientId,
+} from "@/features/editor/lib/compatibility";
+import { cn } from "@/lib/utils";
+
+interface CompatibilityIssueItemProps {
+  issue: CompatibilityIssue;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const CompatibilityIssueItem = memo(function CompatibilityIssueItem({
+  issue,
+  onSelectNode,
+}: CompatibilityIssueItemProps) {
+  const { feature, clients, sources } = issue;
+
+  return (
+    <div className="px-3 py-2.5 space-y-1.5 text-xs">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="font-medium text-sm font-mono">{feature.name}</span>
+        {clients.map(({ client, support }) => (
+          <span
+            key={client}
+            className={cn(
+              "px-1.5 py-0.5 rounded",
+              support === "unsupported"
+                ? "bg-red-500/10 text-red-700 dark:text-red-400"
+                : "bg-amber-500/10 text-amber-700 dark:text-amber-400"
+            )}
+          >
+            {EMAIL_CLIENTS[client]}
+            {support === "partial" && " (partial)"}
+          </span>
+        ))}
+      </div>
+      {feature.note && <p className="text-muted-foreground">{feature.note}</p>}
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-muted-foreground">
+        <span>Used in</span>
+        {sources.map(({ label, nodeId }, index) =>
+          nodeId ? (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelectNode(nodeId)}
+              className="text-primary hover:underline"
+            >
+              {label}
+            </button>
+          ) : (
+            <span key={index} className="text-foreground">
+              {label} (Head Settings)
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const CompatibilityButton = memo(function CompatibilityButton() {
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+  const brandKit = useBrandKitStore((s) => s.kit);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+
+  const [open, setOpen] = useState(false);
+  const [client, setClient] = useState<EmailClientId | null>(null);
+
+  // Only compiled while the dialog is open
+  const issues = useMemo(() => {
+    if (!open) return [];
+    const { html } = compileDocument(document, headSettings, brandKit);
+    return checkCompatibility(document, headSettings, html);
+  }, [open, document, headSettings, brandKit]);
+
+  const summary = useMemo(() => summarizeByClient(issues), [issues]);
+  const visibleIssues = client
+    ? issues.filter((issue) => issue.clients.some((entry) => entry.client === client))
+    : issues;
+
+  const handleSelectNode = useCallback(
+    (nodeId: string) => {
+      setSelectedId(nodeId);
+      setOpen(false);
+    },
+    [setSelectedId]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7">
+              <MonitorCheck className="w-4 h-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Client Compatibility</TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Client Compatibility</DialogTitle>
+          <DialogDescription>
+            CSS and HTML in this email that some email clients don&apos;t support, based on bundled
+            caniemail data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Per-client summary; click one to filter */}
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(EMAIL_CLIENTS) as EmailClientId[]).map((id) => {
+              const { unsupported, partial } = summary[id];
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setClient((current) => (current === id ? null : id))}
+                  className={cn(
+                    "rounded-lg border px-3 py-2 text-left transition-colors hover:bg-muted/50",
+                    client === id && "border-primary bg-accent/50"
+                  )}
+                >
+                  <div className="text-sm font-medium">{EMAIL_CLIENTS[id]}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {unsupported + partial === 0 ? (
+                      "No issues"
+                    ) : (
+                      <>
+                        {unsupported > 0 && (
+                          <span className="text-red-600">{unsupported} unsupported</span>
+                        )}
+                        {unsupported > 0 && partial > 0 && " · "}
+                        {partial > 0 && <span className="text-amber-600">{partial} partial</span>}
+                      </>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {visibleIssues.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-10 text-center text-muted-foreground">
+              <CheckCircle2 className="w-8 h-8 text-green-600" />
+              <p className="text-sm">
+                {client
+                  ? `Nothing in this email is unsupported in ${EMAIL_CLIENTS[client]}`
+                  : "Nothing in this email is unsupported in the clients checked"}
+              </p>
+            </div>
+          ) : (
+            <ScrollArea className="max-h-[50vh]">
+              <div className="rounded-lg border divide-y">
+                {visibleIssues.map((issue) => (
+                  <CompatibilityIssueItem
+                    key={issue.feature.id}
+                    issue={issue}
+                    onSelectNode={handleSelectNode}
+                  />
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
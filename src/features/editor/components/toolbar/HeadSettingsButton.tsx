@@ -5,7 +5,7 @@
 "use client";
 
 import { memo, useCallback, useState } from "react";
-import { Settings, Plus, Trash2 } from "lucide-react";
+import { Settings, Plus, Trash2, Braces } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -20,7 +20,31 @@ import {
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useEditorStore } from "@/features/editor/stores";
+import { InsertVariablePopover } from "@/features/editor/components/merge-tags";
+import { formatMergeTag } from "@/features/editor/lib/merge-tags";
+import type { TextDirection } from "@/features/editor/types";
+
+// Button that appends a merge tag to a head setting
+function InsertVariableButton({ onInsert }: { onInsert: (tag: string) => void }) {
+  return (
+    <InsertVariablePopover
+      onInsert={(name, fallback) => onInsert(formatMergeTag(name, fallback))}
+      align="end"
+    >
+      <Button variant="outline" size="icon" className="flex-shrink-0" title="Insert Variable">
+        <Braces className="w-4 h-4" />
+      </Button>
+    </InsertVariablePopover>
+  );
+}
 
 export const HeadSettingsButton = memo(function HeadSettingsButton() {
   const headSettings = useEditorStore((s) => s.headSettings);
@@ -63,12 +87,19 @@ export const HeadSettingsButton = memo(function HeadSettingsButton() {
             {/* Title */}
             <div className="space-y-2">
               <Label htmlFor="title">Email Title</Label>
-              <Input
-                id="title"
-                value={headSettings.title || ""}
-                onChange={(e) => updateHeadSettings({ title: e.target.value })}
-                placeholder="My Email Title"
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="title"
+                  value={headSettings.title || ""}
+                  onChange={(e) => updateHeadSettings({ title: e.target.value })}
+                  placeholder="My Email Title"
+                />
+                <InsertVariableButton
+                  onInsert={(tag) =>
+                    updateHeadSettings({ title: (headSettings.title || "") + tag })
+                  }
+                />
+              </div>
               <p className="text-xs text-muted-foreground">
                 The title that appears in the browser tab
               </p>
@@ -77,17 +108,58 @@ export const HeadSettingsButton = memo(function HeadSettingsButton() {
             {/* Preview Text */}
             <div className="space-y-2">
               <Label htmlFor="preview">Preview Text</Label>
-              <Input
-                id="preview"
-                value={headSettings.preview || ""}
-                onChange={(e) => updateHeadSettings({ preview: e.target.value })}
-                placeholder="Preview text shown in email clients..."
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="preview"
+                  value={headSettings.preview || ""}
+                  onChange={(e) => updateHeadSettings({ preview: e.target.value })}
+                  placeholder="Preview text shown in email clients..."
+                />
+                <InsertVariableButton
+                  onInsert={(tag) =>
+                    updateHeadSettings({ preview: (headSettings.preview || "") + tag })
+                  }
+                />
+              </div>
               <p className="text-xs text-muted-foreground">
                 Text shown in email preview before opening
               </p>
             </div>
 
+            {/* Language and direction */}
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="lang">Language</Label>
+                  <Input
+                    id="lang"
+                    value={headSettings.lang || ""}
+                    onChange={(e) => updateHeadSettings({ lang: e.target.value.trim() })}
+                    placeholder="en"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dir">Text Direction</Label>
+                  <Select
+                    value={headSettings.dir ?? ""}
+                    onValueChange={(value) => updateHeadSettings({ dir: value as TextDirection })}
+                  >
+                    <SelectTrigger id="dir" className="w-full">
+                      <SelectValue placeholder="Not set" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ltr">Left to right</SelectItem>
+                      <SelectItem value="rtl">Right to left</SelectItem>
+                      <SelectItem value="auto">Automatic</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Lets screen readers pick the right voice and reading order
+              </p>
+            </div>
+
             <Separator />
 
             {/* Custom Fonts */}
@@ -0,0 +1,388 @@
+/**
+ * Links button with dialog - every URL in the email, with bulk editing and UTM
+ * parameters added at export and send time
+ */
+
+"use client";
+
+import { memo, useCallback, useMemo, useState } from "react";
+import { Link2, CheckCircle2, AlertCircle, Lock, Replace } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { useEditorStore } from "@/features/editor/stores";
+import { componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import {
+  addUtmParameters,
+  collectLinks,
+  hasUtmParameters,
+  updateLinkHrefs,
+  type DocumentLink,
+  type LinkStatus,
+} from "@/features/editor/lib/links";
+import type { UtmSettings } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<LinkStatus, string> = {
+  ok: "OK",
+  empty: "No URL",
+  placeholder: "Placeholder (#)",
+  malformed: "Malformed",
+};
+
+const DEFAULT_UTM: UtmSettings = { enabled: false, source: "", medium: "email", campaign: "" };
+
+function describeLink(link: DocumentLink): string {
+  const name = componentDefinitions[link.nodeType]?.name ?? link.nodeType;
+  // Rich text links have an anchor index in their id
+  return link.id === link.nodeId ? name : `Link in ${name}`;
+}
+
+interface LinkRowProps {
+  link: DocumentLink;
+  checked: boolean;
+  onCheckedChange: (id: string, checked: boolean) => void;
+  onHrefChange: (id: string, href: string) => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const LinkRow = memo(function LinkRow({
+  link,
+  checked,
+  onCheckedChange,
+  onHrefChange,
+  onSelectNode,
+}: LinkRowProps) {
+  const [draft, setDraft] = useState(link.href);
+  const isOk = link.status === "ok";
+
+  const commit = useCallback(() => {
+    if (draft !== link.href) onHrefChange(link.id, draft);
+  }, [draft, link.href, link.id, onHrefChange]);
+
+  return (
+    <div className="grid grid-cols-[auto_minmax(0,2fr)_minmax(0,3fr)_auto] items-center gap-3 px-3 py-2 text-xs">
+      <input
+        type="checkbox"
+        aria-label={`Select ${describeLink(link)}`}
+        checked={checked}
+        disabled={link.locked}
+        onChange={(e) => onCheckedChange(link.id, e.target.checked)}
+        className="h-4 w-4 rounded border-input"
+      />
+      <button
+        type="button"
+        onClick={() => onSelectNode(link.nodeId)}
+        className="min-w-0 text-left hover:underline"
+        title="Select in the editor"
+      >
+        <div className="font-medium truncate">{describeLink(link)}</div>
+        <div className="text-muted-foreground truncate">{link.label || "(no text)"}</div>
+      </button>
+      <div className="flex items-center gap-1.5">
+        {link.locked && <Lock className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />}
+        <Input
+          value={draft}
+          disabled={link.locked}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === "Enter" && commit()}
+          placeholder="https://"
+          className="h-7 text-xs font-mono"
+        />
+      </div>
+      <span
+        className={cn(
+          "flex items-center gap-1 whitespace-nowrap",
+          isOk ? "text-green-600" : "text-red-600"
+        )}
+      >
+        {isOk ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+        {STATUS_LABELS[link.status]}
+      </span>
+    </div>
+  );
+});
+
+export const LinksButton = memo(function LinksButton() {
+  const document = useEditorStore((s) => s.document);
+  const headSettings = useEditorStore((s) => s.headSettings);
+  const setDocument = useEditorStore((s) => s.setDocument);
+  const updateHeadSettings = useEditorStore((s) => s.updateHeadSettings);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+
+  const [open, setOpen] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [findText, setFindText] = useState("");
+  const [replaceText, setReplaceText] = useState("");
+
+  const links = useMemo(() => collectLinks(document), [document]);
+  const problemCount = links.filter((link) => link.status !== "ok").length;
+  const visibleLinks = problemsOnly ? links.filter((link) => link.status !== "ok") : links;
+  const editableLinks = visibleLinks.filter((link) => !link.locked);
+  const selectedLinks = links.filter((link) => selected.has(link.id) && !link.locked);
+
+  const utm = headSettings.utm ?? DEFAULT_UTM;
+  const utmExample = useMemo(() => {
+    if (!hasUtmParameters(utm)) return null;
+    const sample = links.find((link) => /^https?:\/\//i.test(link.href) && link.status === "ok");
+    return addUtmParameters(sample?.href ?? "https://example.com", utm);
+  }, [links, utm]);
+
+  const updateUtm = useCallback(
+    (changes: Partial<UtmSettings>) => updateHeadSettings({ utm: { ...utm, ...changes } }),
+    [utm, updateHeadSettings]
+  );
+
+  const applyHrefs = useCallback(
+    (hrefs: Record<string, string>) => {
+      if (Object.keys(hrefs).length > 0) setDocument(updateLinkHrefs(document, hrefs));
+    },
+    [document, setDocument]
+  );
+
+  const handleHrefChange = useCallback(
+    (id: string, href: string) => applyHrefs({ [id]: href.trim() }),
+    [applyHrefs]
+  );
+
+  const handleCheckedChange = useCallback((id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const allVisibleSelected =
+    editableLinks.length > 0 && editableLinks.every((link) => selected.has(link.id));
+
+  const handleSelectAll = useCallback(
+    (checked: boolean) => setSelected(new Set(checked ? editableLinks.map((link) => link.id) : [])),
+    [editableLinks]
+  );
+
+  // Find and replace across the selected links
+  const handleReplace = useCallback(() => {
+    if (!findText) return;
+    const hrefs: Record<string, string> = {};
+    for (const link of selectedLinks) {
+      if (link.href.includes(findText)) {
+        hrefs[link.id] = link.href.split(findText).join(replaceText);
+      }
+    }
+    applyHrefs(hrefs);
+  }, [findText, replaceText, selectedLinks, applyHrefs]);
+
+  // Point every selected link to the replacement URL
+  const handleSetAll = useCallback(() => {
+    const href = replaceText.trim();
+    if (!href) return;
+    applyHrefs(Object.fromEntries(selectedLinks.map((link) => [link.id, href])));
+  }, [replaceText, selectedLinks, applyHrefs]);
+
+  const handleSelectNode = useCallback(
+    (nodeId: string) => {
+      setSelectedId(nodeId);
+      setOpen(false);
+    },
+    [setSelectedId]
+  );
+
+  const handleOpenChange = useCallback((value: boolean) => {
+    setOpen(value);
+    if (!value) setSelected(new Set());
+  }, []);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7 relative">
+              <Link2 className="w-4 h-4" />
+              {problemCount > 0 && (
+                <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-red-500" />
+              )}
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Links{problemCount > 0 && ` (${problemCount} to fix)`}</TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Links</DialogTitle>
+          <DialogDescription>
+            Every URL in this email. Edit them here, in bulk, and tag them for analytics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* UTM parameters */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="utmEnabled"
+                checked={utm.enabled}
+                onChange={(e) => updateUtm({ enabled: e.target.checked })}
+                className="h-4 w-4 rounded border-input"
+              />
+              <Label htmlFor="utmEnabled" className="font-normal cursor-pointer">
+                Add UTM parameters to web links when exporting and sending
+              </Label>
+            </div>
+            {utm.enabled && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="utmSource" className="text-xs">
+                      Source
+                    </Label>
+                    <Input
+                      id="utmSource"
+                      value={utm.source}
+                      onChange={(e) => updateUtm({ source: e.target.value })}
+                      placeholder="newsletter"
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="utmMedium" className="text-xs">
+                      Medium
+                    </Label>
+                    <Input
+                      id="utmMedium"
+                      value={utm.medium}
+                      onChange={(e) => updateUtm({ medium: e.target.value })}
+                      placeholder="email"
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="utmCampaign" className="text-xs">
+                      Campaign
+                    </Label>
+                    <Input
+                      id="utmCampaign"
+                      value={utm.campaign}
+                      onChange={(e) => updateUtm({ campaign: e.target.value })}
+                      placeholder="spring-sale"
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground break-all">
+                  {utmExample
+                    ? `Links are sent as ${utmExample}. Parameters a link already has are kept.`
+                    : "Fill in at least one parameter."}
+                </p>
+              </>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Bulk edit */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={findText}
+              onChange={(e) => setFindText(e.target.value)}
+              placeholder="Find"
+              className="h-8 text-sm w-44"
+            />
+            <Input
+              value={replaceText}
+              onChange={(e) => setReplaceText(e.target.value)}
+              placeholder="Replace with / new URL"
+              className="h-8 text-sm w-56"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={handleReplace}
+              disabled={selectedLinks.length === 0 || !findText}
+            >
+              <Replace className="w-3.5 h-3.5 mr-1.5" />
+              Replace
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={handleSetAll}
+              disabled={selectedLinks.length === 0 || !replaceText.trim()}
+            >
+              Set URL
+            </Button>
+            <span className="text-xs text-muted-foreground">{selectedLinks.length} selected</span>
+            <div className="ml-auto flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="linksProblemsOnly"
+                checked={problemsOnly}
+                onChange={(e) => setProblemsOnly(e.target.checked)}
+                className="h-4 w-4 rounded border-input"
+              />
+              <Label htmlFor="linksProblemsOnly" className="text-xs font-normal cursor-pointer">
+                Problems only ({problemCount})
+              </Label>
+            </div>
+          </div>
+
+          {/* Links table */}
+          <div className="rounded-lg border">
+            <div className="grid grid-cols-[auto_minmax(0,2fr)_minmax(0,3fr)_auto] items-center gap-3 px-3 py-2 text-xs font-medium text-muted-foreground border-b">
+              <input
+                type="checkbox"
+                aria-label="Select all links"
+                checked={allVisibleSelected}
+                disabled={editableLinks.length === 0}
+                onChange={(e) => handleSelectAll(e.target.checked)}
+                className="h-4 w-4 rounded border-input"
+              />
+              <span>Link</span>
+              <span>URL</span>
+              <span>Status</span>
+            </div>
+            <ScrollArea className="max-h-[45vh]">
+              <div className="divide-y">
+                {visibleLinks.map((link) => (
+                  // Keyed by URL too, so the draft resets when a bulk edit changes it
+                  <LinkRow
+                    key={`${link.id}|${link.href}`}
+                    link={link}
+                    checked={selected.has(link.id)}
+                    onCheckedChange={handleCheckedChange}
+                    onHrefChange={handleHrefChange}
+                    onSelectNode={handleSelectNode}
+                  />
+                ))}
+                {visibleLinks.length === 0 && (
+                  <p className="px-3 py-6 text-center text-xs text-muted-foreground">
+                    {links.length === 0 ? "This email has no links" : "No links need fixing"}
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
@@ -0,0 +1,378 @@
+/**
+ * Local Inbox Panel - Messages captured by the local send mode, with their HTML,
+ * text, headers, and attachments
+ */
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ArrowLeft,
+  Download,
+  FileDown,
+  Inbox,
+  Loader2,
+  Paperclip,
+  RefreshCw,
+  Trash2,
+  AlertTriangle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { CapturedMessage, CapturedMessageSummary } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+import { formatSize } from "./MessageOptionsEditor";
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Show inline images by replacing cid: references with the attachment data
+function resolveInlineImages(message: CapturedMessage): string {
+  return message.attachments.reduce(
+    (html, attachment) =>
+      attachment.cid
+        ? html
+            .split(`cid:${attachment.cid}`)
+            .join(`data:${attachment.contentType};base64,${attachment.content}`)
+        : html,
+    message.html
+  );
+}
+
+interface CapturedMessageViewProps {
+  id: string;
+  onBack: () => void;
+  onDelete: (id: string) => void;
+}
+
+const CapturedMessageView = memo(function CapturedMessageView({
+  id,
+  onBack,
+  onDelete,
+}: CapturedMessageViewProps) {
+  const [message, setMessage] = useState<CapturedMessage | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/mailbox/${id}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || "Failed to load message");
+        if (!cancelled) setMessage(result.message);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load message");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const html = useMemo(() => (message ? resolveInlineImages(message) : ""), [message]);
+
+  const addressRows = message
+    ? ([
+        ["From", [message.from]],
+        ["To", message.to],
+        ["Cc", message.cc],
+        ["Bcc", message.bcc],
+        ["Reply-To", message.replyTo],
+      ] as const)
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onBack}>
+          <ArrowLeft className="w-3.5 h-3.5 mr-1.5" />
+          Inbox
+        </Button>
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 text-xs" asChild>
+            <a href={`/api/mailbox/${id}/raw`} download>
+              <FileDown className="w-3.5 h-3.5 mr-1.5" />
+              .eml
+            </a>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-red-600 hover:text-red-700"
+            onClick={() => onDelete(id)}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {!message && !error && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {message && (
+        <>
+          <div className="space-y-1">
+            <div className="font-medium text-sm">{message.subject || "(no subject)"}</div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+              {addressRows
+                .filter(([, addresses]) => addresses.length > 0)
+                .map(([label, addresses]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="truncate">{addresses.join(", ")}</dd>
+                  </div>
+                ))}
+              <dt className="text-muted-foreground">Date</dt>
+              <dd>{new Date(message.receivedAt).toLocaleString()}</dd>
+            </dl>
+          </div>
+
+          <Tabs defaultValue="html">
+            <TabsList className="w-full grid grid-cols-4">
+              <TabsTrigger value="html" className="text-xs">
+                HTML
+              </TabsTrigger>
+              <TabsTrigger value="text" className="text-xs">
+                Text
+              </TabsTrigger>
+              <TabsTrigger value="headers" className="text-xs">
+                Headers
+              </TabsTrigger>
+              <TabsTrigger value="attachments" className="text-xs">
+                Attachments ({message.attachments.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="html">
+              <iframe
+                srcDoc={html}
+                title="Captured email"
+                sandbox=""
+                className="w-full h-80 rounded-md border bg-white"
+              />
+            </TabsContent>
+
+            <TabsContent value="text">
+              <pre className="h-80 overflow-auto rounded-md border p-3 text-xs font-mono whitespace-pre-wrap break-words">
+                {message.text || "This message has no plain-text part."}
+              </pre>
+            </TabsContent>
+
+            <TabsContent value="headers">
+              <div className="h-80 overflow-auto rounded-md border divide-y text-xs font-mono">
+                {message.headers.map((header, index) => (
+                  <div key={index} className="px-2.5 py-1 break-all">
+                    <span className="text-muted-foreground">{header.name}:</span> {header.value}
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="attachments">
+              <div className="rounded-md border divide-y">
+                {message.attachments.map((attachment, index) => (
+                  <div key={index} className="flex items-center gap-2 px-2.5 py-1.5 text-xs">
+                    <Paperclip className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">{attachment.filename}</div>
+                      <div className="text-[11px] text-muted-foreground">
+                        {attachment.contentType} · {formatSize(attachment.size)}
+                        {attachment.cid && ` · inline (cid:${attachment.cid})`}
+                      </div>
+                    </div>
+                    <a
+                      href={`data:${attachment.contentType};base64,${attachment.content}`}
+                      download={attachment.filename}
+                      className="text-primary hover:underline shrink-0"
+                      title="Download"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </a>
+                  </div>
+                ))}
+                {message.attachments.length === 0 && (
+                  <div className="px-2.5 py-2 text-xs text-muted-foreground">No attachments</div>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+});
+
+interface LocalInboxPanelProps {
+  // Message shown in detail, or null for the list
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+export const LocalInboxPanel = memo(function LocalInboxPanel({
+  selectedId,
+  onSelect,
+}: LocalInboxPanelProps) {
+  const [messages, setMessages] = useState<CapturedMessageSummary[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadMessages = useCallback(async () => {
+    try {
+      const response = await fetch("/api/mailbox");
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load the inbox");
+      setMessages(result.messages);
+      setError("");
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load the inbox");
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      onSelect(null);
+      try {
+        const response = await fetch(`/api/mailbox/${id}`, { method: "DELETE" });
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          throw new Error(result.error || "Failed to delete the message");
+        }
+        loadMessages();
+      } catch (deleteError) {
+        setError(
+          deleteError instanceof Error ? deleteError.message : "Failed to delete the message"
+        );
+      }
+    },
+    [loadMessages, onSelect]
+  );
+
+  const handleClear = useCallback(async () => {
+    if (!window.confirm("Delete all captured messages?")) return;
+    try {
+      const response = await fetch("/api/mailbox", { method: "DELETE" });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to clear the inbox");
+      }
+      loadMessages();
+    } catch (clearError) {
+      setError(clearError instanceof Error ? clearError.message : "Failed to clear the inbox");
+    }
+  }, [loadMessages]);
+
+  if (selectedId) {
+    return (
+      <CapturedMessageView
+        key={selectedId}
+        id={selectedId}
+        onBack={() => {
+          onSelect(null);
+          loadMessages();
+        }}
+        onDelete={handleDelete}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {messages.length} captured message{messages.length === 1 ? "" : "s"} · stored on this
+          server
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={loadMessages}
+            title="Refresh"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleClear}
+            disabled={messages.length === 0}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {isLoaded && messages.length === 0 && !error ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+          <Inbox className="w-8 h-8" />
+          <p className="text-sm">No captured messages</p>
+          <p className="text-xs">Send with the Local mode and messages will appear here.</p>
+        </div>
+      ) : (
+        <div
+          className={cn(
+            "rounded-lg border divide-y max-h-[460px] overflow-y-auto",
+            !isLoaded && "opacity-50"
+          )}
+        >
+          {messages.map((message) => (
+            <button
+              key={message.id}
+              type="button"
+              onClick={() => onSelect(message.id)}
+              className="w-full flex items-start gap-2 px-3 py-2.5 text-left text-sm hover:bg-muted/50 transition-colors"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="font-medium truncate">{message.subject || "(no subject)"}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  To {message.to.join(", ")}
+                </div>
+              </div>
+              <div className="flex flex-col items-end gap-1 shrink-0">
+                {message.attachmentCount > 0 && (
+                  <Paperclip className="w-3.5 h-3.5 text-muted-foreground" />
+                )}
+                <span className="text-[10px] text-muted-foreground">
+                  {formatTime(message.receivedAt)}
+                </span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,373 @@
+/**
+ * Message Options Editor - CC / BCC / Reply-To, custom headers, and attachments for a send
+ */
+
+"use client";
+
+import { memo, useCallback, useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Paperclip,
+  Plus,
+  Trash2,
+  Image as ImageIcon,
+  AlertTriangle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { EmailAttachment, EmailExtras } from "@/features/editor/types";
+
+// Matches the server limit for all attachments of one message
+const MAX_ATTACHMENTS_BYTES = 10 * 1024 * 1024;
+
+export interface MessageOptions {
+  cc: string;
+  bcc: string;
+  replyTo: string;
+  headers: { name: string; value: string }[];
+  attachments: EmailAttachment[];
+}
+
+export const DEFAULT_MESSAGE_OPTIONS: MessageOptions = {
+  cc: "",
+  bcc: "",
+  replyTo: "",
+  headers: [],
+  attachments: [],
+};
+
+// One-click unsubscribe headers (RFC 8058); the URL comes from the recipient's data
+const LIST_UNSUBSCRIBE_HEADERS = [
+  { name: "List-Unsubscribe", value: "<{{unsubscribe_url}}>" },
+  { name: "List-Unsubscribe-Post", value: "List-Unsubscribe=One-Click" },
+];
+
+// Split "a@x.com, b@x.com; c@x.com" into addresses
+export function splitAddresses(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+// Convert the form state to the fields sent to the API (empty fields are omitted)
+export function toEmailExtras(options: MessageOptions): EmailExtras {
+  const extras: EmailExtras = {};
+  const cc = splitAddresses(options.cc);
+  const bcc = splitAddresses(options.bcc);
+  const replyTo = splitAddresses(options.replyTo);
+  const headers = options.headers.filter((header) => header.name.trim());
+
+  if (cc.length > 0) extras.cc = cc;
+  if (bcc.length > 0) extras.bcc = bcc;
+  if (replyTo.length > 0) extras.replyTo = replyTo;
+  if (headers.length > 0) {
+    extras.headers = Object.fromEntries(
+      headers.map((header) => [header.name.trim(), header.value.trim()])
+    );
+  }
+  if (options.attachments.length > 0) extras.attachments = options.attachments;
+
+  return extras;
+}
+
+export function isWithinAttachmentLimit(options: MessageOptions): boolean {
+  return options.attachments.reduce((total, file) => total + file.size, 0) <= MAX_ATTACHMENTS_BYTES;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Content-ID derived from the file name ("Logo 2x.png" -> "logo-2x.png")
+function toContentId(filename: string): string {
+  return filename.toLowerCase().replace(/[^\w.@+-]+/g, "-");
+}
+
+function readAsAttachment(file: File): Promise<EmailAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<type>;base64," prefix
+      const dataUrl = reader.result as string;
+      resolve({
+        filename: file.name,
+        content: dataUrl.slice(dataUrl.indexOf(",") + 1),
+        contentType: file.type || undefined,
+        size: file.size,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+interface MessageOptionsEditorProps {
+  options: MessageOptions;
+  onChange: (options: MessageOptions) => void;
+}
+
+export const MessageOptionsEditor = memo(function MessageOptionsEditor({
+  options,
+  onChange,
+}: MessageOptionsEditorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const configuredCount =
+    [options.cc, options.bcc, options.replyTo].filter((value) => value.trim()).length +
+    options.headers.length +
+    options.attachments.length;
+
+  const handleFilesChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      // Reset file input so the same file can be added again
+      event.target.value = "";
+      if (files.length === 0) return;
+
+      const attachments = await Promise.all(files.map(readAsAttachment));
+      onChange({ ...options, attachments: [...options.attachments, ...attachments] });
+    },
+    [onChange, options]
+  );
+
+  const updateHeader = (index: number, field: "name" | "value", value: string) => {
+    onChange({
+      ...options,
+      headers: options.headers.map((header, i) =>
+        i === index ? { ...header, [field]: value } : header
+      ),
+    });
+  };
+
+  const toggleInline = (index: number) => {
+    onChange({
+      ...options,
+      attachments: options.attachments.map((attachment, i) =>
+        i === index
+          ? { ...attachment, cid: attachment.cid ? undefined : toContentId(attachment.filename) }
+          : attachment
+      ),
+    });
+  };
+
+  const hasListUnsubscribe = options.headers.some(
+    (header) => header.name.toLowerCase() === "list-unsubscribe"
+  );
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5" />
+        )}
+        CC, BCC, Reply-To, headers & attachments
+        {configuredCount > 0 && (
+          <span className="px-1.5 rounded-full bg-primary/10 text-primary text-[10px]">
+            {configuredCount}
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="space-y-4 pl-5">
+          {/* Additional recipients */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="cc" className="text-xs">
+                CC
+              </Label>
+              <Input
+                id="cc"
+                placeholder="cc@example.com"
+                value={options.cc}
+                onChange={(e) => onChange({ ...options, cc: e.target.value })}
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="bcc" className="text-xs">
+                BCC
+              </Label>
+              <Input
+                id="bcc"
+                placeholder="bcc@example.com"
+                value={options.bcc}
+                onChange={(e) => onChange({ ...options, bcc: e.target.value })}
+                className="h-8 text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="replyTo" className="text-xs">
+              Reply-To
+            </Label>
+            <Input
+              id="replyTo"
+              placeholder="support@example.com"
+              value={options.replyTo}
+              onChange={(e) => onChange({ ...options, replyTo: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+
+          {/* Custom headers */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Headers</Label>
+              <div className="flex gap-1">
+                {!hasListUnsubscribe && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() =>
+                      onChange({
+                        ...options,
+                        headers: [...options.headers, ...LIST_UNSUBSCRIBE_HEADERS],
+                      })
+                    }
+                  >
+                    List-Unsubscribe
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() =>
+                    onChange({ ...options, headers: [...options.headers, { name: "", value: "" }] })
+                  }
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+            {options.headers.map((header, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  placeholder="X-Campaign"
+                  value={header.name}
+                  onChange={(e) => updateHeader(index, "name", e.target.value)}
+                  className="h-8 text-xs font-mono w-2/5"
+                />
+                <Input
+                  placeholder="Value"
+                  value={header.value}
+                  onChange={(e) => updateHeader(index, "value", e.target.value)}
+                  className="h-8 text-xs font-mono flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() =>
+                    onChange({
+                      ...options,
+                      headers: options.headers.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+            {options.headers.length > 0 && (
+              <p className="text-[11px] text-muted-foreground">
+                Header values can use merge tags, e.g. {"<{{unsubscribe_url}}>"}.
+              </p>
+            )}
+          </div>
+
+          {/* Attachments */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Attachments</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Paperclip className="w-3 h-3 mr-1" />
+                Add files
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFilesChange}
+                className="hidden"
+              />
+            </div>
+            {options.attachments.map((attachment, index) => (
+              <div key={index} className="flex items-center gap-2 rounded-md border px-2.5 py-1.5">
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs truncate">{attachment.filename}</div>
+                  <div className="text-[11px] text-muted-foreground">
+                    {formatSize(attachment.size)}
+                    {attachment.cid && (
+                      <>
+                        {" · "}
+                        <code className="select-all">{`src="cid:${attachment.cid}"`}</code>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {attachment.contentType?.startsWith("image/") && (
+                  <Button
+                    type="button"
+                    variant={attachment.cid ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => toggleInline(index)}
+                    title="Embed as an inline image referenced by its content ID"
+                  >
+                    <ImageIcon className="w-3 h-3 mr-1" />
+                    Inline
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() =>
+                    onChange({
+                      ...options,
+                      attachments: options.attachments.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+            {!isWithinAttachmentLimit(options) && (
+              <p className="flex items-center gap-1.5 text-xs text-red-600">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                Attachments exceed {MAX_ATTACHMENTS_BYTES / 1024 / 1024} MB in total.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,329 @@
+/**
+ * Outbox Panel - Log of send attempts with the HTML that was sent, and resend
+ */
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  ExternalLink,
+  RotateCw,
+  Trash2,
+  Eye,
+  EyeOff,
+  Loader2,
+  Inbox,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOutboxStore, selectOutboxEntries } from "@/features/editor/stores";
+import { renderTemplate } from "@/features/editor/lib/merge-tags";
+import type { OutboxEntry, OutboxStatus } from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+import { API_PROVIDERS } from "./ApiProviderSettings";
+
+export const MODE_LABELS: Record<OutboxEntry["mode"], string> = {
+  test: "Preview",
+  local: "Local inbox",
+  resend: "Resend",
+  smtp: "SMTP",
+  postmark: API_PROVIDERS.postmark.name,
+  sendgrid: API_PROVIDERS.sendgrid.name,
+  mailgun: API_PROVIDERS.mailgun.name,
+  ses: API_PROVIDERS.ses.name,
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function summarizeRecipients(entry: OutboxEntry): string {
+  const [first, ...rest] = entry.recipients;
+  if (!first) return "No recipients";
+  return rest.length > 0 ? `${first.to} and ${rest.length} more` : first.to;
+}
+
+const StatusIcon = memo(function StatusIcon({ status }: { status: OutboxStatus }) {
+  if (status === "sent") return <CheckCircle2 className="w-4 h-4 shrink-0 text-green-600" />;
+  if (status === "partial") return <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600" />;
+  return <XCircle className="w-4 h-4 shrink-0 text-red-600" />;
+});
+
+interface OutboxEntryItemProps {
+  entry: OutboxEntry;
+  onResend: (entry: OutboxEntry) => Promise<void>;
+  onDelete: (id: string) => void;
+  canResend: boolean;
+  sendModeLabel: string;
+}
+
+const OutboxEntryItem = memo(function OutboxEntryItem({
+  entry,
+  onResend,
+  onDelete,
+  canResend,
+  sendModeLabel,
+}: OutboxEntryItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [showHtml, setShowHtml] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [resendError, setResendError] = useState("");
+
+  const failedCount = entry.recipients.filter((recipient) => !recipient.success).length;
+
+  // Bulk entries keep the template; show it as the first recipient received it
+  const previewHtml = useMemo(() => {
+    if (!showHtml) return "";
+    if (!entry.bulk) return entry.html;
+    return renderTemplate(entry.html, entry.recipients[0]?.data ?? {}).output;
+  }, [showHtml, entry]);
+
+  const handleResend = useCallback(async () => {
+    setResending(true);
+    setResendError("");
+    try {
+      await onResend(entry);
+    } catch (error) {
+      setResendError(error instanceof Error ? error.message : "Failed to resend");
+    } finally {
+      setResending(false);
+    }
+  }, [entry, onResend]);
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="w-full flex items-start gap-2 px-3 py-2.5 text-left hover:bg-muted/50 transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="font-medium truncate">{entry.subject || "(no subject)"}</div>
+          <div className="text-xs text-muted-foreground truncate">{summarizeRecipients(entry)}</div>
+        </div>
+        <div className="flex flex-col items-end gap-1 shrink-0">
+          <StatusIcon status={entry.status} />
+          <span className="text-[10px] text-muted-foreground">{formatTime(entry.createdAt)}</span>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 pl-9 space-y-3">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Mode</dt>
+            <dd>
+              {MODE_LABELS[entry.mode]}
+              {entry.bulk && " · bulk"}
+              {!entry.realDelivery && entry.status !== "failed" && " · not delivered"}
+            </dd>
+            {entry.from && (
+              <>
+                <dt className="text-muted-foreground">From</dt>
+                <dd className="truncate">{entry.from}</dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Sent</dt>
+            <dd>{new Date(entry.createdAt).toLocaleString()}</dd>
+            {entry.error && (
+              <>
+                <dt className="text-muted-foreground">Error</dt>
+                <dd className="text-red-600 break-words">{entry.error}</dd>
+              </>
+            )}
+          </dl>
+
+          {/* Per-recipient results */}
+          <div className="rounded-md border divide-y max-h-40 overflow-y-auto">
+            {entry.recipients.map((recipient, index) => (
+              <div key={index} className="flex items-start gap-2 px-2.5 py-1.5 text-xs">
+                {recipient.success ? (
+                  <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-green-600" />
+                ) : (
+                  <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-600" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{recipient.to}</div>
+                  {recipient.messageId && (
+                    <div className="text-muted-foreground truncate font-mono">
+                      {recipient.messageId}
+                    </div>
+                  )}
+                  {recipient.error && !entry.error && (
+                    <div className="text-red-600 break-words">{recipient.error}</div>
+                  )}
+                </div>
+                {recipient.previewUrl && (
+                  <a
+                    href={recipient.previewUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline shrink-0"
+                    title="View in virtual inbox"
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {showHtml && (
+            <div className="space-y-1">
+              {entry.bulk && entry.recipients[0] && (
+                <p className="text-[11px] text-muted-foreground">
+                  As sent to {entry.recipients[0].to}
+                </p>
+              )}
+              <iframe
+                srcDoc={previewHtml}
+                title="Sent email"
+                sandbox=""
+                className="w-full h-64 rounded-md border bg-white"
+              />
+            </div>
+          )}
+
+          {resendError && (
+            <p className="flex items-center gap-1.5 text-xs text-red-600">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {resendError}
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={handleResend}
+              disabled={!canResend || resending}
+              title={
+                canResend
+                  ? `Send again with the current settings (${sendModeLabel})`
+                  : "Complete the send settings in Compose first"
+              }
+            >
+              {resending ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+              ) : (
+                <RotateCw className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              {entry.status === "partial" ? `Retry ${failedCount} failed` : "Resend"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setShowHtml((value) => !value)}
+            >
+              {showHtml ? (
+                <EyeOff className="w-3.5 h-3.5 mr-1.5" />
+              ) : (
+                <Eye className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              {showHtml ? "Hide HTML" : "View HTML"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs ml-auto text-red-600 hover:text-red-700"
+              onClick={() => onDelete(entry.id)}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+interface OutboxPanelProps {
+  onResend: (entry: OutboxEntry) => Promise<void>;
+  // Whether the current send settings are complete
+  canResend: boolean;
+  sendModeLabel: string;
+}
+
+export const OutboxPanel = memo(function OutboxPanel({
+  onResend,
+  canResend,
+  sendModeLabel,
+}: OutboxPanelProps) {
+  const entries = useOutboxStore(selectOutboxEntries);
+  const isLoaded = useOutboxStore((s) => s.isLoaded);
+  const loadOutbox = useOutboxStore((s) => s.loadOutbox);
+  const deleteEntry = useOutboxStore((s) => s.deleteEntry);
+  const clearOutbox = useOutboxStore((s) => s.clearOutbox);
+
+  useEffect(() => {
+    loadOutbox();
+  }, [loadOutbox]);
+
+  const handleClear = useCallback(() => {
+    if (window.confirm("Clear the whole send log?")) {
+      clearOutbox();
+    }
+  }, [clearOutbox]);
+
+  if (isLoaded && entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+        <Inbox className="w-8 h-8" />
+        <p className="text-sm">No emails sent yet</p>
+        <p className="text-xs">Every send attempt will be listed here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {entries.length} send{entries.length === 1 ? "" : "s"} · resends use {sendModeLabel}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleClear}
+          disabled={entries.length === 0}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <div
+        className={cn(
+          "rounded-lg border divide-y max-h-[460px] overflow-y-auto",
+          !isLoaded && "opacity-50"
+        )}
+      >
+        {entries.map((entry) => (
+          <OutboxEntryItem
+            key={entry.id}
+            entry={entry}
+            onResend={onResend}
+            onDelete={deleteEntry}
+            canResend={canResend}
+            sendModeLabel={sendModeLabel}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
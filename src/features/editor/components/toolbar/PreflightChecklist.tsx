@@ -0,0 +1,140 @@
+/**
+ * Preflight Checklist - Results of the pre-send checks, with an override for
+ * blocking issues
+ */
+
+"use client";
+
+import { memo, useState } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  ClipboardCheck,
+} from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { countBlockingIssues, type PreflightCheck } from "@/features/editor/lib/preflight";
+import { cn } from "@/lib/utils";
+
+// Issues listed per check before "and N more"
+const MAX_LISTED_ISSUES = 5;
+
+interface PreflightCheckItemProps {
+  check: PreflightCheck;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const PreflightCheckItem = memo(function PreflightCheckItem({
+  check,
+  onSelectNode,
+}: PreflightCheckItemProps) {
+  const [expanded, setExpanded] = useState(check.severity === "error");
+  const isError = check.severity === "error";
+  const Icon = isError ? AlertCircle : AlertTriangle;
+  const hidden = check.issues.length - MAX_LISTED_ISSUES;
+
+  return (
+    <div className="text-xs">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="w-full flex items-center gap-2 px-2.5 py-1.5 text-left hover:bg-muted/50 transition-colors"
+      >
+        <Icon className={cn("w-3.5 h-3.5 shrink-0", isError ? "text-red-600" : "text-amber-600")} />
+        <span className="flex-1 font-medium">{check.label}</span>
+        <span className="text-muted-foreground">{check.issues.length}</span>
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 text-muted-foreground" />
+        )}
+      </button>
+
+      {expanded && (
+        <ul className="pb-1.5 pl-8 pr-2.5 space-y-0.5">
+          {check.issues.slice(0, MAX_LISTED_ISSUES).map(({ message, nodeId }, index) => (
+            <li key={index} className="flex items-start gap-2 text-muted-foreground">
+              <span className="flex-1 break-words">{message}</span>
+              {nodeId && (
+                <button
+                  type="button"
+                  onClick={() => onSelectNode(nodeId)}
+                  className="shrink-0 text-primary hover:underline"
+                >
+                  Select
+                </button>
+              )}
+            </li>
+          ))}
+          {hidden > 0 && <li className="text-muted-foreground">and {hidden} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+interface PreflightChecklistProps {
+  checks: PreflightCheck[];
+  // Send despite blocking issues
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+  // Select a node in the editor (closes the dialog)
+  onSelectNode: (nodeId: string) => void;
+}
+
+export const PreflightChecklist = memo(function PreflightChecklist({
+  checks,
+  override,
+  onOverrideChange,
+  onSelectNode,
+}: PreflightChecklistProps) {
+  const failed = checks.filter((check) => check.issues.length > 0);
+  const passed = checks.filter((check) => check.issues.length === 0);
+  const blockingCount = countBlockingIssues(checks);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <ClipboardCheck className="w-4 h-4" />
+        Preflight
+      </div>
+
+      {failed.length > 0 && (
+        <div className="rounded-md border divide-y">
+          {failed.map((check) => (
+            <PreflightCheckItem key={check.id} check={check} onSelectNode={onSelectNode} />
+          ))}
+        </div>
+      )}
+
+      {passed.length > 0 && (
+        <p className="flex items-start gap-1.5 text-xs text-muted-foreground">
+          <CheckCircle2 className="w-3.5 h-3.5 mt-px shrink-0 text-green-600" />
+          {failed.length === 0
+            ? "All checks passed"
+            : `Passed: ${passed.map((check) => check.label).join(", ")}`}
+        </p>
+      )}
+
+      {blockingCount > 0 && (
+        <div className="flex items-center gap-2 p-2 rounded-md bg-red-500/10">
+          <input
+            type="checkbox"
+            id="preflightOverride"
+            checked={override}
+            onChange={(e) => onOverrideChange(e.target.checked)}
+            className="h-4 w-4 rounded border-input"
+          />
+          <Label
+            htmlFor="preflightOverride"
+            className="text-xs font-normal cursor-pointer text-red-600 dark:text-red-400"
+          >
+            Send anyway despite {blockingCount} blocking issue{blockingCount === 1 ? "" : "s"}
+          </Label>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,381 @@
+/**
+ * Scheduled Panel - Sends queued on the server for a later time, with cancel,
+ * reschedule, and the content snapshot
+ */
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  ExternalLink,
+  Eye,
+  EyeOff,
+  Loader2,
+  RefreshCw,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { renderTemplate } from "@/features/editor/lib/merge-tags";
+import type {
+  ScheduledSend,
+  ScheduledSendDetails,
+  ScheduledSendStatus,
+} from "@/features/editor/types";
+import { cn } from "@/lib/utils";
+import { MODE_LABELS } from "./OutboxPanel";
+
+// Value for a datetime-local input, in local time
+export function toDateTimeInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Whether a datetime-local value is a valid time in the future
+export function isFutureDateTime(value: string): boolean {
+  const time = new Date(value).getTime();
+  return !Number.isNaN(time) && time > Date.now();
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function summarizeRecipients(job: ScheduledSend): string {
+  const [first] = job.to;
+  if (!first) return "No recipients";
+  const more = job.recipientCount - 1;
+  return more > 0 ? `${first} and ${more} more` : first;
+}
+
+const StatusIcon = memo(function StatusIcon({ status }: { status: ScheduledSendStatus }) {
+  if (status === "scheduled") return <Clock className="w-4 h-4 shrink-0 text-blue-600" />;
+  if (status === "sending") {
+    return <Loader2 className="w-4 h-4 shrink-0 animate-spin text-muted-foreground" />;
+  }
+  if (status === "sent") return <CheckCircle2 className="w-4 h-4 shrink-0 text-green-600" />;
+  if (status === "partial") return <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600" />;
+  return <XCircle className="w-4 h-4 shrink-0 text-red-600" />;
+});
+
+interface ScheduledSendItemProps {
+  job: ScheduledSend;
+  onChange: () => void;
+}
+
+const ScheduledSendItem = memo(function ScheduledSendItem({
+  job,
+  onChange,
+}: ScheduledSendItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [details, setDetails] = useState<ScheduledSendDetails | null>(null);
+  const [showHtml, setShowHtml] = useState(false);
+  const [sendAt, setSendAt] = useState(() => toDateTimeInputValue(new Date(job.sendAt)));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const isPending = job.status === "scheduled";
+  const isSending = job.status === "sending";
+
+  // Bulk sends keep the template; show it as the first recipient will receive it
+  const previewHtml = useMemo(() => {
+    if (!details) return "";
+    if (!job.bulk) return details.email.html;
+    return renderTemplate(details.email.html, details.previewData ?? {}).output;
+  }, [details, job.bulk]);
+
+  const request = useCallback(
+    async (init: RequestInit, fallback: string) => {
+      setBusy(true);
+      setError("");
+      try {
+        const response = await fetch(`/api/schedule/${job.id}`, init);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || fallback);
+        onChange();
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : fallback);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [job.id, onChange]
+  );
+
+  const handleReschedule = useCallback(
+    () =>
+      request(
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sendAt: new Date(sendAt).toISOString() }),
+        },
+        "Failed to reschedule"
+      ),
+    [request, sendAt]
+  );
+
+  const handleDelete = useCallback(() => {
+    if (isPending && !window.confirm("Cancel this scheduled send?")) return;
+    request({ method: "DELETE" }, isPending ? "Failed to cancel" : "Failed to remove");
+  }, [isPending, request]);
+
+  const toggleHtml = useCallback(async () => {
+    setShowHtml((value) => !value);
+    if (details) return;
+    try {
+      const response = await fetch(`/api/schedule/${job.id}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load the email");
+      setDetails(result.job);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load the email");
+    }
+  }, [details, job.id]);
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="w-full flex items-start gap-2 px-3 py-2.5 text-left hover:bg-muted/50 transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="font-medium truncate">{job.subject || "(no subject)"}</div>
+          <div className="text-xs text-muted-foreground truncate">{summarizeRecipients(job)}</div>
+        </div>
+        <div className="flex flex-col items-end gap-1 shrink-0">
+          <StatusIcon status={job.status} />
+          <span className="text-[10px] text-muted-foreground">{formatTime(job.sendAt)}</span>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 pl-9 space-y-3">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Mode</dt>
+            <dd>
+              {MODE_LABELS[job.mode]}
+              {job.profileId && ` · profile ${job.profileId}`}
+              {job.bulk && " · bulk"}
+            </dd>
+            <dt className="text-muted-foreground">{isPending ? "Sends" : "Scheduled for"}</dt>
+            <dd>{new Date(job.sendAt).toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Scheduled</dt>
+            <dd>{new Date(job.createdAt).toLocaleString()}</dd>
+            {job.result && (
+              <>
+                <dt className="text-muted-foreground">Result</dt>
+                <dd>
+                  {job.bulk
+                    ? `${job.result.sent} sent, ${job.result.failed} failed`
+                    : job.result.realDelivery
+                      ? "Delivered"
+                      : "Sent (not delivered)"}
+                  {job.result.previewUrl && (
+                    <a
+                      href={job.result.previewUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 ml-2 text-primary hover:underline"
+                    >
+                      Preview
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </dd>
+              </>
+            )}
+            {job.error && (
+              <>
+                <dt className="text-muted-foreground">Error</dt>
+                <dd className="text-red-600 break-words">{job.error}</dd>
+              </>
+            )}
+          </dl>
+
+          {/* Failed bulk recipients */}
+          {job.result?.results?.some((recipient) => !recipient.success) && (
+            <div className="rounded-md border divide-y max-h-32 overflow-y-auto">
+              {job.result.results
+                .filter((recipient) => !recipient.success)
+                .map((recipient, index) => (
+                  <div key={index} className="flex items-start gap-2 px-2.5 py-1.5 text-xs">
+                    <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-600" />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">{recipient.to}</div>
+                      {recipient.error && (
+                        <div className="text-red-600 break-words">{recipient.error}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+
+          {showHtml && (
+            <div className="space-y-1">
+              <p className="text-[11px] text-muted-foreground">
+                Content as it was when scheduled
+                {job.bulk && job.to[0] && `, for ${job.to[0]}`}
+              </p>
+              {details ? (
+                <iframe
+                  srcDoc={previewHtml}
+                  title="Scheduled email"
+                  sandbox=""
+                  className="w-full h-64 rounded-md border bg-white"
+                />
+              ) : (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Reschedule; finished or failed sends are queued again */}
+          {!isSending && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="datetime-local"
+                value={sendAt}
+                min={toDateTimeInputValue(new Date())}
+                onChange={(e) => setSendAt(e.target.value)}
+                className="h-7 text-xs flex-1"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleReschedule}
+                disabled={busy || !isFutureDateTime(sendAt)}
+              >
+                <CalendarClock className="w-3.5 h-3.5 mr-1.5" />
+                {isPending ? "Reschedule" : "Send again"}
+              </Button>
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-xs text-red-600">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={toggleHtml}>
+              {showHtml ? (
+                <EyeOff className="w-3.5 h-3.5 mr-1.5" />
+              ) : (
+                <Eye className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              {showHtml ? "Hide HTML" : "View HTML"}
+            </Button>
+            {!isSending && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs ml-auto text-red-600 hover:text-red-700"
+                onClick={handleDelete}
+                disabled={busy}
+                title={isPending ? "Cancel" : "Remove from the list"}
+              >
+                {isPending ? "Cancel send" : <Trash2 className="w-3.5 h-3.5" />}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const ScheduledPanel = memo(function ScheduledPanel() {
+  const [jobs, setJobs] = useState<ScheduledSend[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/schedule");
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load scheduled sends");
+      setJobs(result.jobs);
+      setError("");
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load scheduled sends");
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const pendingCount = jobs.filter((job) => job.status === "scheduled").length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {pendingCount} scheduled · sent by the server, even when this page is closed
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={loadJobs}
+          title="Refresh"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {isLoaded && jobs.length === 0 && !error ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+          <CalendarClock className="w-8 h-8" />
+          <p className="text-sm">No scheduled sends</p>
+          <p className="text-xs">Choose &ldquo;Send later&rdquo; in Compose to schedule one.</p>
+        </div>
+      ) : (
+        <div
+          className={cn(
+            "rounded-lg border divide-y max-h-[460px] overflow-y-auto",
+            !isLoaded && "opacity-50"
+          )}
+        >
+          {jobs.map((job) => (
+            <ScheduledSendItem key={job.id} job={job} onChange={loadJobs} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
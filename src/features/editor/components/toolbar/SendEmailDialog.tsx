@@ -1,10 +1,12 @@
 /**
- * Send Email Dialog - Send test emails with virtual mailbox, Resend API, or custom SMTP
+ * Send Email Dialog - Send test emails with virtual mailbox, local inbox, Resend API,
+ * custom SMTP, an email provider API (Postmark, SendGrid, Mailgun, Amazon SES), or a
+ * sender profile configured on the server
  */
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import {
   Send,
   Loader2,
@@ -17,6 +19,14 @@ import {
   Zap,
   Inbox,
   Key,
+  Braces,
+  User,
+  Users,
+  History,
+  Cloud,
+  HardDrive,
+  ShieldCheck,
+  CalendarClock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -39,8 +49,67 @@ import {
 } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
-import { useEditorStore } from "@/features/editor/stores";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useEditorStore,
+  useActiveSampleProfile,
+  useOutboxStore,
+  useBrandKitStore,
+  selectBrandKit,
+} from "@/features/editor/stores";
+import type {
+  ApiCredentials,
+  ApiProvider,
+  EmailExtras,
+  OutboxEntry,
+  SampleData,
+  SendMode,
+  SenderProfileSummary,
+} from "@/features/editor/types";
 import { compileDocument } from "@/features/editor/lib/mjml/compiler";
+import {
+  collectTemplateVariables,
+  compilePersonalized,
+  compileTemplate,
+  renderMergeTags,
+  renderMergeTagsInHtml,
+  renderTemplate,
+  resolveDynamicNodes,
+} from "@/features/editor/lib/merge-tags";
+import { generatePlainText } from "@/features/editor/lib/plain-text";
+import { applyUtmParameters } from "@/features/editor/lib/links";
+import {
+  countBlockingIssues,
+  runPreflight,
+  DEFAULT_SUBJECT,
+} from "@/features/editor/lib/preflight";
+import {
+  BulkRecipientsEditor,
+  BulkSendResults,
+  DEFAULT_BULK_SETTINGS,
+  buildBulkRecipients,
+  type BulkRecipientResult,
+  type BulkSettings,
+} from "./BulkRecipients";
+import { OutboxPanel } from "./OutboxPanel";
+import { LocalInboxPanel } from "./LocalInboxPanel";
+import { PreflightChecklist } from "./PreflightChecklist";
+import { ScheduledPanel, isFutureDateTime, toDateTimeInputValue } from "./ScheduledPanel";
+import {
+  ApiProviderSettings,
+  API_PROVIDERS,
+  DEFAULT_API_CREDENTIALS,
+  isApiCredentialsComplete,
+  isApiProvider,
+} from "./ApiProviderSettings";
+import {
+  MessageOptionsEditor,
+  DEFAULT_MESSAGE_OPTIONS,
+  isWithinAttachmentLimit,
+  splitAddresses,
+  toEmailExtras,
+  type MessageOptions,
+} from "./MessageOptionsEditor";
 
 // SMTP Presets for common email providers
 const SMTP_PRESETS = {
@@ -57,10 +126,35 @@ const SMTP_PRESETS = {
 
 type PresetKey = keyof typeof SMTP_PRESETS;
 
+const SEND_MODE_LABELS: Record<SendMode, string> = {
+  test: "Preview (virtual inbox)",
+  local: "Local inbox",
+  resend: "Resend",
+  smtp: "SMTP",
+  postmark: API_PROVIDERS.postmark.name,
+  sendgrid: API_PROVIDERS.sendgrid.name,
+  mailgun: API_PROVIDERS.mailgun.name,
+  ses: API_PROVIDERS.ses.name,
+};
+
 // Local storage keys
-const SMTP_STORAGE_KEY = "mail-studio-smtp-config";
 const SEND_MODE_STORAGE_KEY = "mail-studio-send-mode";
-const RESEND_API_KEY_STORAGE_KEY = "mail-studio-resend-api-key";
+const SENDER_PROFILE_STORAGE_KEY = "mail-studio-sender-profile";
+
+// Keys that held credentials in earlier versions, removed on load
+const LEGACY_CREDENTIAL_STORAGE_KEYS = [
+  "mail-studio-smtp-config",
+  "mail-studio-resend-api-key",
+  "mail-studio-api-credentials",
+];
+
+// Columns of the mode grid by number of modes (static for Tailwind)
+const MODE_GRID_COLUMNS: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+};
 
 interface SmtpConfig {
   preset: PresetKey;
@@ -77,8 +171,52 @@ interface EmailConfig {
   subject: string;
 }
 
-type SendMode = "test" | "resend" | "smtp";
+// "profile" sends through a server-side sender profile, whose mode is used for delivery
+type DialogSendMode = SendMode | "profile";
+type RecipientMode = "single" | "bulk";
 type SendStatus = "idle" | "sending" | "success" | "error";
+type DialogView = "compose" | "outbox" | "scheduled" | "inbox";
+
+// Message content sent to the API (`to` is added for single sends)
+interface OutgoingMessage {
+  from?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  extras?: EmailExtras;
+}
+
+interface BulkOptions {
+  concurrency: number;
+  intervalMs: number;
+}
+
+interface SingleSendResponse {
+  messageId?: string;
+  previewUrl?: string | null;
+  realDelivery?: boolean;
+}
+
+interface BulkSendResponse {
+  sent: number;
+  failed: number;
+  results: BulkRecipientResult[];
+  realDelivery?: boolean;
+}
+
+// A bulk send running on the server (see /api/send-email/bulk/[id])
+interface BulkSendProgress {
+  status: "scheduled" | "sending" | "sent" | "partial" | "failed";
+  total: number;
+  sent: number;
+  failed: number;
+  realDelivery: boolean;
+  // Set once the send has finished
+  results?: BulkRecipientResult[];
+  error?: string;
+}
+
+const BULK_POLL_INTERVAL_MS = 1000;
 
 export function SendEmailDialog() {
   const [open, setOpen] = useState(false);
@@ -86,9 +224,30 @@ export function SendEmailDialog() {
   const [errorMessage, setErrorMessage] = useState("");
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [realDelivery, setRealDelivery] = useState(false);
+  const [view, setView] = useState<DialogView>("compose");
+
+  // Local inbox: the message shown in detail, and the one captured by the last send
+  const [inboxMessageId, setInboxMessageId] = useState<string | null>(null);
+  const [capturedMessageId, setCapturedMessageId] = useState<string | null>(null);
+
+  // Send later: a datetime-local value, and the time of the last scheduled send
+  const [sendLater, setSendLater] = useState(false);
+  const [sendAt, setSendAt] = useState("");
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+
+  // Send mode: 'test' (virtual mailbox), 'local' (offline inbox), 'resend' (Resend API),
+  // 'smtp' (custom SMTP), an API provider, or 'profile' (server-side credentials)
+  const [sendMode, setSendMode] = useState<DialogSendMode>("test");
+
+  // Sender profiles configured on the server; when enforced, credentials can't be entered
+  const [senderProfiles, setSenderProfiles] = useState<SenderProfileSummary[] | null>(null);
+  const [profilesEnforced, setProfilesEnforced] = useState(false);
+  const [profileId, setProfileId] = useState("");
 
-  // Send mode: 'test' (virtual mailbox), 'resend' (Resend API), or 'smtp' (custom SMTP)
-  const [sendMode, setSendMode] = useState<SendMode>("test");
+  // API provider credentials, kept per provider; the last chosen provider is reused
+  const [apiProvider, setApiProvider] = useState<ApiProvider>("postmark");
+  const [apiCredentials, setApiCredentials] =
+    useState<Record<ApiProvider, ApiCredentials>>(DEFAULT_API_CREDENTIALS);
 
   // Resend API Key
   const [resendApiKey, setResendApiKey] = useState("");
@@ -103,57 +262,90 @@ export function SendEmailDialog() {
     pass: "",
   });
 
+  // Recipients: a single address or a CSV list (one personalized email per row)
+  const [recipientMode, setRecipientMode] = useState<RecipientMode>("single");
+  const [bulkSettings, setBulkSettings] = useState<BulkSettings>(DEFAULT_BULK_SETTINGS);
+  const [bulkResults, setBulkResults] = useState<BulkRecipientResult[] | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // CC / BCC / Reply-To, custom headers, and attachments
+  const [messageOptions, setMessageOptions] = useState<MessageOptions>(DEFAULT_MESSAGE_OPTIONS);
+
   // Email Configuration
   const [email, setEmail] = useState<EmailConfig>({
     from: "",
     to: "",
-    subject: "Test Email from Mail Studio",
+    subject: DEFAULT_SUBJECT,
   });
 
-  // Load saved config from localStorage
+  // Load saved config from localStorage; credentials are never stored
   useEffect(() => {
     try {
+      LEGACY_CREDENTIAL_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+
       // Load send mode preference
       const savedMode = localStorage.getItem(SEND_MODE_STORAGE_KEY);
-      if (savedMode === "smtp" || savedMode === "test" || savedMode === "resend") {
-        setSendMode(savedMode);
-      }
-
-      // Load Resend API key
-      const savedResendKey = localStorage.getItem(RESEND_API_KEY_STORAGE_KEY);
-      if (savedResendKey) {
-        setResendApiKey(savedResendKey);
-      }
-
-      // Load SMTP config
-      const saved = localStorage.getItem(SMTP_STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved) as SmtpConfig;
-        setSmtp(parsed);
-        if (parsed.user && !email.from) {
-          setEmail((prev) => ({ ...prev, from: parsed.user }));
-        }
+      if (savedMode && (savedMode in SEND_MODE_LABELS || savedMode === "profile")) {
+        setSendMode(savedMode as DialogSendMode);
+        if (isApiProvider(savedMode)) setApiProvider(savedMode);
       }
+      setProfileId(localStorage.getItem(SENDER_PROFILE_STORAGE_KEY) ?? "");
     } catch {
-      // Ignore parse errors
+      // Ignore storage errors
     }
   }, []);
 
-  // Save config to localStorage
+  // Save the send mode and sender profile to localStorage
   const saveConfig = useCallback(() => {
     try {
       localStorage.setItem(SEND_MODE_STORAGE_KEY, sendMode);
-      if (sendMode === "resend" && resendApiKey) {
-        localStorage.setItem(RESEND_API_KEY_STORAGE_KEY, resendApiKey);
-      }
-      if (sendMode === "smtp") {
-        const toSave = { ...smtp, pass: "" }; // Don't save password
-        localStorage.setItem(SMTP_STORAGE_KEY, JSON.stringify(toSave));
+      if (sendMode === "profile") {
+        localStorage.setItem(SENDER_PROFILE_STORAGE_KEY, profileId);
       }
     } catch {
       // Ignore storage errors
     }
-  }, [smtp, sendMode, resendApiKey]);
+  }, [sendMode, profileId]);
+
+  // Load the server's sender profiles the first time the dialog opens
+  useEffect(() => {
+    if (!open || senderProfiles) return;
+    fetch("/api/sender-profiles")
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        const profiles: SenderProfileSummary[] = result.profiles;
+        setSenderProfiles(profiles);
+        setProfilesEnforced(result.enforced);
+        setProfileId((prev) =>
+          profiles.some((profile) => profile.id === prev) ? prev : (profiles[0]?.id ?? "")
+        );
+
+        if (result.enforced) {
+          // Credentials entered in the browser can't be used, so don't keep them
+          setResendApiKey("");
+          setApiCredentials(DEFAULT_API_CREDENTIALS);
+          setSmtp((prev) => ({ ...prev, user: "", pass: "" }));
+        }
+        setSendMode((prev) => {
+          if (prev === "profile" && profiles.length === 0) return "test";
+          if (result.enforced && prev !== "test" && prev !== "local" && prev !== "profile") {
+            return profiles.length > 0 ? "profile" : "test";
+          }
+          return prev;
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to load sender profiles:", error);
+        setSenderProfiles([]);
+      });
+  }, [open, senderProfiles]);
+
+  const selectedProfile = senderProfiles?.find((profile) => profile.id === profileId) ?? null;
+
+  // Mode the message is delivered with
+  const deliveryMode: SendMode =
+    sendMode === "profile" ? (selectedProfile?.mode ?? "test") : sendMode;
 
   // Handle preset change
   const handlePresetChange = useCallback((preset: PresetKey) => {
@@ -168,8 +360,285 @@ export function SendEmailDialog() {
   }, []);
 
   // Get editor state
-  const document = useEditorStore((s) => s.document);
+  const editorDocument = useEditorStore((s) => s.document);
   const headSettings = useEditorStore((s) => s.headSettings);
+  const sampleProfile = useActiveSampleProfile();
+  const brandKit = useBrandKitStore(selectBrandKit);
+
+  // Document as it is sent, with the UTM parameters on its links
+  const document = useMemo(
+    () => applyUtmParameters(editorDocument, headSettings.utm),
+    [editorDocument, headSettings.utm]
+  );
+
+  // Variables each CSV row can provide
+  const templateVariables = useMemo(
+    () => collectTemplateVariables(document, headSettings, email.subject),
+    [document, headSettings, email.subject]
+  );
+  const bulkRecipients = useMemo(() => buildBulkRecipients(bulkSettings), [bulkSettings]);
+
+  const addOutboxEntry = useOutboxStore((s) => s.addEntry);
+  const setSelectedId = useEditorStore((s) => s.setSelectedId);
+
+  // Send despite blocking preflight issues
+  const [preflightOverride, setPreflightOverride] = useState(false);
+
+  // Content as the send will compile it; for bulk sends, as the first recipient
+  // receives it, with the variables missing for any recipient
+  const preflightContent = useMemo(() => {
+    if (!open || view !== "compose") return null;
+
+    if (recipientMode === "bulk") {
+      const { html, errors } = compileTemplate(document, headSettings, brandKit);
+      const missing = new Set<string>();
+      const rendered = bulkRecipients.map((recipient) => {
+        const result = renderTemplate(html, recipient.data);
+        result.missing.forEach((name) => missing.add(name));
+        return result.output;
+      });
+      return { html: rendered[0] ?? html, errors, missing };
+    }
+
+    if (sampleProfile) {
+      const { html, errors, missing } = compilePersonalized(
+        document,
+        headSettings,
+        sampleProfile.data,
+        { brandKit }
+      );
+      return { html, errors, missing: new Set(missing) };
+    }
+    const { html, errors } = compileDocument(document, headSettings, brandKit);
+    return { html, errors, missing: new Set(renderMergeTagsInHtml(html, {}).missing) };
+  }, [open, view, recipientMode, document, headSettings, brandKit, sampleProfile, bulkRecipients]);
+
+  const preflightChecks = useMemo(() => {
+    if (!preflightContent) return [];
+
+    const missing = new Set(preflightContent.missing);
+    const subjectData =
+      recipientMode === "bulk"
+        ? bulkRecipients.map((recipient) => recipient.data)
+        : [sampleProfile?.data ?? {}];
+    subjectData.forEach((data) =>
+      renderMergeTags(email.subject, data).missing.forEach((name) => missing.add(name))
+    );
+
+    return runPreflight({
+      document,
+      headSettings,
+      subject: email.subject,
+      html: preflightContent.html,
+      compileErrors: preflightContent.errors,
+      missing: Array.from(missing).sort(),
+      realDelivery: deliveryMode !== "test" && deliveryMode !== "local",
+    });
+  }, [
+    preflightContent,
+    recipientMode,
+    bulkRecipients,
+    sampleProfile,
+    email.subject,
+    document,
+    headSettings,
+    deliveryMode,
+  ]);
+  const isPreflightBlocked = countBlockingIssues(preflightChecks) > 0 && !preflightOverride;
+
+  // Transport part of the request body, based on mode
+  const transport = useMemo(() => {
+    if (sendMode === "profile") return { mode: deliveryMode, profileId };
+    if (sendMode === "test" || sendMode === "local") return { mode: sendMode };
+    if (sendMode === "resend") return { mode: "resend", resendApiKey };
+    if (isApiProvider(sendMode)) return { mode: sendMode, api: apiCredentials[sendMode] };
+    return {
+      mode: "smtp",
+      smtp: {
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: {
+          user: smtp.user,
+          pass: smtp.pass,
+        },
+      },
+    };
+  }, [sendMode, deliveryMode, profileId, resendApiKey, smtp, apiCredentials]);
+
+  // Send one message with the current settings and record the attempt in the outbox
+  const deliverSingle = useCallback(
+    async (message: OutgoingMessage & { to: string[] }): Promise<SingleSendResponse> => {
+      // Test mode always sends from the virtual mailbox account
+      const from = deliveryMode === "test" ? undefined : message.from || undefined;
+      const { subject, html, text, extras } = message;
+      const to = message.to.join(", ");
+      const entry = { mode: deliveryMode, from, subject, html, text, extras };
+
+      try {
+        const response = await fetch("/api/send-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...transport,
+            email: { from, to: message.to, subject, html, text, ...extras },
+          }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to send email");
+        }
+
+        await addOutboxEntry({
+          ...entry,
+          bulk: false,
+          status: "sent",
+          recipients: [
+            {
+              to,
+              success: true,
+              messageId: result.messageId,
+              previewUrl: result.previewUrl,
+            },
+          ],
+          realDelivery: result.realDelivery || false,
+        });
+        return result;
+      } catch (error) {
+        const errorText = error instanceof Error ? error.message : "Unknown error";
+        await addOutboxEntry({
+          ...entry,
+          bulk: false,
+          status: "failed",
+          error: errorText,
+          recipients: [{ to, success: false, error: errorText }],
+          realDelivery: false,
+        });
+        throw error;
+      }
+    },
+    [deliveryMode, transport, addOutboxEntry]
+  );
+
+  // Send one personalized email per recipient (the server renders each message)
+  // and record the attempt in the outbox
+  const deliverBulk = useCallback(
+    async (
+      template: OutgoingMessage,
+      recipients: { to: string; data: SampleData }[],
+      options: BulkOptions
+    ): Promise<BulkSendResponse> => {
+      const from = deliveryMode === "test" ? undefined : template.from || undefined;
+      const { subject, html, text, extras } = template;
+      const entry = {
+        mode: deliveryMode,
+        from,
+        subject,
+        html,
+        text,
+        extras,
+        bulk: true,
+        bulkOptions: options,
+      };
+
+      try {
+        const response = await fetch("/api/send-email/bulk", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...transport,
+            email: { from, subject, html, text, ...extras },
+            recipients,
+            options,
+          }),
+        });
+
+        const created = await response.json();
+
+        if (!response.ok) {
+          throw new Error(created.error || "Failed to send emails");
+        }
+
+        // The server sends in the background; poll until the job has finished
+        setBulkProgress({ done: 0, total: recipients.length });
+        let progress: BulkSendProgress;
+        do {
+          await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+          const progressResponse = await fetch(`/api/send-email/bulk/${created.job.id}`);
+          progress = await progressResponse.json();
+          if (!progressResponse.ok) {
+            throw new Error(progress.error || "Failed to check the bulk send");
+          }
+          setBulkProgress({ done: progress.sent + progress.failed, total: progress.total });
+        } while (progress.status === "scheduled" || progress.status === "sending");
+
+        const { results, sent, failed, realDelivery } = progress;
+        if (!results) {
+          throw new Error(progress.error || "Failed to send emails");
+        }
+
+        await addOutboxEntry({
+          ...entry,
+          status: failed === 0 ? "sent" : sent === 0 ? "failed" : "partial",
+          recipients: results.map((recipientResult, index) => ({
+            ...recipientResult,
+            data: recipients[index]?.data,
+          })),
+          realDelivery,
+        });
+        return { sent, failed, results, realDelivery };
+      } catch (error) {
+        const errorText = error instanceof Error ? error.message : "Unknown error";
+        await addOutboxEntry({
+          ...entry,
+          status: "failed",
+          error: errorText,
+          recipients: recipients.map((recipient) => ({
+            ...recipient,
+            success: false,
+            error: errorText,
+          })),
+          realDelivery: false,
+        });
+        throw error;
+      } finally {
+        setBulkProgress(null);
+      }
+    },
+    [deliveryMode, transport, addOutboxEntry]
+  );
+
+  // Queue the message on the server for the chosen time. The content is sent now,
+  // so later edits to the document don't change it.
+  const scheduleSend = useCallback(
+    async (
+      message: OutgoingMessage & { to?: string[] },
+      bulk?: { recipients: { to: string; data: SampleData }[]; options: BulkOptions }
+    ) => {
+      const from = deliveryMode === "test" ? undefined : message.from || undefined;
+      const { to, subject, html, text, extras } = message;
+
+      const response = await fetch("/api/schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...transport,
+          sendAt: new Date(sendAt).toISOString(),
+          email: { from, to, subject, html, text, ...extras },
+          recipients: bulk?.recipients,
+          options: bulk?.options,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to schedule send");
+      }
+      setScheduledFor(result.job.sendAt);
+    },
+    [deliveryMode, transport, sendAt]
+  );
 
   // Send email
   const handleSend = useCallback(async () => {
@@ -177,70 +646,88 @@ export function SendEmailDialog() {
     setErrorMessage("");
     setPreviewUrl(null);
     setRealDelivery(false);
+    setBulkResults(null);
+    setCapturedMessageId(null);
+    setScheduledFor(null);
 
     // Save config before sending
     saveConfig();
 
+    const extras = toEmailExtras(messageOptions);
+
     try {
-      // Compile the document to HTML
-      const { html } = compileDocument(document, headSettings);
-
-      // Build request body based on mode
-      let requestBody;
-      if (sendMode === "test") {
-        requestBody = {
-          mode: "test",
-          email: {
-            to: email.to,
-            subject: email.subject,
-            html,
-          },
-        };
-      } else if (sendMode === "resend") {
-        requestBody = {
-          mode: "resend",
-          resendApiKey,
-          email: {
-            from: email.from || undefined,
-            to: email.to,
-            subject: email.subject,
-            html,
-          },
+      if (recipientMode === "bulk") {
+        const template = {
+          from: email.from,
+          subject: email.subject,
+          html: compileTemplate(document, headSettings, brandKit).html,
+          // Keeps show-if / repeat blocks so the server can render them per recipient
+          text: headSettings.plainText ?? generatePlainText(document, { markBlocks: true }),
+          extras,
         };
-      } else {
-        requestBody = {
-          mode: "smtp",
-          smtp: {
-            host: smtp.host,
-            port: smtp.port,
-            secure: smtp.secure,
-            auth: {
-              user: smtp.user,
-              pass: smtp.pass,
-            },
-          },
-          email: {
-            from: email.from,
-            to: email.to,
-            subject: email.subject,
-            html,
-          },
+        const options = {
+          concurrency: bulkSettings.concurrency,
+          intervalMs: bulkSettings.intervalMs,
         };
+
+        if (sendLater) {
+          await scheduleSend(template, { recipients: bulkRecipients, options });
+          setStatus("success");
+          return;
+        }
+
+        const result = await deliverBulk(template, bulkRecipients, options);
+
+        setBulkResults(result.results);
+        setRealDelivery(result.realDelivery || false);
+        setStatus("success");
+        return;
       }
 
-      // Send request to API
-      const response = await fetch("/api/send-email", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
+      // Compile the document to HTML, personalized with the selected sample profile
+      const { html } = sampleProfile
+        ? compilePersonalized(document, headSettings, sampleProfile.data, { brandKit })
+        : compileDocument(document, headSettings, brandKit);
+      const subject = sampleProfile
+        ? renderMergeTags(email.subject, sampleProfile.data).output
+        : email.subject;
 
-      const result = await response.json();
+      // Plain-text alternative: the hand-edited version, or generated from the document
+      const plainText =
+        headSettings.plainText ??
+        generatePlainText(
+          sampleProfile ? resolveDynamicNodes(document, sampleProfile.data) : document
+        );
+      const text = sampleProfile
+        ? renderMergeTags(plainText, sampleProfile.data).output
+        : plainText;
 
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to send email");
+      // Header values may use merge tags too (e.g. List-Unsubscribe)
+      if (sampleProfile && extras.headers) {
+        extras.headers = Object.fromEntries(
+          Object.entries(extras.headers).map(([name, value]) => [
+            name,
+            renderMergeTags(value, sampleProfile.data).output,
+          ])
+        );
+      }
+
+      const message = {
+        from: email.from,
+        to: splitAddresses(email.to),
+        subject,
+        html,
+        text,
+        extras,
+      };
+      if (sendLater) {
+        await scheduleSend(message);
+        setStatus("success");
+        return;
       }
 
+      const result = await deliverSingle(message);
+
       setStatus("success");
       setRealDelivery(result.realDelivery || false);
 
@@ -248,23 +735,83 @@ export function SendEmailDialog() {
       if (result.previewUrl) {
         setPreviewUrl(result.previewUrl);
       }
+      if (deliveryMode === "local" && result.messageId) {
+        setCapturedMessageId(result.messageId);
+      }
     } catch (error) {
       setStatus("error");
       setErrorMessage(error instanceof Error ? error.message : "Unknown error");
     }
-  }, [sendMode, smtp, email, document, headSettings, saveConfig, resendApiKey]);
+  }, [
+    email,
+    messageOptions,
+    document,
+    headSettings,
+    brandKit,
+    sampleProfile,
+    deliveryMode,
+    saveConfig,
+    recipientMode,
+    bulkRecipients,
+    bulkSettings.concurrency,
+    bulkSettings.intervalMs,
+    sendLater,
+    deliverSingle,
+    deliverBulk,
+    scheduleSend,
+  ]);
+
+  // Repeat a logged send with the current settings.
+  // For bulk sends with failures, only the failed recipients are retried.
+  const handleResend = useCallback(
+    async (entry: OutboxEntry) => {
+      saveConfig();
+      const message = {
+        from: email.from || entry.from,
+        subject: entry.subject,
+        html: entry.html,
+        text: entry.text,
+        extras: entry.extras,
+      };
+
+      if (!entry.bulk) {
+        await deliverSingle({ ...message, to: splitAddresses(entry.recipients[0]?.to ?? "") });
+        return;
+      }
+
+      const failed = entry.recipients.filter((recipient) => !recipient.success);
+      const targets = entry.status === "partial" ? failed : entry.recipients;
+      await deliverBulk(
+        message,
+        targets.map((recipient) => ({ to: recipient.to, data: recipient.data ?? {} })),
+        entry.bulkOptions ?? { concurrency: 1, intervalMs: 0 }
+      );
+    },
+    [email.from, saveConfig, deliverSingle, deliverBulk]
+  );
 
   // Check if form is valid
-  const isTestModeValid = email.to && email.subject;
-  const isResendModeValid = resendApiKey && email.to && email.subject;
-  const isSmtpModeValid =
-    smtp.host && smtp.port && smtp.user && smtp.pass && email.from && email.to && email.subject;
+  const isTransportValid =
+    sendMode === "test" || sendMode === "local"
+      ? true
+      : sendMode === "profile"
+        ? !!selectedProfile
+        : sendMode === "resend"
+          ? !!resendApiKey
+          : isApiProvider(sendMode)
+            ? isApiCredentialsComplete(sendMode, apiCredentials[sendMode]) && !!email.from
+            : !!(smtp.host && smtp.port && smtp.user && smtp.pass && email.from);
+  const hasRecipients =
+    recipientMode === "bulk" ? bulkRecipients.length > 0 : splitAddresses(email.to).length > 0;
+  // Credentials aren't stored on the server, so only profiles can be scheduled
+  const canSchedule = sendMode === "profile" || sendMode === "test" || sendMode === "local";
   const isValid =
-    sendMode === "test"
-      ? isTestModeValid
-      : sendMode === "resend"
-        ? isResendModeValid
-        : isSmtpModeValid;
+    isTransportValid &&
+    hasRecipients &&
+    !!email.subject &&
+    isWithinAttachmentLimit(messageOptions) &&
+    (!sendLater || (canSchedule && isFutureDateTime(sendAt))) &&
+    !isPreflightBlocked;
 
   // Reset status when dialog closes
   const handleOpenChange = useCallback((newOpen: boolean) => {
@@ -275,10 +822,23 @@ export function SendEmailDialog() {
         setStatus("idle");
         setPreviewUrl(null);
         setRealDelivery(false);
+        setBulkResults(null);
+        setCapturedMessageId(null);
+        setScheduledFor(null);
+        setPreflightOverride(false);
       }, 200);
     }
   }, []);
 
+  // Select a node flagged by the preflight so it can be fixed
+  const handleSelectNode = useCallback(
+    (nodeId: string) => {
+      setSelectedId(nodeId);
+      handleOpenChange(false);
+    },
+    [setSelectedId, handleOpenChange]
+  );
+
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <Tooltip>
@@ -300,383 +860,738 @@ export function SendEmailDialog() {
             Send Email
           </DialogTitle>
           <DialogDescription>
-            Send a test email to preview your design in real email clients.
+            Send a test email to preview your design in real email clients. Every send is logged in
+            the outbox.
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6 py-4 max-h-[500px] overflow-y-auto">
-          {/* Mode Selection - 3 options */}
-          <div className="grid grid-cols-3 gap-2">
-            <button
-              type="button"
-              onClick={() => setSendMode("test")}
-              className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
-                sendMode === "test"
-                  ? "border-primary bg-primary/5"
-                  : "border-border hover:border-muted-foreground/30"
-              }`}
-            >
-              <div
-                className={`p-1.5 rounded-full ${sendMode === "test" ? "bg-primary/10" : "bg-muted"}`}
-              >
-                <FlaskConical
-                  className={`w-4 h-4 ${sendMode === "test" ? "text-primary" : "text-muted-foreground"}`}
-                />
-              </div>
-              <div className="text-center">
-                <div className="font-medium text-xs">Preview</div>
-                <div className="text-[10px] text-muted-foreground">Virtual inbox</div>
-              </div>
-            </button>
-
-            <button
-              type="button"
-              onClick={() => setSendMode("resend")}
-              className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
-                sendMode === "resend"
-                  ? "border-primary bg-primary/5"
-                  : "border-border hover:border-muted-foreground/30"
-              }`}
-            >
-              <div
-                className={`p-1.5 rounded-full ${sendMode === "resend" ? "bg-primary/10" : "bg-muted"}`}
-              >
-                <Inbox
-                  className={`w-4 h-4 ${sendMode === "resend" ? "text-primary" : "text-muted-foreground"}`}
-                />
-              </div>
-              <div className="text-center">
-                <div className="font-medium text-xs">Resend</div>
-                <div className="text-[10px] text-muted-foreground">Real delivery</div>
-              </div>
-              {sendMode === "resend" && (
-                <div className="flex items-center gap-0.5 text-[10px] text-primary">
-                  <Zap className="w-2.5 h-2.5" />
-                  Easy
-                </div>
-              )}
-            </button>
-
-            <button
-              type="button"
-              onClick={() => setSendMode("smtp")}
-              className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
-                sendMode === "smtp"
-                  ? "border-primary bg-primary/5"
-                  : "border-border hover:border-muted-foreground/30"
-              }`}
-            >
+        <Tabs value={view} onValueChange={(value) => setView(value as DialogView)}>
+          <TabsList className="w-full grid grid-cols-4">
+            <TabsTrigger value="compose" className="text-xs">
+              <Send className="w-3.5 h-3.5 mr-1.5" />
+              Compose
+            </TabsTrigger>
+            <TabsTrigger value="outbox" className="text-xs">
+              <History className="w-3.5 h-3.5 mr-1.5" />
+              Outbox
+            </TabsTrigger>
+            <TabsTrigger value="scheduled" className="text-xs">
+              <CalendarClock className="w-3.5 h-3.5 mr-1.5" />
+              Scheduled
+            </TabsTrigger>
+            <TabsTrigger value="inbox" className="text-xs">
+              <HardDrive className="w-3.5 h-3.5 mr-1.5" />
+              Local Inbox
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="scheduled" className="mt-2">
+            <ScheduledPanel />
+          </TabsContent>
+
+          <TabsContent value="inbox" className="mt-2">
+            <LocalInboxPanel selectedId={inboxMessageId} onSelect={setInboxMessageId} />
+          </TabsContent>
+
+          <TabsContent value="outbox" className="mt-2">
+            <OutboxPanel
+              onResend={handleResend}
+              canResend={isTransportValid}
+              sendModeLabel={
+                sendMode === "profile" && selectedProfile
+                  ? selectedProfile.name
+                  : SEND_MODE_LABELS[deliveryMode]
+              }
+            />
+          </TabsContent>
+
+          <TabsContent value="compose">
+            <div className="space-y-6 py-4 max-h-[500px] overflow-y-auto">
+              {/* Mode Selection - credential modes are hidden when sender profiles are enforced */}
               <div
-                className={`p-1.5 rounded-full ${sendMode === "smtp" ? "bg-primary/10" : "bg-muted"}`}
+                className={`grid gap-2 ${MODE_GRID_COLUMNS[2 + (profilesEnforced ? 0 : 3) + (senderProfiles?.length ? 1 : 0)]}`}
               >
-                <Server
-                  className={`w-4 h-4 ${sendMode === "smtp" ? "text-primary" : "text-muted-foreground"}`}
-                />
-              </div>
-              <div className="text-center">
-                <div className="font-medium text-xs">SMTP</div>
-                <div className="text-[10px] text-muted-foreground">Custom server</div>
-              </div>
-            </button>
-          </div>
-
-          {/* Test Mode Info */}
-          {sendMode === "test" && (
-            <div className="p-3 rounded-lg bg-blue-500/10 border border-blue-500/20">
-              <p className="text-sm text-blue-600 dark:text-blue-400">
-                <strong>Virtual Mailbox:</strong> Uses Ethereal Email. Your email will be sent to a
-                virtual inbox, and you&apos;ll get a link to preview it online. The email won&apos;t
-                actually arrive in the recipient&apos;s inbox.
-              </p>
-            </div>
-          )}
-
-          {/* Resend Mode Info & Config */}
-          {sendMode === "resend" && (
-            <>
-              <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20">
-                <p className="text-sm text-green-600 dark:text-green-400">
-                  <strong>Real Delivery:</strong> Uses Resend API to send emails directly to the
-                  recipient&apos;s inbox. Perfect for testing in real email clients like Gmail,
-                  Outlook, etc.
-                </p>
-              </div>
+                <button
+                  type="button"
+                  onClick={() => setSendMode("test")}
+                  className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                    sendMode === "test"
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-muted-foreground/30"
+                  }`}
+                >
+                  <div
+                    className={`p-1.5 rounded-full ${sendMode === "test" ? "bg-primary/10" : "bg-muted"}`}
+                  >
+                    <FlaskConical
+                      className={`w-4 h-4 ${sendMode === "test" ? "text-primary" : "text-muted-foreground"}`}
+                    />
+                  </div>
+                  <div className="text-center">
+                    <div className="font-medium text-xs">Preview</div>
+                    <div className="text-[10px] text-muted-foreground">Virtual inbox</div>
+                  </div>
+                </button>
 
-              <div className="space-y-3">
-                <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                  <Key className="w-4 h-4" />
-                  Resend Configuration
-                </div>
+                <button
+                  type="button"
+                  onClick={() => setSendMode("local")}
+                  className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                    sendMode === "local"
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-muted-foreground/30"
+                  }`}
+                >
+                  <div
+                    className={`p-1.5 rounded-full ${sendMode === "local" ? "bg-primary/10" : "bg-muted"}`}
+                  >
+                    <HardDrive
+                      className={`w-4 h-4 ${sendMode === "local" ? "text-primary" : "text-muted-foreground"}`}
+                    />
+                  </div>
+                  <div className="text-center">
+                    <div className="font-medium text-xs">Local</div>
+                    <div className="text-[10px] text-muted-foreground">Offline inbox</div>
+                  </div>
+                </button>
 
-                <div className="grid gap-2">
-                  <Label htmlFor="resendApiKey">API Key</Label>
-                  <Input
-                    id="resendApiKey"
-                    type="password"
-                    placeholder="re_xxxxxxxxxx"
-                    value={resendApiKey}
-                    onChange={(e) => setResendApiKey(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Get your free API key at{" "}
-                    <a
-                      href="https://resend.com"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
+                {!profilesEnforced && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => setSendMode("resend")}
+                      className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                        sendMode === "resend"
+                          ? "border-primary bg-primary/5"
+                          : "border-border hover:border-muted-foreground/30"
+                      }`}
+                    >
+                      <div
+                        className={`p-1.5 rounded-full ${sendMode === "resend" ? "bg-primary/10" : "bg-muted"}`}
+                      >
+                        <Inbox
+                          className={`w-4 h-4 ${sendMode === "resend" ? "text-primary" : "text-muted-foreground"}`}
+                        />
+                      </div>
+                      <div className="text-center">
+                        <div className="font-medium text-xs">Resend</div>
+                        <div className="text-[10px] text-muted-foreground">Real delivery</div>
+                      </div>
+                      {sendMode === "resend" && (
+                        <div className="flex items-center gap-0.5 text-[10px] text-primary">
+                          <Zap className="w-2.5 h-2.5" />
+                          Easy
+                        </div>
+                      )}
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setSendMode("smtp")}
+                      className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                        sendMode === "smtp"
+                          ? "border-primary bg-primary/5"
+                          : "border-border hover:border-muted-foreground/30"
+                      }`}
+                    >
+                      <div
+                        className={`p-1.5 rounded-full ${sendMode === "smtp" ? "bg-primary/10" : "bg-muted"}`}
+                      >
+                        <Server
+                          className={`w-4 h-4 ${sendMode === "smtp" ? "text-primary" : "text-muted-foreground"}`}
+                        />
+                      </div>
+                      <div className="text-center">
+                        <div className="font-medium text-xs">SMTP</div>
+                        <div className="text-[10px] text-muted-foreground">Custom server</div>
+                      </div>
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setSendMode(apiProvider)}
+                      className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                        isApiProvider(sendMode)
+                          ? "border-primary bg-primary/5"
+                          : "border-border hover:border-muted-foreground/30"
+                      }`}
+                    >
+                      <div
+                        className={`p-1.5 rounded-full ${isApiProvider(sendMode) ? "bg-primary/10" : "bg-muted"}`}
+                      >
+                        <Cloud
+                          className={`w-4 h-4 ${isApiProvider(sendMode) ? "text-primary" : "text-muted-foreground"}`}
+                        />
+                      </div>
+                      <div className="text-center">
+                        <div className="font-medium text-xs">API</div>
+                        <div className="text-[10px] text-muted-foreground">
+                          {API_PROVIDERS[apiProvider].name}
+                        </div>
+                      </div>
+                    </button>
+                  </>
+                )}
+
+                {!!senderProfiles?.length && (
+                  <button
+                    type="button"
+                    onClick={() => setSendMode("profile")}
+                    className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border-2 transition-colors ${
+                      sendMode === "profile"
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-muted-foreground/30"
+                    }`}
+                  >
+                    <div
+                      className={`p-1.5 rounded-full ${sendMode === "profile" ? "bg-primary/10" : "bg-muted"}`}
                     >
-                      resend.com
-                    </a>{" "}
-                    (3,000 free emails/month)
+                      <ShieldCheck
+                        className={`w-4 h-4 ${sendMode === "profile" ? "text-primary" : "text-muted-foreground"}`}
+                      />
+                    </div>
+                    <div className="text-center">
+                      <div className="font-medium text-xs">Profile</div>
+                      <div className="text-[10px] text-muted-foreground">Server-side</div>
+                    </div>
+                  </button>
+                )}
+              </div>
+
+              {/* Test Mode Info */}
+              {sendMode === "test" && (
+                <div className="p-3 rounded-lg bg-blue-500/10 border border-blue-500/20">
+                  <p className="text-sm text-blue-600 dark:text-blue-400">
+                    <strong>Virtual Mailbox:</strong> Uses Ethereal Email. Your email will be sent
+                    to a virtual inbox, and you&apos;ll get a link to preview it online. The email
+                    won&apos;t actually arrive in the recipient&apos;s inbox.
                   </p>
                 </div>
+              )}
 
-                <div className="grid gap-2">
-                  <Label htmlFor="resendFrom">From (optional)</Label>
-                  <Input
-                    id="resendFrom"
-                    type="email"
-                    placeholder="onboarding@resend.dev (default)"
-                    value={email.from}
-                    onChange={(e) => setEmail((prev) => ({ ...prev, from: e.target.value }))}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Leave empty to use Resend&apos;s default sender, or use your verified domain.
+              {/* Local Mode Info */}
+              {sendMode === "local" && (
+                <div className="p-3 rounded-lg bg-muted border border-border">
+                  <p className="text-sm text-muted-foreground">
+                    <strong className="text-foreground">Local Inbox:</strong> Messages are captured
+                    by this server and never leave your machine, so no internet connection is
+                    needed. Open them in the Local Inbox tab.
                   </p>
                 </div>
-              </div>
+              )}
+
+              {/* Sender Profile */}
+              {sendMode === "profile" && (
+                <>
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                      <ShieldCheck className="w-4 h-4" />
+                      Sender Profile
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label htmlFor="senderProfile">Profile</Label>
+                      <Select value={profileId} onValueChange={setProfileId}>
+                        <SelectTrigger id="senderProfile" className="w-full">
+                          <SelectValue placeholder="Choose a profile" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {senderProfiles?.map((profile) => (
+                            <SelectItem key={profile.id} value={profile.id}>
+                              {profile.name}
+                              <span className="text-muted-foreground">
+                                {" "}
+                                · {SEND_MODE_LABELS[profile.mode]}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Credentials are stored on the server and never sent from your browser.
+                        {profilesEnforced &&
+                          " This server only sends through its profiles, preview and local modes."}
+                      </p>
+                    </div>
+                  </div>
+
+                  <Separator />
+                </>
+              )}
+
+              {/* Resend Mode Info & Config */}
+              {sendMode === "resend" && (
+                <>
+                  <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20">
+                    <p className="text-sm text-green-600 dark:text-green-400">
+                      <strong>Real Delivery:</strong> Uses Resend API to send emails directly to the
+                      recipient&apos;s inbox. Perfect for testing in real email clients like Gmail,
+                      Outlook, etc.
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                      <Key className="w-4 h-4" />
+                      Resend Configuration
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label htmlFor="resendApiKey">API Key</Label>
+                      <Input
+                        id="resendApiKey"
+                        type="password"
+                        placeholder="re_xxxxxxxxxx"
+                        value={resendApiKey}
+                        onChange={(e) => setResendApiKey(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Get your free API key at{" "}
+                        <a
+                          href="https://resend.com"
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                        >
+                          resend.com
+                        </a>{" "}
+                        (3,000 free emails/month)
+                      </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label htmlFor="resendFrom">From (optional)</Label>
+                      <Input
+                        id="resendFrom"
+                        type="email"
+                        placeholder="onboarding@resend.dev (default)"
+                        value={email.from}
+                        onChange={(e) => setEmail((prev) => ({ ...prev, from: e.target.value }))}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty to use Resend&apos;s default sender, or use your verified
+                        domain.
+                      </p>
+                    </div>
+                  </div>
+
+                  <Separator />
+                </>
+              )}
+
+              {/* SMTP Configuration (only for smtp mode) */}
+              {sendMode === "smtp" && (
+                <>
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                      <Server className="w-4 h-4" />
+                      SMTP Configuration
+                    </div>
+
+                    {/* Provider Preset */}
+                    <div className="grid gap-2">
+                      <Label htmlFor="preset">Email Provider</Label>
+                      <Select
+                        value={smtp.preset}
+                        onValueChange={(v) => handlePresetChange(v as PresetKey)}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="custom">Custom SMTP</SelectItem>
+                          <SelectItem value="gmail">Gmail</SelectItem>
+                          <SelectItem value="outlook">Outlook / Office 365</SelectItem>
+                          <SelectItem value="qq">QQ Mail</SelectItem>
+                          <SelectItem value="163">163 Mail</SelectItem>
+                          <SelectItem value="aliyun">Aliyun Mail</SelectItem>
+                          <SelectItem value="sendgrid">SendGrid</SelectItem>
+                          <SelectItem value="mailgun">Mailgun</SelectItem>
+                          <SelectItem value="ses">Amazon SES</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* SMTP Host & Port */}
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="col-span-2 grid gap-2">
+                        <Label htmlFor="host">SMTP Host</Label>
+                        <Input
+                          id="host"
+                          placeholder="smtp.example.com"
+                          value={smtp.host}
+                          onChange={(e) => setSmtp((prev) => ({ ...prev, host: e.target.value }))}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="port">Port</Label>
+                        <Input
+                          id="port"
+                          type="number"
+                          placeholder="587"
+                          value={smtp.port}
+                          onChange={(e) =>
+                            setSmtp((prev) => ({
+                              ...prev,
+                              port: parseInt(e.target.value) || 587,
+                            }))
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    {/* SMTP Auth */}
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="grid gap-2">
+                        <Label htmlFor="user">Username / Email</Label>
+                        <Input
+                          id="user"
+                          placeholder="your@email.com"
+                          value={smtp.user}
+                          onChange={(e) => setSmtp((prev) => ({ ...prev, user: e.target.value }))}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="pass">Password / App Key</Label>
+                        <Input
+                          id="pass"
+                          type="password"
+                          placeholder="••••••••"
+                          value={smtp.pass}
+                          onChange={(e) => setSmtp((prev) => ({ ...prev, pass: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+
+                    {/* SSL/TLS Toggle */}
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="secure"
+                        checked={smtp.secure}
+                        onChange={(e) => setSmtp((prev) => ({ ...prev, secure: e.target.checked }))}
+                        className="h-4 w-4 rounded border-input"
+                      />
+                      <Label htmlFor="secure" className="text-sm font-normal cursor-pointer">
+                        Use SSL/TLS (port 465)
+                      </Label>
+                    </div>
+                  </div>
+
+                  <Separator />
+                </>
+              )}
+
+              {/* API Provider Configuration (Postmark, SendGrid, Mailgun, SES) */}
+              {isApiProvider(sendMode) && (
+                <>
+                  <ApiProviderSettings
+                    provider={sendMode}
+                    onProviderChange={(provider) => {
+                      setApiProvider(provider);
+                      setSendMode(provider);
+                    }}
+                    credentials={apiCredentials[sendMode]}
+                    onChange={(credentials) =>
+                      setApiCredentials((prev) => ({ ...prev, [sendMode]: credentials }))
+                    }
+                  />
 
-              <Separator />
-            </>
-          )}
+                  <Separator />
+                </>
+              )}
 
-          {/* SMTP Configuration (only for smtp mode) */}
-          {sendMode === "smtp" && (
-            <>
+              {/* Email Content Section */}
               <div className="space-y-4">
                 <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                  <Server className="w-4 h-4" />
-                  SMTP Configuration
-                </div>
-
-                {/* Provider Preset */}
-                <div className="grid gap-2">
-                  <Label htmlFor="preset">Email Provider</Label>
-                  <Select
-                    value={smtp.preset}
-                    onValueChange={(v) => handlePresetChange(v as PresetKey)}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select provider" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="custom">Custom SMTP</SelectItem>
-                      <SelectItem value="gmail">Gmail</SelectItem>
-                      <SelectItem value="outlook">Outlook / Office 365</SelectItem>
-                      <SelectItem value="qq">QQ Mail</SelectItem>
-                      <SelectItem value="163">163 Mail</SelectItem>
-                      <SelectItem value="aliyun">Aliyun Mail</SelectItem>
-                      <SelectItem value="sendgrid">SendGrid</SelectItem>
-                      <SelectItem value="mailgun">Mailgun</SelectItem>
-                      <SelectItem value="ses">Amazon SES</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Mail className="w-4 h-4" />
+                  Email Details
                 </div>
 
-                {/* SMTP Host & Port */}
-                <div className="grid grid-cols-3 gap-3">
-                  <div className="col-span-2 grid gap-2">
-                    <Label htmlFor="host">SMTP Host</Label>
-                    <Input
-                      id="host"
-                      placeholder="smtp.example.com"
-                      value={smtp.host}
-                      onChange={(e) => setSmtp((prev) => ({ ...prev, host: e.target.value }))}
-                    />
-                  </div>
+                {/* From field for local, SMTP, API, and profile modes */}
+                {(sendMode === "local" ||
+                  sendMode === "smtp" ||
+                  sendMode === "profile" ||
+                  isApiProvider(sendMode)) && (
                   <div className="grid gap-2">
-                    <Label htmlFor="port">Port</Label>
+                    <Label htmlFor="from">From</Label>
                     <Input
-                      id="port"
-                      type="number"
-                      placeholder="587"
-                      value={smtp.port}
-                      onChange={(e) =>
-                        setSmtp((prev) => ({
-                          ...prev,
-                          port: parseInt(e.target.value) || 587,
-                        }))
+                      id="from"
+                      type="email"
+                      placeholder={
+                        (sendMode === "profile" && selectedProfile?.from) || "sender@example.com"
                       }
+                      value={email.from}
+                      onChange={(e) => setEmail((prev) => ({ ...prev, from: e.target.value }))}
                     />
                   </div>
+                )}
+
+                {/* Recipient mode */}
+                <div className="grid grid-cols-2 gap-1 p-1 rounded-md bg-muted">
+                  <button
+                    type="button"
+                    onClick={() => setRecipientMode("single")}
+                    className={`flex items-center justify-center gap-1.5 py-1 rounded text-xs transition-colors ${
+                      recipientMode === "single"
+                        ? "bg-background shadow-sm font-medium"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    <User className="w-3.5 h-3.5" />
+                    Single recipient
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRecipientMode("bulk")}
+                    className={`flex items-center justify-center gap-1.5 py-1 rounded text-xs transition-colors ${
+                      recipientMode === "bulk"
+                        ? "bg-background shadow-sm font-medium"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    <Users className="w-3.5 h-3.5" />
+                    CSV list
+                  </button>
                 </div>
 
-                {/* SMTP Auth */}
-                <div className="grid grid-cols-2 gap-3">
+                {recipientMode === "single" && (
                   <div className="grid gap-2">
-                    <Label htmlFor="user">Username / Email</Label>
+                    <Label htmlFor="to">To</Label>
                     <Input
-                      id="user"
-                      placeholder="your@email.com"
-                      value={smtp.user}
-                      onChange={(e) => setSmtp((prev) => ({ ...prev, user: e.target.value }))}
-                    />
-                  </div>
-                  <div className="grid gap-2">
-                    <Label htmlFor="pass">Password / App Key</Label>
-                    <Input
-                      id="pass"
-                      type="password"
-                      placeholder="••••••••"
-                      value={smtp.pass}
-                      onChange={(e) => setSmtp((prev) => ({ ...prev, pass: e.target.value }))}
+                      id="to"
+                      placeholder={
+                        deliveryMode === "test"
+                          ? "any@example.com (virtual inbox)"
+                          : deliveryMode === "local"
+                            ? "any@example.com (local inbox)"
+                            : "recipient@example.com, another@example.com"
+                      }
+                      value={email.to}
+                      onChange={(e) => setEmail((prev) => ({ ...prev, to: e.target.value }))}
                     />
+                    {deliveryMode === "test" && (
+                      <p className="text-xs text-muted-foreground">
+                        In preview mode, email won&apos;t actually arrive - you&apos;ll get a
+                        preview link instead.
+                      </p>
+                    )}
+                    {deliveryMode === "local" && (
+                      <p className="text-xs text-muted-foreground">
+                        Nothing is delivered - the email is captured in the local inbox.
+                      </p>
+                    )}
+                    {deliveryMode !== "test" && deliveryMode !== "local" && (
+                      <p className="text-xs text-green-600 dark:text-green-400">
+                        ✓ Email will be delivered to these addresses
+                      </p>
+                    )}
                   </div>
-                </div>
+                )}
 
-                {/* SSL/TLS Toggle */}
-                <div className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    id="secure"
-                    checked={smtp.secure}
-                    onChange={(e) => setSmtp((prev) => ({ ...prev, secure: e.target.checked }))}
-                    className="h-4 w-4 rounded border-input"
+                <div className="grid gap-2">
+                  <Label htmlFor="subject">Subject</Label>
+                  <Input
+                    id="subject"
+                    placeholder="Email subject"
+                    value={email.subject}
+                    onChange={(e) => setEmail((prev) => ({ ...prev, subject: e.target.value }))}
                   />
-                  <Label htmlFor="secure" className="text-sm font-normal cursor-pointer">
-                    Use SSL/TLS (port 465)
-                  </Label>
                 </div>
-              </div>
 
-              <Separator />
-            </>
-          )}
+                <MessageOptionsEditor options={messageOptions} onChange={setMessageOptions} />
 
-          {/* Email Content Section */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-              <Mail className="w-4 h-4" />
-              Email Details
-            </div>
+                {recipientMode === "bulk" && (
+                  <BulkRecipientsEditor
+                    settings={bulkSettings}
+                    onChange={setBulkSettings}
+                    variables={templateVariables}
+                    subject={email.subject}
+                  />
+                )}
 
-            {/* From field only for SMTP mode */}
-            {sendMode === "smtp" && (
-              <div className="grid gap-2">
-                <Label htmlFor="from">From</Label>
-                <Input
-                  id="from"
-                  type="email"
-                  placeholder="sender@example.com"
-                  value={email.from}
-                  onChange={(e) => setEmail((prev) => ({ ...prev, from: e.target.value }))}
-                />
+                {recipientMode === "single" && sampleProfile && (
+                  <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <Braces className="w-3.5 h-3.5 shrink-0" />
+                    Merge tags will be filled with the &ldquo;{sampleProfile.name}&rdquo; sample
+                    profile.
+                  </p>
+                )}
+
+                {/* Send later */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="sendLater"
+                      checked={sendLater}
+                      disabled={!canSchedule}
+                      onChange={(e) => {
+                        setSendLater(e.target.checked);
+                        // Default to an hour from now
+                        if (e.target.checked && !isFutureDateTime(sendAt)) {
+                          setSendAt(toDateTimeInputValue(new Date(Date.now() + 60 * 60_000)));
+                        }
+                      }}
+                      className="h-4 w-4 rounded border-input"
+                    />
+                    <Label htmlFor="sendLater" className="text-sm font-normal cursor-pointer">
+                      Send later
+                    </Label>
+                  </div>
+                  {!canSchedule && (
+                    <p className="text-xs text-muted-foreground">
+                      Choose a sender profile to send later; credentials entered here are not stored
+                      on the server.
+                    </p>
+                  )}
+                  {sendLater && canSchedule && (
+                    <>
+                      <Input
+                        type="datetime-local"
+                        aria-label="Send at"
+                        value={sendAt}
+                        min={toDateTimeInputValue(new Date())}
+                        onChange={(e) => setSendAt(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        The server sends the email at this time, even if this page is closed. It is
+                        sent as it is now; later edits to the design don&apos;t change it.
+                      </p>
+                    </>
+                  )}
+                </div>
               </div>
-            )}
-
-            <div className="grid gap-2">
-              <Label htmlFor="to">To</Label>
-              <Input
-                id="to"
-                type="email"
-                placeholder={
-                  sendMode === "test" ? "any@example.com (virtual inbox)" : "recipient@example.com"
-                }
-                value={email.to}
-                onChange={(e) => setEmail((prev) => ({ ...prev, to: e.target.value }))}
-              />
-              {sendMode === "test" && (
-                <p className="text-xs text-muted-foreground">
-                  In preview mode, email won&apos;t actually arrive - you&apos;ll get a preview link
-                  instead.
-                </p>
-              )}
-              {(sendMode === "resend" || sendMode === "smtp") && (
-                <p className="text-xs text-green-600 dark:text-green-400">
-                  ✓ Email will be delivered to this address
-                </p>
+
+              {/* Preflight checks */}
+              {status !== "success" && preflightChecks.length > 0 && (
+                <PreflightChecklist
+                  checks={preflightChecks}
+                  override={preflightOverride}
+                  onOverrideChange={setPreflightOverride}
+                  onSelectNode={handleSelectNode}
+                />
               )}
-            </div>
 
-            <div className="grid gap-2">
-              <Label htmlFor="subject">Subject</Label>
-              <Input
-                id="subject"
-                placeholder="Email subject"
-                value={email.subject}
-                onChange={(e) => setEmail((prev) => ({ ...prev, subject: e.target.value }))}
-              />
-            </div>
-          </div>
-
-          {/* Status Messages */}
-          {status === "success" && (
-            <div className="space-y-3">
-              <div className="flex items-center gap-2 p-3 rounded-md bg-green-500/10 text-green-600 dark:text-green-400">
-                <CheckCircle2 className="w-4 h-4 shrink-0" />
-                <span className="text-sm">
-                  {realDelivery
-                    ? `Email sent successfully to ${email.to}!`
-                    : "Email sent successfully!"}
-                </span>
-              </div>
+              {/* Status Messages */}
+              {status === "success" && bulkResults && <BulkSendResults results={bulkResults} />}
 
-              {/* Preview Link for Test Mode */}
-              {previewUrl && (
-                <a
-                  href={previewUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center justify-between p-3 rounded-md bg-primary/10 hover:bg-primary/15 transition-colors group"
-                >
-                  <div className="flex items-center gap-2">
-                    <FlaskConical className="w-4 h-4 text-primary" />
-                    <span className="text-sm font-medium">View Email in Virtual Inbox</span>
+              {status === "success" && scheduledFor && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 p-3 rounded-md bg-green-500/10 text-green-600 dark:text-green-400">
+                    <CheckCircle2 className="w-4 h-4 shrink-0" />
+                    <span className="text-sm">
+                      Scheduled for {new Date(scheduledFor).toLocaleString()}.
+                    </span>
                   </div>
-                  <ExternalLink className="w-4 h-4 text-muted-foreground group-hover:text-primary transition-colors" />
-                </a>
+                  <button
+                    type="button"
+                    onClick={() => setView("scheduled")}
+                    className="w-full flex items-center gap-2 p-3 rounded-md bg-primary/10 hover:bg-primary/15 transition-colors text-left"
+                  >
+                    <CalendarClock className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">View Scheduled Sends</span>
+                  </button>
+                </div>
               )}
 
-              {/* Real delivery confirmation */}
-              {realDelivery && !previewUrl && (
-                <div className="p-3 rounded-md bg-green-500/5 border border-green-500/20">
-                  <p className="text-sm text-green-600 dark:text-green-400">
-                    Check your inbox at <strong>{email.to}</strong> to see the email. It may take a
-                    few moments to arrive.
-                  </p>
+              {status === "success" && !bulkResults && !scheduledFor && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 p-3 rounded-md bg-green-500/10 text-green-600 dark:text-green-400">
+                    <CheckCircle2 className="w-4 h-4 shrink-0" />
+                    <span className="text-sm">
+                      {realDelivery
+                        ? `Email sent successfully to ${email.to}!`
+                        : "Email sent successfully!"}
+                    </span>
+                  </div>
+
+                  {/* Preview Link for Test Mode */}
+                  {previewUrl && (
+                    <a
+                      href={previewUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center justify-between p-3 rounded-md bg-primary/10 hover:bg-primary/15 transition-colors group"
+                    >
+                      <div className="flex items-center gap-2">
+                        <FlaskConical className="w-4 h-4 text-primary" />
+                        <span className="text-sm font-medium">View Email in Virtual Inbox</span>
+                      </div>
+                      <ExternalLink className="w-4 h-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                    </a>
+                  )}
+
+                  {/* Captured message for local mode */}
+                  {capturedMessageId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setInboxMessageId(capturedMessageId);
+                        setView("inbox");
+                      }}
+                      className="w-full flex items-center gap-2 p-3 rounded-md bg-primary/10 hover:bg-primary/15 transition-colors text-left"
+                    >
+                      <HardDrive className="w-4 h-4 text-primary" />
+                      <span className="text-sm font-medium">View Email in Local Inbox</span>
+                    </button>
+                  )}
+
+                  {/* Real delivery confirmation */}
+                  {realDelivery && !previewUrl && (
+                    <div className="p-3 rounded-md bg-green-500/5 border border-green-500/20">
+                      <p className="text-sm text-green-600 dark:text-green-400">
+                        Check your inbox at <strong>{email.to}</strong> to see the email. It may
+                        take a few moments to arrive.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
-            </div>
-          )}
 
-          {status === "error" && (
-            <div className="flex items-center gap-2 p-3 rounded-md bg-red-500/10 text-red-600 dark:text-red-400">
-              <AlertCircle className="w-4 h-4 shrink-0" />
-              <span className="text-sm">{errorMessage || "Failed to send email"}</span>
+              {status === "error" && (
+                <div className="flex items-center gap-2 p-3 rounded-md bg-red-500/10 text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  <span className="text-sm">{errorMessage || "Failed to send email"}</span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-
-        <DialogFooter>
-          <Button variant="outline" onClick={() => handleOpenChange(false)}>
-            {status === "success" ? "Done" : "Cancel"}
-          </Button>
-          {status !== "success" && (
-            <Button onClick={handleSend} disabled={!isValid || status === "sending"}>
-              {status === "sending" ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Sending...
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4 mr-2" />
-                  {sendMode === "test" ? "Send Preview" : "Send Email"}
-                </>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                {status === "success" ? "Done" : "Cancel"}
+              </Button>
+              {status !== "success" && (
+                <Button onClick={handleSend} disabled={!isValid || status === "sending"}>
+                  {status === "sending" ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {sendLater
+                        ? "Scheduling..."
+                        : bulkProgress
+                          ? `Sent ${bulkProgress.done} of ${bulkProgress.total}...`
+                          : "Sending..."}
+                    </>
+                  ) : sendLater ? (
+                    <>
+                      <CalendarClock className="w-4 h-4 mr-2" />
+                      Schedule Send
+                    </>
+                  ) : (
+                    <>
+                      <Send className="w-4 h-4 mr-2" />
+                      {recipientMode === "bulk"
+                        ? `Send to ${bulkRecipients.length} Recipient${bulkRecipients.length === 1 ? "" : "s"}`
+                        : deliveryMode === "test" || deliveryMode === "local"
+                          ? "Send Preview"
+                          : "Send Email"}
+                    </>
+                  )}
+                </Button>
               )}
-            </Button>
-          )}
-        </DialogFooter>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -4,7 +4,7 @@
 
 "use client";
 
-import { memo, useCallback, useRef } from "react";
+import { memo, useCallback, useMemo, useRef } from "react";
 import {
   Undo2,
   Redo2,
@@ -21,6 +21,7 @@ import {
   PenLine,
   AlertCircle,
   FolderOpen,
+  FileText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -31,17 +32,38 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { useEditorStore, useUIStore, useUndoRedo } from "@/features/editor/stores";
+import {
+  useEditorStore,
+  useUIStore,
+  useUndoRedo,
+  useActiveSampleProfile,
+  useBrandKitStore,
+  selectBrandKit,
+} from "@/features/editor/stores";
 import {
   compileDocument,
   generateMjml,
   parseMjml,
   parseHtmlToMjml,
 } from "@/features/editor/lib/mjml/compiler";
+import { compilePersonalized, hasDynamicNodes } from "@/features/editor/lib/merge-tags";
+import { applyUtmParameters } from "@/features/editor/lib/links";
+import {
+  TEMPLATE_LANGUAGES,
+  exportTemplate,
+  type TemplateLanguage,
+} from "@/features/editor/lib/export";
 import { HeadSettingsButton } from "./HeadSettingsButton";
+import { BrandKitButton } from "./BrandKitButton";
+import { LinksButton } from "./LinksButton";
+import { CompatibilityButton } from "./CompatibilityButton";
 import { SendEmailDialog } from "./SendEmailDialog";
+import { VersionHistoryButton } from "../history";
 
 function downloadFile(content: string, filename: string, mimeType: string) {
   const blob = new Blob([content], { type: mimeType });
@@ -56,7 +78,7 @@ function downloadFile(content: string, filename: string, mimeType: string) {
 }
 
 export const Toolbar = memo(function Toolbar() {
-  const document = useEditorStore((s) => s.document);
+  const editorDocument = useEditorStore((s) => s.document);
   const headSettings = useEditorStore((s) => s.headSettings);
   const setDocument = useEditorStore((s) => s.setDocument);
   const updateHeadSettings = useEditorStore((s) => s.updateHeadSettings);
@@ -65,6 +87,14 @@ export const Toolbar = memo(function Toolbar() {
   const setEditorMode = useUIStore((s) => s.setEditorMode);
   const setPreviewMode = useUIStore((s) => s.setPreviewMode);
   const { undo, redo, canUndo, canRedo } = useUndoRedo();
+  const sampleProfile = useActiveSampleProfile();
+  const brandKit = useBrandKitStore(selectBrandKit);
+
+  // Exports carry the document's UTM parameters; the stored links stay as they are
+  const document = useMemo(
+    () => applyUtmParameters(editorDocument, headSettings.utm),
+    [editorDocument, headSettings.utm]
+  );
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const importTypeRef = useRef<"mjml" | "html">("mjml");
@@ -78,24 +108,49 @@ export const Toolbar = memo(function Toolbar() {
   }, [canRedo, redo]);
 
   const handleExportMjml = useCallback(() => {
-    const mjml = generateMjml(document, headSettings);
+    const mjml = generateMjml(document, headSettings, brandKit);
     downloadFile(mjml, "email.mjml", "text/plain");
-  }, [document, headSettings]);
+  }, [document, headSettings, brandKit]);
+
+  // HTML exports keep the merge tags; sample data stays in the preview
+  const compileHtml = useCallback(
+    () => compileDocument(document, headSettings, brandKit).html,
+    [document, headSettings, brandKit]
+  );
+
+  // Plain HTML shows every show-if block and a single repeat item
+  const hasDynamicBlocks = useMemo(() => hasDynamicNodes(editorDocument), [editorDocument]);
 
   const handleExportHtml = useCallback(() => {
-    const { html } = compileDocument(document, headSettings);
+    downloadFile(compileHtml(), "email.html", "text/html");
+  }, [compileHtml]);
+
+  // Explicit export of the email as previewed with the selected sample profile
+  const handleExportPersonalizedHtml = useCallback(() => {
+    if (!sampleProfile) return;
+    const { html } = compilePersonalized(document, headSettings, sampleProfile.data, {
+      brandKit,
+    });
     downloadFile(html, "email.html", "text/html");
-  }, [document, headSettings]);
+  }, [document, headSettings, sampleProfile, brandKit]);
+
+  // Template exports keep merge tags and show-if / repeat blocks for the ESP to render
+  const handleExportTemplate = useCallback(
+    (language: TemplateLanguage) => {
+      const { html } = exportTemplate(document, headSettings, language, brandKit);
+      downloadFile(html, `email.${TEMPLATE_LANGUAGES[language].extension}`, "text/plain");
+    },
+    [document, headSettings, brandKit]
+  );
 
   const handleCopyMjml = useCallback(async () => {
-    const mjml = generateMjml(document, headSettings);
+    const mjml = generateMjml(document, headSettings, brandKit);
     await navigator.clipboard.writeText(mjml);
-  }, [document, headSettings]);
+  }, [document, headSettings, brandKit]);
 
   const handleCopyHtml = useCallback(async () => {
-    const { html } = compileDocument(document, headSettings);
-    await navigator.clipboard.writeText(html);
-  }, [document, headSettings]);
+    await navigator.clipboard.writeText(compileHtml());
+  }, [compileHtml]);
 
   const handleImportMjml = useCallback(() => {
     importTypeRef.current = "mjml";
@@ -126,10 +181,9 @@ export const Toolbar = memo(function Toolbar() {
 
         if (result.document) {
           setDocument(result.document);
-          // Update head settings if any were parsed
-          if (result.headSettings) {
-            updateHeadSettings(result.headSettings);
-          }
+          // Update head settings if any were parsed; a hand-edited plain-text
+          // version belongs to the previous document
+          updateHeadSettings({ ...result.headSettings, plainText: undefined });
 
           // Show any warnings/info
           if (result.errors.length > 0) {
@@ -308,6 +362,18 @@ export const Toolbar = memo(function Toolbar() {
           {/* Head Settings */}
           <HeadSettingsButton />
 
+          {/* Brand kit */}
+          <BrandKitButton />
+
+          {/* Links and UTM parameters */}
+          <LinksButton />
+
+          {/* Email client compatibility */}
+          <CompatibilityButton />
+
+          {/* Version History */}
+          <VersionHistoryButton />
+
           {/* Send Email - Always visible */}
           <SendEmailDialog />
 
@@ -367,7 +433,14 @@ export const Toolbar = memo(function Toolbar() {
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleCopyHtml}>
                 <Copy className="w-4 h-4 mr-2" />
-                Copy HTML
+                <span className="flex flex-col">
+                  Copy HTML
+                  {hasDynamicBlocks && (
+                    <span className="text-xs text-muted-foreground">
+                      Show-if and repeat blocks need a template export
+                    </span>
+                  )}
+                </span>
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportMjml}>
                 <FileJson className="w-4 h-4 mr-2" />
@@ -375,8 +448,41 @@ export const Toolbar = memo(function Toolbar() {
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportHtml}>
                 <FileCode className="w-4 h-4 mr-2" />
-                Download HTML
+                <span className="flex flex-col">
+                  Download HTML
+                  {hasDynamicBlocks && (
+                    <span className="text-xs text-muted-foreground">
+                      Show-if and repeat blocks need a template export
+                    </span>
+                  )}
+                </span>
               </DropdownMenuItem>
+              {sampleProfile && (
+                <DropdownMenuItem onClick={handleExportPersonalizedHtml}>
+                  <FileCode className="w-4 h-4 mr-2" />
+                  <span className="truncate">Download HTML for {sampleProfile.name}</span>
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Download Template
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-56">
+                  {(Object.keys(TEMPLATE_LANGUAGES) as TemplateLanguage[]).map((language) => (
+                    <DropdownMenuItem
+                      key={language}
+                      onClick={() => handleExportTemplate(language)}
+                      className="flex-col items-start gap-0.5"
+                    >
+                      <span>{`${TEMPLATE_LANGUAGES[language].name} (.${TEMPLATE_LANGUAGES[language].extension})`}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {TEMPLATE_LANGUAGES[language].description}
+                      </span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
             </DropdownMenuContent>
           </DropdownMenu>
 
@@ -423,7 +529,14 @@ export const Toolbar = memo(function Toolbar() {
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleCopyHtml}>
                 <Copy className="w-4 h-4 mr-2" />
-                Copy HTML
+                <span className="flex flex-col">
+                  Copy HTML
+                  {hasDynamicBlocks && (
+                    <span className="text-xs text-muted-foreground">
+                      Show-if and repeat blocks need a template export
+                    </span>
+                  )}
+                </span>
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportMjml}>
                 <FileJson className="w-4 h-4 mr-2" />
@@ -431,8 +544,41 @@ export const Toolbar = memo(function Toolbar() {
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportHtml}>
                 <FileCode className="w-4 h-4 mr-2" />
-                Download HTML
+                <span className="flex flex-col">
+                  Download HTML
+                  {hasDynamicBlocks && (
+                    <span className="text-xs text-muted-foreground">
+                      Show-if and repeat blocks need a template export
+                    </span>
+                  )}
+                </span>
               </DropdownMenuItem>
+              {sampleProfile && (
+                <DropdownMenuItem onClick={handleExportPersonalizedHtml}>
+                  <FileCode className="w-4 h-4 mr-2" />
+                  <span className="truncate">Download HTML for {sampleProfile.name}</span>
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Download Template
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-56">
+                  {(Object.keys(TEMPLATE_LANGUAGES) as TemplateLanguage[]).map((language) => (
+                    <DropdownMenuItem
+                      key={language}
+                      onClick={() => handleExportTemplate(language)}
+                      className="flex-col items-start gap-0.5"
+                    >
+                      <span>{`${TEMPLATE_LANGUAGES[language].name} (.${TEMPLATE_LANGUAGES[language].extension})`}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {TEMPLATE_LANGUAGES[language].description}
+                      </span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
             </DropdownMenuContent>
           </DropdownMenu>
 
@@ -4,4 +4,7 @@
 
 export { Toolbar } from "./Toolbar";
 export { HeadSettingsButton } from "./HeadSettingsButton";
+export { BrandKitButton } from "./BrandKitButton";
+export { LinksButton } from "./LinksButton";
+export { CompatibilityButton } from "./CompatibilityButton";
 export { SendEmailDialog } from "./SendEmailDialog";
@@ -6,4 +6,6 @@ export { useNodeSelection } from "./useNodeSelection";
 export { useNodeActions } from "./useNodeActions";
 export { useKeyboardShortcuts } from "./useKeyboardShortcuts";
 export { useBreadcrumb } from "./useBreadcrumb";
+export { useAutosave } from "./useAutosave";
+export { useBrandKitSync } from "./useBrandKitSync";
 export { useMediaQuery, useIsLargeScreen, useIsMediumScreen } from "./useMediaQuery";
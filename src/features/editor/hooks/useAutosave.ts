@@ -0,0 +1,126 @@
+/**
+ * Hook for autosaving the working document to IndexedDB
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import {
+  useEditorStore,
+  useUIStore,
+  useDocumentsStore,
+  useBlocksStore,
+  useBrandKitStore,
+} from "@/features/editor/stores";
+import { hasUnsavedChanges, loadAutosave, saveAutosave } from "@/features/editor/lib/storage";
+
+// Delay between the last edit and the write to IndexedDB
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * Restores the last autosaved document on mount, then saves the document,
+ * head settings and selection (debounced) whenever they change. The active
+ * "My Emails" library entry is updated on the same schedule.
+ */
+export function useAutosave() {
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const save = () => {
+      timer = null;
+      const { document, headSettings, selectedId } = useEditorStore.getState();
+      const { activeDocumentId, saveActiveDocument } = useDocumentsStore.getState();
+      void saveAutosave({
+        document,
+        headSettings,
+        selectedId,
+        documentId: activeDocumentId,
+        savedAt: Date.now(),
+      });
+      void saveActiveDocument();
+    };
+
+    // Write pending changes immediately when the page is being hidden or closed
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        save();
+      }
+    };
+
+    // Only start saving after the restore so the default document never overwrites it
+    const startAutosave = () => {
+      unsubscribe = useEditorStore.subscribe((state, prevState) => {
+        if (
+          state.document === prevState.document &&
+          state.headSettings === prevState.headSettings &&
+          state.selectedId === prevState.selectedId
+        ) {
+          return;
+        }
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(save, AUTOSAVE_DEBOUNCE_MS);
+      });
+    };
+
+    const restore = async () => {
+      const snapshot = await loadAutosave();
+      if (cancelled) return;
+
+      if (snapshot) {
+        useEditorStore.getState().restoreSnapshot(snapshot);
+      }
+
+      // Library thumbnails are compiled with the kit
+      await useBrandKitStore.getState().loadKit();
+      if (cancelled) return;
+
+      await useDocumentsStore.getState().initialize(snapshot?.documentId);
+      if (cancelled) return;
+
+      // Saves normally reach the library with the snapshot; only offer to discard
+      // changes the library entry does not have
+      if (snapshot) {
+        const { documents, activeDocumentId } = useDocumentsStore.getState();
+        const saved = documents.find((d) => d.id === activeDocumentId);
+        if (hasUnsavedChanges(snapshot, saved)) {
+          useUIStore.getState().setRecoveredAt(snapshot.savedAt);
+        }
+      }
+
+      // Synced block instances catch up with blocks changed since the document was saved
+      await useBlocksStore.getState().loadBlocks();
+      if (cancelled) return;
+
+      // Same for props bound to brand kit tokens changed since then
+      void useDocumentsStore.getState().applyBrandKit(useBrandKitStore.getState().kit);
+
+      // Restoring is not an undoable edit
+      useEditorStore.temporal.getState().clear();
+    };
+
+    // A failed restore still saves the session from here on
+    restore()
+      .catch((error) => {
+        console.error("Failed to restore the last session:", error);
+        if (!cancelled) {
+          useUIStore
+            .getState()
+            .setRestoreError(error instanceof Error ? error.message : String(error));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) startAutosave();
+      });
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      cancelled = true;
+      flush();
+      unsubscribe?.();
+      window.removeEventListener("pagehide", flush);
+    };
+  }, []);
+}
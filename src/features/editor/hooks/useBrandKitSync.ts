@@ -0,0 +1,36 @@
+/**
+ * Hook for restyling emails when the brand kit changes
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useBrandKitStore, useDocumentsStore } from "@/features/editor/stores";
+
+// Wait for a pause in edits (e.g. dragging a color picker) before restyling emails
+const APPLY_DEBOUNCE_MS = 300;
+
+/**
+ * Applies kit changes to the props bound to its tokens, in the editor's email
+ * and in the saved emails that use the kit. Changes are not undoable edits.
+ */
+export function useBrandKitSync() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = useBrandKitStore.subscribe((state, prevState) => {
+      // Loading the kit is not a change; the restore applies it (see useAutosave)
+      if (state.kit === prevState.kit || !prevState.isLoaded) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        void useDocumentsStore.getState().applyBrandKit(useBrandKitStore.getState().kit);
+      }, APPLY_DEBOUNCE_MS);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+}
@@ -5,12 +5,27 @@
 "use client";
 
 import { useEffect, useCallback } from "react";
-import { useEditorStore, useUndoRedo } from "@/features/editor/stores";
+import { useEditorStore, useUndoRedo, findTopLevelNodes } from "@/features/editor/stores";
+import {
+  NODES_MIME_TYPE,
+  serializeNodes,
+  parseClipboardNodes,
+  findPasteTarget,
+} from "@/features/editor/lib/clipboard";
+
+// Whether the event comes from an input/textarea/contenteditable
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return (
+    element?.tagName === "INPUT" || element?.tagName === "TEXTAREA" || !!element?.isContentEditable
+  );
+}
 
 export function useKeyboardShortcuts() {
-  const selectedId = useEditorStore((s) => s.selectedId);
-  const removeNode = useEditorStore((s) => s.removeNode);
-  const duplicateNode = useEditorStore((s) => s.duplicateNode);
+  const selectedIds = useEditorStore((s) => s.selectedIds);
+  const removeNodes = useEditorStore((s) => s.removeNodes);
+  const duplicateNodes = useEditorStore((s) => s.duplicateNodes);
+  const addChildNodes = useEditorStore((s) => s.addChildNodes);
   const setSelectedId = useEditorStore((s) => s.setSelectedId);
   const { undo, redo, canUndo, canRedo } = useUndoRedo();
 
@@ -20,8 +35,7 @@ export function useKeyboardShortcuts() {
       const modKey = isMac ? e.metaKey : e.ctrlKey;
 
       // Prevent shortcuts when typing in input/textarea/contenteditable
-      const target = e.target as HTMLElement;
-      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) {
+      if (isTypingTarget(e.target)) {
         return;
       }
 
@@ -43,34 +57,93 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      const hasSelection = selectedIds.length > 0;
+
       // Delete selected: Delete or Backspace
-      if ((e.key === "Delete" || e.key === "Backspace") && selectedId) {
+      if ((e.key === "Delete" || e.key === "Backspace") && hasSelection) {
         e.preventDefault();
-        removeNode(selectedId);
+        removeNodes(selectedIds);
         return;
       }
 
       // Duplicate: Cmd/Ctrl + D
-      if (modKey && e.key === "d" && selectedId) {
+      if (modKey && e.key === "d" && hasSelection) {
         e.preventDefault();
-        duplicateNode(selectedId);
+        duplicateNodes(selectedIds);
         return;
       }
 
       // Deselect: Escape
-      if (e.key === "Escape" && selectedId) {
+      if (e.key === "Escape" && hasSelection) {
         e.preventDefault();
         setSelectedId(null);
         return;
       }
     },
-    [selectedId, removeNode, duplicateNode, setSelectedId, undo, redo, canUndo, canRedo]
+    [selectedIds, removeNodes, duplicateNodes, setSelectedId, undo, redo, canUndo, canRedo]
+  );
+
+  // Copy / Cut: Cmd/Ctrl + C / X. Handled as clipboard events, which can put
+  // the editor's own format on the clipboard next to MJML text.
+  const handleCopy = useCallback(
+    (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTypingTarget(e.target)) return;
+      // Let the browser copy selected text
+      if (window.getSelection()?.isCollapsed === false) return;
+
+      const { document, selectedIds } = useEditorStore.getState();
+      const nodes = findTopLevelNodes(document, selectedIds).filter(
+        (node) => node.type !== "mj-body"
+      );
+      if (nodes.length === 0) return;
+
+      e.preventDefault();
+      const { json, mjml } = serializeNodes(nodes);
+      e.clipboardData.setData(NODES_MIME_TYPE, json);
+      e.clipboardData.setData("text/plain", mjml);
+
+      if (e.type === "cut") {
+        removeNodes(nodes.map((node) => node.id));
+      }
+    },
+    [removeNodes]
+  );
+
+  // Paste: Cmd/Ctrl + V, into the selection or its nearest ancestor that accepts the nodes
+  const handlePaste = useCallback(
+    (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTypingTarget(e.target)) return;
+
+      const nodes = parseClipboardNodes(
+        e.clipboardData.getData(NODES_MIME_TYPE),
+        e.clipboardData.getData("text/plain")
+      );
+      if (!nodes) return;
+
+      e.preventDefault();
+      const { document, selectedId } = useEditorStore.getState();
+      const target = findPasteTarget(
+        document,
+        selectedId,
+        nodes.map((node) => node.type)
+      );
+      if (target) {
+        addChildNodes(target.parentId, nodes, target.index);
+      }
+    },
+    [addChildNodes]
   );
 
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("copy", handleCopy);
+    window.addEventListener("cut", handleCopy);
+    window.addEventListener("paste", handlePaste);
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("copy", handleCopy);
+      window.removeEventListener("cut", handleCopy);
+      window.removeEventListener("paste", handlePaste);
     };
-  }, [handleKeyDown]);
+  }, [handleKeyDown, handleCopy, handlePaste]);
 }
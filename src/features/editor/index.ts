@@ -19,6 +19,7 @@ export {
   useEditorStore,
   useTemporalStore,
   useUIStore,
+  useDocumentsStore,
   useSelectedNode,
   useNode,
   useIsSelected,
@@ -30,7 +31,13 @@ export {
 } from "./stores";
 
 // Hooks
-export { useNodeSelection, useNodeActions, useKeyboardShortcuts, useBreadcrumb } from "./hooks";
+export {
+  useNodeSelection,
+  useNodeActions,
+  useKeyboardShortcuts,
+  useBreadcrumb,
+  useAutosave,
+} from "./hooks";
 
 // Types
 export type {
@@ -42,6 +49,7 @@ export type {
   PropSchema,
   EditorMode,
   PreviewMode,
+  SavedDocument,
 } from "./types";
 
 // Lib
@@ -0,0 +1,428 @@
+/**
+ * Accessibility - lint rules run against the editor tree
+ *
+ * Colors and sizes are read from node props (falling back to what the
+ * compiled email uses), so a check can point at the node that needs fixing.
+ * Inline styles inside rich text are only inspected for font sizes.
+ */
+
+import type { EditorNode, HeadSettings, MJMLComponentType } from "@/features/editor/types";
+import { nodeName, quote, stripTags, walk } from "@/features/editor/lib/tree";
+
+export type AccessibilitySeverity = "error" | "warning";
+
+export type AccessibilityRuleId =
+  | "alt-text"
+  | "contrast"
+  | "font-size"
+  | "link-text"
+  | "language"
+  | "heading-order";
+
+export interface AccessibilityIssue {
+  message: string;
+  // Node to select to fix the issue
+  nodeId?: string;
+}
+
+// A rule passes when it has no issues
+export interface AccessibilityCheck {
+  id: AccessibilityRuleId;
+  label: string;
+  severity: AccessibilitySeverity;
+  issues: AccessibilityIssue[];
+}
+
+// WCAG AA contrast ratios for normal and large text
+export const MIN_CONTRAST_RATIO = 4.5;
+export const MIN_LARGE_TEXT_CONTRAST_RATIO = 3;
+
+// iOS Mail enlarges anything smaller, and it is hard to read everywhere else
+export const MIN_FONT_SIZE_PX = 13;
+
+// Link text that means nothing when read out of context by a screen reader
+const NON_DESCRIPTIVE_LINK_TEXT = new Set([
+  "click",
+  "click here",
+  "click this",
+  "here",
+  "link",
+  "this link",
+  "more",
+  "read more",
+  "learn more",
+  "see more",
+  "more info",
+  "details",
+  "go",
+]);
+
+const IMAGE_TYPES = ["mj-image", "mj-carousel-image"];
+
+interface TextDefaults {
+  color: string;
+  fontSize: string;
+}
+
+// Components whose text is set with `color` and `font-size`, with the values used
+// when unset (mj-text defaults come from the compiler's mj-attributes)
+const TEXT_DEFAULTS: Partial<Record<MJMLComponentType, TextDefaults>> = {
+  "mj-text": { color: "#333333", fontSize: "16px" },
+  "mj-button": { color: "#ffffff", fontSize: "13px" },
+  "mj-navbar-link": { color: "#000000", fontSize: "13px" },
+  "mj-table": { color: "#000000", fontSize: "13px" },
+  "mj-accordion-title": { color: "#000000", fontSize: "13px" },
+  "mj-accordion-text": { color: "#000000", fontSize: "13px" },
+};
+
+// MJML default button background
+const BUTTON_BACKGROUND = "#414141";
+
+// Components that paint a background behind their children
+const BACKGROUND_TYPES: MJMLComponentType[] = [
+  "mj-body",
+  "mj-wrapper",
+  "mj-section",
+  "mj-hero",
+  "mj-group",
+  "mj-column",
+  "mj-accordion-element",
+  "mj-accordion-title",
+  "mj-accordion-text",
+];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000",
+  white: "#ffffff",
+  gray: "#808080",
+  grey: "#808080",
+  silver: "#c0c0c0",
+  red: "#ff0000",
+  green: "#008000",
+  blue: "#0000ff",
+  navy: "#000080",
+  yellow: "#ffff00",
+  orange: "#ffa500",
+  purple: "#800080",
+};
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Background under the current node; null when it can't be known (e.g. an image)
+type Background = Rgba | null;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+
+function parseColor(value: string | number | undefined): Rgba | null {
+  if (value === undefined) return null;
+  const color = String(value).trim().toLowerCase();
+  if (!color) return null;
+  if (color === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (NAMED_COLORS[color]) return parseColor(NAMED_COLORS[color]);
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/)?.[1];
+  if (hex && [3, 4, 6, 8].includes(hex.length)) {
+    const digits = hex.length <= 4 ? [...hex].map((digit) => digit + digit) : hex.match(/../g);
+    const [r, g, b, a = "ff"] = digits ?? [];
+    return {
+      r: parseInt(r, 16),
+      g: parseInt(g, 16),
+      b: parseInt(b, 16),
+      a: parseInt(a, 16) / 255,
+    };
+  }
+
+  const rgb = color.match(
+    /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/
+  );
+  if (rgb) {
+    const alpha = rgb[4]?.endsWith("%") ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4] ?? "1");
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: alpha };
+  }
+
+  return null;
+}
+
+// Paint a possibly translucent color over a background
+function composite(color: Rgba, background: Background): Background {
+  if (color.a >= 1) return color;
+  if (!background) return null;
+  const mix = (front: number, back: number) => front * color.a + back * (1 - color.a);
+  return {
+    r: mix(color.r, background.r),
+    g: mix(color.g, background.g),
+    b: mix(color.b, background.b),
+    a: 1,
+  };
+}
+
+function relativeLuminance({ r, g, b }: Rgba): number {
+  const [red, green, blue] = [r, g, b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+function contrastRatio(foreground: Rgba, background: Rgba): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort(
+    (a, b) => b - a
+  );
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Pixel size of a CSS font size; null for relative units
+function parsePixels(value: string | number | undefined): number | null {
+  if (typeof value === "number") return value;
+  const match = String(value ?? "")
+    .trim()
+    .match(/^([\d.]+)(px)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function prop(node: EditorNode, key: string, fallback: string): string | number {
+  const value = node.props[key];
+  return value === undefined || value === "" ? fallback : value;
+}
+
+// Background a node paints over the one it inherits
+function paintBackground(node: EditorNode, inherited: Background): Background {
+  let background = inherited;
+
+  if (BACKGROUND_TYPES.includes(node.type)) {
+    // Text over an image can't be checked
+    if (node.props["background-url"]) return null;
+    const color = parseColor(node.props["background-color"]);
+    if (color) background = composite(color, background);
+    // Columns also have a background inside their padding
+    const inner = parseColor(node.props["inner-background-color"]);
+    if (inner) background = composite(inner, background);
+  }
+
+  const container = parseColor(node.props["container-background-color"]);
+  if (container) background = composite(container, background);
+
+  // Button text sits on the button itself
+  if (node.type === "mj-button") {
+    const color = parseColor(prop(node, "background-color", BUTTON_BACKGROUND));
+    if (color) background = composite(color, background);
+  }
+
+  return background;
+}
+
+function isLargeText(node: EditorNode, fontSize: number): boolean {
+  const weight = String(node.props["font-weight"] ?? "");
+  const bold = weight === "bold" || weight === "bolder" || Number(weight) >= 700;
+  // 18pt, or 14pt bold
+  return fontSize >= 24 || (bold && fontSize >= 18.66);
+}
+
+function findContrastIssues(document: EditorNode): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  const visit = (node: EditorNode, inherited: Background) => {
+    const background = paintBackground(node, inherited);
+    const defaults = TEXT_DEFAULTS[node.type];
+
+    if (defaults && background) {
+      const color = parseColor(prop(node, "color", defaults.color));
+      const text = color && composite(color, background);
+      const fontSize = parsePixels(prop(node, "font-size", defaults.fontSize));
+      if (text) {
+        const ratio = contrastRatio(text, background);
+        const minimum =
+          fontSize !== null && isLargeText(node, fontSize)
+            ? MIN_LARGE_TEXT_CONTRAST_RATIO
+            : MIN_CONTRAST_RATIO;
+        if (ratio < minimum) {
+          const label = stripTags(node.content ?? "");
+          issues.push({
+            message: `${nodeName(node)}${label ? ` ${quote(label)}` : ""} has a contrast ratio of ${ratio.toFixed(2)}:1 (needs ${minimum}:1)`,
+            nodeId: node.id,
+          });
+        }
+      }
+    }
+
+    node.children?.forEach((child) => visit(child, background));
+  };
+
+  // Clients show a white page when the body has no background
+  visit(document, WHITE);
+  return issues;
+}
+
+// Shared with the preflight checks
+export function findImagesWithoutAlt(document: EditorNode): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  walk(document, (node) => {
+    if (IMAGE_TYPES.includes(node.type) && !String(node.props.alt ?? "").trim()) {
+      const file = String(node.props.src ?? "")
+        .split(/[?#]/)[0]
+        .split("/")
+        .filter(Boolean)
+        .pop();
+      issues.push({
+        message: `${nodeName(node)}${file ? ` ${quote(file)}` : ""} has no alt text`,
+        nodeId: node.id,
+      });
+    }
+  });
+  return issues;
+}
+
+function findSmallFonts(document: EditorNode): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  walk(document, (node) => {
+    const defaults = TEXT_DEFAULTS[node.type];
+    if (defaults) {
+      const size = parsePixels(prop(node, "font-size", defaults.fontSize));
+      if (size !== null && size < MIN_FONT_SIZE_PX) {
+        issues.push({ message: `${nodeName(node)} font size is ${size}px`, nodeId: node.id });
+      }
+    }
+
+    // Inline sizes in rich text
+    const inline = new Set<number>();
+    for (const match of (node.content ?? "").matchAll(/font-size\s*:\s*([\d.]+)px/gi)) {
+      const size = parseFloat(match[1]);
+      if (size < MIN_FONT_SIZE_PX) inline.add(size);
+    }
+    if (inline.size > 0) {
+      const sizes = [...inline].map((size) => `${size}px`).join(", ");
+      issues.push({ message: `${nodeName(node)} contains text at ${sizes}`, nodeId: node.id });
+    }
+  });
+
+  return issues;
+}
+
+function isNonDescriptive(text: string): boolean {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return NON_DESCRIPTIVE_LINK_TEXT.has(normalized);
+}
+
+function findVagueLinkText(document: EditorNode): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  walk(document, (node) => {
+    if (node.type === "mj-button" || node.type === "mj-navbar-link") {
+      const text = stripTags(node.content ?? "");
+      if (isNonDescriptive(text)) {
+        issues.push({
+          message: `${nodeName(node)} ${quote(text)} doesn't say where it goes`,
+          nodeId: node.id,
+        });
+      }
+      return;
+    }
+
+    for (const match of (node.content ?? "").matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)) {
+      const text = stripTags(match[1]);
+      if (isNonDescriptive(text)) {
+        issues.push({
+          message: `Link ${quote(text)} in ${nodeName(node)} doesn't say where it goes`,
+          nodeId: node.id,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+function findLanguageIssues(headSettings: HeadSettings): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  if (!headSettings.lang?.trim()) {
+    issues.push({
+      message: "No language set; screen readers may read the email with the wrong voice",
+    });
+  }
+  if (!headSettings.dir) {
+    issues.push({ message: "No text direction set (left-to-right or right-to-left)" });
+  }
+  return issues;
+}
+
+// Headings should only go one level deeper at a time (h2 → h3, not h2 → h4)
+function findHeadingOrderIssues(document: EditorNode): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  let previous = 0;
+
+  walk(document, (node) => {
+    if (node.type !== "mj-text" && node.type !== "mj-accordion-text") return;
+
+    for (const match of (node.content ?? "").matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+      const level = Number(match[1]);
+      if (previous > 0 && level > previous + 1) {
+        const text = stripTags(match[2]);
+        issues.push({
+          message: `Heading${text ? ` ${quote(text)}` : ""} jumps from h${previous} to h${level}`,
+          nodeId: node.id,
+        });
+      }
+      previous = level;
+    }
+  });
+
+  return issues;
+}
+
+export function runAccessibilityChecks(
+  document: EditorNode,
+  headSettings: HeadSettings
+): AccessibilityCheck[] {
+  return [
+    {
+      id: "alt-text",
+      label: "Images have alt text",
+      severity: "error",
+      issues: findImagesWithoutAlt(document),
+    },
+    {
+      id: "contrast",
+      label: "Text has enough contrast",
+      severity: "error",
+      issues: findContrastIssues(document),
+    },
+    {
+      id: "font-size",
+      label: `Text is at least ${MIN_FONT_SIZE_PX}px`,
+      severity: "warning",
+      issues: findSmallFonts(document),
+    },
+    {
+      id: "link-text",
+      label: "Link text is descriptive",
+      severity: "warning",
+      issues: findVagueLinkText(document),
+    },
+    {
+      id: "language",
+      label: "Language and direction are set",
+      severity: "warning",
+      issues: findLanguageIssues(headSettings),
+    },
+    {
+      id: "heading-order",
+      label: "Headings don't skip levels",
+      severity: "warning",
+      issues: findHeadingOrderIssues(document),
+    },
+  ];
+}
+
+export function countAccessibilityIssues(checks: AccessibilityCheck[]): number {
+  return checks.reduce((total, check) => total + check.issues.length, 0);
+}
@@ -0,0 +1,18 @@
+/**
+ * Accessibility lint rules
+ */
+
+export {
+  runAccessibilityChecks,
+  countAccessibilityIssues,
+  findImagesWithoutAlt,
+  MIN_CONTRAST_RATIO,
+  MIN_LARGE_TEXT_CONTRAST_RATIO,
+  MIN_FONT_SIZE_PX,
+} from "./accessibility";
+export type {
+  AccessibilitySeverity,
+  AccessibilityRuleId,
+  AccessibilityIssue,
+  AccessibilityCheck,
+} from "./accessibility";
@@ -0,0 +1,121 @@
+/**
+ * Saved blocks - reusable node subtrees and the instances inserted from them
+ *
+ * A block keeps a master copy of its content. Inserted as a plain copy it is just
+ * regular nodes; inserted as a synced instance the root node links back to the
+ * block and its content is replaced whenever the master changes. The instance
+ * root keeps its own id and placement settings (lock, layer name, display
+ * condition, repeat), so only the content follows the master.
+ */
+
+import type { EditorNode, SavedBlock } from "@/features/editor/types";
+import { cloneNodeWithNewIds, findPathInTree } from "@/features/editor/lib/tree";
+
+// Nested instances become plain copies, so a block never contains another
+function unlinkInstances(node: EditorNode): EditorNode {
+  const copy: EditorNode = {
+    ...node,
+    props: { ...node.props },
+    children: node.children?.map(unlinkInstances),
+  };
+  delete copy.block;
+  return copy;
+}
+
+// Master content of a block saved from a node
+export function createBlockNode(node: EditorNode): EditorNode {
+  const { id, type, props, content, children, tokens } = unlinkInstances(node);
+  return { id, type, props, content, children, ...(tokens && { tokens }) };
+}
+
+// Copy of a block's content with fresh IDs, linked to the block when synced
+export function createBlockInstance(block: SavedBlock, synced: boolean): EditorNode {
+  const instance = cloneNodeWithNewIds(block.node);
+  if (synced) {
+    instance.block = { blockId: block.id, syncedAt: block.updatedAt };
+  }
+  return instance;
+}
+
+// Content of a node without IDs, for comparison
+function contentKey(node: EditorNode): unknown {
+  const { type, props, content, locked, condition, repeat, label, tokens } = node;
+  return {
+    type,
+    props,
+    content,
+    locked,
+    condition,
+    repeat,
+    label,
+    tokens,
+    children: node.children?.map(contentKey),
+  };
+}
+
+// Whether an instance was edited since it was last synced with its block
+export function isInstanceModified(instance: EditorNode, block: SavedBlock): boolean {
+  // The root's placement settings belong to the instance
+  const root = (node: EditorNode) => ({
+    type: node.type,
+    props: node.props,
+    content: node.content,
+    tokens: node.tokens,
+    children: node.children?.map(contentKey),
+  });
+  return JSON.stringify(root(instance)) !== JSON.stringify(root(block.node));
+}
+
+// Master content for an instance, keeping the instance's own root fields
+function replaceInstance(instance: EditorNode, block: SavedBlock): EditorNode {
+  const content = cloneNodeWithNewIds(block.node);
+  return {
+    ...instance,
+    props: content.props,
+    content: content.content,
+    children: content.children,
+    tokens: content.tokens,
+    block: { blockId: block.id, syncedAt: block.updatedAt },
+  };
+}
+
+/**
+ * Update synced instances whose block changed since they were synced, and the
+ * instances listed in `forceIds` regardless. Instances of blocks that are not
+ * in `blocks` are left alone. Unchanged subtrees (and the document itself, if
+ * nothing was updated) are returned as is.
+ */
+export function syncBlockInstances(
+  node: EditorNode,
+  blocks: SavedBlock[],
+  forceIds?: ReadonlySet<string>
+): EditorNode {
+  if (node.block) {
+    const link = node.block;
+    const block = blocks.find((b) => b.id === link.blockId);
+    if (block && block.node.type === node.type) {
+      if (link.syncedAt < block.updatedAt || forceIds?.has(node.id)) {
+        return replaceInstance(node, block);
+      }
+    }
+    return node;
+  }
+
+  if (!node.children) return node;
+  let changed = false;
+  const children = node.children.map((child) => {
+    const synced = syncBlockInstances(child, blocks, forceIds);
+    if (synced !== child) changed = true;
+    return synced;
+  });
+  return changed ? { ...node, children } : node;
+}
+
+// The synced instance a node belongs to: the node itself or its closest linked ancestor
+export function findBlockInstance(root: EditorNode, nodeId: string): EditorNode | null {
+  const path = findPathInTree(root, nodeId) ?? [];
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (path[i].block) return path[i];
+  }
+  return null;
+}
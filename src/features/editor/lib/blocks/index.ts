@@ -0,0 +1,11 @@
+/**
+ * Saved blocks and synced instances
+ */
+
+export {
+  createBlockNode,
+  createBlockInstance,
+  isInstanceModified,
+  syncBlockInstances,
+  findBlockInstance,
+} from "./blocks";
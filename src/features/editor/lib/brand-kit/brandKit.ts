@@ -0,0 +1,207 @@
+/**
+ * Brand kit - design tokens (colors, font stacks, spacing, button styles) that
+ * node props can be bound to
+ *
+ * A bound prop keeps its current value in `node.props`, so the canvas and the
+ * checks read it like any other prop, and records the token in `node.tokens`.
+ * applyBrandKit() writes the kit's current values back into bound props; it runs
+ * when the kit changes and when the email is compiled, so changing a token
+ * restyles every email that uses it. Setting a bound prop by hand unbinds it.
+ *
+ * An email uses the kit whose id its headSettings.brandKitId holds. Emails bound
+ * to another kit (e.g. imported from elsewhere) keep their values.
+ */
+
+import type {
+  BrandButtonStyle,
+  BrandKit,
+  BrandToken,
+  BrandTokenGroup,
+  EditorNode,
+  HeadSettings,
+  MJMLComponentType,
+} from "@/features/editor/types";
+
+export const TOKEN_GROUPS: BrandTokenGroup[] = ["colors", "fonts", "spacing"];
+
+// Button props a button style can set
+export const BUTTON_STYLE_PROPS = [
+  "background-color",
+  "color",
+  "border",
+  "border-radius",
+  "font-family",
+  "font-weight",
+  "inner-padding",
+] as const;
+
+// Font used when the kit has none
+export const FALLBACK_FONT = "Arial, sans-serif";
+
+// Values of a new kit; each kit gets its own id
+export const defaultBrandKit: Omit<BrandKit, "id"> = {
+  colors: [
+    { id: "primary", name: "Primary", value: "#000000" },
+    { id: "on-primary", name: "On primary", value: "#ffffff" },
+    { id: "text", name: "Text", value: "#333333" },
+    { id: "muted", name: "Muted", value: "#64748b" },
+    { id: "border", name: "Border", value: "#e2e8f0" },
+    { id: "surface", name: "Surface", value: "#ffffff" },
+    { id: "background", name: "Background", value: "#f4f4f4" },
+  ],
+  fonts: [
+    { id: "body", name: "Body", value: FALLBACK_FONT },
+    { id: "heading", name: "Heading", value: "Helvetica, Arial, sans-serif" },
+    { id: "serif", name: "Serif", value: "Georgia, serif" },
+  ],
+  spacing: [
+    { id: "space-xs", name: "XS", value: "4px" },
+    { id: "space-sm", name: "S", value: "8px" },
+    { id: "space-md", name: "M", value: "16px" },
+    { id: "space-lg", name: "L", value: "24px" },
+    { id: "space-xl", name: "XL", value: "32px" },
+  ],
+  buttonStyles: [
+    {
+      id: "button-primary",
+      name: "Primary",
+      props: {
+        "background-color": "#000000",
+        color: "#ffffff",
+        "font-weight": "500",
+        "border-radius": "50px",
+      },
+    },
+    {
+      id: "button-outline",
+      name: "Outline",
+      props: {
+        "background-color": "#ffffff",
+        color: "#000000",
+        border: "1px solid #000000",
+        "font-weight": "500",
+        "border-radius": "50px",
+      },
+    },
+  ],
+};
+
+// Tokens new elements start bound to; new buttons also use the kit's first button style
+const DEFAULT_TOKENS: Partial<Record<MJMLComponentType, Record<string, string>>> = {
+  "mj-section": { "background-color": "surface" },
+  "mj-divider": { "border-color": "border" },
+};
+
+// Whether an email's token bindings refer to the kit
+export function usesBrandKit(headSettings: HeadSettings | undefined, kit: BrandKit): boolean {
+  return headSettings?.brandKitId === kit.id;
+}
+
+export function findToken(kit: BrandKit, tokenId: string): BrandToken | undefined {
+  for (const group of TOKEN_GROUPS) {
+    const token = kit[group].find((t) => t.id === tokenId);
+    if (token) return token;
+  }
+  return undefined;
+}
+
+// Value a token gives a prop, or undefined if the kit no longer has it
+export function resolveToken(kit: BrandKit, tokenId: string, key: string): string | undefined {
+  const token = findToken(kit, tokenId);
+  if (token) return token.value;
+  return kit.buttonStyles.find((style) => style.id === tokenId)?.props[key];
+}
+
+// The button style a node's props are bound to, if any
+export function getButtonStyleId(node: EditorNode, kit: BrandKit): string | null {
+  const ids = new Set(Object.values(node.tokens ?? {}));
+  return kit.buttonStyles.find((style) => ids.has(style.id))?.id ?? null;
+}
+
+// Token changes that switch a node to a button style (or off any, for null):
+// binds the style's props and unbinds props of the previous style
+export function getButtonStyleBindings(
+  node: EditorNode,
+  kit: BrandKit,
+  style: BrandButtonStyle | null
+): Record<string, { id: string; value: string } | null> {
+  const styleIds = new Set(kit.buttonStyles.map((s) => s.id));
+  const bindings: Record<string, { id: string; value: string } | null> = {};
+
+  for (const [key, tokenId] of Object.entries(node.tokens ?? {})) {
+    if (styleIds.has(tokenId)) bindings[key] = null;
+  }
+  for (const [key, value] of Object.entries(style?.props ?? {})) {
+    if (value) bindings[key] = { id: style!.id, value };
+  }
+  return bindings;
+}
+
+// Bind a new node, and the children it was created with, to the kit's default tokens
+export function bindDefaultTokens(node: EditorNode, kit: BrandKit): EditorNode {
+  const bindings: Record<string, { id: string; value: string } | null> = {};
+  for (const [key, tokenId] of Object.entries(DEFAULT_TOKENS[node.type] ?? {})) {
+    const token = findToken(kit, tokenId);
+    if (token) bindings[key] = { id: token.id, value: token.value };
+  }
+  if (node.type === "mj-button" && kit.buttonStyles.length > 0) {
+    Object.assign(bindings, getButtonStyleBindings(node, kit, kit.buttonStyles[0]));
+  }
+
+  const props = { ...node.props };
+  const tokens = { ...node.tokens };
+  for (const [key, binding] of Object.entries(bindings)) {
+    if (!binding) continue;
+    props[key] = binding.value;
+    tokens[key] = binding.id;
+  }
+
+  return {
+    ...node,
+    props,
+    ...(Object.keys(tokens).length > 0 && { tokens }),
+    children: node.children?.map((child) => bindDefaultTokens(child, kit)),
+  };
+}
+
+/**
+ * Write the kit's current values into bound props. Props bound to tokens the
+ * kit no longer has keep their last value. Unchanged subtrees (and the document
+ * itself, if nothing changed) are returned as is.
+ */
+export function applyBrandKit(node: EditorNode, kit: BrandKit): EditorNode {
+  let props = node.props;
+  for (const [key, tokenId] of Object.entries(node.tokens ?? {})) {
+    const value = resolveToken(kit, tokenId, key);
+    if (value !== undefined && value !== props[key]) {
+      if (props === node.props) props = { ...node.props };
+      props[key] = value;
+    }
+  }
+
+  let children = node.children;
+  if (node.children) {
+    const applied = node.children.map((child) => applyBrandKit(child, kit));
+    if (applied.some((child, index) => child !== node.children![index])) {
+      children = applied;
+    }
+  }
+
+  return props === node.props && children === node.children ? node : { ...node, props, children };
+}
+
+// data-tokens value: "background-color:primary;color:on-primary"
+export function formatTokenBindings(tokens: Record<string, string>): string {
+  return Object.entries(tokens)
+    .map(([key, tokenId]) => `${key}:${tokenId}`)
+    .join(";");
+}
+
+export function parseTokenBindings(value: string): Record<string, string> | null {
+  const tokens: Record<string, string> = {};
+  for (const entry of value.split(";")) {
+    const [key, tokenId] = entry.split(":");
+    if (key?.trim() && tokenId?.trim()) tokens[key.trim()] = tokenId.trim();
+  }
+  return Object.keys(tokens).length > 0 ? tokens : null;
+}
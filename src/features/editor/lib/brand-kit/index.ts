@@ -0,0 +1,19 @@
+/**
+ * Brand kit design tokens
+ */
+
+export {
+  TOKEN_GROUPS,
+  BUTTON_STYLE_PROPS,
+  FALLBACK_FONT,
+  defaultBrandKit,
+  usesBrandKit,
+  findToken,
+  resolveToken,
+  getButtonStyleId,
+  getButtonStyleBindings,
+  bindDefaultTokens,
+  applyBrandKit,
+  formatTokenBindings,
+  parseTokenBindings,
+} from "./brandKit";
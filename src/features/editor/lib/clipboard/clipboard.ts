@@ -0,0 +1,110 @@
+/**
+ * Clipboard - copying nodes between documents and browser tabs
+ *
+ * Copied nodes go on the clipboard twice: as a JSON payload under a custom MIME
+ * type, which keeps everything the editor knows about them, and as MJML text for
+ * pasting into other tools. Pasting reads the JSON first and falls back to MJML,
+ * so MJML copied from elsewhere can be pasted too.
+ */
+
+import type { EditorNode, MJMLComponentType } from "@/features/editor/types";
+import { canContain, componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import {
+  cloneNodeWithNewIds,
+  findPathInTree,
+  isEditorNode,
+  removeLockFromNode,
+} from "@/features/editor/lib/tree";
+import { nodeToMjml, parseMjmlToNode } from "@/features/editor/lib/mjml/compiler";
+
+export const NODES_MIME_TYPE = "application/x-mail-studio-nodes+json";
+
+interface ClipboardPayload {
+  version: 1;
+  nodes: EditorNode[];
+}
+
+// Where pasted nodes go
+export interface PasteTarget {
+  parentId: string;
+  index: number;
+}
+
+export function serializeNodes(nodes: EditorNode[]): { json: string; mjml: string } {
+  const payload: ClipboardPayload = { version: 1, nodes };
+  return {
+    json: JSON.stringify(payload),
+    mjml: nodes.map((node) => nodeToMjml(node)).join("\n"),
+  };
+}
+
+// Nodes from another tab may come from an editor version with other components
+function isKnownNode(node: EditorNode): boolean {
+  return !!componentDefinitions[node.type] && (node.children ?? []).every(isKnownNode);
+}
+
+function isClipboardNode(value: unknown): value is EditorNode {
+  return isEditorNode(value) && isKnownNode(value);
+}
+
+// Fresh IDs so the nodes can be pasted any number of times; like duplicates,
+// pasted nodes are not locked
+function cloneForPaste(node: EditorNode): EditorNode {
+  const clone = cloneNodeWithNewIds(node);
+  removeLockFromNode(clone);
+  return clone;
+}
+
+function parseJsonPayload(json: string): EditorNode[] | null {
+  try {
+    const payload: unknown = JSON.parse(json);
+    if (!payload || typeof payload !== "object" || !("nodes" in payload)) return null;
+    if (!Array.isArray(payload.nodes)) return null;
+    return payload.nodes.every(isClipboardNode) ? payload.nodes : null;
+  } catch {
+    return null;
+  }
+}
+
+// An MJML fragment, or a whole document whose body content is pasted
+function parseMjmlFragment(text: string): EditorNode[] | null {
+  const mjml = text.trim();
+  if (!mjml.startsWith("<mj")) return null;
+
+  const source = /^<mjml[\s>]/i.test(mjml) ? mjml : `<mjml><mj-body>${mjml}</mj-body></mjml>`;
+  const body = parseMjmlToNode(source);
+  const nodes = body?.children?.filter((node) => componentDefinitions[node.type]);
+  return nodes && nodes.length > 0 ? nodes : null;
+}
+
+// Nodes to paste, with new IDs, or null if the clipboard holds none
+export function parseClipboardNodes(json: string, text: string): EditorNode[] | null {
+  const nodes = (json && parseJsonPayload(json)) || (text && parseMjmlFragment(text)) || null;
+  return nodes ? nodes.map(cloneForPaste) : null;
+}
+
+// Inside the selected node if it accepts every pasted type, otherwise after the
+// selected node (or its closest ancestor) in the nearest ancestor that does.
+// Nothing selected pastes at the end of the body.
+export function findPasteTarget(
+  document: EditorNode,
+  selectedId: string | null,
+  types: MJMLComponentType[]
+): PasteTarget | null {
+  const path = (selectedId && findPathInTree(document, selectedId)) || [document];
+  const accepts = (node: EditorNode) => types.every((type) => canContain(node.type, type));
+
+  for (let i = path.length - 1; i >= 0; i--) {
+    const node = path[i];
+    // A locked node, or one inside a locked node, takes no children
+    if (path.slice(0, i + 1).some((ancestor) => ancestor.locked)) continue;
+    if (!accepts(node)) continue;
+
+    if (i === path.length - 1) {
+      return { parentId: node.id, index: node.children?.length ?? 0 };
+    }
+    const childIndex = node.children?.findIndex((child) => child.id === path[i + 1].id) ?? -1;
+    return { parentId: node.id, index: childIndex + 1 };
+  }
+  return null;
+}
@@ -0,0 +1,6 @@
+/**
+ * Copy and paste of nodes
+ */
+
+export { NODES_MIME_TYPE, serializeNodes, parseClipboardNodes, findPasteTarget } from "./clipboard";
+export type { PasteTarget } from "./clipboard";
@@ -0,0 +1,220 @@
+/**
+ * Compatibility - which CSS and HTML features of an email some clients don't support
+ *
+ * The compiled HTML says which features the email really uses; node content,
+ * node props, custom CSS and fonts say where each one came from. Features only
+ * MJML itself generates are left out, since MJML ships its own fallbacks.
+ */
+
+import type { EditorNode, HeadSettings } from "@/features/editor/types";
+import { nodeName, quote, stripTags } from "@/features/editor/lib/tree";
+import {
+  EMAIL_CLIENTS,
+  EMAIL_FEATURES,
+  type EmailClientId,
+  type EmailFeature,
+  type FeatureTest,
+  type SupportLevel,
+} from "./features";
+
+// Where a feature was introduced
+export interface CompatibilitySource {
+  label: string;
+  // Node to select to fix it; unset for head settings
+  nodeId?: string;
+}
+
+export interface ClientSupport {
+  client: EmailClientId;
+  support: SupportLevel;
+}
+
+export interface CompatibilityIssue {
+  feature: EmailFeature;
+  // Clients without full support, unsupported first
+  clients: ClientSupport[];
+  sources: CompatibilitySource[];
+}
+
+// Markup and styles to look for features in
+interface Scan {
+  html: string;
+  css: string;
+  urls: string[];
+}
+
+// MJML attributes that end up as the CSS property of the same effect
+const PROP_CSS_PROPERTIES: Record<string, string> = {
+  "border-radius": "border-radius",
+  "inner-border-radius": "border-radius",
+};
+
+// Props holding image URLs
+const URL_PROPS = ["src", "background-url"];
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Style sheets and style attributes of an HTML fragment
+function extractCss(html: string): string {
+  const sheets = Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi), (m) => m[1]);
+  const inline = Array.from(html.matchAll(/\bstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/gi), (m) =>
+    decodeAttribute(m[1] ?? m[2])
+  );
+  return [...sheets, ...inline].join(";\n");
+}
+
+function extractUrls(html: string, css: string): string[] {
+  const attributes = Array.from(
+    html.matchAll(/\b(?:src|background|poster)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi),
+    (m) => m[1] ?? m[2]
+  );
+  const cssUrls = Array.from(css.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/gi), (m) => m[1]);
+  return [...attributes, ...cssUrls];
+}
+
+function scanHtml(html: string): Scan {
+  const css = extractCss(html);
+  return { html, css, urls: extractUrls(html, css) };
+}
+
+function parseDeclarations(css: string): { property: string; value: string }[] {
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  return Array.from(withoutComments.matchAll(/([a-z-]+)\s*:\s*([^;{}]+)/gi), (m) => ({
+    property: m[1].toLowerCase(),
+    value: m[2].trim().toLowerCase(),
+  }));
+}
+
+function matchesTest(
+  test: FeatureTest,
+  scan: Scan,
+  declarations: ReturnType<typeof parseDeclarations>
+) {
+  if (test.property || test.value) {
+    return declarations.some(
+      ({ property, value }) =>
+        (!test.property || test.property.test(property)) && (!test.value || test.value.test(value))
+    );
+  }
+  if (test.atRule) return new RegExp(`@${test.atRule}\\b`, "i").test(scan.css);
+  if (test.selector) return test.selector.test(scan.css);
+  if (test.element) return new RegExp(`<${test.element}\\b`, "i").test(scan.html);
+  if (test.url) {
+    const pattern = test.url;
+    return scan.urls.some((url) => pattern.test(url.trim()));
+  }
+  return false;
+}
+
+function detectFeatures(scan: Scan): Set<string> {
+  const declarations = parseDeclarations(scan.css);
+  return new Set(
+    EMAIL_FEATURES.filter((feature) =>
+      feature.tests.some((test) => matchesTest(test, scan, declarations))
+    ).map((feature) => feature.id)
+  );
+}
+
+// Content and the CSS its props turn into
+function scanNode(node: EditorNode): Scan {
+  const scan = scanHtml(node.content ?? "");
+  const propCss = Object.entries(node.props)
+    .filter(([key, value]) => PROP_CSS_PROPERTIES[key] && value !== undefined && value !== "")
+    .map(([key, value]) => `${PROP_CSS_PROPERTIES[key]}: ${value};`);
+  const propUrls = URL_PROPS.map((key) => node.props[key])
+    .filter((value) => value !== undefined && value !== "")
+    .map(String);
+
+  return {
+    html: scan.html,
+    css: [scan.css, ...propCss].join("\n"),
+    urls: [...scan.urls, ...propUrls],
+  };
+}
+
+function describeNode(node: EditorNode): string {
+  const name = nodeName(node);
+  const text = stripTags(node.content ?? "");
+  return text ? `${name} ${quote(text)}` : name;
+}
+
+function collectSources(
+  document: EditorNode,
+  headSettings: HeadSettings
+): { source: CompatibilitySource; features: Set<string> }[] {
+  const sources: { source: CompatibilitySource; features: Set<string> }[] = [];
+
+  const visit = (node: EditorNode) => {
+    const features = detectFeatures(scanNode(node));
+    if (features.size > 0) {
+      sources.push({ source: { label: describeNode(node), nodeId: node.id }, features });
+    }
+    node.children?.forEach(visit);
+  };
+  visit(document);
+
+  if (headSettings.styles?.trim()) {
+    const css = headSettings.styles;
+    sources.push({
+      source: { label: "Custom CSS" },
+      features: detectFeatures({ html: "", css, urls: extractUrls("", css) }),
+    });
+  }
+
+  if (headSettings.fonts && headSettings.fonts.length > 0) {
+    const css = headSettings.fonts.map((font) => `@import url(${font.href});`).join("\n");
+    sources.push({
+      source: { label: "Custom fonts" },
+      features: detectFeatures({ html: "", css, urls: [] }),
+    });
+  }
+
+  return sources;
+}
+
+// html is the compiled email
+export function checkCompatibility(
+  document: EditorNode,
+  headSettings: HeadSettings,
+  html: string
+): CompatibilityIssue[] {
+  const used = detectFeatures(scanHtml(html));
+  const sources = collectSources(document, headSettings);
+
+  return EMAIL_FEATURES.filter((feature) => used.has(feature.id))
+    .map((feature) => ({
+      feature,
+      clients: (Object.keys(EMAIL_CLIENTS) as EmailClientId[])
+        .filter((client) => feature.support[client])
+        .map((client) => ({ client, support: feature.support[client] as SupportLevel }))
+        .sort((a, b) => (a.support === b.support ? 0 : a.support === "unsupported" ? -1 : 1)),
+      sources: sources
+        .filter(({ features }) => features.has(feature.id))
+        .map(({ source }) => source),
+    }))
+    .filter((issue) => issue.sources.length > 0 && issue.clients.length > 0);
+}
+
+// Number of features each client doesn't fully support
+export function summarizeByClient(
+  issues: CompatibilityIssue[]
+): Record<EmailClientId, { unsupported: number; partial: number }> {
+  const summary = Object.fromEntries(
+    (Object.keys(EMAIL_CLIENTS) as EmailClientId[]).map((client) => [
+      client,
+      { unsupported: 0, partial: 0 },
+    ])
+  ) as Record<EmailClientId, { unsupported: number; partial: number }>;
+
+  for (const issue of issues) {
+    for (const { client, support } of issue.clients) {
+      summary[client][support]++;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,269 @@
+/**
+ * Email client support for CSS and HTML features
+ *
+ * Condensed from caniemail.com and bundled so the report works offline. Only
+ * clients without full support are listed for each feature.
+ */
+
+export type EmailClientId =
+  | "apple-mail"
+  | "gmail"
+  | "outlook-windows"
+  | "outlook-web"
+  | "yahoo"
+  | "samsung-email";
+
+export type SupportLevel = "partial" | "unsupported";
+
+export const EMAIL_CLIENTS: Record<EmailClientId, string> = {
+  "apple-mail": "Apple Mail",
+  gmail: "Gmail",
+  "outlook-windows": "Outlook (Windows)",
+  "outlook-web": "Outlook.com",
+  yahoo: "Yahoo Mail",
+  "samsung-email": "Samsung Email",
+};
+
+// How a feature is recognized in markup and styles
+export interface FeatureTest {
+  // CSS declaration, optionally with a matching value
+  property?: RegExp;
+  value?: RegExp;
+  // At-rule name without the "@"
+  atRule?: string;
+  // Selector syntax, matched in style sheets
+  selector?: RegExp;
+  // HTML element name
+  element?: string;
+  // Image or resource URL
+  url?: RegExp;
+}
+
+export interface EmailFeature {
+  id: string;
+  name: string;
+  tests: FeatureTest[];
+  support: Partial<Record<EmailClientId, SupportLevel>>;
+  // What happens instead, or how to work around it
+  note?: string;
+}
+
+export const EMAIL_FEATURES: EmailFeature[] = [
+  {
+    id: "css-display-flex",
+    name: "display: flex",
+    tests: [{ property: /^display$/, value: /\b(inline-)?flex\b/ }],
+    support: { "outlook-windows": "unsupported" },
+    note: "Use columns or tables for layout.",
+  },
+  {
+    id: "css-display-grid",
+    name: "display: grid",
+    tests: [{ property: /^display$/, value: /\b(inline-)?grid\b/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+    note: "Use columns or tables for layout.",
+  },
+  {
+    id: "css-position",
+    name: "position",
+    tests: [{ property: /^position$/, value: /\b(absolute|fixed|relative|sticky)\b/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+  },
+  {
+    id: "css-background-image",
+    name: "background-image",
+    tests: [{ property: /^background-image$/ }, { property: /^background$/, value: /url\(/ }],
+    support: { "outlook-windows": "unsupported" },
+    note: "Outlook needs VML; use a section or hero background image instead.",
+  },
+  {
+    id: "css-linear-gradient",
+    name: "Gradients",
+    tests: [{ property: /^background(-image)?$/, value: /(linear|radial)-gradient\(/ }],
+    support: {
+      gmail: "partial",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+    },
+    note: "Set a background color as a fallback.",
+  },
+  {
+    id: "css-border-radius",
+    name: "border-radius",
+    tests: [{ property: /^border(-[a-z]+)*-radius$/ }],
+    support: { "outlook-windows": "unsupported" },
+    note: "Corners are square in Outlook for Windows.",
+  },
+  {
+    id: "css-box-shadow",
+    name: "box-shadow",
+    tests: [{ property: /^box-shadow$/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "partial",
+      "samsung-email": "partial",
+    },
+  },
+  {
+    id: "css-max-width",
+    name: "max-width",
+    tests: [{ property: /^max-width$/ }],
+    support: { "outlook-windows": "unsupported" },
+    note: "Set a fixed width for Outlook.",
+  },
+  {
+    id: "css-margin",
+    name: "margin",
+    tests: [{ property: /^margin(-[a-z]+)?$/ }],
+    support: { "outlook-windows": "partial" },
+    note: "Outlook ignores margins on many elements; use padding.",
+  },
+  {
+    id: "css-opacity",
+    name: "opacity",
+    tests: [{ property: /^opacity$/ }],
+    support: { "outlook-windows": "unsupported" },
+  },
+  {
+    id: "css-object-fit",
+    name: "object-fit",
+    tests: [{ property: /^object-fit$/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+  },
+  {
+    id: "css-variables",
+    name: "CSS variables",
+    tests: [{ property: /^--/ }, { value: /\bvar\(--/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+    note: "Write the values out.",
+  },
+  {
+    id: "css-animation",
+    name: "Animations",
+    tests: [{ atRule: "keyframes" }, { property: /^animation(-[a-z]+)?$/ }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+  },
+  {
+    id: "css-at-media",
+    name: "@media queries",
+    tests: [{ atRule: "media" }],
+    support: {
+      gmail: "partial",
+      "outlook-windows": "unsupported",
+      "outlook-web": "partial",
+      yahoo: "partial",
+    },
+    note: "Make sure the email also works without them.",
+  },
+  {
+    id: "css-web-fonts",
+    name: "Web fonts",
+    tests: [{ atRule: "font-face" }, { atRule: "import" }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+    },
+    note: "These clients fall back to the next font in the font-family list.",
+  },
+  {
+    id: "css-pseudo-hover",
+    name: ":hover",
+    tests: [{ selector: /:hover\b/ }],
+    support: {
+      gmail: "partial",
+      "outlook-windows": "unsupported",
+      "outlook-web": "partial",
+      yahoo: "partial",
+    },
+  },
+  {
+    id: "html-video",
+    name: "<video>",
+    tests: [{ element: "video" }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+      "samsung-email": "partial",
+    },
+    note: "Link a poster image to the video instead.",
+  },
+  {
+    id: "html-svg",
+    name: "Inline <svg>",
+    tests: [{ element: "svg" }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+    },
+    note: "Use a PNG image.",
+  },
+  {
+    id: "html-form",
+    name: "<form>",
+    tests: [{ element: "form" }],
+    support: {
+      gmail: "partial",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "partial",
+      "samsung-email": "partial",
+    },
+    note: "Link to a form on your website instead.",
+  },
+  {
+    id: "image-webp",
+    name: "WebP images",
+    tests: [{ url: /\.webp(?:[?#]|$)/i }],
+    support: { "outlook-windows": "unsupported" },
+    note: "Use PNG or JPEG.",
+  },
+  {
+    id: "image-svg",
+    name: "SVG images",
+    tests: [{ url: /\.svg(?:[?#]|$)/i }],
+    support: {
+      gmail: "unsupported",
+      "outlook-windows": "unsupported",
+      "outlook-web": "unsupported",
+      yahoo: "unsupported",
+    },
+    note: "Use PNG or JPEG.",
+  },
+];
@@ -0,0 +1,8 @@
+/**
+ * Email client compatibility report
+ */
+
+export { checkCompatibility, summarizeByClient } from "./compatibility";
+export type { CompatibilitySource, ClientSupport, CompatibilityIssue } from "./compatibility";
+export { EMAIL_CLIENTS, EMAIL_FEATURES } from "./features";
+export type { EmailClientId, SupportLevel, FeatureTest, EmailFeature } from "./features";
@@ -0,0 +1,6 @@
+/**
+ * CSV exports
+ */
+
+export { parseCsv } from "./parseCsv";
+export type { ParsedCsv } from "./parseCsv";
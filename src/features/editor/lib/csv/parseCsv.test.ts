@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./parseCsv";
+
+describe("parseCsv", () => {
+  it("parses headers and rows keyed by header", () => {
+    expect(parseCsv("email,name\na@x.test,Ada\nb@x.test,Bob\n")).toEqual({
+      headers: ["email", "name"],
+      rows: [
+        { email: "a@x.test", name: "Ada" },
+        { email: "b@x.test", name: "Bob" },
+      ],
+    });
+  });
+
+  it("handles quoted fields with delimiters, escaped quotes and line breaks", () => {
+    const { rows } = parseCsv('email,note\r\na@x.test,"Hello, ""friend""\r\nsee you"\r\n');
+    expect(rows).toEqual([{ email: "a@x.test", note: 'Hello, "friend"\r\nsee you' }]);
+  });
+
+  it("detects semicolon and tab delimiters", () => {
+    expect(parseCsv("email;name\na@x.test;Ada").rows).toEqual([{ email: "a@x.test", name: "Ada" }]);
+    expect(parseCsv("email\tname\na@x.test\tAda").rows).toEqual([
+      { email: "a@x.test", name: "Ada" },
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines, and fills short rows", () => {
+    const { headers, rows } = parseCsv("\uFEFFemail,name\n\n a@x.test \n,\n");
+    expect(headers).toEqual(["email", "name"]);
+    expect(rows).toEqual([{ email: "a@x.test", name: "" }]);
+  });
+
+  it("names empty and duplicate headers", () => {
+    expect(parseCsv("email,,email\na,b,c").headers).toEqual(["email", "Column 2", "email (2)"]);
+  });
+
+  it("returns no headers or rows for empty input", () => {
+    expect(parseCsv("")).toEqual({ headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * CSV parsing - RFC 4180 style (quoted fields, escaped quotes, CRLF or LF line breaks)
+ */
+
+export interface ParsedCsv {
+  headers: string[];
+  // One object per data row, keyed by header
+  rows: Record<string, string>[];
+}
+
+// Split CSV text into rows of raw field values
+function parseRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+// Guess the delimiter from the header line (comma, semicolon or tab)
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+export function parseCsv(text: string): ParsedCsv {
+  // Drop a UTF-8 byte order mark (common in spreadsheet exports)
+  const content = text.replace(/^\uFEFF/, "");
+  const [headerRecord = [], ...dataRecords] = parseRecords(content, detectDelimiter(content));
+
+  // Name empty and duplicate headers so every column can be mapped
+  const headers = headerRecord.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const earlier = headerRecord.slice(0, index).filter((h) => h.trim() === header.trim()).length;
+    return earlier > 0 ? `${name} (${earlier + 1})` : name;
+  });
+
+  const rows = dataRecords.map((fields) =>
+    Object.fromEntries(headers.map((header, index) => [header, (fields[index] ?? "").trim()]))
+  );
+
+  return { headers, rows };
+}
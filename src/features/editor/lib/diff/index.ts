@@ -0,0 +1,14 @@
+/**
+ * Document diff exports
+ */
+
+export { diffDocuments, summarizeDiff } from "./treeDiff";
+export type {
+  DiffStatus,
+  DiffTreeNode,
+  DiffSummary,
+  NodeChanges,
+  NodeSettingKey,
+  PropChange,
+  SettingChange,
+} from "./treeDiff";
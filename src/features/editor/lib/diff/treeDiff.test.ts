@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { EditorNode } from "@/features/editor/types";
+import { diffDocuments, summarizeDiff, type DiffTreeNode } from "./treeDiff";
+
+function node(id: string, overrides: Partial<EditorNode> = {}): EditorNode {
+  return { id, type: "mj-text", props: {}, ...overrides };
+}
+
+function doc(children: EditorNode[]): EditorNode {
+  return { id: "root", type: "mj-body", props: {}, children };
+}
+
+function find(tree: DiffTreeNode, id: string): DiffTreeNode | undefined {
+  if (tree.node.id === id) return tree;
+  for (const child of tree.children) {
+    const found = find(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+describe("diffDocuments", () => {
+  it("marks identical trees as unchanged", () => {
+    const before = doc([node("a", { content: "Hello" })]);
+    const tree = diffDocuments(before, structuredClone(before));
+    expect(summarizeDiff(tree)).toEqual({ added: 0, removed: 0, moved: 0, changed: 0 });
+  });
+
+  it("reports added and removed nodes, keeping removed ones at their old position", () => {
+    const before = doc([node("a"), node("b"), node("c")]);
+    const after = doc([node("a"), node("c"), node("d")]);
+    const tree = diffDocuments(before, after);
+
+    expect(tree.children.map((child) => [child.node.id, child.status])).toEqual([
+      ["a", "unchanged"],
+      ["b", "removed"],
+      ["c", "unchanged"],
+      ["d", "added"],
+    ]);
+  });
+
+  it("treats empty and missing props as equal", () => {
+    const before = doc([node("a", { props: { color: "" } })]);
+    const after = doc([node("a")]);
+    expect(find(diffDocuments(before, after), "a")?.status).toBe("unchanged");
+  });
+
+  it("reports prop, content and lock changes", () => {
+    const before = doc([node("a", { props: { color: "#000" }, content: "Hi" })]);
+    const after = doc([node("a", { props: { color: "#fff" }, content: "Hello", locked: true })]);
+    const changes = find(diffDocuments(before, after), "a")?.changes;
+
+    expect(changes?.props).toEqual([{ key: "color", before: "#000", after: "#fff" }]);
+    expect(changes?.content).toEqual({ before: "Hi", after: "Hello" });
+    expect(changes?.locked).toEqual({ before: false, after: true });
+  });
+
+  it("reports show-if, repeat, layer name and brand token changes", () => {
+    const before = doc([node("a")]);
+    const after = doc([
+      node("a", {
+        condition: { variable: "plan", operator: "equals", value: "vip" },
+        repeat: { source: "order.items", alias: "item" },
+        label: "Hero",
+        tokens: { color: "primary" },
+      }),
+    ]);
+    const diff = find(diffDocuments(before, after), "a");
+
+    expect(diff?.status).toBe("changed");
+    expect(diff?.changes?.settings).toEqual([
+      { key: "condition", before: undefined, after: "plan equals vip" },
+      { key: "repeat", before: undefined, after: "item in order.items" },
+      { key: "label", before: undefined, after: "Hero" },
+      { key: "tokens", before: undefined, after: "color → primary" },
+    ]);
+  });
+
+  it("ignores the order of brand token bindings", () => {
+    const before = doc([node("a", { tokens: { color: "primary", "font-family": "body" } })]);
+    const after = doc([node("a", { tokens: { "font-family": "body", color: "primary" } })]);
+    expect(find(diffDocuments(before, after), "a")?.status).toBe("unchanged");
+  });
+
+  it("marks nodes moved to another parent and reordered siblings", () => {
+    const before = doc([
+      node("s1", { type: "mj-section", children: [node("a"), node("b"), node("c")] }),
+      node("s2", { type: "mj-section", children: [] }),
+    ]);
+    const after = doc([
+      node("s1", { type: "mj-section", children: [node("c"), node("a")] }),
+      node("s2", { type: "mj-section", children: [node("b")] }),
+    ]);
+    const tree = diffDocuments(before, after);
+
+    expect(find(tree, "b")?.status).toBe("moved");
+    expect(find(tree, "c")?.status).toBe("moved");
+    expect(find(tree, "a")?.status).toBe("unchanged");
+    expect(summarizeDiff(tree).moved).toBe(2);
+  });
+
+  it("counts a moved node with edits as both moved and changed", () => {
+    const before = doc([
+      node("s1", { type: "mj-section", children: [node("a", { content: "Hi" })] }),
+      node("s2", { type: "mj-section", children: [] }),
+    ]);
+    const after = doc([
+      node("s1", { type: "mj-section", children: [] }),
+      node("s2", { type: "mj-section", children: [node("a", { content: "Hello" })] }),
+    ]);
+    expect(summarizeDiff(diffDocuments(before, after))).toEqual({
+      added: 0,
+      removed: 0,
+      moved: 1,
+      changed: 1,
+    });
+  });
+});
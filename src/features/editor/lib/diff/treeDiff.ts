@@ -0,0 +1,246 @@
+/**
+ * Tree diff - Compare two EditorNode trees by node id
+ *
+ * Nodes keep their ids across edits, so a node present in both trees is the
+ * "same" node. Each node is classified as added, removed, moved (different
+ * parent or reordered among its siblings), changed (props, content, lock
+ * state, show-if, repeat, layer name or brand kit bindings) or unchanged.
+ */
+
+import type { EditorNode } from "@/features/editor/types";
+
+export type DiffStatus = "added" | "removed" | "moved" | "changed" | "unchanged";
+
+// A single prop difference
+export interface PropChange {
+  key: string;
+  before?: string | number;
+  after?: string | number;
+}
+
+// Node settings compared besides props and content
+const SETTING_KEYS = ["condition", "repeat", "label", "tokens"] as const;
+
+export type NodeSettingKey = (typeof SETTING_KEYS)[number];
+
+// A setting difference, described as text (e.g. "plan equals vip")
+export interface SettingChange {
+  key: NodeSettingKey;
+  before?: string;
+  after?: string;
+}
+
+export interface NodeChanges {
+  props: PropChange[];
+  settings: SettingChange[];
+  content?: { before?: string; after?: string };
+  locked?: { before: boolean; after: boolean };
+}
+
+// Node of the merged tree used to render a diff
+export interface DiffTreeNode {
+  node: EditorNode;
+  status: DiffStatus;
+  // Set for nodes that exist in both trees, even when they were also moved
+  changes?: NodeChanges;
+  children: DiffTreeNode[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  changed: number;
+}
+
+interface IndexedNode {
+  node: EditorNode;
+  parentId: string | null;
+}
+
+// Map every node id to its node and parent id
+function indexTree(root: EditorNode): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+  const visit = (node: EditorNode, parentId: string | null) => {
+    index.set(node.id, { node, parentId });
+    node.children?.forEach((child) => visit(child, node.id));
+  };
+  visit(root, null);
+  return index;
+}
+
+// Indices of a longest increasing subsequence (patience sorting)
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  let current = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (current !== -1) {
+    result.add(current);
+    current = previous[current];
+  }
+  return result;
+}
+
+// Ids of children that were reordered within the same parent
+function findReorderedChildren(
+  beforeParent: EditorNode,
+  afterParent: EditorNode,
+  afterIndex: Map<string, IndexedNode>,
+  beforeIndex: Map<string, IndexedNode>
+): Set<string> {
+  const kept = (afterParent.children ?? []).filter(
+    (child) => beforeIndex.get(child.id)?.parentId === beforeParent.id
+  );
+  const beforeOrder = (beforeParent.children ?? [])
+    .filter((child) => afterIndex.get(child.id)?.parentId === afterParent.id)
+    .map((child) => child.id);
+
+  // Children outside the longest run that kept its relative order are the moved ones
+  const positions = kept.map((child) => beforeOrder.indexOf(child.id));
+  const stable = longestIncreasingSubsequence(positions);
+  return new Set(kept.filter((_, i) => !stable.has(i)).map((child) => child.id));
+}
+
+// Text for a node setting, undefined when it is not set
+function describeSetting(node: EditorNode, key: NodeSettingKey): string | undefined {
+  switch (key) {
+    case "condition": {
+      if (!node.condition) return undefined;
+      const { variable, operator, value } = node.condition;
+      return [variable, operator, value].filter(Boolean).join(" ");
+    }
+    case "repeat":
+      return node.repeat ? `${node.repeat.alias} in ${node.repeat.source}` : undefined;
+    case "label":
+      return node.label || undefined;
+    case "tokens": {
+      const bindings = Object.entries(node.tokens ?? {})
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([prop, token]) => `${prop} → ${token}`);
+      return bindings.length > 0 ? bindings.join(", ") : undefined;
+    }
+  }
+}
+
+function compareNodes(before: EditorNode, after: EditorNode): NodeChanges | undefined {
+  const props: PropChange[] = [];
+  const keys = new Set([...Object.keys(before.props), ...Object.keys(after.props)]);
+  for (const key of keys) {
+    const a = before.props[key];
+    const b = after.props[key];
+    if (a !== b && !(a === undefined && b === "") && !(a === "" && b === undefined)) {
+      props.push({ key, before: a, after: b });
+    }
+  }
+
+  const settings: SettingChange[] = [];
+  for (const key of SETTING_KEYS) {
+    const a = describeSetting(before, key);
+    const b = describeSetting(after, key);
+    if (a !== b) settings.push({ key, before: a, after: b });
+  }
+
+  const changes: NodeChanges = { props, settings };
+  if ((before.content ?? "") !== (after.content ?? "")) {
+    changes.content = { before: before.content, after: after.content };
+  }
+  if (!!before.locked !== !!after.locked) {
+    changes.locked = { before: !!before.locked, after: !!after.locked };
+  }
+
+  return props.length > 0 || settings.length > 0 || changes.content || changes.locked
+    ? changes
+    : undefined;
+}
+
+// Build a tree where every node is marked with its status
+function markTree(node: EditorNode, status: DiffStatus): DiffTreeNode {
+  return {
+    node,
+    status,
+    children: (node.children ?? []).map((child) => markTree(child, status)),
+  };
+}
+
+// Mark a removed subtree, leaving out nodes that were moved out of it (shown at their new place)
+function markRemoved(node: EditorNode, afterIndex: Map<string, IndexedNode>): DiffTreeNode {
+  return {
+    node,
+    status: "removed",
+    children: (node.children ?? [])
+      .filter((child) => !afterIndex.has(child.id))
+      .map((child) => markRemoved(child, afterIndex)),
+  };
+}
+
+/**
+ * Diff two documents and return a merged tree: the nodes of `after` annotated
+ * with their status, with removed nodes re-inserted at their old position.
+ */
+export function diffDocuments(before: EditorNode, after: EditorNode): DiffTreeNode {
+  const beforeIndex = indexTree(before);
+  const afterIndex = indexTree(after);
+
+  const build = (afterNode: EditorNode, parentStatus: DiffStatus): DiffTreeNode => {
+    const beforeEntry = beforeIndex.get(afterNode.id);
+    const afterEntry = afterIndex.get(afterNode.id)!;
+
+    // Descendants of an added subtree are added too
+    if (!beforeEntry || parentStatus === "added") {
+      return markTree(afterNode, "added");
+    }
+
+    const changes = compareNodes(beforeEntry.node, afterNode);
+    let status: DiffStatus = changes ? "changed" : "unchanged";
+    if (beforeEntry.parentId !== afterEntry.parentId) {
+      status = "moved";
+    }
+
+    const afterChildren = afterNode.children ?? [];
+    const reordered = findReorderedChildren(beforeEntry.node, afterNode, afterIndex, beforeIndex);
+
+    const children: DiffTreeNode[] = afterChildren.map((child) => {
+      const diffChild = build(child, status);
+      if (reordered.has(child.id)) diffChild.status = "moved";
+      return diffChild;
+    });
+
+    // Re-insert removed children at their previous position
+    (beforeEntry.node.children ?? []).forEach((beforeChild, beforePosition) => {
+      if (afterIndex.has(beforeChild.id)) return;
+      const removed = markRemoved(beforeChild, afterIndex);
+      children.splice(Math.min(beforePosition, children.length), 0, removed);
+    });
+
+    return { node: afterNode, status, changes, children };
+  };
+
+  return build(after, "unchanged");
+}
+
+// Count nodes by status
+export function summarizeDiff(tree: DiffTreeNode): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, moved: 0, changed: 0 };
+  const visit = (diffNode: DiffTreeNode) => {
+    if (diffNode.status !== "unchanged") summary[diffNode.status]++;
+    // Moved nodes can also have edited props or content
+    if (diffNode.status === "moved" && diffNode.changes) summary.changed++;
+    diffNode.children.forEach(visit);
+  };
+  visit(tree);
+  return summary;
+}
@@ -0,0 +1,6 @@
+/**
+ * Template export
+ */
+
+export { TEMPLATE_LANGUAGES, exportTemplate } from "./templateExport";
+export type { TemplateLanguage } from "./templateExport";
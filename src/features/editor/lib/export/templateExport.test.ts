@@ -0,0 +1,102 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from "vitest";
+import type { EditorNode } from "@/features/editor/types";
+import { exportTemplate, type TemplateLanguage } from "./templateExport";
+
+function exportText(
+  language: TemplateLanguage,
+  content: string,
+  overrides: Partial<EditorNode> = {}
+): string {
+  const document: EditorNode = {
+    id: "body",
+    type: "mj-body",
+    props: {},
+    children: [
+      {
+        id: "section",
+        type: "mj-section",
+        props: {},
+        children: [
+          {
+            id: "column",
+            type: "mj-column",
+            props: {},
+            children: [{ id: "text", type: "mj-text", props: {}, content, ...overrides }],
+          },
+        ],
+      },
+    ],
+  };
+  return exportTemplate(document, {}, language).html;
+}
+
+describe("exportTemplate", () => {
+  it("converts merge tags to each language's variable syntax", () => {
+    expect(exportText("handlebars", "Hi {{first_name}}")).toContain("Hi {{first_name}}");
+    expect(exportText("liquid", "Hi {{first_name|there}}")).toContain(
+      "Hi {{ first_name | default: 'there' }}"
+    );
+    expect(exportText("jinja", "Hi {{first_name|there}}")).toContain(
+      "Hi {{ first_name | default('there', true) }}"
+    );
+    expect(exportText("handlebars", "Hi {{first_name|there}}")).toContain(
+      "Hi {{#if first_name}}{{first_name}}{{else}}there{{/if}}"
+    );
+  });
+
+  it("escapes quotes in fallback literals", () => {
+    expect(exportText("jinja", "{{name|it's}}")).toContain("default('it\\'s', true)");
+    expect(exportText("liquid", "{{name|it's}}")).toContain(`default: "it's"`);
+    expect(exportText("liquid", `{{name|it's "free"}}`)).toContain(`default: 'it&#39;s "free"'`);
+  });
+
+  it("escapes Handlebars fallbacks as HTML", () => {
+    const html = exportText("handlebars", "{{name|a&lt;b &amp; 'x'}}");
+    expect(html).toContain("{{else}}a&lt;b &amp; &#39;x&#39;{{/if}}");
+    expect(html).not.toContain("a<b");
+  });
+
+  it("emits hyphenated variable names in valid syntax", () => {
+    expect(exportText("handlebars", "{{first-name}} {{user.last-name}}")).toContain(
+      "{{[first-name]}} {{user.[last-name]}}"
+    );
+    expect(exportText("jinja", "{{first-name}} {{user.last-name}}")).toContain(
+      "{{ first_name }} {{ user['last-name'] }}"
+    );
+    expect(exportText("liquid", "{{first-name}}")).toContain("{{ first-name }}");
+  });
+
+  it("wraps show-if nodes in condition blocks", () => {
+    const condition = { variable: "plan", operator: "equals", value: "vip" } as const;
+    const handlebars = exportText("handlebars", "VIP", { condition });
+    expect(handlebars).toMatch(/\{\{#if \(eq plan 'vip'\)\}\}[\s\S]*VIP[\s\S]*\{\{\/if\}\}/);
+
+    const liquid = exportText("liquid", "VIP", {
+      condition: { variable: "orders", operator: "greater-than", value: "3" },
+    });
+    expect(liquid).toMatch(/\{% if orders > 3 %\}[\s\S]*VIP[\s\S]*\{% endif %\}/);
+
+    const jinja = exportText("jinja", "VIP", {
+      condition: { variable: "tags", operator: "contains", value: "o'clock" },
+    });
+    expect(jinja).toContain("{% if 'o\\'clock' in tags %}");
+  });
+
+  it("places repeat blocks outside condition blocks", () => {
+    const html = exportText("jinja", "{{item.name}}", {
+      repeat: { alias: "item", source: "order.items" },
+      condition: { variable: "item.name", operator: "is-set" },
+    });
+    const forIndex = html.indexOf("{% for item in order.items %}");
+    const ifIndex = html.indexOf("{% if item.name %}");
+    const endIfIndex = html.indexOf("{% endif %}");
+    const endForIndex = html.indexOf("{% endfor %}");
+
+    expect(forIndex).toBeGreaterThan(-1);
+    expect(forIndex).toBeLessThan(ifIndex);
+    expect(ifIndex).toBeLessThan(endIfIndex);
+    expect(endIfIndex).toBeLessThan(endForIndex);
+    expect(html).not.toContain("%%MS_BLOCK_");
+  });
+});
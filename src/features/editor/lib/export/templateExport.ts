@@ -0,0 +1,251 @@
+/**
+ * Template export - compile a document to HTML for an ESP template language
+ *
+ * Merge tags become the language's variable syntax, and nodes with a show-if
+ * condition or repeat binding are wrapped in `if` / `for` blocks. The blocks are
+ * placed with mj-raw markers so they wrap exactly the table rows MJML generates.
+ */
+
+import type {
+  BrandKit,
+  EditorNode,
+  HeadSettings,
+  NodeCondition,
+  NodeRepeat,
+} from "@/features/editor/types";
+import { compileDocument } from "@/features/editor/lib/mjml/compiler";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { MERGE_TAG_PATTERN } from "@/features/editor/lib/merge-tags/mergeTags";
+
+export type TemplateLanguage = "handlebars" | "liquid" | "jinja";
+
+interface TemplateSyntax {
+  variable: (name: string, fallback?: string) => string;
+  openIf: (condition: NodeCondition) => string;
+  closeIf: (condition: NodeCondition) => string;
+  openFor: (repeat: NodeRepeat) => string;
+  closeFor: () => string;
+}
+
+export const TEMPLATE_LANGUAGES: Record<
+  TemplateLanguage,
+  { name: string; extension: string; description: string }
+> = {
+  handlebars: {
+    name: "Handlebars",
+    extension: "hbs",
+    description: "Comparisons use the eq, ne, gt, lt and includes helpers",
+  },
+  liquid: { name: "Liquid", extension: "liquid", description: "Shopify / Braze style Liquid" },
+  jinja: {
+    name: "Jinja",
+    extension: "j2",
+    description:
+      "Jinja2 / Nunjucks templates; hyphens in top-level variable names become underscores",
+  },
+};
+
+// ============ Syntax ============
+
+// String literals use single quotes, which keep the output valid inside HTML attributes
+// Handlebars fallbacks are template text, so they are escaped as HTML; braces become
+// entities so they can't open a mustache
+function handlebarsText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/\{/g, "&#123;")
+    .replace(/\}/g, "&#125;");
+}
+
+function handlebarsLiteral(value: string): string {
+  return `'${value.replace(/'/g, "\\'")}'`;
+}
+
+function jinjaLiteral(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+// Liquid strings have no escapes; a value with both quotes gets an HTML entity instead
+function liquidLiteral(value: string): string {
+  if (!value.includes("'")) return `'${value}'`;
+  return value.includes('"') ? `'${value.replace(/'/g, "&#39;")}'` : `"${value}"`;
+}
+
+// Numbers are compared as numbers, everything else as strings
+function comparable(literal: (value: string) => string, value = ""): string {
+  return value.trim() !== "" && !isNaN(Number(value)) ? value.trim() : literal(value);
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_]\w*$/;
+
+// Segments that aren't identifiers (`first-name`, `0`) become segment literals: `user.[first-name]`
+function handlebarsPath(name: string): string {
+  return name
+    .split(".")
+    .map((segment) => (IDENTIFIER_PATTERN.test(segment) ? segment : `[${segment}]`))
+    .join(".");
+}
+
+// Jinja has no syntax for a hyphenated top-level name, so it becomes `first_name`;
+// nested ones are subscripts: `user['first-name']`
+function jinjaPath(name: string): string {
+  const [first, ...rest] = name.split(".");
+  return rest.reduce(
+    (path, segment) =>
+      IDENTIFIER_PATTERN.test(segment) || /^\d+$/.test(segment)
+        ? `${path}.${segment}`
+        : `${path}['${segment}']`,
+    first.replace(/-/g, "_")
+  );
+}
+
+const handlebarsHelpers: Record<string, string> = {
+  equals: "eq",
+  "not-equals": "ne",
+  "greater-than": "gt",
+  "less-than": "lt",
+  contains: "includes",
+};
+
+const liquidOperators: Record<string, string> = {
+  equals: "==",
+  "not-equals": "!=",
+  "greater-than": ">",
+  "less-than": "<",
+};
+
+// Liquid identifiers may contain hyphens, so its names are used as they are
+const syntaxes: Record<TemplateLanguage, TemplateSyntax> = {
+  handlebars: {
+    variable: (name, fallback) =>
+      fallback !== undefined
+        ? `{{#if ${handlebarsPath(name)}}}{{${handlebarsPath(name)}}}{{else}}${handlebarsText(fallback)}{{/if}}`
+        : `{{${handlebarsPath(name)}}}`,
+    openIf: ({ variable, operator, value }) => {
+      const path = handlebarsPath(variable);
+      if (operator === "is-set") return `{{#if ${path}}}`;
+      if (operator === "is-not-set") return `{{#unless ${path}}}`;
+      return `{{#if (${handlebarsHelpers[operator]} ${path} ${comparable(handlebarsLiteral, value)})}}`;
+    },
+    closeIf: ({ operator }) => (operator === "is-not-set" ? "{{/unless}}" : "{{/if}}"),
+    openFor: ({ alias, source }) => `{{#each ${handlebarsPath(source)} as |${alias}|}}`,
+    closeFor: () => "{{/each}}",
+  },
+  liquid: {
+    variable: (name, fallback) =>
+      fallback !== undefined
+        ? `{{ ${name} | default: ${liquidLiteral(fallback)} }}`
+        : `{{ ${name} }}`,
+    openIf: ({ variable, operator, value }) => {
+      if (operator === "is-set") return `{% if ${variable} %}`;
+      if (operator === "is-not-set") return `{% unless ${variable} %}`;
+      if (operator === "contains") {
+        return `{% if ${variable} contains ${liquidLiteral(value ?? "")} %}`;
+      }
+      return `{% if ${variable} ${liquidOperators[operator]} ${comparable(liquidLiteral, value)} %}`;
+    },
+    closeIf: ({ operator }) => (operator === "is-not-set" ? "{% endunless %}" : "{% endif %}"),
+    openFor: ({ alias, source }) => `{% for ${alias} in ${source} %}`,
+    closeFor: () => "{% endfor %}",
+  },
+  jinja: {
+    variable: (name, fallback) =>
+      fallback !== undefined
+        ? `{{ ${jinjaPath(name)} | default(${jinjaLiteral(fallback)}, true) }}`
+        : `{{ ${jinjaPath(name)} }}`,
+    openIf: ({ variable, operator, value }) => {
+      const path = jinjaPath(variable);
+      if (operator === "is-set") return `{% if ${path} %}`;
+      if (operator === "is-not-set") return `{% if not ${path} %}`;
+      if (operator === "contains") return `{% if ${jinjaLiteral(value ?? "")} in ${path} %}`;
+      return `{% if ${path} ${liquidOperators[operator]} ${comparable(jinjaLiteral, value)} %}`;
+    },
+    closeIf: () => "{% endif %}",
+    openFor: ({ alias, source }) => `{% for ${jinjaPath(alias)} in ${jinjaPath(source)} %}`,
+    closeFor: () => "{% endfor %}",
+  },
+};
+
+// ============ Conversion ============
+
+const BLOCK_MARKER_PATTERN = /%%MS_BLOCK_(\d+)%%/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Replace dynamic nodes with marker mj-raw siblings around them
+function wrapDynamicNodes(node: EditorNode, blocks: string[], syntax: TemplateSyntax): EditorNode {
+  const marker = (block: string): EditorNode => {
+    blocks.push(block);
+    return {
+      id: generateId(),
+      type: "mj-raw",
+      props: {},
+      content: `%%MS_BLOCK_${blocks.length - 1}%%`,
+    };
+  };
+
+  const children = node.children?.flatMap((child) => {
+    const { condition, repeat } = child;
+    const hasCondition = !!condition?.variable;
+    const hasRepeat = !!(repeat?.alias && repeat.source);
+
+    const inner = wrapDynamicNodes(
+      { ...child, condition: undefined, repeat: undefined },
+      blocks,
+      syntax
+    );
+    if (!hasCondition && !hasRepeat) return [inner];
+
+    // Repeat is the outer block so conditions can refer to the current item
+    const before: EditorNode[] = [];
+    const after: EditorNode[] = [];
+    if (repeat && hasRepeat) {
+      before.push(marker(syntax.openFor(repeat)));
+    }
+    if (condition && hasCondition) {
+      before.push(marker(syntax.openIf(condition)));
+      after.push(marker(syntax.closeIf(condition)));
+    }
+    if (hasRepeat) {
+      after.push(marker(syntax.closeFor()));
+    }
+    return [...before, inner, ...after];
+  });
+
+  return { ...node, children };
+}
+
+export function exportTemplate(
+  document: EditorNode,
+  headSettings: HeadSettings,
+  language: TemplateLanguage,
+  brandKit?: BrandKit
+): { html: string; errors: string[] } {
+  const syntax = syntaxes[language];
+  const blocks: string[] = [];
+
+  const { html, errors } = compileDocument(
+    wrapDynamicNodes(document, blocks, syntax),
+    headSettings,
+    brandKit
+  );
+
+  const output = html
+    .replace(MERGE_TAG_PATTERN, (_, name: string, fallback?: string) =>
+      syntax.variable(name, fallback !== undefined ? decodeEntities(fallback) : undefined)
+    )
+    .replace(BLOCK_MARKER_PATTERN, (_, index: string) => blocks[Number(index)] ?? "");
+
+  return { html: output, errors };
+}
@@ -0,0 +1,13 @@
+/**
+ * Document links and UTM tagging
+ */
+
+export {
+  collectLinks,
+  getLinkStatus,
+  updateLinkHrefs,
+  hasUtmParameters,
+  addUtmParameters,
+  applyUtmParameters,
+} from "./links";
+export type { LinkStatus, DocumentLink } from "./links";
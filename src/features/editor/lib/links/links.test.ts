@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { EditorNode, UtmSettings } from "@/features/editor/types";
+import {
+  addUtmParameters,
+  applyUtmParameters,
+  collectLinks,
+  getLinkStatus,
+  updateLinkHrefs,
+} from "./links";
+
+const utm: UtmSettings = { enabled: true, source: "newsletter", medium: "email", campaign: "" };
+
+const document: EditorNode = {
+  id: "root",
+  type: "mj-body",
+  props: {},
+  children: [
+    { id: "button", type: "mj-button", props: { href: "https://x.test/a" }, content: "Buy" },
+    {
+      id: "text",
+      type: "mj-text",
+      props: {},
+      content:
+        'See <a href="https://x.test/?a=1&amp;b=2">this</a> or <a href="mailto:a@x.test">mail</a>',
+    },
+    { id: "image", type: "mj-image", props: { src: "https://x.test/i.png", href: "" } },
+  ],
+};
+
+describe("getLinkStatus", () => {
+  it("classifies links", () => {
+    expect(getLinkStatus("")).toBe("empty");
+    expect(getLinkStatus("#")).toBe("placeholder");
+    expect(getLinkStatus("https://x.test/{{path}}")).toBe("ok");
+    expect(getLinkStatus("{{unsubscribe_url}}")).toBe("ok");
+    expect(getLinkStatus("mailto:a@x.test")).toBe("ok");
+    expect(getLinkStatus("x.test/page")).toBe("malformed");
+    expect(getLinkStatus("https://intranet")).toBe("malformed");
+    expect(getLinkStatus("/about", "https://x.test")).toBe("ok");
+  });
+});
+
+describe("collectLinks", () => {
+  it("collects component hrefs and anchors in rich text, skipping images without a link", () => {
+    expect(collectLinks(document).map((link) => [link.id, link.href, link.label])).toEqual([
+      ["button", "https://x.test/a", "Buy"],
+      ["text:0", "https://x.test/?a=1&b=2", "this"],
+      ["text:1", "mailto:a@x.test", "mail"],
+    ]);
+  });
+});
+
+describe("updateLinkHrefs", () => {
+  it("writes new hrefs back, encoding anchor attributes", () => {
+    const updated = updateLinkHrefs(document, {
+      button: "https://x.test/b",
+      "text:0": 'https://x.test/?q="x"&y',
+    });
+    expect(updated.children?.[0].props.href).toBe("https://x.test/b");
+    expect(updated.children?.[1].content).toContain(
+      '<a href="https://x.test/?q=&quot;x&quot;&amp;y">this</a>'
+    );
+    expect(updated.children?.[2]).toBe(document.children?.[2]);
+  });
+});
+
+describe("addUtmParameters", () => {
+  it("appends parameters before the hash and keeps existing ones", () => {
+    expect(addUtmParameters("https://x.test/a#top", utm)).toBe(
+      "https://x.test/a?utm_source=newsletter&utm_medium=email#top"
+    );
+    expect(addUtmParameters("https://x.test/a?utm_source=ads", utm)).toBe(
+      "https://x.test/a?utm_source=ads&utm_medium=email"
+    );
+  });
+
+  it("encodes values but keeps merge tags", () => {
+    expect(
+      addUtmParameters("https://x.test/", { ...utm, source: "", campaign: "spring sale {{id}}" })
+    ).toBe("https://x.test/?utm_medium=email&utm_campaign=spring%20sale%20{{id}}");
+  });
+});
+
+describe("applyUtmParameters", () => {
+  it("tags web links only and leaves the document alone when disabled", () => {
+    const tagged = collectLinks(applyUtmParameters(document, utm)).map((link) => link.href);
+    expect(tagged).toEqual([
+      "https://x.test/a?utm_source=newsletter&utm_medium=email",
+      "https://x.test/?a=1&b=2&utm_source=newsletter&utm_medium=email",
+      "mailto:a@x.test",
+    ]);
+    expect(applyUtmParameters(document, { ...utm, enabled: false })).toBe(document);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Links - every URL in a document, with a status, bulk updates and UTM tagging
+ *
+ * Links come from the href of link components and from <a> tags inside rich
+ * text. Each one has an id (the node id, plus the anchor index for rich text) so
+ * it can be written back with updateLinkHrefs().
+ */
+
+import type { EditorNode, MJMLComponentType, UtmSettings } from "@/features/editor/types";
+import { stripTags } from "@/features/editor/lib/tree";
+
+export type LinkStatus = "ok" | "empty" | "placeholder" | "malformed";
+
+export interface DocumentLink {
+  // "<nodeId>" for a component href, "<nodeId>:<index>" for an <a> in its content
+  id: string;
+  nodeId: string;
+  nodeType: MJMLComponentType;
+  // Link text, alt text or network name
+  label: string;
+  href: string;
+  status: LinkStatus;
+  // Inside a locked block, so it can't be edited
+  locked: boolean;
+}
+
+// Components whose href is the link itself
+const LINK_TYPES: MJMLComponentType[] = ["mj-button", "mj-navbar-link", "mj-social-element"];
+// Images are only links when an href is set
+const IMAGE_TYPES: MJMLComponentType[] = ["mj-image", "mj-carousel-image"];
+
+const ANCHOR_PATTERN = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+const HREF_ATTRIBUTE = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const MERGE_TAG = /\{\{[\s\S]*?\}\}/g;
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+function isWebUrl(value: string): boolean {
+  if (/\s/.test(value) || !/^https?:\/\//i.test(value)) return false;
+  try {
+    const { hostname } = new URL(value);
+    return hostname === "localhost" || hostname.includes(".");
+  } catch {
+    return false;
+  }
+}
+
+// Navbar links are relative to the navbar's base URL when it has one
+export function getLinkStatus(href: string, baseUrl?: string): LinkStatus {
+  const value = href.trim();
+  if (!value) return "empty";
+  if (value === "#") return "placeholder";
+
+  // A URL that is entirely a merge tag is filled in at send time
+  if (/^\{\{[^{}]*\}\}$/.test(value)) return "ok";
+
+  // Check the URL around merge tags
+  const url = value.replace(MERGE_TAG, "x");
+  if (/^(mailto|tel|sms):\S+$/i.test(url)) return "ok";
+  if (baseUrl && !/^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return isWebUrl(baseUrl.replace(MERGE_TAG, "x") + url) ? "ok" : "malformed";
+  }
+  return isWebUrl(url) ? "ok" : "malformed";
+}
+
+export function collectLinks(document: EditorNode): DocumentLink[] {
+  const links: DocumentLink[] = [];
+
+  const visit = (node: EditorNode, locked: boolean, baseUrl?: string) => {
+    const isLocked = locked || Boolean(node.locked);
+    const href = node.props.href === undefined ? undefined : String(node.props.href);
+
+    if (
+      LINK_TYPES.includes(node.type) ||
+      (IMAGE_TYPES.includes(node.type) && href !== undefined && href !== "")
+    ) {
+      const label =
+        stripTags(node.content ?? "") || String(node.props.alt ?? node.props.name ?? "");
+      links.push({
+        id: node.id,
+        nodeId: node.id,
+        nodeType: node.type,
+        label,
+        href: href ?? "",
+        status: getLinkStatus(href ?? "", node.type === "mj-navbar-link" ? baseUrl : undefined),
+        locked: isLocked,
+      });
+    }
+
+    // Links inside rich text
+    if (!LINK_TYPES.includes(node.type)) {
+      let index = 0;
+      for (const match of (node.content ?? "").matchAll(ANCHOR_PATTERN)) {
+        const attribute = match[1].match(HREF_ATTRIBUTE);
+        const anchorHref = decodeAttribute(attribute?.[1] ?? attribute?.[2] ?? "");
+        links.push({
+          id: `${node.id}:${index}`,
+          nodeId: node.id,
+          nodeType: node.type,
+          label: stripTags(match[2]),
+          href: anchorHref,
+          status: getLinkStatus(anchorHref),
+          locked: isLocked,
+        });
+        index++;
+      }
+    }
+
+    const childBaseUrl =
+      node.type === "mj-navbar" && node.props["base-url"]
+        ? String(node.props["base-url"])
+        : baseUrl;
+    node.children?.forEach((child) => visit(child, isLocked, childBaseUrl));
+  };
+
+  visit(document, false);
+  return links;
+}
+
+// Replace the href of each <a> whose index has a new value
+function replaceAnchorHrefs(content: string, nodeId: string, hrefs: Record<string, string>) {
+  let index = 0;
+  return content.replace(ANCHOR_PATTERN, (anchor, attributes: string, inner: string) => {
+    const href = hrefs[`${nodeId}:${index++}`];
+    if (href === undefined) return anchor;
+
+    const attribute = `href="${encodeAttribute(href)}"`;
+    const updated = HREF_ATTRIBUTE.test(attributes)
+      ? attributes.replace(HREF_ATTRIBUTE, attribute)
+      : ` ${attribute}${attributes}`;
+    return `<a${updated}>${inner}</a>`;
+  });
+}
+
+// New document with the given links (by DocumentLink id) pointing to new URLs.
+// Nodes without changes are kept as they are.
+export function updateLinkHrefs(document: EditorNode, hrefs: Record<string, string>): EditorNode {
+  const update = (node: EditorNode): EditorNode => {
+    let updated = node;
+
+    const children = node.children?.map(update);
+    if (children && children.some((child, index) => child !== node.children?.[index])) {
+      updated = { ...updated, children };
+    }
+
+    if (hrefs[node.id] !== undefined) {
+      updated = { ...updated, props: { ...node.props, href: hrefs[node.id] } };
+    }
+
+    if (node.content && Object.keys(hrefs).some((id) => id.startsWith(`${node.id}:`))) {
+      const content = replaceAnchorHrefs(node.content, node.id, hrefs);
+      if (content !== node.content) updated = { ...updated, content };
+    }
+
+    return updated;
+  };
+
+  return update(document);
+}
+
+export function hasUtmParameters(utm: UtmSettings | undefined): utm is UtmSettings {
+  return Boolean(
+    utm?.enabled && [utm.source, utm.medium, utm.campaign].some((value) => value.trim())
+  );
+}
+
+// Encode a query value, keeping merge tags intact for the send-time render
+function encodeQueryValue(value: string): string {
+  return value
+    .split(/(\{\{[\s\S]*?\}\})/)
+    .map((part, index) => (index % 2 === 1 ? part : encodeURIComponent(part)))
+    .join("");
+}
+
+// Append utm_* parameters to a URL, leaving any the URL already sets
+export function addUtmParameters(href: string, utm: UtmSettings): string {
+  const hashIndex = href.indexOf("#");
+  const url = hashIndex === -1 ? href : href.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? "" : href.slice(hashIndex);
+
+  const params = (
+    [
+      ["utm_source", utm.source],
+      ["utm_medium", utm.medium],
+      ["utm_campaign", utm.campaign],
+    ] as const
+  )
+    .filter(([key, value]) => value.trim() && !new RegExp(`[?&]${key}=`).test(url))
+    .map(([key, value]) => `${key}=${encodeQueryValue(value.trim())}`);
+  if (params.length === 0) return href;
+
+  const separator = !url.includes("?") ? "?" : /[?&]$/.test(url) ? "" : "&";
+  return `${url}${separator}${params.join("&")}${hash}`;
+}
+
+// Web links only: not mailto/tel, and not URLs that are entirely a merge tag
+function isTrackable(link: DocumentLink): boolean {
+  const href = link.href.trim();
+  return (
+    link.status === "ok" && !/^(mailto|tel|sms):/i.test(href) && !/^\{\{[^{}]*\}\}$/.test(href)
+  );
+}
+
+// Document as exported or sent: web links carry the UTM parameters. The stored
+// document is never rewritten.
+export function applyUtmParameters(document: EditorNode, utm: UtmSettings | undefined): EditorNode {
+  if (!hasUtmParameters(utm)) return document;
+
+  const hrefs: Record<string, string> = {};
+  for (const link of collectLinks(document)) {
+    if (isTrackable(link)) {
+      hrefs[link.id] = addUtmParameters(link.href.trim(), utm);
+    }
+  }
+  return updateLinkHrefs(document, hrefs);
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { EditorNode, NodeCondition } from "@/features/editor/types";
+import {
+  evaluateCondition,
+  formatCondition,
+  formatRepeat,
+  parseCondition,
+  parseRepeat,
+  resolveDynamicNodes,
+} from "./dynamic";
+
+describe("parseCondition", () => {
+  it("parses presence checks and comparisons", () => {
+    expect(parseCondition("plan")).toEqual({ variable: "plan", operator: "is-set" });
+    expect(parseCondition("!plan")).toEqual({ variable: "plan", operator: "is-not-set" });
+    expect(parseCondition('plan == "vip"')).toEqual({
+      variable: "plan",
+      operator: "equals",
+      value: "vip",
+    });
+    expect(parseCondition("orders > 3")).toEqual({
+      variable: "orders",
+      operator: "greater-than",
+      value: "3",
+    });
+  });
+
+  it("rejects negated comparisons and malformed strings", () => {
+    expect(parseCondition('!plan == "vip"')).toBeNull();
+    expect(parseCondition('plan == "vip')).toBeNull();
+    expect(parseCondition("plan ~ 1")).toBeNull();
+  });
+
+  it("round-trips through formatCondition, including quotes", () => {
+    const condition: NodeCondition = {
+      variable: "user.name",
+      operator: "contains",
+      value: 'say "hi"',
+    };
+    expect(parseCondition(formatCondition(condition))).toEqual(condition);
+  });
+});
+
+describe("parseRepeat", () => {
+  it("parses `alias in source` and round-trips", () => {
+    const repeat = parseRepeat(" item in order.items ");
+    expect(repeat).toEqual({ alias: "item", source: "order.items" });
+    expect(formatRepeat(repeat!)).toBe("item in order.items");
+    expect(parseRepeat("item of items")).toBeNull();
+  });
+});
+
+describe("evaluateCondition", () => {
+  const data = { plan: "vip", orders: 5, tags: ["new"], empty: "" };
+
+  it("evaluates each operator", () => {
+    expect(evaluateCondition({ variable: "plan", operator: "is-set" }, data)).toBe(true);
+    expect(evaluateCondition({ variable: "empty", operator: "is-not-set" }, data)).toBe(true);
+    expect(evaluateCondition({ variable: "plan", operator: "equals", value: "vip" }, data)).toBe(
+      true
+    );
+    expect(
+      evaluateCondition({ variable: "missing", operator: "not-equals", value: "vip" }, data)
+    ).toBe(true);
+    expect(evaluateCondition({ variable: "tags", operator: "contains", value: "new" }, data)).toBe(
+      true
+    );
+    expect(
+      evaluateCondition({ variable: "orders", operator: "greater-than", value: "3" }, data)
+    ).toBe(true);
+    expect(evaluateCondition({ variable: "orders", operator: "less-than", value: "3" }, data)).toBe(
+      false
+    );
+  });
+
+  it("does not hide anything for an incomplete condition", () => {
+    expect(evaluateCondition({ variable: "", operator: "equals", value: "x" }, data)).toBe(true);
+  });
+});
+
+describe("resolveDynamicNodes", () => {
+  it("drops hidden nodes and repeats nodes per item with escaped content", () => {
+    const document: EditorNode = {
+      id: "root",
+      type: "mj-body",
+      props: {},
+      children: [
+        {
+          id: "vip",
+          type: "mj-text",
+          props: {},
+          content: "VIP",
+          condition: { variable: "plan", operator: "equals", value: "vip" },
+        },
+        {
+          id: "row",
+          type: "mj-text",
+          props: { href: "{{item.url}}" },
+          content: "{{item.name}}",
+          repeat: { alias: "item", source: "items" },
+        },
+      ],
+    };
+    const resolved = resolveDynamicNodes(document, {
+      plan: "basic",
+      items: [
+        { name: "A & B", url: "/a?x=1&y=2" },
+        { name: "C", url: "/c" },
+      ],
+    });
+
+    expect(resolved.children?.map((child) => [child.content, child.props.href])).toEqual([
+      ["A &amp; B", "/a?x=1&y=2"],
+      ["C", "/c"],
+    ]);
+    expect(resolved.children?.every((child) => !child.repeat && !child.condition)).toBe(true);
+  });
+
+  it("returns the same document when nothing is dynamic", () => {
+    const document: EditorNode = { id: "root", type: "mj-body", props: {}, children: [] };
+    expect(resolveDynamicNodes(document, {})).toBe(document);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Dynamic content - display conditions (show-if) and repeat bindings (for-each) on nodes
+ *
+ * Conditions and repeats are stored on EditorNode and serialized to MJML as
+ * `data-show-if` / `data-repeat` attributes, e.g.
+ *   data-show-if='plan == "vip"'
+ *   data-repeat="item in order.items"
+ */
+
+import type {
+  ConditionOperator,
+  EditorNode,
+  NodeCondition,
+  NodeRepeat,
+  SampleData,
+} from "@/features/editor/types";
+import { MERGE_TAG_PATTERN } from "./mergeTags";
+import { escapeHtml, lookupValue, resolveVariable } from "./render";
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: "is-set", label: "has a value" },
+  { value: "is-not-set", label: "is empty" },
+  { value: "equals", label: "equals" },
+  { value: "not-equals", label: "does not equal" },
+  { value: "contains", label: "contains" },
+  { value: "greater-than", label: "is greater than" },
+  { value: "less-than", label: "is less than" },
+];
+
+// Operators that compare against a value
+export function operatorNeedsValue(operator: ConditionOperator): boolean {
+  return operator !== "is-set" && operator !== "is-not-set";
+}
+
+// ============ Serialization ============
+
+const OPERATOR_SYMBOLS: Partial<Record<ConditionOperator, string>> = {
+  equals: "==",
+  "not-equals": "!=",
+  contains: "contains",
+  "greater-than": ">",
+  "less-than": "<",
+};
+
+const CONDITION_EXPRESSION =
+  /^\s*(!)?\s*([A-Za-z_][\w.-]*)\s*(?:(==|!=|>|<|contains)\s*(.+?))?\s*$/;
+const REPEAT_EXPRESSION = /^\s*([A-Za-z_]\w*)\s+in\s+([A-Za-z_][\w.-]*)\s*$/;
+
+export function formatCondition(condition: NodeCondition): string {
+  if (condition.operator === "is-set") return condition.variable;
+  if (condition.operator === "is-not-set") return `!${condition.variable}`;
+  const symbol = OPERATOR_SYMBOLS[condition.operator];
+  return `${condition.variable} ${symbol} ${JSON.stringify(condition.value ?? "")}`;
+}
+
+export function parseCondition(expression: string): NodeCondition | null {
+  const match = expression.match(CONDITION_EXPRESSION);
+  if (!match) return null;
+
+  const [, negate, variable, symbol, rawValue] = match;
+  if (!symbol) {
+    return { variable, operator: negate ? "is-not-set" : "is-set" };
+  }
+  if (negate) return null;
+
+  const operator = (Object.keys(OPERATOR_SYMBOLS) as ConditionOperator[]).find(
+    (key) => OPERATOR_SYMBOLS[key] === symbol
+  );
+  if (!operator) return null;
+
+  let value = rawValue;
+  if (rawValue.startsWith('"')) {
+    try {
+      value = String(JSON.parse(rawValue));
+    } catch {
+      return null;
+    }
+  }
+  return { variable, operator, value };
+}
+
+export function formatRepeat(repeat: NodeRepeat): string {
+  return `${repeat.alias} in ${repeat.source}`;
+}
+
+export function parseRepeat(expression: string): NodeRepeat | null {
+  const match = expression.match(REPEAT_EXPRESSION);
+  return match ? { alias: match[1], source: match[2] } : null;
+}
+
+// ============ Evaluation ============
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function evaluateCondition(condition: NodeCondition, data: SampleData): boolean {
+  // Incomplete conditions don't hide anything
+  if (!condition.variable) return true;
+
+  const actual = lookupValue(data, condition.variable);
+  const expected = condition.value ?? "";
+
+  switch (condition.operator) {
+    case "is-set":
+      return !isEmptyValue(actual);
+    case "is-not-set":
+      return isEmptyValue(actual);
+    case "equals":
+      return !isEmptyValue(actual) && String(actual) === expected;
+    case "not-equals":
+      return isEmptyValue(actual) || String(actual) !== expected;
+    case "contains":
+      if (Array.isArray(actual)) return actual.some((item) => String(item) === expected);
+      return typeof actual === "string" && actual.includes(expected);
+    case "greater-than":
+      return Number(actual) > Number(expected);
+    case "less-than":
+      return Number(actual) < Number(expected);
+    default:
+      return true;
+  }
+}
+
+export function hasDynamicNodes(node: EditorNode): boolean {
+  return !!node.condition || !!node.repeat || !!node.children?.some(hasDynamicNodes);
+}
+
+// Fill merge tags that refer to the repeat alias ({{item}}, {{item.name}}) in a subtree
+function bindRepeatItem(node: EditorNode, scope: SampleData, alias: string): EditorNode {
+  const bind = (text: string, escape: boolean) =>
+    text.replace(MERGE_TAG_PATTERN, (raw, name: string, fallback?: string) => {
+      if (name !== alias && !name.startsWith(`${alias}.`)) return raw;
+      const value = resolveVariable(scope, name) ?? fallback ?? "";
+      return escape ? escapeHtml(value) : value;
+    });
+
+  return {
+    ...node,
+    props: Object.fromEntries(
+      Object.entries(node.props).map(([key, value]) => [
+        key,
+        typeof value === "string" ? bind(value, false) : value,
+      ])
+    ),
+    content: node.content !== undefined ? bind(node.content, true) : undefined,
+    children: node.children?.map((child) => bindRepeatItem(child, scope, alias)),
+  };
+}
+
+function expandNode(node: EditorNode, scope: SampleData): EditorNode[] {
+  if (node.repeat?.alias && node.repeat.source) {
+    const { alias, source } = node.repeat;
+    const list = lookupValue(scope, source);
+    const items = Array.isArray(list) ? list : [];
+
+    return items.flatMap((item) => {
+      const itemScope = { ...scope, [alias]: item };
+      const single = bindRepeatItem({ ...node, repeat: undefined }, itemScope, alias);
+      return expandNode(single, itemScope);
+    });
+  }
+
+  if (node.condition && !evaluateCondition(node.condition, scope)) return [];
+
+  const resolved: EditorNode = {
+    ...node,
+    children: node.children?.flatMap((child) => expandNode(child, scope)),
+  };
+  delete resolved.condition;
+  delete resolved.repeat;
+  return [resolved];
+}
+
+// Evaluate conditions and expand repeats against a recipient's data.
+// Returns the same document when it has no dynamic nodes.
+export function resolveDynamicNodes(document: EditorNode, data: SampleData): EditorNode {
+  if (!hasDynamicNodes(document)) return document;
+  return expandNode(document, data)[0] ?? { ...document, children: [] };
+}
@@ -0,0 +1,37 @@
+/**
+ * Merge tag exports
+ */
+
+export {
+  SUGGESTED_VARIABLES,
+  isValidVariableName,
+  parseMergeTags,
+  formatMergeTag,
+  collectVariableNames,
+  mergeTagChipHtml,
+  decorateMergeTags,
+  stripMergeTagChips,
+} from "./mergeTags";
+export type { MergeTag } from "./mergeTags";
+export { lookupValue, resolveVariable, renderMergeTags, renderMergeTagsInHtml } from "./render";
+export type { RenderResult } from "./render";
+export {
+  CONDITION_OPERATORS,
+  operatorNeedsValue,
+  formatCondition,
+  parseCondition,
+  formatRepeat,
+  parseRepeat,
+  evaluateCondition,
+  hasDynamicNodes,
+  resolveDynamicNodes,
+} from "./dynamic";
+export {
+  blockComment,
+  markDynamicBlocks,
+  tokenizeTemplate,
+  collectTemplateVariables,
+  renderTemplate,
+} from "./template";
+export type { TemplateBlock } from "./template";
+export { compilePersonalized, compileTemplate } from "./personalize";
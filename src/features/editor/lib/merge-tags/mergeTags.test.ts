@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { EditorNode } from "@/features/editor/types";
+import {
+  collectVariableNames,
+  decorateMergeTags,
+  formatMergeTag,
+  isValidVariableName,
+  parseMergeTags,
+  stripMergeTagChips,
+} from "./mergeTags";
+
+describe("parseMergeTags", () => {
+  it("finds tags with names, fallbacks and positions", () => {
+    expect(parseMergeTags("Hi {{first_name|there}}, see {{ user.plan }}")).toEqual([
+      { raw: "{{first_name|there}}", name: "first_name", fallback: "there", index: 3 },
+      { raw: "{{ user.plan }}", name: "user.plan", fallback: undefined, index: 29 },
+    ]);
+  });
+
+  it("keeps an empty fallback apart from a missing one", () => {
+    expect(parseMergeTags("{{name|}}")[0].fallback).toBe("");
+    expect(parseMergeTags("{{name}}")[0].fallback).toBeUndefined();
+  });
+
+  it("ignores text that is not a valid tag", () => {
+    expect(parseMergeTags("{{1st}} {{}} {{ a b }} {name}")).toEqual([]);
+  });
+
+  it("accepts hyphens and dots in names", () => {
+    expect(parseMergeTags("{{first-name}}")[0].name).toBe("first-name");
+    expect(isValidVariableName("order.items")).toBe(true);
+    expect(isValidVariableName("first name")).toBe(false);
+  });
+});
+
+describe("formatMergeTag", () => {
+  it("round-trips through parseMergeTags", () => {
+    const tag = formatMergeTag("first_name", "friend");
+    expect(tag).toBe("{{first_name|friend}}");
+    expect(parseMergeTags(tag)[0]).toMatchObject({ name: "first_name", fallback: "friend" });
+  });
+});
+
+describe("collectVariableNames", () => {
+  it("collects names from content, props and head settings, sorted", () => {
+    const document: EditorNode = {
+      id: "root",
+      type: "mj-body",
+      props: {},
+      children: [
+        { id: "a", type: "mj-text", props: {}, content: "Hi {{last_name}} {{first_name}}" },
+        { id: "b", type: "mj-button", props: { href: "https://x.test/?u={{email}}" } },
+      ],
+    };
+    expect(collectVariableNames(document, { title: "{{company}}", preview: "" })).toEqual([
+      "company",
+      "email",
+      "first_name",
+      "last_name",
+    ]);
+  });
+});
+
+describe("canvas chips", () => {
+  it("decorates tags in text only and strips chips back to tags", () => {
+    const html = '<a href="{{url}}">Hi {{first_name|"friend"}}</a>';
+    const decorated = decorateMergeTags(html);
+
+    expect(decorated).toContain('href="{{url}}"');
+    expect(decorated).toContain('data-merge-tag="first_name|&quot;friend&quot;"');
+    expect(stripMergeTagChips(decorated)).toBe(html);
+  });
+});
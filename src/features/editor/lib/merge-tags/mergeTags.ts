@@ -0,0 +1,122 @@
+/**
+ * Merge tags - personalization variables such as {{first_name}} or {{first_name|there}}
+ *
+ * Tags are stored as plain text in node content, props and head settings. On the
+ * canvas they are shown as non-editable chips, which are converted back to plain
+ * tags whenever content is read from the DOM.
+ */
+
+import type { EditorNode, HeadSettings } from "@/features/editor/types";
+
+export interface MergeTag {
+  // Full tag as written, e.g. "{{first_name|there}}"
+  raw: string;
+  // Variable name, e.g. "first_name" or "user.first_name"
+  name: string;
+  // Value used when the variable is missing
+  fallback?: string;
+  index: number;
+}
+
+// Variables offered in the "Insert variable" menu before the document uses any
+export const SUGGESTED_VARIABLES = [
+  "first_name",
+  "last_name",
+  "email",
+  "company",
+  "unsubscribe_url",
+];
+
+export const MERGE_TAG_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*(?:\|([^{}]*))?\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+const CHIP_PATTERN = /<span\b[^>]*\bdata-merge-tag="([^"]*)"[^>]*>[\s\S]*?<\/span>/g;
+
+const CHIP_CLASS_NAME =
+  "inline-flex items-center px-1.5 mx-0.5 rounded-full bg-violet-100 text-violet-700 text-[0.85em] font-medium leading-normal align-baseline whitespace-nowrap select-none";
+
+// ============ Parsing ============
+
+export function isValidVariableName(name: string): boolean {
+  return VARIABLE_NAME_PATTERN.test(name);
+}
+
+export function parseMergeTags(text: string): MergeTag[] {
+  return Array.from(text.matchAll(MERGE_TAG_PATTERN), (match) => ({
+    raw: match[0],
+    name: match[1],
+    fallback: match[2],
+    index: match.index ?? 0,
+  }));
+}
+
+export function formatMergeTag(name: string, fallback?: string): string {
+  return fallback !== undefined ? `{{${name}|${fallback}}}` : `{{${name}}}`;
+}
+
+// Collect the names of all variables used in a document, sorted alphabetically
+export function collectVariableNames(
+  document: EditorNode,
+  headSettings?: Pick<HeadSettings, "title" | "preview">
+): string[] {
+  const names = new Set<string>();
+  const addFrom = (text: unknown) => {
+    if (typeof text !== "string") return;
+    parseMergeTags(text).forEach((tag) => names.add(tag.name));
+  };
+
+  const visit = (node: EditorNode) => {
+    addFrom(node.content);
+    Object.values(node.props).forEach(addFrom);
+    node.children?.forEach(visit);
+  };
+
+  visit(document);
+  addFrom(headSettings?.title);
+  addFrom(headSettings?.preview);
+
+  return Array.from(names).sort();
+}
+
+// ============ Canvas Chips ============
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// HTML for a single non-editable chip representing a merge tag
+export function mergeTagChipHtml(name: string, fallback?: string): string {
+  const tag = fallback !== undefined ? `${name}|${fallback}` : name;
+  const title = fallback ? `${name} (default: ${fallback})` : name;
+  return `<span data-merge-tag="${escapeAttribute(tag)}" contenteditable="false" class="${CHIP_CLASS_NAME}" title="${escapeAttribute(title)}">${escapeAttribute(name)}</span>`;
+}
+
+// Replace merge tags in text (not inside HTML tags or attributes) with chips
+export function decorateMergeTags(html: string): string {
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) =>
+      part.startsWith("<")
+        ? part
+        : part.replace(MERGE_TAG_PATTERN, (_, name: string, fallback?: string) =>
+            mergeTagChipHtml(name, fallback)
+          )
+    )
+    .join("");
+}
+
+// Turn chips back into plain merge tags
+export function stripMergeTagChips(html: string): string {
+  return html.replace(CHIP_PATTERN, (_, tag: string) => `{{${unescapeAttribute(tag)}}}`);
+}
@@ -0,0 +1,41 @@
+/**
+ * Personalized compilation - compile a document for one recipient's data, or as a
+ * template that is rendered per recipient
+ */
+
+import type { BrandKit, EditorNode, HeadSettings, SampleData } from "@/features/editor/types";
+import { compileDocument } from "@/features/editor/lib/mjml/compiler";
+import { resolveDynamicNodes } from "./dynamic";
+import { renderMergeTagsInHtml } from "./render";
+import { markDynamicBlocks } from "./template";
+
+interface PersonalizeOptions {
+  highlightMissing?: boolean;
+  brandKit?: BrandKit;
+}
+
+// Evaluate conditions and repeats, compile, then fill the remaining merge tags
+export function compilePersonalized(
+  document: EditorNode,
+  headSettings: HeadSettings,
+  data: SampleData,
+  options: PersonalizeOptions = {}
+): { html: string; errors: string[]; missing: string[] } {
+  const { html, errors } = compileDocument(
+    resolveDynamicNodes(document, data),
+    headSettings,
+    options.brandKit
+  );
+  const { output, missing } = renderMergeTagsInHtml(html, data, options);
+  return { html: output, errors, missing };
+}
+
+// Compile once for many recipients; render each with renderTemplate()
+export function compileTemplate(
+  document: EditorNode,
+  headSettings: HeadSettings,
+  brandKit?: BrandKit
+): { html: string; errors: string[] } {
+  const { html, errors } = compileDocument(markDynamicBlocks(document), headSettings, brandKit);
+  return { html, errors };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { lookupValue, renderMergeTags, renderMergeTagsInHtml, resolveVariable } from "./render";
+
+describe("lookupValue", () => {
+  it("prefers a flat key over a dotted path", () => {
+    expect(lookupValue({ "user.name": "flat", user: { name: "nested" } }, "user.name")).toBe(
+      "flat"
+    );
+    expect(lookupValue({ user: { name: "nested" } }, "user.name")).toBe("nested");
+    expect(lookupValue({ user: "text" }, "user.name")).toBeUndefined();
+  });
+});
+
+describe("resolveVariable", () => {
+  it("treats empty values as missing and formats other values as text", () => {
+    expect(resolveVariable({ name: "" }, "name")).toBeUndefined();
+    expect(resolveVariable({ name: null }, "name")).toBeUndefined();
+    expect(resolveVariable({ count: 0 }, "count")).toBe("0");
+    expect(resolveVariable({ tags: ["a"] }, "tags")).toBe('["a"]');
+  });
+});
+
+describe("renderMergeTags", () => {
+  it("uses values, then fallbacks, and keeps missing tags", () => {
+    const result = renderMergeTags("{{first_name}} {{city|nowhere}} {{plan}}", {
+      first_name: "Ada",
+    });
+    expect(result.output).toBe("Ada nowhere {{plan}}");
+    expect(result.missing).toEqual(["plan"]);
+  });
+});
+
+describe("renderMergeTagsInHtml", () => {
+  it("escapes values in text and attributes", () => {
+    const { output } = renderMergeTagsInHtml('<a href="{{url}}">{{name}}</a>', {
+      url: 'x" onclick="alert(1)',
+      name: "<b>Ada</b>",
+    });
+    expect(output).toBe('<a href="x&quot; onclick=&quot;alert(1)">&lt;b&gt;Ada&lt;/b&gt;</a>');
+  });
+
+  it("decodes entities in fallbacks before escaping them once", () => {
+    const { output } = renderMergeTagsInHtml("<p>{{name|Tom &amp; Jerry}}</p>", {});
+    expect(output).toBe("<p>Tom &amp; Jerry</p>");
+  });
+
+  it("highlights missing values in text but not in attributes or raw text", () => {
+    const { output, missing } = renderMergeTagsInHtml(
+      '<title>{{name}}</title><a href="{{name}}">{{name}}</a>',
+      {},
+      { highlightMissing: true }
+    );
+    expect(missing).toEqual(["name"]);
+    expect(output.match(/<mark/g)).toHaveLength(1);
+    expect(output).toContain("<title>{{name}}</title>");
+    expect(output).toContain('href="{{name}}"');
+  });
+});
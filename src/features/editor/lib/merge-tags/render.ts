@@ -0,0 +1,113 @@
+/**
+ * Merge tag rendering - substitute variables with values from sample data
+ */
+
+import type { SampleData } from "@/features/editor/types";
+import { MERGE_TAG_PATTERN } from "./mergeTags";
+
+export interface RenderResult {
+  output: string;
+  // Names of variables that had neither a value nor a default
+  missing: string[];
+}
+
+interface RenderHtmlOptions {
+  // Wrap missing variables in a visible marker (preview only)
+  highlightMissing?: boolean;
+}
+
+// Elements whose text is not rendered as markup, so markers must not be inserted
+const RAW_TEXT_TAGS = ["title", "style", "script"];
+
+const MISSING_MARKER_STYLE =
+  "background:#fef08a;color:#854d0e;outline:1px dashed #ca8a04;border-radius:2px;padding:0 2px;";
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Look up a raw value, supporting dotted paths such as "user.first_name"
+export function lookupValue(data: SampleData, name: string): unknown {
+  if (name in data) return data[name];
+  if (!name.includes(".")) return undefined;
+
+  return name.split(".").reduce<unknown>((current, key) => {
+    if (current && typeof current === "object") {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, data);
+}
+
+// Look up a variable as display text; empty values count as missing
+export function resolveVariable(data: SampleData, name: string): string | undefined {
+  const value = lookupValue(data, name);
+  if (value === undefined || value === null || value === "") return undefined;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Substitute variables in plain text (subjects, head settings). Missing tags are kept as-is.
+export function renderMergeTags(text: string, data: SampleData): RenderResult {
+  const missing = new Set<string>();
+
+  const output = text.replace(MERGE_TAG_PATTERN, (raw, name: string, fallback?: string) => {
+    const value = resolveVariable(data, name) ?? fallback;
+    if (value === undefined) {
+      missing.add(name);
+      return raw;
+    }
+    return value;
+  });
+
+  return { output, missing: Array.from(missing) };
+}
+
+// Substitute variables in compiled HTML, escaping values for text and attributes
+export function renderMergeTagsInHtml(
+  html: string,
+  data: SampleData,
+  { highlightMissing = false }: RenderHtmlOptions = {}
+): RenderResult {
+  const missing = new Set<string>();
+  let rawTextTag: string | null = null;
+
+  const output = html
+    .split(/(<[^>]*>)/)
+    .map((part) => {
+      const isTag = part.startsWith("<");
+
+      if (isTag) {
+        const tagName = part.match(/^<\/?([a-zA-Z]+)/)?.[1]?.toLowerCase();
+        if (tagName && RAW_TEXT_TAGS.includes(tagName)) {
+          rawTextTag = part.startsWith("</") ? null : tagName;
+        }
+      }
+
+      return part.replace(MERGE_TAG_PATTERN, (raw, name: string, fallback?: string) => {
+        const value =
+          resolveVariable(data, name) ??
+          (fallback !== undefined ? decodeEntities(fallback) : undefined);
+        if (value !== undefined) return escapeHtml(value);
+
+        missing.add(name);
+        if (!highlightMissing || isTag || rawTextTag) return raw;
+        return `<mark style="${MISSING_MARKER_STYLE}" title="Missing value: ${escapeHtml(name)}">${raw}</mark>`;
+      });
+    })
+    .join("");
+
+  return { output, missing: Array.from(missing) };
+}
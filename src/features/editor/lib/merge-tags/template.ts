@@ -0,0 +1,203 @@
+/**
+ * Compiled templates - HTML that keeps show-if / repeat blocks for per-recipient rendering
+ *
+ * Dynamic nodes are wrapped in mj-raw siblings holding block comments, which MJML
+ * emits exactly around the node's compiled rows:
+ *   <!--ms:for item%20in%20order.items--> ... <!--ms:endfor-->
+ *   <!--ms:if plan%20%3D%3D%20%22vip%22--> ... <!--ms:endif-->
+ * Expressions are URI-encoded so they can never close the comment early.
+ *
+ * Rendering is independent of the MJML compiler, so it also runs on the server.
+ * The same markers are used in generated plain-text versions.
+ */
+
+import type {
+  EditorNode,
+  HeadSettings,
+  NodeCondition,
+  NodeRepeat,
+  SampleData,
+} from "@/features/editor/types";
+import {
+  evaluateCondition,
+  formatCondition,
+  formatRepeat,
+  parseCondition,
+  parseRepeat,
+} from "./dynamic";
+import { collectVariableNames, parseMergeTags } from "./mergeTags";
+import { lookupValue, renderMergeTags, renderMergeTagsInHtml, type RenderResult } from "./render";
+
+const BLOCK_COMMENT_PATTERN = /<!--ms:(if|endif|for|endfor)(?: ([^>]*?))?-->/g;
+
+export type TemplateBlock =
+  | { type: "if"; condition: NodeCondition }
+  | { type: "for"; repeat: NodeRepeat }
+  | { type: "endif" }
+  | { type: "endfor" };
+
+interface RenderTemplateOptions {
+  // Plain-text templates fill merge tags without HTML escaping
+  format?: "html" | "text";
+}
+
+export function blockComment(block: TemplateBlock): string {
+  switch (block.type) {
+    case "if":
+      return `<!--ms:if ${encodeURIComponent(formatCondition(block.condition))}-->`;
+    case "for":
+      return `<!--ms:for ${encodeURIComponent(formatRepeat(block.repeat))}-->`;
+    default:
+      return `<!--ms:${block.type}-->`;
+  }
+}
+
+// ============ Marking ============
+
+// Wrap nodes that have a condition or repeat with block comment markers.
+// The repeat is the outer block so conditions can refer to the current item.
+export function markDynamicBlocks(document: EditorNode): EditorNode {
+  let markerCount = 0;
+  const marker = (block: TemplateBlock): EditorNode => ({
+    id: `ms-block-${markerCount++}`,
+    type: "mj-raw",
+    props: {},
+    content: blockComment(block),
+  });
+
+  const mark = (node: EditorNode): EditorNode => {
+    const children = node.children?.flatMap((child) => {
+      const { condition, repeat, ...rest } = child;
+      const inner = mark(rest);
+      const before: EditorNode[] = [];
+      const after: EditorNode[] = [];
+
+      if (repeat?.alias && repeat.source) {
+        before.push(marker({ type: "for", repeat }));
+        after.unshift(marker({ type: "endfor" }));
+      }
+      if (condition?.variable) {
+        before.push(marker({ type: "if", condition }));
+        after.unshift(marker({ type: "endif" }));
+      }
+      return [...before, inner, ...after];
+    });
+
+    return { ...node, children };
+  };
+
+  return mark(document);
+}
+
+// Split compiled HTML into text segments and parsed block markers
+export function tokenizeTemplate(html: string): (string | TemplateBlock)[] {
+  const tokens: (string | TemplateBlock)[] = [];
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(BLOCK_COMMENT_PATTERN)) {
+    const [raw, type, encoded] = match;
+    const expression = encoded ? decodeURIComponent(encoded) : "";
+    let block: TemplateBlock | null = null;
+
+    if (type === "if") {
+      const condition = parseCondition(expression);
+      block = condition && { type, condition };
+    } else if (type === "for") {
+      const repeat = parseRepeat(expression);
+      block = repeat && { type, repeat };
+    } else {
+      block = { type: type as "endif" | "endfor" };
+    }
+
+    tokens.push(html.slice(lastIndex, match.index));
+    tokens.push(block ?? raw);
+    lastIndex = match.index + raw.length;
+  }
+
+  tokens.push(html.slice(lastIndex));
+  return tokens.filter((token) => token !== "");
+}
+
+// Variables a recipient's data should provide: merge tags (including the subject)
+// and condition / repeat variables, without names bound to a repeat item
+export function collectTemplateVariables(
+  document: EditorNode,
+  headSettings?: Pick<HeadSettings, "title" | "preview">,
+  subject = ""
+): string[] {
+  const names = new Set([
+    ...collectVariableNames(document, headSettings),
+    ...parseMergeTags(subject).map((tag) => tag.name),
+  ]);
+  const aliases = new Set<string>();
+
+  const visit = (node: EditorNode) => {
+    if (node.condition?.variable) names.add(node.condition.variable);
+    if (node.repeat?.alias && node.repeat.source) {
+      names.add(node.repeat.source);
+      aliases.add(node.repeat.alias);
+    }
+    node.children?.forEach(visit);
+  };
+  visit(document);
+
+  return Array.from(names)
+    .filter((name) => !aliases.has(name.split(".")[0]))
+    .sort();
+}
+
+// ============ Rendering ============
+
+// Render a compiled template for one recipient: evaluate blocks, then fill merge tags
+export function renderTemplate(
+  html: string,
+  data: SampleData,
+  options: RenderTemplateOptions = {}
+): RenderResult {
+  const tokens = tokenizeTemplate(html);
+  const renderTags = options.format === "text" ? renderMergeTags : renderMergeTagsInHtml;
+  const missing = new Set<string>();
+  let position = 0;
+
+  // Render tokens until the closing marker of the current block (or the end)
+  const renderUntil = (scope: SampleData, visible: boolean): string => {
+    let output = "";
+
+    while (position < tokens.length) {
+      const token = tokens[position++];
+
+      if (typeof token === "string") {
+        if (!visible) continue;
+        const result = renderTags(token, scope);
+        result.missing.forEach((name) => missing.add(name));
+        output += result.output;
+      } else if (token.type === "endif" || token.type === "endfor") {
+        break;
+      } else if (token.type === "if") {
+        output += renderUntil(scope, visible && evaluateCondition(token.condition, scope));
+      } else {
+        const { alias, source } = token.repeat;
+        const list = visible ? lookupValue(scope, source) : undefined;
+        const items = Array.isArray(list) ? list : [];
+        const start = position;
+
+        if (items.length === 0) {
+          renderUntil(scope, false);
+        }
+        items.forEach((item) => {
+          position = start;
+          output += renderUntil({ ...scope, [alias]: item }, true);
+        });
+      }
+    }
+
+    return output;
+  };
+
+  const output = renderUntil(data, true);
+  return {
+    // Hidden and repeated blocks leave runs of blank lines in plain text
+    output: options.format === "text" ? output.replace(/\n{3,}/g, "\n\n").trim() : output,
+    missing: Array.from(missing),
+  };
+}
@@ -3,8 +3,21 @@
  */
 
 import mjml2html from "mjml-browser";
-import type { EditorNode, HeadSettings } from "@/features/editor/types";
+import type { BrandKit, EditorNode, HeadSettings } from "@/features/editor/types";
 import { componentDefinitions, generateId } from "@/features/editor/lib/mjml/schema";
+import {
+  FALLBACK_FONT,
+  applyBrandKit,
+  usesBrandKit,
+  formatTokenBindings,
+  parseTokenBindings,
+} from "@/features/editor/lib/brand-kit";
+import {
+  formatCondition,
+  formatRepeat,
+  parseCondition,
+  parseRepeat,
+} from "@/features/editor/lib/merge-tags/dynamic";
 
 // Self-closing MJML tags (components that don't have children or text content)
 const SELF_CLOSING_TAGS = ["mj-divider", "mj-spacer", "mj-image", "mj-carousel-image"];
@@ -29,7 +42,7 @@ function escapeHtml(text: string): string {
 // Convert EditorNode tree to MJML string
 export function nodeToMjml(node: EditorNode, indent = 0): string {
   const spaces = "  ".repeat(indent);
-  const { type, props, children, content, locked } = node;
+  const { type, props, children, content, locked, condition, repeat, label, block, tokens } = node;
 
   // Get component definition to check if it can have children
   const componentDef = componentDefinitions[type];
@@ -45,6 +58,29 @@ export function nodeToMjml(node: EditorNode, indent = 0): string {
     attrEntries.push('data-locked="true"');
   }
 
+  // Add dynamic content bindings (evaluated against recipient data, not by MJML)
+  if (condition?.variable) {
+    attrEntries.push(`data-show-if="${escapeAttr(formatCondition(condition))}"`);
+  }
+  if (repeat?.alias && repeat.source) {
+    attrEntries.push(`data-repeat="${escapeAttr(formatRepeat(repeat))}"`);
+  }
+
+  // Layer name (editor only)
+  if (label) {
+    attrEntries.push(`data-label="${escapeAttr(label)}"`);
+  }
+
+  // Saved block link of a synced instance (editor only)
+  if (block) {
+    attrEntries.push(`data-block="${escapeAttr(`${block.blockId}:${block.syncedAt}`)}"`);
+  }
+
+  // Brand kit tokens the props are bound to (editor only)
+  if (tokens && Object.keys(tokens).length > 0) {
+    attrEntries.push(`data-tokens="${escapeAttr(formatTokenBindings(tokens))}"`);
+  }
+
   const attrs = attrEntries.join(" ");
 
   const openTag = attrs ? `<${type} ${attrs}>` : `<${type}>`;
@@ -84,7 +120,7 @@ export function nodeToMjml(node: EditorNode, indent = 0): string {
 }
 
 // Generate head content from HeadSettings
-function generateHeadContent(headSettings?: HeadSettings): string {
+function generateHeadContent(headSettings?: HeadSettings, brandKit?: BrandKit): string {
   const parts: string[] = [];
 
   // mj-title
@@ -111,7 +147,7 @@ function generateHeadContent(headSettings?: HeadSettings): string {
 
   // Default attributes
   parts.push(`    <mj-attributes>
-      <mj-all font-family="Arial, sans-serif" />
+      <mj-all font-family="${escapeAttr(brandKit?.fonts[0]?.value || FALLBACK_FONT)}" />
       <mj-text font-size="16px" line-height="1.5" color="#333333" />
     </mj-attributes>`);
 
@@ -127,12 +163,21 @@ function generateHeadContent(headSettings?: HeadSettings): string {
   return parts.join("\n");
 }
 
-// Generate full MJML document from editor document
-export function generateMjml(document: EditorNode, headSettings?: HeadSettings): string {
-  const bodyContent = nodeToMjml(document, 1);
-  const headContent = generateHeadContent(headSettings);
-
-  return `<mjml>
+// Generate full MJML document from editor document, with the tokens of the brand kit
+// it is bound to resolved
+export function generateMjml(
+  document: EditorNode,
+  headSettings?: HeadSettings,
+  brandKit?: BrandKit
+): string {
+  // Emails bound to another kit (or none) keep their values
+  const kit = brandKit && usesBrandKit(headSettings, brandKit) ? brandKit : undefined;
+  const bodyContent = nodeToMjml(kit ? applyBrandKit(document, kit) : document, 1);
+  const headContent = generateHeadContent(headSettings, kit);
+  const lang = headSettings?.lang ? ` lang="${escapeAttr(headSettings.lang)}"` : "";
+  const dir = headSettings?.dir ? ` dir="${escapeAttr(headSettings.dir)}"` : "";
+
+  return `<mjml${lang}${dir}>
   <mj-head>
 ${headContent}
   </mj-head>
@@ -140,17 +185,20 @@ ${bodyContent}
 </mjml>`;
 }
 
-// Remove data-locked attributes from MJML string before compilation
-function removeLockedAttributes(mjmlString: string): string {
-  // Remove data-locked="true" attribute from MJML tags
-  return mjmlString.replace(/\s+data-locked="true"/g, "");
+// Remove editor-only attributes from MJML string before compilation
+function removeEditorAttributes(mjmlString: string): string {
+  // Remove data-locked="true", dynamic content attributes, layer names, block links and
+  // token bindings from MJML tags
+  return mjmlString
+    .replace(/\s+data-locked="true"/g, "")
+    .replace(/\s+data-(?:show-if|repeat|label|block|tokens)="[^"]*"/g, "");
 }
 
 // Compile MJML to HTML
 export function compileMjml(mjmlString: string): { html: string; errors: string[] } {
   try {
-    // Remove data-locked attributes before compilation to avoid MJML validation errors
-    const cleanMjml = removeLockedAttributes(mjmlString);
+    // Remove editor-only attributes before compilation to avoid MJML validation errors
+    const cleanMjml = removeEditorAttributes(mjmlString);
     const result = mjml2html(cleanMjml, {
       validationLevel: "soft",
       minify: false,
@@ -171,9 +219,10 @@ export function compileMjml(mjmlString: string): { html: string; errors: string[
 // Compile EditorNode document to HTML
 export function compileDocument(
   document: EditorNode,
-  headSettings?: HeadSettings
+  headSettings?: HeadSettings,
+  brandKit?: BrandKit
 ): { html: string; mjml: string; errors: string[] } {
-  const mjml = generateMjml(document, headSettings);
+  const mjml = generateMjml(document, headSettings, brandKit);
   const { html, errors } = compileMjml(mjml);
   return { html, mjml, errors };
 }
@@ -218,6 +267,16 @@ export function parseMjml(mjmlString: string): ParseMjmlResult {
       return { document: null, headSettings, errors };
     }
 
+    // Parse language and direction
+    const lang = mjmlElement.getAttribute("lang");
+    if (lang) {
+      headSettings.lang = lang;
+    }
+    const dir = mjmlElement.getAttribute("dir");
+    if (dir === "ltr" || dir === "rtl" || dir === "auto") {
+      headSettings.dir = dir;
+    }
+
     // Parse head settings
     const headElement = mjmlElement.querySelector("mj-head");
     if (headElement) {
@@ -273,16 +332,37 @@ export function parseMjml(mjmlString: string): ParseMjmlResult {
   }
 }
 
+// Parse a data-block value ("blockId:syncedAt")
+function parseBlockLink(value: string): EditorNode["block"] | null {
+  const match = /^([^:]+):(\d+)$/.exec(value);
+  return match ? { blockId: match[1], syncedAt: Number(match[2]) } : null;
+}
+
 function parseElement(element: Element): EditorNode {
   const type = element.tagName.toLowerCase() as EditorNode["type"];
   const props: Record<string, string> = {};
   let locked = false;
+  let condition: EditorNode["condition"];
+  let repeat: EditorNode["repeat"];
+  let label: string | undefined;
+  let block: EditorNode["block"];
+  let tokens: EditorNode["tokens"];
 
   // Extract attributes
   for (const attr of Array.from(element.attributes)) {
-    // Handle data-locked attribute specially
+    // Handle data-locked and dynamic content attributes specially
     if (attr.name === "data-locked" && attr.value === "true") {
       locked = true;
+    } else if (attr.name === "data-show-if") {
+      condition = parseCondition(attr.value) ?? undefined;
+    } else if (attr.name === "data-repeat") {
+      repeat = parseRepeat(attr.value) ?? undefined;
+    } else if (attr.name === "data-label") {
+      label = attr.value || undefined;
+    } else if (attr.name === "data-block") {
+      block = parseBlockLink(attr.value) ?? undefined;
+    } else if (attr.name === "data-tokens") {
+      tokens = parseTokenBindings(attr.value) ?? undefined;
     } else {
       props[attr.name] = attr.value;
     }
@@ -339,6 +419,11 @@ function parseElement(element: Element): EditorNode {
     content,
     children,
     ...(locked && { locked: true }),
+    ...(condition && { condition }),
+    ...(repeat && { repeat }),
+    ...(label && { label }),
+    ...(block && { block }),
+    ...(tokens && { tokens }),
   };
 }
 
@@ -7,6 +7,9 @@
  * 2. Custom defaults (defined here)
  * 3. MJML defaults (fallback values in components)
  *
+ * Elements added in the editor are then bound to the brand kit's default tokens
+ * (see lib/brand-kit), so these values only show when the kit has no such token.
+ *
  * Example usage:
  * - To make all new buttons have a blue background:
  *   "mj-button": { "background-color": "#2563eb" }
@@ -0,0 +1,5 @@
+/**
+ * Plain-text version exports
+ */
+
+export { generatePlainText, htmlToText } from "./plainText";
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { EditorNode } from "@/features/editor/types";
+import { generatePlainText, htmlToText } from "./plainText";
+
+describe("htmlToText", () => {
+  it("keeps link URLs, underlines headings and numbers list items", () => {
+    expect(
+      htmlToText(
+        '<h1>Welcome</h1><p>Read <a href="https://x.test/?a=1&amp;b=2">the guide</a>.</p>' +
+          "<ol><li>One</li><li>Two</li></ol><ul><li>Dot</li></ul>"
+      )
+    ).toBe(
+      "Welcome\n=======\n\nRead the guide (https://x.test/?a=1&b=2).\n\n1. One\n2. Two\n\n- Dot"
+    );
+  });
+
+  it("drops placeholder links, comments and styles, and decodes entities", () => {
+    expect(
+      htmlToText('<!-- note --><style>p{}</style><p><a href="#">Tom &amp; Jerry</a>&nbsp;&#33;</p>')
+    ).toBe("Tom & Jerry !");
+  });
+});
+
+describe("generatePlainText", () => {
+  const document: EditorNode = {
+    id: "root",
+    type: "mj-body",
+    props: {},
+    children: [
+      { id: "t", type: "mj-text", props: {}, content: "<p>Hello</p>" },
+      {
+        id: "b",
+        type: "mj-button",
+        props: { href: "https://x.test/buy" },
+        content: "Buy now",
+        condition: { variable: "plan", operator: "is-set" },
+      },
+      { id: "i", type: "mj-image", props: { alt: "Logo", href: "https://x.test" } },
+      { id: "d", type: "mj-divider", props: {} },
+      {
+        id: "table",
+        type: "mj-table",
+        props: {},
+        content: "<tr><th>Item</th><th>Qty</th></tr><tr><td>Socks</td><td>2</td></tr>",
+      },
+    ],
+  };
+
+  it("renders blocks separated by blank lines", () => {
+    expect(generatePlainText(document)).toBe(
+      [
+        "Hello",
+        "Buy now: https://x.test/buy",
+        "[Logo]: https://x.test",
+        "-".repeat(40),
+        "Item   Qty\n-----  ---\nSocks  2",
+      ].join("\n\n")
+    );
+  });
+
+  it("keeps show-if blocks as template markers when asked", () => {
+    const text = generatePlainText(document, { markBlocks: true });
+    expect(text).toMatch(/<!--.*if.*-->Buy now: https:\/\/x\.test\/buy/);
+  });
+});
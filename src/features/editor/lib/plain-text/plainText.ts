@@ -0,0 +1,195 @@
+/**
+ * Plain-text version - readable text generated from the document tree
+ *
+ * Used as the text/plain alternative of sent emails. Headings are underlined,
+ * buttons and links show their URL, and tables are laid out in aligned columns.
+ */
+
+import type { EditorNode } from "@/features/editor/types";
+import { blockComment } from "@/features/editor/lib/merge-tags/template";
+
+interface PlainTextOptions {
+  // Keep show-if / repeat blocks as template markers (see renderTemplate)
+  markBlocks?: boolean;
+}
+
+const DIVIDER = "-".repeat(40);
+
+// Nodes whose children are listed one per line instead of as separate blocks
+const LINK_LIST_TYPES = ["mj-navbar", "mj-social", "mj-carousel"];
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+// Trim each line and collapse runs of blank lines
+function tidy(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Link targets worth showing (not placeholders)
+function isUsefulHref(href: string | number | undefined): href is string {
+  return typeof href === "string" && href.trim() !== "" && href.trim() !== "#";
+}
+
+function underline(text: string, char: string): string {
+  return `${text}\n${char.repeat(Math.max(text.length, 3))}`;
+}
+
+// Convert a rich-text HTML fragment to plain text
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    // Whitespace in markup is not meaningful; line breaks come from tags below
+    .replace(/\s+/g, " ");
+
+  text = text.replace(
+    /<a\b[^>]*?href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi,
+    (_, href: string, inner: string) => {
+      const label = stripTags(inner).trim();
+      const url = decodeEntities(href).trim();
+      if (!isUsefulHref(url) || url === label) return inner;
+      return label ? `${inner} (${url})` : url;
+    }
+  );
+
+  text = text.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => {
+    const heading = decodeEntities(stripTags(inner)).trim();
+    return `\n\n${underline(heading, level === "1" ? "=" : "-")}\n\n`;
+  });
+
+  text = text.replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, inner: string) => {
+    let index = 0;
+    return `\n${inner.replace(/<li\b[^>]*>/gi, () => `\n${++index}. `)}\n`;
+  });
+
+  text = text
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|blockquote|ul|ol|table)>/gi, "\n\n")
+    .replace(/<\/(div|tr)>/gi, "\n")
+    .replace(/<(td|th)\b[^>]*>/gi, " ");
+
+  return tidy(decodeEntities(stripTags(text)).replace(/[ \t]+/g, " "));
+}
+
+// Lay out table rows in aligned columns; a header row is underlined
+function tableToText(html: string): string {
+  const rows = Array.from(html.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)).map((row) => ({
+    isHeader: /<th\b/i.test(row[1]),
+    cells: Array.from(row[1].matchAll(/<t([hd])\b[^>]*>([\s\S]*?)<\/t\1>/gi)).map((cell) =>
+      htmlToText(cell[2]).replace(/\s*\n\s*/g, " ")
+    ),
+  }));
+  if (rows.length === 0) return htmlToText(html);
+
+  const columnCount = Math.max(...rows.map((row) => row.cells.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(...rows.map((row) => row.cells[column]?.length ?? 0))
+  );
+  const formatRow = (cells: string[]) =>
+    widths
+      .map((width, column) => (cells[column] ?? "").padEnd(width))
+      .join("  ")
+      .trimEnd();
+
+  return rows
+    .flatMap((row, index) => {
+      const line = formatRow(row.cells);
+      const isLastHeader = row.isHeader && !rows[index + 1]?.isHeader;
+      return isLastHeader ? [line, formatRow(widths.map((width) => "-".repeat(width)))] : [line];
+    })
+    .join("\n");
+}
+
+// "Label: URL" for a linked element, or just the label
+function linkLine(label: string, href: string | number | undefined): string {
+  if (!isUsefulHref(href)) return label;
+  return label ? `${label}: ${href}` : href;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function nodeToText(node: EditorNode): string {
+  const content = node.content ?? "";
+
+  switch (node.type) {
+    case "mj-text":
+    case "mj-raw":
+      return htmlToText(content);
+    case "mj-button":
+      return linkLine(htmlToText(content), node.props.href);
+    case "mj-image":
+    case "mj-carousel-image": {
+      const alt = String(node.props.alt ?? "").trim();
+      if (!alt) return isUsefulHref(node.props.href) ? node.props.href : "";
+      return linkLine(`[${alt}]`, node.props.href);
+    }
+    case "mj-divider":
+      return DIVIDER;
+    case "mj-table":
+      return tableToText(content);
+    case "mj-navbar-link":
+      return linkLine(htmlToText(content), node.props.href);
+    case "mj-social-element": {
+      const label = htmlToText(content) || capitalize(String(node.props.name ?? ""));
+      return linkLine(label, node.props.href);
+    }
+    case "mj-navbar":
+    case "mj-social":
+    case "mj-carousel":
+      // One link per line
+      return (node.children ?? []).map(nodeToText).filter(Boolean).join("\n");
+    case "mj-accordion-title":
+      return underline(htmlToText(content), "-");
+    case "mj-accordion-text":
+      return htmlToText(content);
+    default:
+      return "";
+  }
+}
+
+// Generate the text version of a document. Pass a document resolved for one
+// recipient (resolveDynamicNodes), or set markBlocks to keep dynamic blocks.
+export function generatePlainText(document: EditorNode, options: PlainTextOptions = {}): string {
+  const visit = (node: EditorNode): string => {
+    const text =
+      node.children?.length && !LINK_LIST_TYPES.includes(node.type)
+        ? node.children.map(visit).join("")
+        : nodeToText(node);
+    // Every block ends with a blank line so repeated blocks stay separated
+    let block = text.trim() ? `${text.trim()}\n\n` : "";
+
+    if (!options.markBlocks || !block) return block;
+    if (node.condition?.variable) {
+      block = `${blockComment({ type: "if", condition: node.condition })}${block}${blockComment({ type: "endif" })}`;
+    }
+    if (node.repeat?.alias && node.repeat.source) {
+      block = `${blockComment({ type: "for", repeat: node.repeat })}${block}${blockComment({ type: "endfor" })}`;
+    }
+    return block;
+  };
+
+  // Block markers have no line breaks of their own, so tidying keeps them intact
+  return tidy(visit(document));
+}
@@ -0,0 +1,12 @@
+/**
+ * Pre-send checks
+ */
+
+export { runPreflight, countBlockingIssues, DEFAULT_SUBJECT, GMAIL_CLIP_BYTES } from "./preflight";
+export type {
+  PreflightSeverity,
+  PreflightCheckId,
+  PreflightIssue,
+  PreflightCheck,
+  PreflightInput,
+} from "./preflight";
@@ -0,0 +1,168 @@
+/**
+ * Preflight - checks run before sending to catch broken or risky emails
+ *
+ * Checks with severity "error" block the send until the user overrides them;
+ * warnings are only reported.
+ */
+
+import type { EditorNode, HeadSettings } from "@/features/editor/types";
+import { nodeName, quote, stripTags, walk } from "@/features/editor/lib/tree";
+import { findImagesWithoutAlt } from "@/features/editor/lib/accessibility";
+
+export type PreflightSeverity = "error" | "warning";
+
+export type PreflightCheckId =
+  | "compile"
+  | "subject"
+  | "preview-text"
+  | "links"
+  | "alt-text"
+  | "variables"
+  | "size";
+
+export interface PreflightIssue {
+  message: string;
+  // Node to select to fix the issue
+  nodeId?: string;
+}
+
+// A check passes when it has no issues
+export interface PreflightCheck {
+  id: PreflightCheckId;
+  label: string;
+  severity: PreflightSeverity;
+  issues: PreflightIssue[];
+}
+
+export interface PreflightInput {
+  document: EditorNode;
+  headSettings: HeadSettings;
+  subject: string;
+  // HTML as it will be sent (for bulk sends, as one recipient receives it)
+  html: string;
+  compileErrors: string[];
+  // Variables without a value for at least one recipient
+  missing: string[];
+  // Whether the email reaches real inboxes (not the preview or local inbox)
+  realDelivery: boolean;
+}
+
+// Subject the send dialog starts with
+export const DEFAULT_SUBJECT = "Test Email from Mail Studio";
+
+// Gmail hides everything after the first ~102 KB of HTML behind "View entire message"
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+// Components whose href is their only purpose, so it must be set
+const LINK_TYPES = ["mj-button", "mj-navbar-link", "mj-social-element"];
+const IMAGE_TYPES = ["mj-image", "mj-carousel-image"];
+
+function isPlaceholderHref(href: string | number | undefined): boolean {
+  return href === undefined || String(href).trim() === "" || String(href).trim() === "#";
+}
+
+function findLinkIssues(document: EditorNode): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+
+  walk(document, (node) => {
+    const href = node.props.href;
+    const label = stripTags(node.content ?? "") || String(node.props.name ?? "");
+
+    if (LINK_TYPES.includes(node.type) && isPlaceholderHref(href)) {
+      issues.push({
+        message: `${nodeName(node)}${label ? ` ${quote(label)}` : ""} has no link URL`,
+        nodeId: node.id,
+      });
+    } else if (IMAGE_TYPES.includes(node.type) && href !== undefined && href !== "") {
+      if (isPlaceholderHref(href)) {
+        issues.push({ message: `${nodeName(node)} links to "#"`, nodeId: node.id });
+      }
+    }
+
+    // Links inside rich text
+    for (const match of (node.content ?? "").matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+      const linkHref = match[1].match(/\bhref\s*=\s*["']([^"']*)["']/i)?.[1];
+      if (isPlaceholderHref(linkHref)) {
+        const text = stripTags(match[2]);
+        issues.push({
+          message: `Link${text ? ` ${quote(text)}` : ""} in ${nodeName(node)} has no URL`,
+          nodeId: node.id,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+function formatKilobytes(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function runPreflight(input: PreflightInput): PreflightCheck[] {
+  const { document, headSettings, subject, html, compileErrors, missing, realDelivery } = input;
+  const htmlBytes = new TextEncoder().encode(html).length;
+  const trimmedSubject = subject.trim();
+
+  return [
+    {
+      id: "compile",
+      label: "MJML compiles without errors",
+      severity: "error",
+      issues: compileErrors.map((message) => ({ message })),
+    },
+    {
+      id: "subject",
+      label: "Subject is not the default",
+      // Placeholder subjects only matter when the email reaches real inboxes
+      severity: realDelivery ? "error" : "warning",
+      issues:
+        trimmedSubject === DEFAULT_SUBJECT
+          ? [{ message: `The subject is still the default "${DEFAULT_SUBJECT}"` }]
+          : [],
+    },
+    {
+      id: "preview-text",
+      label: "Preview text is set",
+      severity: "warning",
+      issues: headSettings.preview?.trim()
+        ? []
+        : [{ message: "No preview text; inboxes will show the first text of the email instead" }],
+    },
+    {
+      id: "links",
+      label: "Links and buttons have URLs",
+      severity: "error",
+      issues: findLinkIssues(document),
+    },
+    {
+      id: "alt-text",
+      label: "Images have alt text",
+      severity: "warning",
+      issues: findImagesWithoutAlt(document),
+    },
+    {
+      id: "variables",
+      label: "Every variable has a value",
+      severity: realDelivery ? "error" : "warning",
+      issues: missing.map((name) => ({
+        message: `No value for {{${name}}}; it will be sent as written`,
+      })),
+    },
+    {
+      id: "size",
+      label: `HTML is under ${GMAIL_CLIP_BYTES / 1024} KB`,
+      severity: "warning",
+      issues:
+        htmlBytes > GMAIL_CLIP_BYTES
+          ? [{ message: `The HTML is ${formatKilobytes(htmlBytes)}; Gmail will clip the email` }]
+          : [],
+    },
+  ];
+}
+
+export function countBlockingIssues(checks: PreflightCheck[]): number {
+  return checks
+    .filter((check) => check.severity === "error")
+    .reduce((total, check) => total + check.issues.length, 0);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { AutosaveSnapshot, EditorNode, SavedDocument } from "@/features/editor/types";
+import { hasUnsavedChanges } from "./autosave";
+
+function doc(content: string): EditorNode {
+  return {
+    id: "root",
+    type: "mj-body",
+    props: {},
+    children: [{ id: "t", type: "mj-text", props: {}, content }],
+  };
+}
+
+const headSettings = { title: "", preview: "", fonts: [], styles: "", breakpoint: "" };
+
+const saved: SavedDocument = {
+  id: "doc-1",
+  name: "Welcome",
+  document: doc("Hello"),
+  headSettings,
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+function snapshot(overrides: Partial<AutosaveSnapshot> = {}): AutosaveSnapshot {
+  return {
+    document: doc("Hello"),
+    headSettings,
+    selectedId: null,
+    documentId: "doc-1",
+    savedAt: 3,
+    ...overrides,
+  };
+}
+
+describe("hasUnsavedChanges", () => {
+  it("offers recovery when an existing document's library entry is behind", () => {
+    expect(hasUnsavedChanges(snapshot({ document: doc("Hello, world") }), saved)).toBe(true);
+    expect(
+      hasUnsavedChanges(snapshot({ headSettings: { ...headSettings, title: "New" } }), saved)
+    ).toBe(true);
+  });
+
+  it("ignores snapshots the library already has", () => {
+    expect(hasUnsavedChanges(snapshot({ selectedId: "t" }), saved)).toBe(false);
+  });
+
+  it("ignores snapshots of other or unsaved documents", () => {
+    expect(hasUnsavedChanges(snapshot({ document: doc("Hi") }), undefined)).toBe(false);
+    expect(hasUnsavedChanges(snapshot({ document: doc("Hi"), documentId: null }), saved)).toBe(
+      false
+    );
+  });
+});
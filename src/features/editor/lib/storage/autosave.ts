@@ -0,0 +1,59 @@
+/**
+ * Autosave - Persist the working document to IndexedDB so it survives a reload
+ */
+
+import type { AutosaveSnapshot, SavedDocument } from "@/features/editor/types";
+import { STORES, idbDelete, idbGet, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Single slot for the current working copy
+const AUTOSAVE_KEY = "current";
+
+// Load the last autosaved snapshot, if any
+export async function loadAutosave(): Promise<AutosaveSnapshot | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const snapshot = await idbGet<AutosaveSnapshot>(STORES.autosave, AUTOSAVE_KEY);
+    // Ignore malformed entries (e.g. written by an older version)
+    if (!snapshot?.document?.type) return null;
+    return snapshot;
+  } catch (error) {
+    console.error("Failed to load autosave:", error);
+    return null;
+  }
+}
+
+// Save a snapshot of the working document
+export async function saveAutosave(snapshot: AutosaveSnapshot): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.autosave, AUTOSAVE_KEY, snapshot);
+  } catch (error) {
+    console.error("Failed to autosave document:", error);
+  }
+}
+
+// Remove the autosaved snapshot
+export async function clearAutosave(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete(STORES.autosave, AUTOSAVE_KEY);
+  } catch (error) {
+    console.error("Failed to clear autosave:", error);
+  }
+}
+
+// Whether the snapshot holds changes its library entry does not have (e.g. the tab
+// crashed before the library write finished)
+export function hasUnsavedChanges(
+  snapshot: AutosaveSnapshot,
+  saved: SavedDocument | undefined
+): boolean {
+  if (!saved || saved.id !== snapshot.documentId) return false;
+  return (
+    JSON.stringify(saved.document) !== JSON.stringify(snapshot.document) ||
+    JSON.stringify(saved.headSettings) !== JSON.stringify(snapshot.headSettings)
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Saved blocks - Reusable node subtrees persisted in IndexedDB
+ */
+
+import type { SavedBlock } from "@/features/editor/types";
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Load all saved blocks, sorted by category and name
+export async function listBlocks(): Promise<SavedBlock[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const blocks = await idbGetAll<SavedBlock>(STORES.blocks);
+    return blocks
+      .filter((block) => block?.id && block.node?.type)
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Failed to load saved blocks:", error);
+    return [];
+  }
+}
+
+// Insert or update a saved block
+export async function putBlock(block: SavedBlock): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.blocks, block.id, block);
+  } catch (error) {
+    console.error(`Failed to save block "${block.name}":`, error);
+  }
+}
+
+// Delete a saved block
+export async function deleteBlock(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete(STORES.blocks, id);
+  } catch (error) {
+    console.error("Failed to delete saved block:", error);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Brand kit - Persist the kit in IndexedDB next to the emails that use it
+ */
+
+import type { BrandKit } from "@/features/editor/types";
+import { STORES, idbGet, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Single slot for the library's kit
+const BRAND_KIT_KEY = "current";
+
+// Load the saved kit, if any
+export async function loadBrandKit(): Promise<BrandKit | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const kit = await idbGet<BrandKit>(STORES.brandKit, BRAND_KIT_KEY);
+    // Ignore malformed entries (e.g. written by an older version)
+    if (!kit?.id || !Array.isArray(kit.colors)) return null;
+    return kit;
+  } catch (error) {
+    console.error("Failed to load brand kit:", error);
+    return null;
+  }
+}
+
+// Save the kit
+export async function saveBrandKit(kit: BrandKit): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.brandKit, BRAND_KIT_KEY, kit);
+  } catch (error) {
+    console.error("Failed to save brand kit:", error);
+  }
+}
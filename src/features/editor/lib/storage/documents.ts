@@ -0,0 +1,43 @@
+/**
+ * Document library - Saved emails persisted in IndexedDB
+ */
+
+import type { SavedDocument } from "@/features/editor/types";
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Load all saved documents, most recently edited first
+export async function listDocuments(): Promise<SavedDocument[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const documents = await idbGetAll<SavedDocument>(STORES.documents);
+    return documents
+      .filter((doc) => doc?.id && doc.document?.type)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error("Failed to load documents:", error);
+    return [];
+  }
+}
+
+// Insert or update a saved document
+export async function putDocument(doc: SavedDocument): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.documents, doc.id, doc);
+  } catch (error) {
+    console.error(`Failed to save document "${doc.name}":`, error);
+  }
+}
+
+// Delete a saved document
+export async function deleteDocument(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete(STORES.documents, id);
+  } catch (error) {
+    console.error("Failed to delete document:", error);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Browser storage exports
+ */
+
+export { isIndexedDbAvailable, idbGet, idbGetAll, idbPut, idbDelete, STORES } from "./indexedDb";
+export type { StoreName } from "./indexedDb";
+
+export { loadAutosave, saveAutosave, clearAutosave, hasUnsavedChanges } from "./autosave";
+export { listDocuments, putDocument, deleteDocument } from "./documents";
+export { listVersions, putVersion, deleteVersion, deleteVersionsOf } from "./versions";
+export { listOutbox, putOutboxEntry, deleteOutboxEntry } from "./outbox";
+export { listBlocks, putBlock, deleteBlock } from "./blocks";
+export { loadBrandKit, saveBrandKit } from "./brandKit";
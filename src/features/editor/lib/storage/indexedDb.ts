@@ -0,0 +1,86 @@
+/**
+ * IndexedDB helpers - Minimal promise wrappers around the browser IndexedDB API
+ */
+
+const DB_NAME = "mail-studio";
+const DB_VERSION = 6;
+
+// Object stores created on upgrade
+export const STORES = {
+  autosave: "autosave",
+  documents: "documents",
+  versions: "versions",
+  outbox: "outbox",
+  blocks: "blocks",
+  brandKit: "brandKit",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Check if IndexedDB is available (not available during SSR or in some private modes)
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+// Open (and upgrade if needed) the database, reusing a single connection
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Allow a later call to retry opening the database
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Run a single request inside a transaction and resolve with its result
+async function runRequest<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function idbGet<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, "readonly", (store) => store.get(key));
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return runRequest<T[]>(storeName, "readonly", (store) => store.getAll());
+}
+
+export function idbPut<T>(storeName: StoreName, key: string, value: T): Promise<void> {
+  return runRequest<void>(storeName, "readwrite", (store) => store.put(value, key));
+}
+
+export function idbDelete(storeName: StoreName, key: string): Promise<void> {
+  return runRequest<void>(storeName, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,39 @@
+/**
+ * Outbox - Log of send attempts persisted in IndexedDB
+ */
+
+import type { OutboxEntry } from "@/features/editor/types";
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Load the outbox, newest first
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const entries = await idbGetAll<OutboxEntry>(STORES.outbox);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error("Failed to load outbox:", error);
+    return [];
+  }
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.outbox, entry.id, entry);
+  } catch (error) {
+    console.error("Failed to save outbox entry:", error);
+  }
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete(STORES.outbox, id);
+  } catch (error) {
+    console.error("Failed to delete outbox entry:", error);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Version history - Named document snapshots persisted in IndexedDB
+ */
+
+import type { DocumentVersion } from "@/features/editor/types";
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from "./indexedDb";
+
+// Load the versions of a document, newest first
+export async function listVersions(documentId: string): Promise<DocumentVersion[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const versions = await idbGetAll<DocumentVersion>(STORES.versions);
+    return versions
+      .filter((version) => version.documentId === documentId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error("Failed to load versions:", error);
+    return [];
+  }
+}
+
+export async function putVersion(version: DocumentVersion): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut(STORES.versions, version.id, version);
+  } catch (error) {
+    console.error(`Failed to save version "${version.name}":`, error);
+  }
+}
+
+export async function deleteVersion(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete(STORES.versions, id);
+  } catch (error) {
+    console.error("Failed to delete version:", error);
+  }
+}
+
+// Delete all versions of a document (when the document itself is deleted)
+export async function deleteVersionsOf(documentId: string): Promise<void> {
+  const versions = await listVersions(documentId);
+  await Promise.all(versions.map((version) => deleteVersion(version.id)));
+}
@@ -0,0 +1,14 @@
+/**
+ * Node tree helpers
+ */
+
+export {
+  walk,
+  findPathInTree,
+  cloneNodeWithNewIds,
+  removeLockFromNode,
+  nodeName,
+  stripTags,
+  quote,
+} from "./tree";
+export { isEditorNode } from "./validation";
@@ -0,0 +1,59 @@
+/**
+ * Node tree helpers shared by the editor store, the clipboard and the document checks
+ */
+
+import type { EditorNode } from "@/features/editor/types";
+import { componentDefinitions, generateId } from "@/features/editor/lib/mjml/schema";
+
+// Visit a node and all of its descendants, parents first
+export function walk(node: EditorNode, visit: (node: EditorNode) => void): void {
+  visit(node);
+  node.children?.forEach((child) => walk(child, visit));
+}
+
+// Path from the root to a node, both included
+export function findPathInTree(root: EditorNode, nodeId: string): EditorNode[] | null {
+  if (root.id === nodeId) return [root];
+  for (const child of root.children ?? []) {
+    const path = findPathInTree(child, nodeId);
+    if (path) return [root, ...path];
+  }
+  return null;
+}
+
+// Deep clone a node with new IDs
+export function cloneNodeWithNewIds(node: EditorNode): EditorNode {
+  return {
+    ...node,
+    id: generateId(),
+    props: { ...node.props },
+    children: node.children?.map(cloneNodeWithNewIds),
+  };
+}
+
+// Remove locked status from a node and all its children (for duplicating)
+export function removeLockFromNode(node: EditorNode): void {
+  delete node.locked;
+  if (node.children) {
+    node.children.forEach(removeLockFromNode);
+  }
+}
+
+// Display name of a node's component, e.g. "Button"
+export function nodeName(node: EditorNode): string {
+  return componentDefinitions[node.type]?.name ?? node.type;
+}
+
+// Text of an HTML fragment on one line
+export function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Quote text in an issue message, shortened to maxLength characters
+export function quote(text: string, maxLength = 30): string {
+  return text.length > maxLength ? `"${text.slice(0, maxLength)}…"` : `"${text}"`;
+}
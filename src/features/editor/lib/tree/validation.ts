@@ -0,0 +1,51 @@
+/**
+ * Structural validation of node trees from outside the editor (API requests,
+ * the clipboard)
+ */
+
+import type { EditorNode } from "@/features/editor/types";
+import { CONDITION_OPERATORS } from "@/features/editor/lib/merge-tags/dynamic";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCondition(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.variable === "string" &&
+    CONDITION_OPERATORS.some((operator) => operator.value === value.operator) &&
+    (value.value === undefined || typeof value.value === "string")
+  );
+}
+
+function isRepeat(value: unknown): boolean {
+  return isRecord(value) && typeof value.source === "string" && typeof value.alias === "string";
+}
+
+// Structural check of an EditorNode tree; component types are not checked beyond
+// the mj- prefix
+export function isEditorNode(value: unknown): value is EditorNode {
+  if (!isRecord(value)) return false;
+  if (typeof value.id !== "string" || typeof value.type !== "string") return false;
+  if (!value.type.startsWith("mj-")) return false;
+  if (!isRecord(value.props)) return false;
+  if (value.content !== undefined && typeof value.content !== "string") return false;
+  if (value.locked !== undefined && typeof value.locked !== "boolean") return false;
+  if (value.condition !== undefined && !isCondition(value.condition)) return false;
+  if (value.repeat !== undefined && !isRepeat(value.repeat)) return false;
+  if (value.label !== undefined && typeof value.label !== "string") return false;
+  if (value.block !== undefined) {
+    if (!isRecord(value.block) || typeof value.block.blockId !== "string") return false;
+    if (typeof value.block.syncedAt !== "number") return false;
+  }
+  if (value.tokens !== undefined) {
+    if (!isRecord(value.tokens)) return false;
+    if (!Object.values(value.tokens).every((id) => typeof id === "string")) return false;
+  }
+  if (value.children !== undefined) {
+    if (!Array.isArray(value.children)) return false;
+    if (!value.children.every(isEditorNode)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,127 @@
+/**
+ * Blocks Store - "Saved blocks" library of reusable node subtrees
+ *
+ * Changing a block's master content updates its synced instances in the editor
+ * and in every saved email.
+ */
+
+import { create } from "zustand";
+import type { EditorNode, SavedBlock } from "@/features/editor/types";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { createBlockNode, syncBlockInstances } from "@/features/editor/lib/blocks";
+import { listBlocks, putBlock, deleteBlock } from "@/features/editor/lib/storage";
+import { useEditorStore } from "./editorStore";
+import { useDocumentsStore } from "./documentsStore";
+
+// ============ State Types ============
+
+interface BlocksState {
+  blocks: SavedBlock[];
+  isLoaded: boolean;
+}
+
+interface BlocksActions {
+  // Load the library and bring the editor's instances up to date
+  loadBlocks: () => Promise<void>;
+  // Save a node subtree as a new block, returns its id
+  saveBlock: (node: EditorNode, name: string, category: string) => Promise<string>;
+  // Make an instance's current content the block's master content
+  updateMasterFromInstance: (nodeId: string) => Promise<void>;
+  renameBlock: (id: string, name: string) => Promise<void>;
+  // Existing instances keep their content but no longer update
+  deleteBlock: (id: string) => Promise<void>;
+}
+
+type BlocksStore = BlocksState & BlocksActions;
+
+// ============ Helper Functions ============
+
+const DEFAULT_BLOCK_CATEGORY = "General";
+
+// Keep the library grouped by category, then sorted by name
+function sortBlocks(blocks: SavedBlock[]): SavedBlock[] {
+  return [...blocks].sort(
+    (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+  );
+}
+
+// ============ Store Creation ============
+
+export const useBlocksStore = create<BlocksStore>()((set, get) => ({
+  blocks: [],
+  isLoaded: false,
+
+  loadBlocks: async () => {
+    if (get().isLoaded) return;
+    const blocks = await listBlocks();
+    set({ blocks, isLoaded: true });
+
+    // Blocks may have changed (e.g. in another tab) since the documents were saved
+    useEditorStore.getState().syncBlockInstances(blocks);
+    await useDocumentsStore
+      .getState()
+      .updateOtherDocuments((document) => syncBlockInstances(document, blocks));
+  },
+
+  saveBlock: async (node, name, category) => {
+    const now = Date.now();
+    const block: SavedBlock = {
+      id: generateId(),
+      name: name.trim() || "Untitled block",
+      category: category.trim() || DEFAULT_BLOCK_CATEGORY,
+      node: createBlockNode(node),
+      createdAt: now,
+      updatedAt: now,
+    };
+    set({ blocks: sortBlocks([...get().blocks, block]) });
+    await putBlock(block);
+    return block.id;
+  },
+
+  updateMasterFromInstance: async (nodeId) => {
+    const instance = useEditorStore.getState().findNode(nodeId);
+    const target = get().blocks.find((b) => b.id === instance?.block?.blockId);
+    if (!instance || !target) return;
+
+    const block: SavedBlock = {
+      ...target,
+      node: createBlockNode(instance),
+      // Never earlier than an instance's last sync, whatever the clock says
+      updatedAt: Math.max(Date.now(), instance.block!.syncedAt + 1),
+    };
+    set({ blocks: get().blocks.map((b) => (b.id === block.id ? block : b)) });
+    await putBlock(block);
+
+    useEditorStore.getState().syncBlockInstances([block]);
+    await useDocumentsStore
+      .getState()
+      .updateOtherDocuments((document) => syncBlockInstances(document, [block]));
+  },
+
+  renameBlock: async (id, name) => {
+    const trimmed = name.trim();
+    const target = get().blocks.find((b) => b.id === id);
+    if (!target || !trimmed || trimmed === target.name) return;
+
+    // Not a content change, so instances are not re-synced
+    const block = { ...target, name: trimmed };
+    set({ blocks: sortBlocks(get().blocks.map((b) => (b.id === id ? block : b))) });
+    await putBlock(block);
+  },
+
+  deleteBlock: async (id) => {
+    set({ blocks: get().blocks.filter((b) => b.id !== id) });
+    await deleteBlock(id);
+  },
+}));
+
+// ============ Selectors ============
+
+export const selectBlocks = (state: BlocksStore) => state.blocks;
+
+// ============ Derived State Hooks ============
+
+// Get the saved block a synced instance links to, if it still exists
+export function useSavedBlock(blockId: string | undefined): SavedBlock | null {
+  return useBlocksStore((s) => s.blocks.find((b) => b.id === blockId) ?? null);
+}
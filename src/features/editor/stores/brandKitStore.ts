@@ -0,0 +1,162 @@
+/**
+ * Brand Kit Store - Colors, font stacks, spacing and button styles shared by the
+ * emails in the library
+ *
+ * The kit is saved in IndexedDB next to the emails. useBrandKitSync() applies
+ * changes to the props bound to the kit's tokens, in the editor and in every
+ * saved email that uses the kit.
+ */
+
+import { create } from "zustand";
+import type {
+  BrandButtonStyle,
+  BrandKit,
+  BrandToken,
+  BrandTokenGroup,
+} from "@/features/editor/types";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { defaultBrandKit } from "@/features/editor/lib/brand-kit";
+import { loadBrandKit, saveBrandKit } from "@/features/editor/lib/storage";
+
+// ============ State Types ============
+
+interface BrandKitState {
+  kit: BrandKit;
+  isLoaded: boolean;
+}
+
+interface BrandKitActions {
+  // Load the saved kit, or save a new one on first use
+  loadKit: () => Promise<void>;
+  addToken: (group: BrandTokenGroup) => string;
+  updateToken: (
+    group: BrandTokenGroup,
+    id: string,
+    updates: Partial<Omit<BrandToken, "id">>
+  ) => void;
+  removeToken: (group: BrandTokenGroup, id: string) => void;
+  // Move a font to the top, making it the email's default font
+  setDefaultFont: (id: string) => void;
+  addButtonStyle: () => string;
+  // Move a button style to the top, making it the one new buttons use
+  setDefaultButtonStyle: (id: string) => void;
+  updateButtonStyle: (id: string, updates: Partial<Omit<BrandButtonStyle, "id">>) => void;
+  removeButtonStyle: (id: string) => void;
+  // Back to the default values; emails using the kit stay bound to it
+  resetKit: () => void;
+}
+
+type BrandKitStore = BrandKitState & BrandKitActions;
+
+// ============ Helper Functions ============
+
+// Wait for a pause in edits (e.g. dragging a color picker) before saving
+const SAVE_DEBOUNCE_MS = 300;
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleSave() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    void saveBrandKit(useBrandKitStore.getState().kit);
+  }, SAVE_DEBOUNCE_MS);
+}
+
+// Change the kit and save it once edits pause. Edits wait for the saved kit to load,
+// so the placeholder kit never overwrites it.
+function updateKit(update: (kit: BrandKit) => BrandKit) {
+  if (!useBrandKitStore.getState().isLoaded) return;
+  useBrandKitStore.setState((state) => ({ kit: update(state.kit) }));
+  scheduleSave();
+}
+
+const NEW_TOKEN_VALUES: Record<BrandTokenGroup, Omit<BrandToken, "id">> = {
+  colors: { name: "New color", value: "#2563eb" },
+  fonts: { name: "New font", value: "Verdana, sans-serif" },
+  spacing: { name: "New size", value: "12px" },
+};
+
+// ============ Store Creation ============
+
+export const useBrandKitStore = create<BrandKitStore>()((set, get) => ({
+  kit: { ...defaultBrandKit, id: generateId() },
+  isLoaded: false,
+
+  loadKit: async () => {
+    if (get().isLoaded) return;
+    const kit = await loadBrandKit();
+    if (get().isLoaded) return;
+    if (kit) {
+      set({ kit, isLoaded: true });
+    } else {
+      set({ isLoaded: true });
+      await saveBrandKit(get().kit);
+    }
+  },
+
+  addToken: (group) => {
+    const id = generateId();
+    updateKit((kit) => ({
+      ...kit,
+      [group]: [...kit[group], { id, ...NEW_TOKEN_VALUES[group] }],
+    }));
+    return id;
+  },
+
+  updateToken: (group, id, updates) =>
+    updateKit((kit) => ({
+      ...kit,
+      [group]: kit[group].map((t) => (t.id === id ? { ...t, ...updates } : t)),
+    })),
+
+  // Bound props keep their last value
+  removeToken: (group, id) =>
+    updateKit((kit) => ({ ...kit, [group]: kit[group].filter((t) => t.id !== id) })),
+
+  setDefaultFont: (id) =>
+    updateKit((kit) => {
+      const font = kit.fonts.find((f) => f.id === id);
+      if (!font) return kit;
+      return { ...kit, fonts: [font, ...kit.fonts.filter((f) => f.id !== id)] };
+    }),
+
+  addButtonStyle: () => {
+    const id = generateId();
+    const style: BrandButtonStyle = {
+      id,
+      name: "New style",
+      props: { "background-color": "#2563eb", color: "#ffffff" },
+    };
+    updateKit((kit) => ({ ...kit, buttonStyles: [...kit.buttonStyles, style] }));
+    return id;
+  },
+
+  setDefaultButtonStyle: (id) =>
+    updateKit((kit) => {
+      const style = kit.buttonStyles.find((s) => s.id === id);
+      if (!style) return kit;
+      return {
+        ...kit,
+        buttonStyles: [style, ...kit.buttonStyles.filter((s) => s.id !== id)],
+      };
+    }),
+
+  updateButtonStyle: (id, updates) =>
+    updateKit((kit) => ({
+      ...kit,
+      buttonStyles: kit.buttonStyles.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+    })),
+
+  removeButtonStyle: (id) =>
+    updateKit((kit) => ({
+      ...kit,
+      buttonStyles: kit.buttonStyles.filter((s) => s.id !== id),
+    })),
+
+  resetKit: () => updateKit((kit) => ({ ...defaultBrandKit, id: kit.id })),
+}));
+
+// ============ Selectors ============
+
+export const selectBrandKit = (state: BrandKitStore) => state.kit;
@@ -0,0 +1,317 @@
+/**
+ * Documents Store - "My Emails" library of saved documents
+ *
+ * The active document is edited through the editor store; this store keeps the
+ * list of saved emails and swaps documents (and their undo history) in and out.
+ */
+
+import { create } from "zustand";
+import type { BrandKit, EditorNode, HeadSettings, SavedDocument } from "@/features/editor/types";
+import { emptyDocument, cloneDocumentWithNewIds } from "@/features/editor/lib/mjml/templates";
+import { compileDocument } from "@/features/editor/lib/mjml/compiler";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { applyBrandKit, usesBrandKit } from "@/features/editor/lib/brand-kit";
+import {
+  listDocuments,
+  putDocument,
+  deleteDocument,
+  deleteVersionsOf,
+} from "@/features/editor/lib/storage";
+import { useEditorStore } from "./editorStore";
+import { useBrandKitStore } from "./brandKitStore";
+
+// ============ State Types ============
+
+interface DocumentsState {
+  documents: SavedDocument[];
+  activeDocumentId: string | null;
+  isLoaded: boolean;
+}
+
+interface DocumentsActions {
+  // Load the library from IndexedDB and make sure a document is active
+  initialize: (preferredId?: string | null) => Promise<void>;
+  // Write the editor's current document back to the library
+  saveActiveDocument: () => Promise<void>;
+  createDocument: (name?: string) => Promise<void>;
+  openDocument: (id: string) => Promise<void>;
+  // Load the active document's library entry back into the editor, dropping unsaved changes
+  reloadActiveDocument: () => void;
+  renameDocument: (id: string, name: string) => Promise<void>;
+  duplicateDocument: (id: string) => Promise<void>;
+  deleteDocument: (id: string) => Promise<void>;
+  // Apply a change that is not an edit of the email itself (e.g. an updated saved
+  // block) to every saved email other than the active one, which the editor holds,
+  // and to their undo histories
+  updateOtherDocuments: (
+    update: (document: EditorNode, headSettings: HeadSettings) => EditorNode
+  ) => Promise<void>;
+  // Write the kit's current values into the editor's email and the saved emails using it
+  applyBrandKit: (kit: BrandKit) => Promise<void>;
+}
+
+type DocumentsStore = DocumentsState & DocumentsActions;
+
+type TemporalHistory = Pick<
+  ReturnType<typeof useEditorStore.temporal.getState>,
+  "pastStates" | "futureStates"
+>;
+
+type HistoryState = TemporalHistory["pastStates"][number];
+
+// ============ Helper Functions ============
+
+const DEFAULT_DOCUMENT_NAME = "Untitled email";
+
+// Undo history per document, kept in memory for the current session
+const historyByDocument = new Map<string, TemporalHistory>();
+
+// Thumbnails look like the sent email, brand kit included
+function compileThumbnail(document: EditorNode, headSettings: HeadSettings): string {
+  return compileDocument(document, headSettings, useBrandKitStore.getState().kit).html;
+}
+
+// Build a library entry from the editor's current state
+function snapshotEditor(base: Pick<SavedDocument, "id" | "name" | "createdAt">): SavedDocument {
+  const { document, headSettings } = useEditorStore.getState();
+  return {
+    ...base,
+    document,
+    headSettings,
+    thumbnailHtml: compileThumbnail(document, headSettings),
+    updatedAt: Date.now(),
+  };
+}
+
+// Stash the editor's undo history for a document
+function stashHistory(documentId: string) {
+  const { pastStates, futureStates } = useEditorStore.temporal.getState();
+  historyByDocument.set(documentId, { pastStates, futureStates });
+}
+
+// Load a document into the editor together with its undo history
+function loadIntoEditor(doc: SavedDocument) {
+  useEditorStore.getState().restoreSnapshot({
+    document: doc.document,
+    headSettings: doc.headSettings,
+    selectedId: null,
+  });
+
+  const temporal = useEditorStore.temporal;
+  temporal.getState().clear();
+  const history = historyByDocument.get(doc.id);
+  if (history) {
+    temporal.setState(history);
+  }
+}
+
+// Insert or replace a document, keeping the most recently edited first
+function upsert(documents: SavedDocument[], doc: SavedDocument): SavedDocument[] {
+  return [doc, ...documents.filter((d) => d.id !== doc.id)].sort(
+    (a, b) => b.updatedAt - a.updatedAt
+  );
+}
+
+function createEntry(name: string): SavedDocument {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    name,
+    document: cloneDocumentWithNewIds(emptyDocument),
+    headSettings: { title: "", preview: "", fonts: [], styles: "", breakpoint: "" },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ============ Store Creation ============
+
+export const useDocumentsStore = create<DocumentsStore>()((set, get) => ({
+  documents: [],
+  activeDocumentId: null,
+  isLoaded: false,
+
+  initialize: async (preferredId) => {
+    const documents = await listDocuments();
+    const active = documents.find((d) => d.id === preferredId);
+
+    if (active) {
+      // The editor already holds the (possibly newer) autosaved copy of this document
+      set({ documents, activeDocumentId: active.id, isLoaded: true });
+      return;
+    }
+
+    if (documents.length > 0 && preferredId === undefined) {
+      // Nothing was recovered - continue with the most recently edited email
+      loadIntoEditor(documents[0]);
+      set({ documents, activeDocumentId: documents[0].id, isLoaded: true });
+      return;
+    }
+
+    // Adopt the document currently in the editor as a new library entry
+    const now = Date.now();
+    const doc = snapshotEditor({ id: generateId(), name: DEFAULT_DOCUMENT_NAME, createdAt: now });
+    await putDocument(doc);
+    set({ documents: upsert(documents, doc), activeDocumentId: doc.id, isLoaded: true });
+  },
+
+  saveActiveDocument: async () => {
+    const { activeDocumentId, documents } = get();
+    const current = documents.find((d) => d.id === activeDocumentId);
+    if (!current) return;
+
+    // Skip writes when nothing changed (e.g. only the selection moved)
+    const { document, headSettings } = useEditorStore.getState();
+    if (
+      current.document === document &&
+      JSON.stringify(current.headSettings) === JSON.stringify(headSettings)
+    ) {
+      return;
+    }
+
+    const doc = snapshotEditor(current);
+    set({ documents: upsert(get().documents, doc) });
+    await putDocument(doc);
+  },
+
+  createDocument: async (name = DEFAULT_DOCUMENT_NAME) => {
+    const { activeDocumentId } = get();
+    if (activeDocumentId) {
+      stashHistory(activeDocumentId);
+      await get().saveActiveDocument();
+    }
+
+    const doc = createEntry(name);
+    await putDocument(doc);
+    loadIntoEditor(doc);
+    set({ documents: upsert(get().documents, doc), activeDocumentId: doc.id });
+  },
+
+  openDocument: async (id) => {
+    const { activeDocumentId } = get();
+    if (id === activeDocumentId) return;
+
+    const target = get().documents.find((d) => d.id === id);
+    if (!target) return;
+
+    if (activeDocumentId) {
+      stashHistory(activeDocumentId);
+      await get().saveActiveDocument();
+    }
+
+    loadIntoEditor(target);
+    set({ activeDocumentId: id });
+  },
+
+  reloadActiveDocument: () => {
+    const { activeDocumentId, documents } = get();
+    const current = documents.find((d) => d.id === activeDocumentId);
+    if (current) {
+      loadIntoEditor(current);
+    }
+  },
+
+  renameDocument: async (id, name) => {
+    const trimmed = name.trim();
+    const target = get().documents.find((d) => d.id === id);
+    if (!target || !trimmed || trimmed === target.name) return;
+
+    const doc = { ...target, name: trimmed };
+    set({ documents: get().documents.map((d) => (d.id === id ? doc : d)) });
+    await putDocument(doc);
+  },
+
+  duplicateDocument: async (id) => {
+    // Make sure the copy includes unsaved edits of the active document
+    if (id === get().activeDocumentId) {
+      await get().saveActiveDocument();
+    }
+
+    const source = get().documents.find((d) => d.id === id);
+    if (!source) return;
+
+    const now = Date.now();
+    const doc: SavedDocument = {
+      ...source,
+      id: generateId(),
+      name: `${source.name} (copy)`,
+      document: cloneDocumentWithNewIds(source.document),
+      createdAt: now,
+      updatedAt: now,
+    };
+    set({ documents: upsert(get().documents, doc) });
+    await putDocument(doc);
+  },
+
+  deleteDocument: async (id) => {
+    historyByDocument.delete(id);
+    const documents = get().documents.filter((d) => d.id !== id);
+    set({ documents });
+    await deleteDocument(id);
+    await deleteVersionsOf(id);
+
+    if (id !== get().activeDocumentId) return;
+
+    // Switch to the next most recent document, or start a fresh one
+    if (documents.length > 0) {
+      loadIntoEditor(documents[0]);
+      set({ activeDocumentId: documents[0].id });
+    } else {
+      set({ activeDocumentId: null });
+      await get().createDocument();
+    }
+  },
+
+  updateOtherDocuments: async (update) => {
+    const { activeDocumentId } = get();
+    const updated: SavedDocument[] = [];
+
+    for (const doc of get().documents) {
+      if (doc.id === activeDocumentId) continue;
+
+      const history = historyByDocument.get(doc.id);
+      if (history) {
+        const updateState = (state: HistoryState) =>
+          state.document && state.headSettings
+            ? { ...state, document: update(state.document, state.headSettings) }
+            : state;
+        historyByDocument.set(doc.id, {
+          pastStates: history.pastStates.map(updateState),
+          futureStates: history.futureStates.map(updateState),
+        });
+      }
+
+      // Returns the same document when there is nothing to change
+      const document = update(doc.document, doc.headSettings);
+      if (document === doc.document) continue;
+
+      // Keeps its place in the list
+      const thumbnailHtml = compileThumbnail(document, doc.headSettings);
+      updated.push({ ...doc, document, thumbnailHtml });
+    }
+    if (updated.length === 0) return;
+
+    const byId = new Map(updated.map((doc) => [doc.id, doc]));
+    set({ documents: get().documents.map((d) => byId.get(d.id) ?? d) });
+    await Promise.all(updated.map(putDocument));
+  },
+
+  applyBrandKit: async (kit) => {
+    useEditorStore.getState().applyBrandKit(kit);
+    await get().updateOtherDocuments((document, headSettings) =>
+      usesBrandKit(headSettings, kit) ? applyBrandKit(document, kit) : document
+    );
+  },
+}));
+
+// ============ Selectors ============
+
+export const selectDocuments = (state: DocumentsStore) => state.documents;
+export const selectActiveDocumentId = (state: DocumentsStore) => state.activeDocumentId;
+
+// ============ Derived State Hooks ============
+
+// Get the active library document
+export function useActiveDocument(): SavedDocument | null {
+  return useDocumentsStore((s) => s.documents.find((d) => d.id === s.activeDocumentId) ?? null);
+}
@@ -10,13 +10,25 @@ import type {
   MJMLComponentType,
   HeadSettings,
   FontDefinition,
+  EditorSnapshot,
+  NodeCondition,
+  NodeRepeat,
+  SavedBlock,
+  BrandKit,
 } from "@/features/editor/types";
 import {
   emptyDocument,
   cloneDocumentWithNewIds,
   templates,
 } from "@/features/editor/lib/mjml/templates";
-import { createNode, generateId, componentDefinitions } from "@/features/editor/lib/mjml/schema";
+import { createNode, componentDefinitions, canContain } from "@/features/editor/lib/mjml/schema";
+import {
+  cloneNodeWithNewIds,
+  findPathInTree,
+  removeLockFromNode,
+} from "@/features/editor/lib/tree";
+import { syncBlockInstances } from "@/features/editor/lib/blocks";
+import { applyBrandKit, bindDefaultTokens, usesBrandKit } from "@/features/editor/lib/brand-kit";
 
 // Get welcome template as default document
 const defaultDocument = templates.find((t) => t.id === "welcome")?.document ?? emptyDocument;
@@ -36,6 +48,8 @@ interface EditorState {
   // Document state
   document: EditorNode;
   selectedId: string | null;
+  // Every selected node, in the order they were selected; selectedId is the last one
+  selectedIds: string[];
   hoveredId: string | null;
 
   // Head settings
@@ -46,19 +60,57 @@ interface EditorActions {
   // Document actions
   setDocument: (document: EditorNode) => void;
   setSelectedId: (id: string | null) => void;
+  // Add a node to the selection, or remove it if it is already selected
+  toggleSelectedId: (id: string) => void;
   setHoveredId: (id: string | null) => void;
 
   // Node operations
-  addNode: (parentId: string, type: MJMLComponentType, index?: number) => void;
+  // New elements start bound to the brand kit's default tokens, when given one
+  addNode: (parentId: string, type: MJMLComponentType, index?: number, brandKit?: BrandKit) => void;
   addChildNode: (parentId: string, node: EditorNode, index?: number) => void;
+  // Insert several nodes in a row (e.g. pasted ones) and select them
+  addChildNodes: (parentId: string, nodes: EditorNode[], index?: number) => void;
   removeNode: (nodeId: string) => void;
   updateNodeProps: (nodeId: string, props: Record<string, string | number | undefined>) => void;
   updateNodeContent: (nodeId: string, content: string) => void;
   updateNodeChildren: (nodeId: string, children: EditorNode[]) => void;
+  // Set or clear (undefined) the display condition / repeat binding of a node
+  updateNodeCondition: (nodeId: string, condition: NodeCondition | undefined) => void;
+  updateNodeRepeat: (nodeId: string, repeat: NodeRepeat | undefined) => void;
+  // Set or clear (empty) the layer name of a node
+  updateNodeLabel: (nodeId: string, label: string) => void;
   moveNode: (nodeId: string, newParentId: string, newIndex: number) => void;
   reorderNode: (nodeId: string, targetNodeId: string) => void;
   duplicateNode: (nodeId: string) => void;
 
+  // Bulk node operations - one undo step each. Locked nodes are skipped, and
+  // nodes inside another listed node go along with it.
+  updateNodesProps: (nodeIds: string[], props: Record<string, string | number | undefined>) => void;
+  removeNodes: (nodeIds: string[]) => void;
+  duplicateNodes: (nodeIds: string[]) => void;
+  // All or nothing: the nodes end up next to each other, in document order
+  moveNodes: (nodeIds: string[], newParentId: string, newIndex: number) => void;
+  setNodesLocked: (nodeIds: string[], locked: boolean) => void;
+  // Move content blocks (or columns) into a new section after the one they are in
+  wrapNodesInSection: (nodeIds: string[]) => void;
+
+  // Saved block instances
+  // Bring synced instances up to date with their blocks; `nodeIds` are reset even if current
+  syncBlockInstances: (blocks: SavedBlock[], nodeIds?: string[]) => void;
+  // Turn a synced instance into regular nodes that no longer follow the block
+  detachBlockInstance: (nodeId: string) => void;
+
+  // Brand kit tokens
+  // Bind props to tokens of a kit (setting them to the token's value), or unbind them (null)
+  setNodesTokens: (
+    nodeIds: string[],
+    bindings: Record<string, { id: string; value: string } | null>,
+    brandKitId: string
+  ) => void;
+  // Write the kit's current values into the props bound to its tokens, if the
+  // email uses the kit. Not an edit, so it is left out of the undo history.
+  applyBrandKit: (kit: BrandKit) => void;
+
   // Head settings operations
   updateHeadSettings: (settings: Partial<HeadSettings>) => void;
   addFont: (font: FontDefinition) => void;
@@ -68,6 +120,10 @@ interface EditorActions {
   // Template
   loadTemplate: (document: EditorNode) => void;
 
+  // Persistence
+  restoreSnapshot: (snapshot: EditorSnapshot) => void;
+  resetDocument: () => void;
+
   // Helpers
   findNode: (nodeId: string) => EditorNode | null;
   findParent: (nodeId: string) => { parent: EditorNode; index: number } | null;
@@ -108,24 +164,6 @@ function findParentInTree(
   return null;
 }
 
-// Deep clone a node with new IDs
-function cloneNodeWithNewIds(node: EditorNode): EditorNode {
-  return {
-    ...node,
-    id: generateId(),
-    props: { ...node.props },
-    children: node.children?.map(cloneNodeWithNewIds),
-  };
-}
-
-// Remove locked status from a node and all its children (for duplicating)
-function removeLockFromNode(node: EditorNode): void {
-  delete node.locked;
-  if (node.children) {
-    node.children.forEach(removeLockFromNode);
-  }
-}
-
 // Check if target is descendant of parent
 function isDescendant(parent: EditorNode, targetId: string): boolean {
   if (parent.id === targetId) return true;
@@ -190,6 +228,102 @@ function isNodeOrAncestorLocked(root: EditorNode, nodeId: string): boolean {
   return checkPath(root, nodeId);
 }
 
+// Nodes with the given IDs in document order, leaving out nodes inside another listed node
+export function findTopLevelNodes(root: EditorNode, nodeIds: string[]): EditorNode[] {
+  const ids = new Set(nodeIds);
+  const nodes: EditorNode[] = [];
+
+  const visit = (node: EditorNode) => {
+    if (ids.has(node.id)) {
+      nodes.push(node);
+      return;
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+
+  return nodes;
+}
+
+// Whether a node can be removed or moved out of its parent
+function isNodeDetachable(root: EditorNode, nodeId: string): boolean {
+  if (isNodeOrAncestorLocked(root, nodeId)) return false;
+  const parentInfo = findParentInTree(root, nodeId);
+  return parentInfo !== null && !parentInfo.parent.locked;
+}
+
+interface SectionWrap {
+  nodes: EditorNode[];
+  // Content blocks need a column inside the new section; columns and groups don't
+  needsColumn: boolean;
+  parentId: string;
+  // Node the new section goes after
+  afterId: string;
+}
+
+// How the nodes would be wrapped in a new section, or null if they can't be
+function planSectionWrap(root: EditorNode, nodeIds: string[]): SectionWrap | null {
+  const nodes = findTopLevelNodes(root, nodeIds);
+  if (nodes.length === 0) return null;
+  if (!nodes.every((node) => isNodeDetachable(root, node.id))) return null;
+
+  const fitsColumn = nodes.every((node) => canContain("mj-column", node.type));
+  const fitsSection = nodes.every((node) => canContain("mj-section", node.type));
+  if (!fitsColumn && !fitsSection) return null;
+
+  // The closest ancestor of the first node that sits where a section can
+  const path = findPathInTree(root, nodes[0].id);
+  if (!path) return null;
+  for (let i = path.length - 2; i > 0; i--) {
+    const parent = path[i - 1];
+    if (canContain(parent.type, "mj-section")) {
+      if (isNodeOrAncestorLocked(root, parent.id)) return null;
+      return {
+        nodes,
+        needsColumn: !fitsSection,
+        parentId: parent.id,
+        afterId: path[i].id,
+      };
+    }
+  }
+  return null;
+}
+
+// Whether wrapNodesInSection() would do anything
+export function canWrapNodesInSection(root: EditorNode, nodeIds: string[]): boolean {
+  return planSectionWrap(root, nodeIds) !== null;
+}
+
+// Set (or clear, with undefined or "") props by hand; they no longer follow a brand token
+function setProps(node: EditorNode, props: Record<string, string | number | undefined>) {
+  Object.entries(props).forEach(([key, value]) => {
+    if (value === undefined || value === "") {
+      delete node.props[key];
+    } else {
+      node.props[key] = value;
+    }
+    unbindToken(node, key);
+  });
+}
+
+function unbindToken(node: EditorNode, key: string) {
+  if (!node.tokens) return;
+  delete node.tokens[key];
+  if (Object.keys(node.tokens).length === 0) delete node.tokens;
+}
+
+// Select a single node, or nothing
+function selectOnly(state: EditorState, id: string | null) {
+  state.selectedId = id;
+  state.selectedIds = id ? [id] : [];
+}
+
+// Drop nodes that are no longer in the document from the selection
+function pruneSelection(state: EditorState) {
+  state.selectedIds = state.selectedIds.filter((id) => findNodeInTree(state.document, id));
+  state.selectedId = state.selectedIds.at(-1) ?? null;
+}
+
 // ============ Store Creation ============
 
 export const useEditorStore = create<EditorStore>()(
@@ -198,6 +332,7 @@ export const useEditorStore = create<EditorStore>()(
       // Initial state - use welcome template as default
       document: cloneDocumentWithNewIds(defaultDocument),
       selectedId: null,
+      selectedIds: [],
       hoveredId: null,
       headSettings: { ...defaultHeadSettings },
 
@@ -209,7 +344,15 @@ export const useEditorStore = create<EditorStore>()(
 
       setSelectedId: (id) =>
         set((state) => {
-          state.selectedId = id;
+          selectOnly(state, id);
+        }),
+
+      toggleSelectedId: (id) =>
+        set((state) => {
+          state.selectedIds = state.selectedIds.includes(id)
+            ? state.selectedIds.filter((selectedId) => selectedId !== id)
+            : [...state.selectedIds, id];
+          state.selectedId = state.selectedIds.at(-1) ?? null;
         }),
 
       setHoveredId: (id) =>
@@ -218,7 +361,7 @@ export const useEditorStore = create<EditorStore>()(
         }),
 
       // Node operations
-      addNode: (parentId, type, index) =>
+      addNode: (parentId, type, index, brandKit) =>
         set((state) => {
           // Check if parent is locked
           if (isNodeOrAncestorLocked(state.document, parentId)) return;
@@ -239,20 +382,27 @@ export const useEditorStore = create<EditorStore>()(
             parent.children = [];
           }
 
-          const newNode = createNode(type);
+          let newNode = createNode(type);
 
           // If adding a section, add a column by default
           if (type === "mj-section") {
             newNode.children = [createNode("mj-column")];
           }
 
+          if (brandKit) {
+            newNode = bindDefaultTokens(newNode, brandKit);
+            if (newNode.tokens) {
+              state.headSettings.brandKitId = brandKit.id;
+            }
+          }
+
           if (index !== undefined && index >= 0 && index <= parent.children.length) {
             parent.children.splice(index, 0, newNode);
           } else {
             parent.children.push(newNode);
           }
 
-          state.selectedId = newNode.id;
+          selectOnly(state, newNode.id);
         }),
 
       addChildNode: (parentId, node, index) =>
@@ -282,7 +432,34 @@ export const useEditorStore = create<EditorStore>()(
             parent.children.push(node);
           }
 
-          state.selectedId = node.id;
+          selectOnly(state, node.id);
+        }),
+
+      addChildNodes: (parentId, nodes, index) =>
+        set((state) => {
+          if (nodes.length === 0) return;
+
+          // Check if parent is locked
+          if (isNodeOrAncestorLocked(state.document, parentId)) return;
+
+          const parent = findNodeInTree(state.document, parentId);
+          if (!parent) return;
+
+          // Validate that the parent accepts every child type
+          if (!nodes.every((node) => canContain(parent.type, node.type))) return;
+
+          if (!parent.children) {
+            parent.children = [];
+          }
+
+          const insertIndex =
+            index !== undefined && index >= 0 && index <= parent.children.length
+              ? index
+              : parent.children.length;
+          parent.children.splice(insertIndex, 0, ...nodes);
+
+          state.selectedIds = nodes.map((node) => node.id);
+          state.selectedId = state.selectedIds.at(-1)!;
         }),
 
       removeNode: (nodeId) =>
@@ -298,8 +475,8 @@ export const useEditorStore = create<EditorStore>()(
 
           parentInfo.parent.children?.splice(parentInfo.index, 1);
 
-          if (state.selectedId === nodeId) {
-            state.selectedId = null;
+          if (state.selectedIds.includes(nodeId)) {
+            pruneSelection(state);
           }
         }),
 
@@ -311,13 +488,7 @@ export const useEditorStore = create<EditorStore>()(
           const node = findNodeInTree(state.document, nodeId);
           if (!node) return;
 
-          Object.entries(props).forEach(([key, value]) => {
-            if (value === undefined || value === "") {
-              delete node.props[key];
-            } else {
-              node.props[key] = value;
-            }
-          });
+          setProps(node, props);
         }),
 
       updateNodeContent: (nodeId, content) =>
@@ -330,6 +501,51 @@ export const useEditorStore = create<EditorStore>()(
           node.content = content;
         }),
 
+      updateNodeCondition: (nodeId, condition) =>
+        set((state) => {
+          // Check if node or its ancestors are locked
+          if (isNodeOrAncestorLocked(state.document, nodeId)) return;
+
+          const node = findNodeInTree(state.document, nodeId);
+          if (!node) return;
+
+          if (condition) {
+            node.condition = condition;
+          } else {
+            delete node.condition;
+          }
+        }),
+
+      updateNodeRepeat: (nodeId, repeat) =>
+        set((state) => {
+          // Check if node or its ancestors are locked
+          if (isNodeOrAncestorLocked(state.document, nodeId)) return;
+
+          const node = findNodeInTree(state.document, nodeId);
+          if (!node) return;
+
+          if (repeat) {
+            node.repeat = repeat;
+          } else {
+            delete node.repeat;
+          }
+        }),
+
+      updateNodeLabel: (nodeId, label) =>
+        set((state) => {
+          // Check if node or its ancestors are locked
+          if (isNodeOrAncestorLocked(state.document, nodeId)) return;
+
+          const node = findNodeInTree(state.document, nodeId);
+          if (!node) return;
+
+          if (label.trim()) {
+            node.label = label.trim();
+          } else {
+            delete node.label;
+          }
+        }),
+
       updateNodeChildren: (nodeId, children) =>
         set((state) => {
           // Check if node or its ancestors are locked
@@ -452,9 +668,200 @@ export const useEditorStore = create<EditorStore>()(
           removeLockFromNode(clonedNode);
 
           parentInfo.parent.children!.splice(parentInfo.index + 1, 0, clonedNode);
-          state.selectedId = clonedNode.id;
+          selectOnly(state, clonedNode.id);
+        }),
+
+      updateNodesProps: (nodeIds, props) =>
+        set((state) => {
+          for (const nodeId of nodeIds) {
+            if (isNodeOrAncestorLocked(state.document, nodeId)) continue;
+
+            const node = findNodeInTree(state.document, nodeId);
+            if (!node) continue;
+
+            setProps(node, props);
+          }
+        }),
+
+      removeNodes: (nodeIds) =>
+        set((state) => {
+          for (const node of findTopLevelNodes(state.document, nodeIds)) {
+            if (!isNodeDetachable(state.document, node.id)) continue;
+
+            const parentInfo = findParentInTree(state.document, node.id)!;
+            parentInfo.parent.children!.splice(parentInfo.index, 1);
+          }
+          pruneSelection(state);
+        }),
+
+      duplicateNodes: (nodeIds) =>
+        set((state) => {
+          const clonedIds: string[] = [];
+
+          for (const node of findTopLevelNodes(state.document, nodeIds)) {
+            if (!isNodeDetachable(state.document, node.id)) continue;
+
+            const parentInfo = findParentInTree(state.document, node.id)!;
+            const clonedNode = cloneNodeWithNewIds(node);
+            removeLockFromNode(clonedNode);
+            parentInfo.parent.children!.splice(parentInfo.index + 1, 0, clonedNode);
+            clonedIds.push(clonedNode.id);
+          }
+
+          if (clonedIds.length > 0) {
+            state.selectedIds = clonedIds;
+            state.selectedId = clonedIds.at(-1)!;
+          }
+        }),
+
+      moveNodes: (nodeIds, newParentId, newIndex) =>
+        set((state) => {
+          const nodes = findTopLevelNodes(state.document, nodeIds);
+          if (nodes.length === 0) return;
+
+          const newParent = findNodeInTree(state.document, newParentId);
+          if (!newParent || isNodeOrAncestorLocked(state.document, newParentId)) return;
+
+          // Validate every node before changing anything
+          const valid = nodes.every(
+            (node) =>
+              isNodeDetachable(state.document, node.id) &&
+              canContain(newParent.type, node.type) &&
+              !isDescendant(node, newParentId)
+          );
+          if (!valid) return;
+
+          // Insert before the first node at or after newIndex that stays where it is
+          const moving = new Set(nodes.map((node) => node.id));
+          const anchor = newParent.children
+            ?.slice(Math.max(0, newIndex))
+            .find((child) => !moving.has(child.id));
+
+          for (const node of nodes) {
+            const parentInfo = findParentInTree(state.document, node.id)!;
+            parentInfo.parent.children!.splice(parentInfo.index, 1);
+          }
+
+          if (!newParent.children) {
+            newParent.children = [];
+          }
+          const index = anchor
+            ? newParent.children.findIndex((child) => child.id === anchor.id)
+            : newParent.children.length;
+          newParent.children.splice(index, 0, ...nodes);
+        }),
+
+      setNodesLocked: (nodeIds, locked) =>
+        set((state) => {
+          for (const nodeId of nodeIds) {
+            // A node inside a locked parent can't be unlocked on its own
+            const parentInfo = findParentInTree(state.document, nodeId);
+            if (!parentInfo || isNodeOrAncestorLocked(state.document, parentInfo.parent.id)) {
+              continue;
+            }
+
+            const node = parentInfo.parent.children![parentInfo.index];
+            if (locked) {
+              node.locked = true;
+            } else {
+              delete node.locked;
+            }
+          }
         }),
 
+      wrapNodesInSection: (nodeIds) =>
+        set((state) => {
+          const plan = planSectionWrap(state.document, nodeIds);
+          if (!plan) return;
+
+          for (const node of plan.nodes) {
+            const parentInfo = findParentInTree(state.document, node.id)!;
+            parentInfo.parent.children!.splice(parentInfo.index, 1);
+          }
+
+          const section = createNode("mj-section", {
+            children: plan.needsColumn
+              ? [createNode("mj-column", { children: plan.nodes })]
+              : plan.nodes,
+          });
+
+          const parent = findNodeInTree(state.document, plan.parentId)!;
+          const afterIndex = parent.children!.findIndex((child) => child.id === plan.afterId);
+          parent.children!.splice(afterIndex + 1, 0, section);
+          selectOnly(state, section.id);
+        }),
+
+      // Saved block instances
+      syncBlockInstances: (blocks, nodeIds) => {
+        const { document } = get();
+        // Resetting an instance is an edit, so locked ones keep their content
+        const resetIds = nodeIds?.filter((id) => !isNodeOrAncestorLocked(document, id));
+        const synced = syncBlockInstances(document, blocks, new Set(resetIds));
+        if (synced === document) return;
+
+        set((state) => {
+          state.document = synced;
+          pruneSelection(state);
+        });
+      },
+
+      detachBlockInstance: (nodeId) =>
+        set((state) => {
+          // Check if node or its ancestors are locked
+          if (isNodeOrAncestorLocked(state.document, nodeId)) return;
+
+          const node = findNodeInTree(state.document, nodeId);
+          if (node) {
+            delete node.block;
+          }
+        }),
+
+      // Brand kit tokens
+      setNodesTokens: (nodeIds, bindings, brandKitId) =>
+        set((state) => {
+          for (const nodeId of nodeIds) {
+            if (isNodeOrAncestorLocked(state.document, nodeId)) continue;
+
+            const node = findNodeInTree(state.document, nodeId);
+            if (!node) continue;
+
+            for (const [key, token] of Object.entries(bindings)) {
+              if (token) {
+                node.props[key] = token.value;
+                node.tokens = { ...node.tokens, [key]: token.id };
+                state.headSettings.brandKitId = brandKitId;
+              } else {
+                unbindToken(node, key);
+              }
+            }
+          }
+        }),
+
+      applyBrandKit: (kit) => {
+        const { document, headSettings } = get();
+        if (!usesBrandKit(headSettings, kit)) return;
+        const applied = applyBrandKit(document, kit);
+
+        // Restyle the undo history too, so undoing an edit doesn't bring back old values
+        const temporal = useEditorStore.temporal;
+        const restyle = (state: Partial<EditorStore>) =>
+          state.document && usesBrandKit(state.headSettings, kit)
+            ? { ...state, document: applyBrandKit(state.document, kit) }
+            : state;
+        const { pastStates, futureStates } = temporal.getState();
+        temporal.setState({
+          pastStates: pastStates.map(restyle),
+          futureStates: futureStates.map(restyle),
+        });
+        if (applied === document) return;
+
+        temporal.getState().pause();
+        set((state) => {
+          state.document = applied;
+        });
+        temporal.getState().resume();
+      },
+
       // Head settings operations
       updateHeadSettings: (settings) =>
         set((state) => {
@@ -489,7 +896,30 @@ export const useEditorStore = create<EditorStore>()(
       loadTemplate: (document) =>
         set((state) => {
           state.document = cloneDocumentWithNewIds(document);
-          state.selectedId = null;
+          selectOnly(state, null);
+        }),
+
+      // Persistence
+      restoreSnapshot: (snapshot) =>
+        set((state) => {
+          state.document = snapshot.document;
+          state.headSettings = { ...defaultHeadSettings, ...snapshot.headSettings };
+          // Only restore the selection if the node still exists
+          selectOnly(
+            state,
+            snapshot.selectedId && findNodeInTree(snapshot.document, snapshot.selectedId)
+              ? snapshot.selectedId
+              : null
+          );
+          state.hoveredId = null;
+        }),
+
+      resetDocument: () =>
+        set((state) => {
+          state.document = cloneDocumentWithNewIds(defaultDocument);
+          state.headSettings = { ...defaultHeadSettings };
+          selectOnly(state, null);
+          state.hoveredId = null;
         }),
 
       // Helpers
@@ -553,6 +983,11 @@ export function useIsSelected(nodeId: string): boolean {
   return useEditorStore((s) => s.selectedId === nodeId);
 }
 
+// Check if a node is one of several selected nodes
+export function useIsInSelection(nodeId: string): boolean {
+  return useEditorStore((s) => s.selectedIds.includes(nodeId));
+}
+
 // Check if a node is hovered
 export function useIsHovered(nodeId: string): boolean {
   return useEditorStore((s) => s.hoveredId === nodeId);
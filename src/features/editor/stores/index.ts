@@ -15,12 +15,16 @@ export {
   useSelectedNode,
   useNode,
   useIsSelected,
+  useIsInSelection,
   useIsHovered,
   useUndoRedo,
   // Lock related hooks
   useIsNodeLocked,
   useIsNodeDirectlyLocked,
   isNodeOrAncestorLocked,
+  // Bulk operations
+  findTopLevelNodes,
+  canWrapNodesInSection,
 } from "./editorStore";
 
 // UI store
@@ -31,8 +35,48 @@ export {
   selectPreviewMode,
   selectIsDragging,
   selectActiveTab,
+  selectRecoveredAt,
+  selectRestoreError,
   // Derived hooks
   useEditorMode,
   usePreviewMode,
   useIsDragging,
 } from "./uiStore";
+
+// Documents store
+export {
+  useDocumentsStore,
+  // Selectors
+  selectDocuments,
+  selectActiveDocumentId,
+  // Derived hooks
+  useActiveDocument,
+} from "./documentsStore";
+
+// Versions store
+export { useVersionsStore, selectVersions } from "./versionsStore";
+
+// Blocks store
+export {
+  useBlocksStore,
+  // Selectors
+  selectBlocks,
+  // Derived hooks
+  useSavedBlock,
+} from "./blocksStore";
+
+// Brand kit store
+export { useBrandKitStore, selectBrandKit } from "./brandKitStore";
+
+// Outbox store
+export { useOutboxStore, selectOutboxEntries } from "./outboxStore";
+
+// Sample data store
+export {
+  useSampleDataStore,
+  // Selectors
+  selectProfiles,
+  selectActiveProfileId,
+  // Derived hooks
+  useActiveSampleProfile,
+} from "./sampleDataStore";
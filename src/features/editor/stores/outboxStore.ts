@@ -0,0 +1,73 @@
+/**
+ * Outbox Store - Log of send attempts with the HTML that was sent
+ */
+
+import { create } from "zustand";
+import type { OutboxEntry } from "@/features/editor/types";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { listOutbox, putOutboxEntry, deleteOutboxEntry } from "@/features/editor/lib/storage";
+
+// Oldest entries beyond this are dropped to bound storage (each keeps an HTML snapshot)
+const MAX_OUTBOX_ENTRIES = 200;
+
+// ============ State Types ============
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isLoaded: boolean;
+}
+
+interface OutboxActions {
+  loadOutbox: () => Promise<void>;
+  // Record a send attempt, returns its id
+  addEntry: (entry: Omit<OutboxEntry, "id" | "createdAt">) => Promise<string>;
+  deleteEntry: (id: string) => Promise<void>;
+  clearOutbox: () => Promise<void>;
+}
+
+type OutboxStore = OutboxState & OutboxActions;
+
+// ============ Store Creation ============
+
+export const useOutboxStore = create<OutboxStore>()((set, get) => ({
+  entries: [],
+  isLoaded: false,
+
+  loadOutbox: async () => {
+    if (get().isLoaded) return;
+    const stored = await listOutbox();
+    // Keep entries recorded while loading
+    const recorded = get().entries;
+    const ids = new Set(recorded.map((entry) => entry.id));
+    set({
+      entries: [...recorded, ...stored.filter((entry) => !ids.has(entry.id))],
+      isLoaded: true,
+    });
+  },
+
+  addEntry: async (input) => {
+    const entry: OutboxEntry = { ...input, id: generateId(), createdAt: Date.now() };
+    const entries = [entry, ...get().entries];
+    const dropped = entries.slice(MAX_OUTBOX_ENTRIES);
+
+    set({ entries: entries.slice(0, MAX_OUTBOX_ENTRIES) });
+    await putOutboxEntry(entry);
+    await Promise.all(dropped.map((old) => deleteOutboxEntry(old.id)));
+    return entry.id;
+  },
+
+  deleteEntry: async (id) => {
+    set({ entries: get().entries.filter((entry) => entry.id !== id) });
+    await deleteOutboxEntry(id);
+  },
+
+  clearOutbox: async () => {
+    const { entries } = get();
+    set({ entries: [] });
+    await Promise.all(entries.map((entry) => deleteOutboxEntry(entry.id)));
+  },
+}));
+
+// ============ Selectors ============
+
+export const selectOutboxEntries = (state: OutboxStore) => state.entries;
@@ -0,0 +1,112 @@
+/**
+ * Sample Data Store - JSON test profiles used to fill merge tags in previews and test sends
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { SampleData, SampleDataProfile } from "@/features/editor/types";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+
+// ============ State Types ============
+
+interface SampleDataState {
+  profiles: SampleDataProfile[];
+  // Profile applied to the preview and test sends, null shows merge tags verbatim
+  activeProfileId: string | null;
+}
+
+interface SampleDataActions {
+  setActiveProfile: (id: string | null) => void;
+  addProfile: (name?: string, data?: SampleData) => string;
+  updateProfile: (id: string, updates: Partial<Omit<SampleDataProfile, "id">>) => void;
+  deleteProfile: (id: string) => void;
+}
+
+type SampleDataStore = SampleDataState & SampleDataActions;
+
+// ============ Default Profiles ============
+
+const defaultProfiles: SampleDataProfile[] = [
+  {
+    id: "new-user",
+    name: "New user",
+    data: {
+      first_name: "Alex",
+      last_name: "Morgan",
+      email: "alex@example.com",
+      company: "Acme Inc.",
+      plan: "free",
+      unsubscribe_url: "https://example.com/unsubscribe",
+      order: {
+        items: [
+          { name: "Starter Kit", quantity: 1, price: "$19.00" },
+          { name: "Refill Pack", quantity: 2, price: "$9.50" },
+        ],
+      },
+    },
+  },
+  {
+    id: "vip-long-name",
+    name: "VIP with long name",
+    data: {
+      first_name: "Maximiliana-Alexandrina",
+      last_name: "Vandenberghe-Oppenheimer",
+      email: "maximiliana.vandenberghe-oppenheimer@enterprise-holdings.example.com",
+      company: "International Consolidated Enterprise Holdings & Partners Ltd.",
+      plan: "vip",
+      unsubscribe_url: "https://example.com/unsubscribe",
+    },
+  },
+  {
+    id: "missing-fields",
+    name: "Missing fields",
+    data: {
+      email: "someone@example.com",
+    },
+  },
+];
+
+// ============ Store Creation ============
+
+export const useSampleDataStore = create<SampleDataStore>()(
+  persist(
+    (set) => ({
+      profiles: defaultProfiles,
+      activeProfileId: null,
+
+      setActiveProfile: (id) => set({ activeProfileId: id }),
+
+      addProfile: (name = "New profile", data = {}) => {
+        const id = generateId();
+        set((state) => ({ profiles: [...state.profiles, { id, name, data }] }));
+        return id;
+      },
+
+      updateProfile: (id, updates) =>
+        set((state) => ({
+          profiles: state.profiles.map((p) => (p.id === id ? { ...p, ...updates } : p)),
+        })),
+
+      deleteProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+        })),
+    }),
+    {
+      name: "mail-studio-sample-data",
+    }
+  )
+);
+
+// ============ Selectors ============
+
+export const selectProfiles = (state: SampleDataStore) => state.profiles;
+export const selectActiveProfileId = (state: SampleDataStore) => state.activeProfileId;
+
+// ============ Derived State Hooks ============
+
+// Get the profile currently applied to previews and test sends
+export function useActiveSampleProfile(): SampleDataProfile | null {
+  return useSampleDataStore((s) => s.profiles.find((p) => p.id === s.activeProfileId) ?? null);
+}
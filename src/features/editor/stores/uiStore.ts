@@ -30,6 +30,11 @@ interface UIState {
   // Mobile panel state
   isSidebarOpen: boolean;
   isPropertiesOpen: boolean;
+
+  // Autosave recovery - timestamp of the restored snapshot, null when nothing was recovered
+  recoveredAt: number | null;
+  // Why the last session could not be restored, null when it was
+  restoreError: string | null;
 }
 
 interface UIActions {
@@ -49,6 +54,8 @@ interface UIActions {
   setPropertiesOpen: (open: boolean) => void;
   toggleSidebar: () => void;
   toggleProperties: () => void;
+  setRecoveredAt: (timestamp: number | null) => void;
+  setRestoreError: (error: string | null) => void;
 }
 
 type UIStore = UIState & UIActions;
@@ -71,6 +78,8 @@ export const useUIStore = create<UIStore>()(
       dragOverId: null,
       isSidebarOpen: false,
       isPropertiesOpen: false,
+      recoveredAt: null,
+      restoreError: null,
 
       // Actions
       setLeftPanelWidth: (width) => set({ leftPanelWidth: width }),
@@ -90,6 +99,8 @@ export const useUIStore = create<UIStore>()(
       setPropertiesOpen: (open) => set({ isPropertiesOpen: open }),
       toggleSidebar: () => set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
       toggleProperties: () => set((state) => ({ isPropertiesOpen: !state.isPropertiesOpen })),
+      setRecoveredAt: (timestamp) => set({ recoveredAt: timestamp }),
+      setRestoreError: (error) => set({ restoreError: error }),
     }),
     {
       name: "mail-studio-ui-v3",
@@ -110,6 +121,8 @@ export const selectIsDraggingNewComponent = (state: UIStore) => state.isDragging
 export const selectActiveTab = (state: UIStore) => state.activeTab;
 export const selectIsSidebarOpen = (state: UIStore) => state.isSidebarOpen;
 export const selectIsPropertiesOpen = (state: UIStore) => state.isPropertiesOpen;
+export const selectRecoveredAt = (state: UIStore) => state.recoveredAt;
+export const selectRestoreError = (state: UIStore) => state.restoreError;
 
 // ============ Derived State Hooks ============
 
@@ -0,0 +1,86 @@
+/**
+ * Versions Store - Named version history of the active library document
+ */
+
+import { create } from "zustand";
+import type { DocumentVersion } from "@/features/editor/types";
+import { generateId } from "@/features/editor/lib/mjml/schema";
+import { listVersions, putVersion, deleteVersion } from "@/features/editor/lib/storage";
+import { useEditorStore } from "./editorStore";
+import { useDocumentsStore } from "./documentsStore";
+
+// ============ State Types ============
+
+interface VersionsState {
+  // Document the loaded versions belong to
+  documentId: string | null;
+  versions: DocumentVersion[];
+}
+
+interface VersionsActions {
+  loadVersions: (documentId: string) => Promise<void>;
+  // Snapshot the editor's current document under a name
+  saveVersion: (name: string) => Promise<void>;
+  // Replace the editor's document with a version (undoable)
+  restoreVersion: (id: string) => void;
+  deleteVersion: (id: string) => Promise<void>;
+}
+
+type VersionsStore = VersionsState & VersionsActions;
+
+// ============ Store Creation ============
+
+export const useVersionsStore = create<VersionsStore>()((set, get) => ({
+  documentId: null,
+  versions: [],
+
+  loadVersions: async (documentId) => {
+    set({ documentId, versions: [] });
+    const versions = await listVersions(documentId);
+    // Ignore results for a document that is no longer active
+    if (get().documentId === documentId) {
+      set({ versions });
+    }
+  },
+
+  saveVersion: async (name) => {
+    const documentId = useDocumentsStore.getState().activeDocumentId;
+    const trimmed = name.trim();
+    if (!documentId || !trimmed) return;
+
+    const { document, headSettings } = useEditorStore.getState();
+    const version: DocumentVersion = {
+      id: generateId(),
+      documentId,
+      name: trimmed,
+      document,
+      headSettings,
+      createdAt: Date.now(),
+    };
+
+    if (get().documentId === documentId) {
+      set({ versions: [version, ...get().versions] });
+    }
+    await putVersion(version);
+  },
+
+  restoreVersion: (id) => {
+    const version = get().versions.find((v) => v.id === id);
+    if (!version) return;
+
+    useEditorStore.getState().restoreSnapshot({
+      document: version.document,
+      headSettings: version.headSettings,
+      selectedId: null,
+    });
+  },
+
+  deleteVersion: async (id) => {
+    set({ versions: get().versions.filter((v) => v.id !== id) });
+    await deleteVersion(id);
+  },
+}));
+
+// ============ Selectors ============
+
+export const selectVersions = (state: VersionsStore) => state.versions;
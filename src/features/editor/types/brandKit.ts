@@ -0,0 +1,30 @@
+/**
+ * Brand kit types - design tokens shared by every email
+ */
+
+// Named value, e.g. a "Primary" color or a "Body" font stack
+export interface BrandToken {
+  id: string;
+  name: string;
+  value: string;
+}
+
+// Set of button props applied together ("Primary", "Outline", ...)
+export interface BrandButtonStyle {
+  id: string;
+  name: string;
+  props: Record<string, string>;
+}
+
+export type BrandTokenGroup = "colors" | "fonts" | "spacing";
+
+export interface BrandKit {
+  // Emails bound to the kit record it as headSettings.brandKitId
+  id: string;
+  colors: BrandToken[];
+  // Font stacks; the first one is the email's default font
+  fonts: BrandToken[];
+  spacing: BrandToken[];
+  // The first one is the style new buttons use
+  buttonStyles: BrandButtonStyle[];
+}
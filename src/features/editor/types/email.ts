@@ -0,0 +1,51 @@
+/**
+ * Email sending types - delivery providers and message fields beyond from / to / subject / html
+ */
+
+// HTTP API providers available in addition to Resend and SMTP
+export type ApiProvider = "postmark" | "sendgrid" | "mailgun" | "ses";
+
+// "local" captures messages in the offline mailbox instead of sending them
+export type SendMode = "test" | "local" | "resend" | "smtp" | ApiProvider;
+
+// Credentials for an API provider; which fields are used depends on the provider
+export interface ApiCredentials {
+  // Postmark server token, SendGrid / Mailgun API key, or SES access key ID
+  apiKey: string;
+  // SES secret access key
+  secretKey?: string;
+  // Mailgun sending domain
+  domain?: string;
+  // Mailgun region ("us" or "eu"), or SES region
+  region?: string;
+}
+
+// A sender profile configured on the server; its credentials stay there
+export interface SenderProfileSummary {
+  id: string;
+  name: string;
+  mode: SendMode;
+  // Default sender address
+  from?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64-encoded file content
+  content: string;
+  contentType?: string;
+  // Decoded size in bytes
+  size: number;
+  // Content-ID of an inline image, referenced in the HTML as <img src="cid:...">
+  cid?: string;
+}
+
+// Optional fields sent along with a message
+export interface EmailExtras {
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
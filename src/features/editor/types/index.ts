@@ -6,8 +6,14 @@
 export type {
   MJMLComponentType,
   EditorNode,
+  ConditionOperator,
+  NodeCondition,
+  NodeRepeat,
+  BlockLink,
   DefaultChildNode,
   FontDefinition,
+  TextDirection,
+  UtmSettings,
   HeadSettings,
   Template,
 } from "./node";
@@ -27,3 +33,42 @@ export type {
 
 // UI types
 export type { EditorMode, PreviewMode, SidebarTab, DragItem } from "./ui";
+
+// Persistence types
+export type {
+  EditorSnapshot,
+  AutosaveSnapshot,
+  SavedDocument,
+  DocumentVersion,
+  SavedBlock,
+} from "./storage";
+
+// Brand kit types
+export type { BrandToken, BrandButtonStyle, BrandTokenGroup, BrandKit } from "./brandKit";
+
+// Sample data types
+export type { SampleData, SampleDataProfile } from "./sampleData";
+
+// Email sending types
+export type {
+  ApiProvider,
+  SendMode,
+  ApiCredentials,
+  SenderProfileSummary,
+  EmailAttachment,
+  EmailExtras,
+} from "./email";
+
+// Outbox types
+export type { OutboxSendMode, OutboxStatus, OutboxRecipient, OutboxEntry } from "./outbox";
+
+// Scheduled send types
+export type {
+  ScheduledSendStatus,
+  ScheduledSendResult,
+  ScheduledSend,
+  ScheduledSendDetails,
+} from "./schedule";
+
+// Local mailbox types
+export type { CapturedAttachment, CapturedMessage, CapturedMessageSummary } from "./mailbox";
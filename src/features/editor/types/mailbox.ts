@@ -0,0 +1,39 @@
+/**
+ * Local mailbox types - messages captured by the "local" send mode (see /api/mailbox)
+ */
+
+export interface CapturedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  cid?: string;
+  // Base64-encoded file content
+  content: string;
+}
+
+export interface CapturedMessage {
+  id: string;
+  // ISO 8601 timestamp
+  receivedAt: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  headers: { name: string; value: string }[];
+  attachments: CapturedAttachment[];
+  // Complete RFC 822 message
+  raw: string;
+}
+
+export interface CapturedMessageSummary {
+  id: string;
+  receivedAt: string;
+  from: string;
+  to: string[];
+  subject: string;
+  attachmentCount: number;
+}
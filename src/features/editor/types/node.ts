@@ -32,6 +32,38 @@ export type MJMLComponentType =
   | "mj-social"
   | "mj-social-element";
 
+// Comparison used by a display condition
+export type ConditionOperator =
+  | "is-set"
+  | "is-not-set"
+  | "equals"
+  | "not-equals"
+  | "contains"
+  | "greater-than"
+  | "less-than";
+
+// Display condition - e.g. show only when `plan` equals "vip"
+export interface NodeCondition {
+  variable: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+// Repeat binding - render the node once per item of a list, e.g. `item in order.items`
+export interface NodeRepeat {
+  // Variable holding the list
+  source: string;
+  // Name each item is available under inside the node
+  alias: string;
+}
+
+// Link from a synced instance to the saved block it was inserted from
+export interface BlockLink {
+  blockId: string;
+  // Block version (its updatedAt) the instance content was last synced to
+  syncedAt: number;
+}
+
 // Editor Node - represents a single MJML component in the editor
 export interface EditorNode {
   id: string;
@@ -44,6 +76,16 @@ export interface EditorNode {
    * Used for template regions that should remain unchanged.
    */
   locked?: boolean;
+  /** Only render this node when the condition holds for the recipient's data. */
+  condition?: NodeCondition;
+  /** Render this node once per item of a list variable. */
+  repeat?: NodeRepeat;
+  /** Name shown in the layers panel instead of the component name. */
+  label?: string;
+  /** Synced instance of a saved block; updated when the block changes. */
+  block?: BlockLink;
+  /** Brand kit token each of these props comes from, by prop key. */
+  tokens?: Record<string, string>;
 }
 
 // Default child node definition (without id, recursive)
@@ -60,6 +102,16 @@ export interface FontDefinition {
   href: string;
 }
 
+// UTM parameters added to web links when the email is exported or sent
+export interface UtmSettings {
+  enabled: boolean;
+  source: string;
+  medium: string;
+  campaign: string;
+}
+
+export type TextDirection = "ltr" | "rtl" | "auto";
+
 // Head Settings for mj-head components
 export interface HeadSettings {
   title?: string;
@@ -67,6 +119,14 @@ export interface HeadSettings {
   fonts?: FontDefinition[];
   styles?: string;
   breakpoint?: string;
+  // Language and text direction of the content (<html lang dir>)
+  lang?: string;
+  dir?: TextDirection;
+  utm?: UtmSettings;
+  // Hand-edited plain-text version (generated from the document when unset)
+  plainText?: string;
+  // Brand kit the props' token bindings refer to (see BrandKit)
+  brandKitId?: string;
 }
 
 // Template
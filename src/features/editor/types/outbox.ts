@@ -0,0 +1,47 @@
+/**
+ * Outbox types - log of send attempts
+ */
+
+import type { EmailExtras, SendMode } from "./email";
+import type { SampleData } from "./sampleData";
+
+export type OutboxSendMode = SendMode;
+
+// "partial" when some recipients of a bulk send failed
+export type OutboxStatus = "sent" | "partial" | "failed";
+
+// Outcome for one recipient
+export interface OutboxRecipient {
+  to: string;
+  success: boolean;
+  messageId?: string;
+  // Ethereal web preview of the message (test mode only)
+  previewUrl?: string | null;
+  error?: string;
+  // Template variables of a bulk recipient, kept so the send can be repeated
+  data?: SampleData;
+}
+
+// One send attempt from the send dialog
+export interface OutboxEntry {
+  id: string;
+  // Unix timestamp (ms) of the attempt
+  createdAt: number;
+  mode: OutboxSendMode;
+  from?: string;
+  subject: string;
+  // HTML that was sent; for bulk sends the template rendered per recipient
+  html: string;
+  // Plain-text version, a template like html for bulk sends
+  text?: string;
+  bulk: boolean;
+  // CC / BCC / Reply-To, headers, and attachments
+  extras?: EmailExtras;
+  // Bulk throttling settings, reused on resend
+  bulkOptions?: { concurrency: number; intervalMs: number };
+  status: OutboxStatus;
+  // Error of the whole request (e.g. invalid credentials)
+  error?: string;
+  recipients: OutboxRecipient[];
+  realDelivery: boolean;
+}
@@ -0,0 +1,13 @@
+/**
+ * Sample data types for previewing merge tags
+ */
+
+// JSON values available to merge tags, e.g. { first_name: "Ada", user: { plan: "pro" } }
+export type SampleData = Record<string, unknown>;
+
+// Named set of test data ("New user", "VIP with long name", ...)
+export interface SampleDataProfile {
+  id: string;
+  name: string;
+  data: SampleData;
+}
@@ -0,0 +1,46 @@
+/**
+ * Scheduled send types - emails queued on the server for a later time
+ */
+
+import type { SendMode } from "./email";
+import type { OutboxRecipient } from "./outbox";
+import type { SampleData } from "./sampleData";
+
+// 'sending' while in progress; 'partial' when some recipients of a bulk send failed
+export type ScheduledSendStatus = "scheduled" | "sending" | "sent" | "partial" | "failed";
+
+export interface ScheduledSendResult {
+  sent: number;
+  failed: number;
+  realDelivery: boolean;
+  messageId?: string;
+  previewUrl?: string | null;
+  // Bulk sends, one result per recipient
+  results?: OutboxRecipient[];
+}
+
+export interface ScheduledSend {
+  id: string;
+  // ISO 8601 timestamps
+  createdAt: string;
+  updatedAt: string;
+  sendAt: string;
+  status: ScheduledSendStatus;
+  mode: SendMode;
+  // Sender profile used for delivery, if any
+  profileId?: string;
+  subject: string;
+  bulk: boolean;
+  recipientCount: number;
+  // First recipients
+  to: string[];
+  result?: ScheduledSendResult;
+  error?: string;
+}
+
+// Scheduled send with the content frozen when it was scheduled
+export interface ScheduledSendDetails extends ScheduledSend {
+  email: { from?: string; subject: string; html: string; text?: string };
+  // Variables of the first bulk recipient, to preview the template
+  previewData?: SampleData;
+}
@@ -0,0 +1,53 @@
+/**
+ * Persistence types
+ */
+
+import type { EditorNode, HeadSettings } from "./node";
+
+// Editable state of a single email
+export interface EditorSnapshot {
+  document: EditorNode;
+  headSettings: HeadSettings;
+  selectedId: string | null;
+}
+
+// Snapshot of the working document stored by autosave
+export interface AutosaveSnapshot extends EditorSnapshot {
+  // Library document the working copy belongs to
+  documentId: string | null;
+  // Unix timestamp (ms) of when the snapshot was written
+  savedAt: number;
+}
+
+// Email saved in the "My Emails" library
+export interface SavedDocument {
+  id: string;
+  name: string;
+  document: EditorNode;
+  headSettings: HeadSettings;
+  // Compiled HTML used to render the list thumbnail
+  thumbnailHtml?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Named snapshot of a library document ("v3 - legal approved")
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  name: string;
+  document: EditorNode;
+  headSettings: HeadSettings;
+  createdAt: number;
+}
+
+// Node subtree saved to the "Saved blocks" library for reuse across emails
+export interface SavedBlock {
+  id: string;
+  name: string;
+  category: string;
+  // Master content; synced instances are replaced with a copy when it changes
+  node: EditorNode;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -2,6 +2,8 @@
  * UI state types
  */
 
+import type { SavedBlock } from "./storage";
+
 // Editor view modes
 export type EditorMode = "canvas" | "edit" | "preview" | "code";
 
@@ -9,15 +11,18 @@ export type EditorMode = "canvas" | "edit" | "preview" | "code";
 export type PreviewMode = "desktop" | "mobile";
 
 // Sidebar tabs
-export type SidebarTab = "components" | "templates";
+export type SidebarTab = "components" | "templates" | "documents" | "blocks" | "layers" | "issues";
 
 // Drag item type
 export interface DragItem {
-  type: "new-component" | "existing-node";
+  type: "new-component" | "saved-block" | "existing-node";
   componentType?: string;
   nodeId?: string;
   nodeType?: string;
   parentId?: string;
   parentAcceptTypes?: string[];
   index?: number;
+  // Saved block being inserted, and whether as a synced instance
+  block?: SavedBlock;
+  synced?: boolean;
 }
@@ -0,0 +1,11 @@
+/**
+ * Server startup - resume the scheduled send queue
+ */
+
+export async function register() {
+  // The scheduler uses Node.js APIs (file system, SMTP)
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/server/schedule");
+    startScheduler();
+  }
+}
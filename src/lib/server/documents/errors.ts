@@ -0,0 +1,22 @@
+/**
+ * Document storage errors
+ */
+
+export class DocumentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Document "${id}" not found`);
+    this.name = "DocumentNotFoundError";
+  }
+}
+
+export class RevisionConflictError extends Error {
+  readonly currentRevision: number;
+
+  constructor(id: string, expectedRevision: number, currentRevision: number) {
+    super(
+      `Document "${id}" was modified by someone else (expected revision ${expectedRevision}, current revision ${currentRevision})`
+    );
+    this.name = "RevisionConflictError";
+    this.currentRevision = currentRevision;
+  }
+}
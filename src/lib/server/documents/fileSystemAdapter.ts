@@ -0,0 +1,131 @@
+/**
+ * File system storage adapter - one JSON file per document
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DocumentNotFoundError, RevisionConflictError } from "./errors";
+import type {
+  CreateDocumentInput,
+  DocumentStorageAdapter,
+  StoredDocument,
+  StoredDocumentSummary,
+  UpdateDocumentInput,
+} from "./types";
+
+const EMPTY_HEAD_SETTINGS = { title: "", preview: "", fonts: [], styles: "", breakpoint: "" };
+
+export function createFileSystemAdapter(directory: string): DocumentStorageAdapter {
+  // Serializes read-modify-write cycles per document within this process
+  const locks = new Map<string, Promise<unknown>>();
+
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+
+  async function withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = locks.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    locks.set(id, next);
+    try {
+      return await next;
+    } finally {
+      if (locks.get(id) === next) locks.delete(id);
+    }
+  }
+
+  async function read(id: string): Promise<StoredDocument | null> {
+    try {
+      const raw = await readFile(filePath(id), "utf8");
+      return JSON.parse(raw) as StoredDocument;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // Write to a temporary file first so readers never see a partial document
+  async function write(doc: StoredDocument): Promise<void> {
+    await mkdir(directory, { recursive: true });
+    const tmpPath = `${filePath(doc.id)}.${randomUUID()}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(doc, null, 2), "utf8");
+    await rename(tmpPath, filePath(doc.id));
+  }
+
+  return {
+    async list() {
+      let entries: string[];
+      try {
+        entries = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const documents = await Promise.all(
+        entries.filter((name) => name.endsWith(".json")).map((name) => read(name.slice(0, -5)))
+      );
+
+      return documents
+        .filter((doc): doc is StoredDocument => doc !== null)
+        .map(
+          ({ id, name, revision, createdAt, updatedAt }): StoredDocumentSummary => ({
+            id,
+            name,
+            revision,
+            createdAt,
+            updatedAt,
+          })
+        )
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    get: read,
+
+    async create(input: CreateDocumentInput) {
+      const now = new Date().toISOString();
+      const doc: StoredDocument = {
+        id: randomUUID(),
+        name: input.name,
+        document: input.document,
+        headSettings: input.headSettings ?? EMPTY_HEAD_SETTINGS,
+        revision: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await write(doc);
+      return doc;
+    },
+
+    update(id: string, input: UpdateDocumentInput, expectedRevision: number) {
+      return withLock(id, async () => {
+        const current = await read(id);
+        if (!current) throw new DocumentNotFoundError(id);
+        if (current.revision !== expectedRevision) {
+          throw new RevisionConflictError(id, expectedRevision, current.revision);
+        }
+
+        const doc: StoredDocument = {
+          ...current,
+          name: input.name ?? current.name,
+          document: input.document ?? current.document,
+          headSettings: input.headSettings ?? current.headSettings,
+          revision: current.revision + 1,
+          updatedAt: new Date().toISOString(),
+        };
+        await write(doc);
+        return doc;
+      });
+    },
+
+    delete(id: string, expectedRevision?: number) {
+      return withLock(id, async () => {
+        const current = await read(id);
+        if (!current) throw new DocumentNotFoundError(id);
+        if (expectedRevision !== undefined && current.revision !== expectedRevision) {
+          throw new RevisionConflictError(id, expectedRevision, current.revision);
+        }
+        await rm(filePath(id), { force: true });
+      });
+    },
+  };
+}
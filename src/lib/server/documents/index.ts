@@ -0,0 +1,36 @@
+/**
+ * Server-side document storage
+ *
+ * Documents are stored as JSON files in DOCUMENTS_DIR (default: ./.data/documents).
+ * Another backend can be plugged in with setDocumentStorage().
+ */
+
+import path from "node:path";
+import { createFileSystemAdapter } from "./fileSystemAdapter";
+import type { DocumentStorageAdapter } from "./types";
+
+let storage: DocumentStorageAdapter | null = null;
+
+export function getDocumentStorage(): DocumentStorageAdapter {
+  if (!storage) {
+    const directory = process.env.DOCUMENTS_DIR || path.join(process.cwd(), ".data", "documents");
+    storage = createFileSystemAdapter(directory);
+  }
+  return storage;
+}
+
+// Replace the storage backend (e.g. a database adapter)
+export function setDocumentStorage(adapter: DocumentStorageAdapter): void {
+  storage = adapter;
+}
+
+export { createFileSystemAdapter } from "./fileSystemAdapter";
+export { DocumentNotFoundError, RevisionConflictError } from "./errors";
+export { isValidDocumentId, isEditorNode, isHeadSettings } from "./validation";
+export type {
+  StoredDocument,
+  StoredDocumentSummary,
+  CreateDocumentInput,
+  UpdateDocumentInput,
+  DocumentStorageAdapter,
+} from "./types";
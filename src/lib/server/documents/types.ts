@@ -0,0 +1,47 @@
+/**
+ * Server-side document storage types
+ */
+
+import type { EditorNode, HeadSettings } from "@/features/editor/types";
+
+// Document as persisted on the server
+export interface StoredDocument {
+  id: string;
+  name: string;
+  document: EditorNode;
+  headSettings: HeadSettings;
+  // Incremented on every update, used for optimistic concurrency
+  revision: number;
+  // ISO 8601 timestamps
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Document listing entry (without the document tree)
+export type StoredDocumentSummary = Omit<StoredDocument, "document" | "headSettings">;
+
+// Payload for creating a document
+export interface CreateDocumentInput {
+  name: string;
+  document: EditorNode;
+  headSettings?: HeadSettings;
+}
+
+// Payload for updating a document - omitted fields are left unchanged
+export interface UpdateDocumentInput {
+  name?: string;
+  document?: EditorNode;
+  headSettings?: HeadSettings;
+}
+
+/**
+ * Storage backend for documents.
+ * Implementations must reject stale writes with a RevisionConflictError.
+ */
+export interface DocumentStorageAdapter {
+  list(): Promise<StoredDocumentSummary[]>;
+  get(id: string): Promise<StoredDocument | null>;
+  create(input: CreateDocumentInput): Promise<StoredDocument>;
+  update(id: string, input: UpdateDocumentInput, expectedRevision: number): Promise<StoredDocument>;
+  delete(id: string, expectedRevision?: number): Promise<void>;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { isEditorNode, isHeadSettings, isValidDocumentId } from "./validation";
+
+describe("isValidDocumentId", () => {
+  it("allows only safe file name characters", () => {
+    expect(isValidDocumentId("abc_123-XYZ")).toBe(true);
+    expect(isValidDocumentId("../secrets")).toBe(false);
+    expect(isValidDocumentId("")).toBe(false);
+    expect(isValidDocumentId("a".repeat(65))).toBe(false);
+  });
+});
+
+describe("isEditorNode", () => {
+  const node = { id: "root", type: "mj-body", props: {}, children: [] };
+
+  it("accepts a valid tree", () => {
+    expect(
+      isEditorNode({
+        ...node,
+        children: [
+          {
+            id: "t",
+            type: "mj-text",
+            props: { color: "#000" },
+            content: "Hi",
+            condition: { variable: "plan", operator: "equals", value: "vip" },
+            repeat: { source: "items", alias: "item" },
+            tokens: { color: "primary" },
+          },
+        ],
+      })
+    ).toBe(true);
+  });
+
+  it("rejects invalid nodes anywhere in the tree", () => {
+    expect(isEditorNode({ ...node, type: "div" })).toBe(false);
+    expect(isEditorNode({ ...node, props: [] })).toBe(false);
+    expect(
+      isEditorNode({ ...node, children: [{ id: "t", type: "mj-text", props: {}, content: 1 }] })
+    ).toBe(false);
+    expect(
+      isEditorNode({ ...node, condition: { variable: "plan", operator: "matches", value: "x" } })
+    ).toBe(false);
+    expect(isEditorNode({ ...node, tokens: { color: 1 } })).toBe(false);
+  });
+});
+
+describe("isHeadSettings", () => {
+  const base = { title: "Hi", preview: "", styles: "", breakpoint: "" };
+
+  it("checks field types", () => {
+    expect(
+      isHeadSettings({
+        ...base,
+        dir: "rtl",
+        utm: { enabled: true, source: "a", medium: "b", campaign: "c" },
+        fonts: [{ name: "Inter", href: "https://fonts.test/inter.css" }],
+      })
+    ).toBe(true);
+    expect(isHeadSettings({ ...base, title: 1 })).toBe(false);
+    expect(isHeadSettings({ ...base, dir: "up" })).toBe(false);
+    expect(
+      isHeadSettings({ ...base, utm: { enabled: "yes", source: "", medium: "", campaign: "" } })
+    ).toBe(false);
+    expect(isHeadSettings({ ...base, fonts: [{ name: "Inter" }] })).toBe(false);
+  });
+
+  it("requires the base fields", () => {
+    expect(isHeadSettings({})).toBe(false);
+    expect(isHeadSettings({ title: "Hi" })).toBe(false);
+    expect(isHeadSettings({ ...base, breakpoint: undefined })).toBe(false);
+  });
+});
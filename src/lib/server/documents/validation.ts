@@ -0,0 +1,45 @@
+/**
+ * Request payload validation for the documents API
+ */
+
+import type { HeadSettings } from "@/features/editor/types";
+
+// Shared with the clipboard
+export { isEditorNode } from "@/features/editor/lib/tree/validation";
+
+// Document ids are used as file names, so keep them to a safe character set
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidDocumentId(id: string): boolean {
+  return DOCUMENT_ID_PATTERN.test(id);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isHeadSettings(value: unknown): value is HeadSettings {
+  if (!isRecord(value)) return false;
+  // The editor always saves these, so a partial object would blank them on update
+  const requiredKeys = ["title", "preview", "styles", "breakpoint"] as const;
+  if (requiredKeys.some((key) => typeof value[key] !== "string")) return false;
+  const optionalKeys = ["lang", "plainText", "brandKitId"] as const;
+  if (optionalKeys.some((key) => value[key] !== undefined && typeof value[key] !== "string")) {
+    return false;
+  }
+  if (value.dir !== undefined && !["ltr", "rtl", "auto"].includes(value.dir as string)) {
+    return false;
+  }
+  if (value.utm !== undefined) {
+    if (!isRecord(value.utm) || typeof value.utm.enabled !== "boolean") return false;
+    const { source, medium, campaign } = value.utm;
+    if (![source, medium, campaign].every((param) => typeof param === "string")) return false;
+  }
+  if (value.fonts !== undefined) {
+    if (!Array.isArray(value.fonts)) return false;
+    return value.fonts.every(
+      (font) => isRecord(font) && typeof font.name === "string" && typeof font.href === "string"
+    );
+  }
+  return true;
+}
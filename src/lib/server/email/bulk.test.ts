@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { personalizeMessage, sendBulk } from "./bulk";
+import type { EmailMessage, EmailSender, EmailTemplate } from "./types";
+
+const template: EmailTemplate = {
+  from: "news@x.test",
+  subject: "Hi {{first_name|there}}",
+  html: "<p>Hello {{first_name}}</p>",
+  headers: { "List-Unsubscribe": "<{{unsubscribe_url}}>" },
+};
+
+function fakeSender(fail: (message: EmailMessage) => boolean = () => false) {
+  const sent: EmailMessage[] = [];
+  const sender: EmailSender = {
+    mode: "test",
+    async send(message) {
+      if (fail(message)) throw new Error("Rejected");
+      sent.push(message);
+      return { messageId: `id-${sent.length}`, previewUrl: null, realDelivery: false };
+    },
+  };
+  return { sender, sent };
+}
+
+describe("personalizeMessage", () => {
+  it("renders the subject, body and headers and reports missing variables", () => {
+    const { message, missing } = personalizeMessage(template, {
+      to: "ada@x.test",
+      data: { first_name: "Ada" },
+    });
+
+    expect(message.to).toBe("ada@x.test");
+    expect(message.subject).toBe("Hi Ada");
+    expect(message.html).toBe("<p>Hello Ada</p>");
+    expect(message.headers).toEqual({ "List-Unsubscribe": "<{{unsubscribe_url}}>" });
+    expect(missing).toEqual(["unsubscribe_url"]);
+  });
+});
+
+describe("sendBulk", () => {
+  it("returns results in recipient order and keeps going after a failure", async () => {
+    const { sender, sent } = fakeSender((message) => message.to === "bad@x.test");
+    const recipients = ["a@x.test", "bad@x.test", "c@x.test"].map((to) => ({ to, data: {} }));
+    const reported: number[] = [];
+
+    const results = await sendBulk(
+      sender,
+      template,
+      recipients,
+      { concurrency: 2, intervalMs: 0 },
+      (_, index) => reported.push(index)
+    );
+
+    expect(results.map((result) => [result.to, result.success])).toEqual([
+      ["a@x.test", true],
+      ["bad@x.test", false],
+      ["c@x.test", true],
+    ]);
+    expect(results[1].error).toBe("Rejected");
+    expect(sent).toHaveLength(2);
+    expect(reported.sort()).toEqual([0, 1, 2]);
+  });
+});
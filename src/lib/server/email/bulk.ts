@@ -0,0 +1,110 @@
+/**
+ * Bulk sending - render one personalized message per recipient and send them
+ * with a concurrency limit and a minimum interval between sends
+ */
+
+import { renderMergeTags } from "@/features/editor/lib/merge-tags/render";
+import { renderTemplate } from "@/features/editor/lib/merge-tags/template";
+import type {
+  BulkRecipient,
+  BulkSendOptions,
+  BulkSendResult,
+  EmailMessage,
+  EmailSender,
+  EmailTemplate,
+} from "./types";
+
+export const MAX_BULK_RECIPIENTS = 1000;
+export const MAX_BULK_CONCURRENCY = 10;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Render the subject and compiled templates (see compileTemplate) for one recipient
+export function personalizeMessage(
+  template: EmailTemplate,
+  recipient: BulkRecipient
+): { message: EmailMessage; missing: string[] } {
+  const subject = renderMergeTags(template.subject, recipient.data);
+  const html = renderTemplate(template.html, recipient.data);
+  const text = template.text
+    ? renderTemplate(template.text, recipient.data, { format: "text" })
+    : undefined;
+
+  // Header values may hold per-recipient links, e.g. List-Unsubscribe: <{{unsubscribe_url}}>
+  const headerMissing: string[] = [];
+  const headers = template.headers
+    ? Object.fromEntries(
+        Object.entries(template.headers).map(([name, value]) => {
+          const rendered = renderMergeTags(value, recipient.data);
+          headerMissing.push(...rendered.missing);
+          return [name, rendered.output];
+        })
+      )
+    : undefined;
+
+  return {
+    message: {
+      ...template,
+      to: recipient.to,
+      subject: subject.output,
+      html: html.output,
+      text: text?.output,
+      headers,
+    },
+    missing: Array.from(
+      new Set([...subject.missing, ...html.missing, ...(text?.missing ?? []), ...headerMissing])
+    ),
+  };
+}
+
+// Send to every recipient. Failures are reported per recipient and never stop the batch.
+// Results are returned in recipient order; onResult is called as each one finishes.
+export async function sendBulk(
+  sender: EmailSender,
+  template: EmailTemplate,
+  recipients: BulkRecipient[],
+  { concurrency, intervalMs }: BulkSendOptions,
+  onResult?: (result: BulkSendResult, index: number) => void
+): Promise<BulkSendResult[]> {
+  const results: BulkSendResult[] = new Array(recipients.length);
+  const workerCount = Math.min(Math.max(1, concurrency), MAX_BULK_CONCURRENCY, recipients.length);
+  let nextIndex = 0;
+  let nextStartAt = Date.now();
+
+  // Reserve the next send slot so starts are at least intervalMs apart across workers
+  const throttle = async () => {
+    const startAt = Math.max(Date.now(), nextStartAt);
+    nextStartAt = startAt + Math.max(0, intervalMs);
+    await wait(startAt - Date.now());
+  };
+
+  const worker = async () => {
+    while (nextIndex < recipients.length) {
+      const index = nextIndex++;
+      const recipient = recipients[index];
+      await throttle();
+
+      try {
+        const { message, missing } = personalizeMessage(template, recipient);
+        const result = await sender.send(message);
+        results[index] = {
+          to: recipient.to,
+          success: true,
+          messageId: result.messageId,
+          previewUrl: result.previewUrl,
+          missing,
+        };
+      } catch (error) {
+        results[index] = {
+          to: recipient.to,
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to send email",
+        };
+      }
+      onResult?.(results[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
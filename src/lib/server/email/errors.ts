@@ -0,0 +1,19 @@
+/**
+ * Email sending errors
+ */
+
+// The request is missing or has invalid transport settings
+export class EmailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailConfigError";
+  }
+}
+
+// The provider refused the message (e.g. unverified sender, invalid recipient)
+export class EmailRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailRejectedError";
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Server-side email sending
+ */
+
+export { createEmailSender, EMAIL_PROVIDERS } from "./transport";
+export { sendBulk, personalizeMessage, MAX_BULK_RECIPIENTS, MAX_BULK_CONCURRENCY } from "./bulk";
+export { EmailConfigError, EmailRejectedError } from "./errors";
+export {
+  validateMessageFields,
+  toAddressList,
+  isBulkRecipient,
+  MAX_ATTACHMENTS_BYTES,
+} from "./validation";
+export type {
+  ApiProvider,
+  ApiCredentials,
+  SendMode,
+  SmtpSettings,
+  TransportConfig,
+  EmailAttachment,
+  EmailMessage,
+  EmailTemplate,
+  SendResult,
+  EmailSender,
+  EmailProvider,
+  BulkRecipient,
+  BulkSendOptions,
+  BulkSendResult,
+} from "./types";
@@ -0,0 +1,11 @@
+/**
+ * Email provider adapters
+ */
+
+export { etherealProvider, smtpProvider } from "./smtp";
+export { localProvider } from "./local";
+export { resendProvider } from "./resend";
+export { postmarkProvider } from "./postmark";
+export { sendgridProvider } from "./sendgrid";
+export { mailgunProvider } from "./mailgun";
+export { sesProvider } from "./ses";
@@ -0,0 +1,73 @@
+/**
+ * Local provider - captures messages in the local mailbox instead of sending them
+ *
+ * Works offline; captured messages are listed by /api/mailbox.
+ */
+
+import MailComposer from "nodemailer/lib/mail-composer";
+import { getMailboxStorage, type CapturedHeader } from "@/lib/server/mailbox";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { toNodemailerMessage } from "./smtp";
+
+const DEFAULT_FROM = "Mail Studio <mail-studio@localhost>";
+
+// Read the header block of a raw message, unfolding continuation lines
+function parseHeaders(raw: string): CapturedHeader[] {
+  const end = raw.indexOf("\r\n\r\n");
+  return raw
+    .slice(0, end === -1 ? raw.length : end)
+    .replace(/\r\n[ \t]+/g, " ")
+    .split("\r\n")
+    .map((line) => {
+      const separator = line.indexOf(":");
+      return { name: line.slice(0, separator), value: line.slice(separator + 1).trim() };
+    })
+    .filter((header) => header.name);
+}
+
+export const localProvider: EmailProvider = {
+  mode: "local",
+  name: "Local inbox",
+  createSender() {
+    const mailbox = getMailboxStorage();
+
+    return {
+      mode: "local",
+      async send(message) {
+        const from = message.from || DEFAULT_FROM;
+        const mime = new MailComposer(toNodemailerMessage(message, from)).compile();
+        // Keep Bcc in the captured copy so it can be inspected
+        mime.keepBcc = true;
+        const raw = (await mime.build()).toString("utf8");
+
+        const captured = await mailbox.add({
+          from,
+          to: toAddressList(message.to),
+          cc: toAddressList(message.cc),
+          bcc: toAddressList(message.bcc),
+          replyTo: toAddressList(message.replyTo),
+          subject: message.subject,
+          html: message.html,
+          text: message.text || undefined,
+          headers: parseHeaders(raw),
+          attachments: (message.attachments ?? []).map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType || "application/octet-stream",
+            size: Buffer.from(attachment.content, "base64").length,
+            cid: attachment.cid,
+            content: attachment.content,
+          })),
+          raw,
+        });
+
+        return {
+          messageId: captured.id,
+          response: "Captured in the local mailbox",
+          previewUrl: null,
+          realDelivery: false,
+        };
+      },
+    };
+  },
+};
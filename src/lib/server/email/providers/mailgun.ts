@@ -0,0 +1,77 @@
+/**
+ * Mailgun provider - Mailgun messages API
+ * https://documentation.mailgun.com/docs/mailgun/api-reference/openapi-final/tag/Messages/
+ */
+
+import { EmailConfigError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { apiBaseUrl, optionalList, requestJson, requireFrom } from "./shared";
+
+interface MailgunResponse {
+  id?: string;
+  message?: string;
+}
+
+export const mailgunProvider: EmailProvider = {
+  mode: "mailgun",
+  name: "Mailgun",
+  createSender(config) {
+    const apiKey = config.api?.apiKey;
+    const domain = config.api?.domain?.trim();
+    if (!apiKey) {
+      throw new EmailConfigError("Missing Mailgun API key");
+    }
+    if (!domain) {
+      throw new EmailConfigError("Missing Mailgun sending domain");
+    }
+
+    // Domains created in the EU region are only served by the EU endpoint
+    const baseUrl = apiBaseUrl(
+      "mailgun",
+      config.api?.region === "eu" ? "https://api.eu.mailgun.net" : "https://api.mailgun.net"
+    );
+    const authorization = `Basic ${Buffer.from(`api:${apiKey}`).toString("base64")}`;
+
+    return {
+      mode: "mailgun",
+      async send(message) {
+        const form = new FormData();
+        form.append("from", requireFrom(message));
+        toAddressList(message.to).forEach((address) => form.append("to", address));
+        optionalList(message.cc)?.forEach((address) => form.append("cc", address));
+        optionalList(message.bcc)?.forEach((address) => form.append("bcc", address));
+        form.append("subject", message.subject);
+        form.append("html", message.html);
+        if (message.text) form.append("text", message.text);
+
+        const replyTo = optionalList(message.replyTo);
+        if (replyTo) form.append("h:Reply-To", replyTo.join(", "));
+        Object.entries(message.headers ?? {}).forEach(([name, value]) =>
+          form.append(`h:${name}`, value)
+        );
+
+        message.attachments?.forEach((attachment) => {
+          const file = new Blob([Buffer.from(attachment.content, "base64")], {
+            type: attachment.contentType || "application/octet-stream",
+          });
+          // Inline images are referenced by their file name, so it carries the content ID
+          if (attachment.cid) {
+            form.append("inline", file, attachment.cid);
+          } else {
+            form.append("attachment", file, attachment.filename);
+          }
+        });
+
+        const { body } = await requestJson<MailgunResponse>(
+          "Mailgun",
+          `${baseUrl}/v3/${encodeURIComponent(domain)}/messages`,
+          { method: "POST", headers: { Authorization: authorization }, body: form },
+          (response) => response.message
+        );
+
+        return { messageId: body.id, previewUrl: null, realDelivery: true };
+      },
+    };
+  },
+};
@@ -0,0 +1,69 @@
+/**
+ * Postmark provider - Postmark email API
+ * https://postmarkapp.com/developer/api/email-api
+ */
+
+import { EmailConfigError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { apiBaseUrl, optionalList, requestJson, requireFrom } from "./shared";
+
+interface PostmarkResponse {
+  MessageID?: string;
+  Message?: string;
+}
+
+export const postmarkProvider: EmailProvider = {
+  mode: "postmark",
+  name: "Postmark",
+  createSender(config) {
+    const token = config.api?.apiKey;
+    if (!token) {
+      throw new EmailConfigError("Missing Postmark server token");
+    }
+
+    const baseUrl = apiBaseUrl("postmark", "https://api.postmarkapp.com");
+
+    return {
+      mode: "postmark",
+      async send(message) {
+        const { body } = await requestJson<PostmarkResponse>(
+          "Postmark",
+          `${baseUrl}/email`,
+          {
+            method: "POST",
+            headers: {
+              Accept: "application/json",
+              "Content-Type": "application/json",
+              "X-Postmark-Server-Token": token,
+            },
+            body: JSON.stringify({
+              From: requireFrom(message),
+              To: toAddressList(message.to).join(", "),
+              Cc: optionalList(message.cc)?.join(", "),
+              Bcc: optionalList(message.bcc)?.join(", "),
+              ReplyTo: optionalList(message.replyTo)?.join(", "),
+              Subject: message.subject,
+              HtmlBody: message.html,
+              TextBody: message.text || undefined,
+              Headers: Object.entries(message.headers ?? {}).map(([Name, Value]) => ({
+                Name,
+                Value,
+              })),
+              Attachments: message.attachments?.map((attachment) => ({
+                Name: attachment.filename,
+                Content: attachment.content,
+                ContentType: attachment.contentType || "application/octet-stream",
+                ContentID: attachment.cid ? `cid:${attachment.cid}` : undefined,
+              })),
+              MessageStream: "outbound",
+            }),
+          },
+          (response) => response.Message
+        );
+
+        return { messageId: body.MessageID, previewUrl: null, realDelivery: true };
+      },
+    };
+  },
+};
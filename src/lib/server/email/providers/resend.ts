@@ -0,0 +1,52 @@
+/**
+ * Resend provider - Resend SDK
+ */
+
+import { Resend } from "resend";
+import { EmailConfigError, EmailRejectedError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { optionalList } from "./shared";
+
+export const resendProvider: EmailProvider = {
+  mode: "resend",
+  name: "Resend",
+  createSender(config) {
+    if (!config.resendApiKey) {
+      throw new EmailConfigError("Missing Resend API Key");
+    }
+
+    const resend = new Resend(config.resendApiKey);
+
+    return {
+      mode: "resend",
+      async send(message) {
+        const { data, error } = await resend.emails.send({
+          // Use Resend's default from address if not provided
+          from: message.from || "Mail Studio <onboarding@resend.dev>",
+          to: toAddressList(message.to),
+          cc: optionalList(message.cc),
+          bcc: optionalList(message.bcc),
+          replyTo: optionalList(message.replyTo),
+          subject: message.subject,
+          html: message.html,
+          text: message.text || undefined,
+          headers: message.headers,
+          attachments: message.attachments?.map((attachment) => ({
+            filename: attachment.filename,
+            content: attachment.content,
+            contentType: attachment.contentType,
+            // Attachments with a content ID are sent inline
+            contentId: attachment.cid,
+          })),
+        });
+
+        if (error) {
+          throw new EmailRejectedError(error.message);
+        }
+
+        return { messageId: data?.id, previewUrl: null, realDelivery: true };
+      },
+    };
+  },
+};
@@ -0,0 +1,84 @@
+/**
+ * SendGrid provider - SendGrid v3 Mail Send API
+ * https://www.twilio.com/docs/sendgrid/api-reference/mail-send/mail-send
+ */
+
+import { EmailConfigError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { apiBaseUrl, optionalList, parseMailbox, requestJson, requireFrom } from "./shared";
+
+interface SendGridResponse {
+  errors?: { message?: string }[];
+}
+
+export const sendgridProvider: EmailProvider = {
+  mode: "sendgrid",
+  name: "SendGrid",
+  createSender(config) {
+    const apiKey = config.api?.apiKey;
+    if (!apiKey) {
+      throw new EmailConfigError("Missing SendGrid API key");
+    }
+
+    const baseUrl = apiBaseUrl("sendgrid", "https://api.sendgrid.com");
+
+    return {
+      mode: "sendgrid",
+      async send(message) {
+        const replyTo = optionalList(message.replyTo)?.map(parseMailbox);
+
+        const { headers } = await requestJson<SendGridResponse>(
+          "SendGrid",
+          `${baseUrl}/v3/mail/send`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              personalizations: [
+                {
+                  to: toAddressList(message.to).map(parseMailbox),
+                  cc: optionalList(message.cc)?.map(parseMailbox),
+                  bcc: optionalList(message.bcc)?.map(parseMailbox),
+                },
+              ],
+              from: parseMailbox(requireFrom(message)),
+              // reply_to takes one address; reply_to_list is for several
+              reply_to: replyTo?.length === 1 ? replyTo[0] : undefined,
+              reply_to_list: replyTo && replyTo.length > 1 ? replyTo : undefined,
+              subject: message.subject,
+              // text/plain must come before text/html
+              content: [
+                ...(message.text ? [{ type: "text/plain", value: message.text }] : []),
+                { type: "text/html", value: message.html },
+              ],
+              headers: message.headers,
+              attachments: message.attachments?.map((attachment) => ({
+                content: attachment.content,
+                filename: attachment.filename,
+                type: attachment.contentType,
+                disposition: attachment.cid ? "inline" : "attachment",
+                content_id: attachment.cid,
+              })),
+            }),
+          },
+          (response) =>
+            response.errors
+              ?.map((error) => error.message)
+              .filter(Boolean)
+              .join("; ")
+        );
+
+        // The message ID is only returned as a header (the body is empty)
+        return {
+          messageId: headers.get("x-message-id") ?? undefined,
+          previewUrl: null,
+          realDelivery: true,
+        };
+      },
+    };
+  },
+};
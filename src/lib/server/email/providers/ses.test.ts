@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { EmailConfigError } from "../errors";
+import { sesProvider, signRequest } from "./ses";
+
+const key = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+  region: "us-east-1",
+};
+
+describe("signRequest", () => {
+  const url = new URL("https://email.us-east-1.amazonaws.com/v2/email/outbound-emails");
+  const body = '{"FromEmailAddress":"a@x.test"}';
+  const date = new Date("2024-01-01T12:00:00.000Z");
+
+  it("signs the request with AWS Signature Version 4", () => {
+    expect(signRequest(url, body, key, date)).toEqual({
+      "Content-Type": "application/json",
+      "X-Amz-Date": "20240101T120000Z",
+      Authorization:
+        "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20240101/us-east-1/ses/aws4_request, " +
+        "SignedHeaders=content-type;host;x-amz-date, " +
+        "Signature=18867338595ca2cd7efd36c7bae5389c0afef2905909380179af00d206d721fd",
+    });
+  });
+
+  it("changes the signature when the body, date or region changes", () => {
+    const signature = (headers: { Authorization: string }) =>
+      headers.Authorization.split("Signature=")[1];
+    const original = signature(signRequest(url, body, key, date));
+
+    expect(signature(signRequest(url, `${body} `, key, date))).not.toBe(original);
+    expect(signature(signRequest(url, body, key, new Date("2024-01-02T12:00:00Z")))).not.toBe(
+      original
+    );
+    expect(signature(signRequest(url, body, { ...key, region: "eu-west-1" }, date))).not.toBe(
+      original
+    );
+  });
+});
+
+describe("sesProvider.createSender", () => {
+  it("requires both keys and a valid region", () => {
+    expect(() => sesProvider.createSender({ mode: "ses", api: { apiKey: "id" } })).toThrow(
+      EmailConfigError
+    );
+    expect(() =>
+      sesProvider.createSender({
+        mode: "ses",
+        api: { apiKey: "id", secretKey: "secret", region: "us-east-1.evil.test/" },
+      })
+    ).toThrow("Invalid SES region");
+    expect(
+      sesProvider.createSender({
+        mode: "ses",
+        api: { apiKey: "id", secretKey: "secret", region: "eu-west-1" },
+      })
+    ).toMatchObject({ mode: "ses" });
+  });
+});
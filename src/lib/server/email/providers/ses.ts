@@ -0,0 +1,117 @@
+/**
+ * Amazon SES provider - SES v2 SendEmail API with a raw MIME message
+ * https://docs.aws.amazon.com/ses/latest/APIReference-V2/API_SendEmail.html
+ *
+ * Requests are signed with AWS Signature Version 4, so no AWS SDK is needed.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import MailComposer from "nodemailer/lib/mail-composer";
+import { EmailConfigError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailProvider } from "../types";
+import { apiBaseUrl, optionalList, requestJson, requireFrom } from "./shared";
+import { toNodemailerMessage } from "./smtp";
+
+const DEFAULT_REGION = "us-east-1";
+
+interface SesResponse {
+  MessageId?: string;
+  message?: string;
+}
+
+interface SigningKey {
+  accessKeyId: string;
+  secretKey: string;
+  region: string;
+}
+
+const sha256 = (data: string) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+// Signature Version 4 headers for a JSON POST request
+export function signRequest(url: URL, body: string, key: SigningKey, date = new Date()) {
+  // 20240101T120000Z
+  const amzDate = date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${key.region}/ses/aws4_request`;
+  const signedHeaders = "content-type;host;x-amz-date";
+
+  const canonicalRequest = [
+    "POST",
+    url.pathname,
+    "",
+    `content-type:application/json\nhost:${url.host}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    sha256(body),
+  ].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+  const signingKey = ["ses", "aws4_request"].reduce(
+    (current, part) => hmac(current, part),
+    hmac(hmac(`AWS4${key.secretKey}`, dateStamp), key.region)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    "Content-Type": "application/json",
+    "X-Amz-Date": amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${key.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export const sesProvider: EmailProvider = {
+  mode: "ses",
+  name: "Amazon SES",
+  createSender(config) {
+    const accessKeyId = config.api?.apiKey;
+    const secretKey = config.api?.secretKey;
+    if (!accessKeyId || !secretKey) {
+      throw new EmailConfigError("Missing SES access key ID or secret access key");
+    }
+
+    const region = config.api?.region?.trim() || DEFAULT_REGION;
+    if (!/^[a-z]{2}(-[a-z]+)+-\d$/.test(region)) {
+      throw new EmailConfigError(`Invalid SES region: ${region}`);
+    }
+
+    const baseUrl = apiBaseUrl("ses", `https://email.${region}.amazonaws.com`);
+
+    return {
+      mode: "ses",
+      async send(message) {
+        const from = requireFrom(message);
+        // Raw content keeps attachments, inline images, and custom headers
+        const raw = await new MailComposer(toNodemailerMessage(message, from)).compile().build();
+
+        const url = new URL(`${baseUrl}/v2/email/outbound-emails`);
+        const body = JSON.stringify({
+          FromEmailAddress: from,
+          Destination: {
+            ToAddresses: toAddressList(message.to),
+            CcAddresses: optionalList(message.cc),
+            BccAddresses: optionalList(message.bcc),
+          },
+          Content: { Raw: { Data: raw.toString("base64") } },
+        });
+
+        const { body: response } = await requestJson<SesResponse>(
+          "Amazon SES",
+          url.toString(),
+          {
+            method: "POST",
+            headers: signRequest(url, body, { accessKeyId, secretKey, region }),
+            body,
+          },
+          (result) => result.message
+        );
+
+        return { messageId: response.MessageId, previewUrl: null, realDelivery: true };
+      },
+    };
+  },
+};
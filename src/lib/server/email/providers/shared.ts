@@ -0,0 +1,72 @@
+/**
+ * Helpers shared by provider adapters
+ */
+
+import addressparser from "nodemailer/lib/addressparser";
+import { EmailConfigError, EmailRejectedError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailMessage } from "../types";
+
+// Omit empty address lists so providers don't reject them
+export function optionalList(value: string | string[] | undefined): string[] | undefined {
+  const list = toAddressList(value);
+  return list.length > 0 ? list : undefined;
+}
+
+// Split "Name <address@example.com>" into its parts
+export function parseMailbox(value: string): { email: string; name?: string } {
+  const [mailbox] = addressparser(value, { flatten: true });
+  if (!mailbox?.address) return { email: value.trim() };
+  return mailbox.name ? { email: mailbox.address, name: mailbox.name } : { email: mailbox.address };
+}
+
+// API providers have no default sender
+export function requireFrom(message: EmailMessage): string {
+  if (!message.from) {
+    throw new EmailConfigError("Missing sender email address");
+  }
+  return message.from;
+}
+
+// Base URL of a provider API. <PROVIDER>_API_URL overrides it, e.g. to send to
+// a local mock server in tests.
+export function apiBaseUrl(mode: string, defaultUrl: string): string {
+  const override = process.env[`${mode.toUpperCase()}_API_URL`];
+  return (override || defaultUrl).replace(/\/+$/, "");
+}
+
+/**
+ * Send a request to a provider API and parse the JSON response (if any).
+ * Rejected credentials (401 / 403) become an EmailConfigError, other client
+ * errors an EmailRejectedError with the provider's message.
+ */
+export async function requestJson<T>(
+  providerName: string,
+  url: string,
+  init: RequestInit,
+  readError: (body: T) => string | undefined
+): Promise<{ body: T; headers: Headers }> {
+  const response = await fetch(url, init);
+  const text = await response.text();
+
+  let body = {} as T;
+  try {
+    body = text ? (JSON.parse(text) as T) : body;
+  } catch {
+    // Some errors are plain text (e.g. "Forbidden")
+  }
+
+  if (!response.ok) {
+    const message =
+      readError(body) || text.trim() || `${providerName} responded with ${response.status}`;
+    if (response.status === 401 || response.status === 403) {
+      throw new EmailConfigError(`${providerName} rejected the credentials: ${message}`);
+    }
+    if (response.status < 500) {
+      throw new EmailRejectedError(message);
+    }
+    throw new Error(`${providerName} error: ${message}`);
+  }
+
+  return { body, headers: response.headers };
+}
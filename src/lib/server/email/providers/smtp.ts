@@ -0,0 +1,108 @@
+/**
+ * SMTP providers - Ethereal (test mode, virtual mailbox) and custom SMTP via Nodemailer
+ */
+
+import nodemailer from "nodemailer";
+import { EmailConfigError } from "../errors";
+import { toAddressList } from "../validation";
+import type { EmailMessage, EmailProvider, EmailSender } from "../types";
+import { optionalList } from "./shared";
+
+// Map a message to Nodemailer's mail options
+export function toNodemailerMessage(message: EmailMessage, from: string) {
+  return {
+    from,
+    to: toAddressList(message.to),
+    cc: optionalList(message.cc),
+    bcc: optionalList(message.bcc),
+    replyTo: optionalList(message.replyTo),
+    subject: message.subject,
+    html: message.html,
+    text: message.text || "",
+    headers: message.headers,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      encoding: "base64",
+      contentType: attachment.contentType,
+      // Referenced from the HTML as <img src="cid:...">
+      cid: attachment.cid,
+    })),
+  };
+}
+
+export const etherealProvider: EmailProvider = {
+  mode: "test",
+  name: "Ethereal",
+  async createSender(): Promise<EmailSender> {
+    // Create Ethereal test account automatically
+    const testAccount = await nodemailer.createTestAccount();
+
+    const transporter = nodemailer.createTransport({
+      host: "smtp.ethereal.email",
+      port: 587,
+      secure: false,
+      auth: {
+        user: testAccount.user,
+        pass: testAccount.pass,
+      },
+    });
+
+    return {
+      mode: "test",
+      async send(message) {
+        // Test mode always sends from the Ethereal account
+        const from = `"Mail Studio Test" <${testAccount.user}>`;
+        const info = await transporter.sendMail(toNodemailerMessage(message, from));
+
+        return {
+          messageId: info.messageId,
+          response: info.response,
+          // Get preview URL for test mode (Ethereal)
+          previewUrl: nodemailer.getTestMessageUrl(info) || null,
+          realDelivery: false,
+        };
+      },
+    };
+  },
+};
+
+export const smtpProvider: EmailProvider = {
+  mode: "smtp",
+  name: "SMTP",
+  createSender(config) {
+    // Validate SMTP configuration for custom mode
+    const smtp = config.smtp;
+    if (!smtp?.host || !smtp?.auth?.user || !smtp?.auth?.pass) {
+      throw new EmailConfigError("Missing SMTP configuration");
+    }
+
+    const transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: {
+        user: smtp.auth.user,
+        pass: smtp.auth.pass,
+      },
+    });
+
+    return {
+      mode: "smtp",
+      async send(message) {
+        if (!message.from) {
+          throw new EmailConfigError("Missing sender email address");
+        }
+
+        const info = await transporter.sendMail(toNodemailerMessage(message, message.from));
+
+        return {
+          messageId: info.messageId,
+          response: info.response,
+          previewUrl: null,
+          realDelivery: true,
+        };
+      },
+    };
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * Email transports - the provider adapter for each send mode
+ *
+ * To add a provider, implement EmailProvider in providers/ and register it here.
+ */
+
+import { EmailConfigError } from "./errors";
+import {
+  etherealProvider,
+  localProvider,
+  mailgunProvider,
+  postmarkProvider,
+  resendProvider,
+  sendgridProvider,
+  sesProvider,
+  smtpProvider,
+} from "./providers";
+import type { EmailProvider, EmailSender, SendMode, TransportConfig } from "./types";
+
+export const EMAIL_PROVIDERS: Record<SendMode, EmailProvider> = {
+  test: etherealProvider,
+  local: localProvider,
+  resend: resendProvider,
+  smtp: smtpProvider,
+  postmark: postmarkProvider,
+  sendgrid: sendgridProvider,
+  mailgun: mailgunProvider,
+  ses: sesProvider,
+};
+
+export async function createEmailSender(config: TransportConfig): Promise<EmailSender> {
+  // The mode comes from the request body, so it may be anything
+  const provider = Object.hasOwn(EMAIL_PROVIDERS, config.mode)
+    ? EMAIL_PROVIDERS[config.mode]
+    : null;
+  if (!provider) {
+    throw new EmailConfigError(`Unknown send mode: ${String(config.mode)}`);
+  }
+  return provider.createSender(config);
+}
@@ -0,0 +1,109 @@
+/**
+ * Server-side email sending types
+ */
+
+import type {
+  ApiCredentials,
+  EmailAttachment,
+  SampleData,
+  SendMode,
+} from "@/features/editor/types";
+
+// Send modes, API credentials and attachments are shared with the editor
+export type {
+  ApiProvider,
+  ApiCredentials,
+  EmailAttachment,
+  SendMode,
+} from "@/features/editor/types";
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: {
+    user: string;
+    pass: string;
+  };
+}
+
+// How messages are delivered
+export interface TransportConfig {
+  mode: SendMode;
+  // Resend API Key (required for 'resend' mode)
+  resendApiKey?: string;
+  // SMTP Configuration (required for 'smtp' mode)
+  smtp?: SmtpSettings;
+  // API credentials (required for API provider modes)
+  api?: ApiCredentials;
+}
+
+export interface EmailMessage {
+  from?: string;
+  // One address, a comma-separated list, or an array
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+// Message content shared by every recipient of a bulk send; may contain merge tags
+export type EmailTemplate = Omit<EmailMessage, "to">;
+
+export interface SendResult {
+  messageId?: string;
+  response?: string;
+  // Ethereal web preview of the message (test mode only)
+  previewUrl: string | null;
+  realDelivery: boolean;
+}
+
+/**
+ * A configured transport. Create one per request and reuse it for every message,
+ * so test accounts and connections are set up once.
+ */
+export interface EmailSender {
+  mode: SendMode;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+/**
+ * A delivery backend selectable by send mode. createSender throws an
+ * EmailConfigError when the transport settings are incomplete.
+ */
+export interface EmailProvider {
+  mode: SendMode;
+  name: string;
+  createSender(config: TransportConfig): EmailSender | Promise<EmailSender>;
+}
+
+// ============ Bulk Sending ============
+
+export interface BulkRecipient {
+  to: string;
+  // Template variables for this recipient
+  data: SampleData;
+}
+
+export interface BulkSendOptions {
+  // Messages in flight at the same time
+  concurrency: number;
+  // Minimum time between two message starts, in milliseconds
+  intervalMs: number;
+}
+
+export interface BulkSendResult {
+  to: string;
+  success: boolean;
+  messageId?: string;
+  previewUrl?: string | null;
+  error?: string;
+  // Variables that had no value for this recipient
+  missing?: string[];
+}
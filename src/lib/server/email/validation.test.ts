@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ATTACHMENTS_BYTES,
+  isBulkRecipient,
+  toAddressList,
+  validateMessageFields,
+} from "./validation";
+
+describe("isBulkRecipient", () => {
+  it("accepts an address with a data object", () => {
+    expect(isBulkRecipient({ to: "ada@x.test", data: {} })).toBe(true);
+    expect(isBulkRecipient({ to: "Ada <ada@x.test>", data: { plan: "vip" } })).toBe(true);
+  });
+
+  it("rejects missing or invalid addresses", () => {
+    expect(isBulkRecipient({ to: "", data: {} })).toBe(false);
+    expect(isBulkRecipient({ to: 42, data: {} })).toBe(false);
+    expect(isBulkRecipient({ to: "not an address", data: {} })).toBe(false);
+    expect(isBulkRecipient({ to: "ada@x.test\r\nBcc: eve@x.test", data: {} })).toBe(false);
+  });
+
+  it("rejects missing or non-object data", () => {
+    expect(isBulkRecipient({ to: "ada@x.test" })).toBe(false);
+    expect(isBulkRecipient({ to: "ada@x.test", data: [] })).toBe(false);
+    expect(isBulkRecipient(null)).toBe(false);
+  });
+});
+
+describe("toAddressList", () => {
+  it("splits comma-separated lists and trims entries", () => {
+    expect(toAddressList(" a@x.test, ,b@x.test ")).toEqual(["a@x.test", "b@x.test"]);
+    expect(toAddressList(["a@x.test ", ""])).toEqual(["a@x.test"]);
+    expect(toAddressList(undefined)).toEqual([]);
+  });
+});
+
+describe("validateMessageFields", () => {
+  const message = { to: "ada@x.test", subject: "Hi", html: "<p>Hi</p>" };
+
+  it("accepts a message with lists, headers and attachments", () => {
+    expect(
+      validateMessageFields({
+        ...message,
+        cc: ["b@x.test", "Carl <c@x.test>"],
+        replyTo: "support@x.test",
+        headers: { "List-Unsubscribe": "<https://x.test/u>" },
+        attachments: [{ filename: "a.txt", content: "aGk=", size: 2, cid: "logo@x" }],
+      })
+    ).toBeNull();
+  });
+
+  it("rejects invalid and non-string addresses", () => {
+    expect(validateMessageFields({ ...message, to: "ada" })).toBe("Invalid to address");
+    expect(validateMessageFields({ ...message, cc: ["b@x.test", 1 as unknown as string] })).toBe(
+      "Invalid cc address"
+    );
+    expect(validateMessageFields({ ...message, from: "a@x.test\nBcc: e@x.test" })).toBe(
+      "Invalid from address"
+    );
+  });
+
+  it("rejects header injection and reserved or malformed header names", () => {
+    expect(validateMessageFields({ ...message, headers: { "X-Tag": "a\r\nBcc: e@x.test" } })).toBe(
+      'Invalid value for header "X-Tag"'
+    );
+    expect(validateMessageFields({ ...message, headers: { Bcc: "e@x.test" } })).toBe(
+      'Header "Bcc" is set from the message fields'
+    );
+    expect(validateMessageFields({ ...message, headers: { "X Tag": "a" } })).toBe(
+      'Invalid header name "X Tag"'
+    );
+  });
+
+  it("rejects invalid attachments and attachments over the size limit", () => {
+    expect(
+      validateMessageFields({
+        ...message,
+        attachments: [{ filename: "a.txt", content: "not base64!", size: 0 }],
+      })
+    ).toBe('Attachment "a.txt" must be base64-encoded');
+    expect(
+      validateMessageFields({ ...message, attachments: [{ filename: " ", content: "", size: 0 }] })
+    ).toBe("Every attachment needs a file name");
+
+    const content = "A".repeat(Math.ceil((MAX_ATTACHMENTS_BYTES + 3) / 3) * 4);
+    expect(
+      validateMessageFields({ ...message, attachments: [{ filename: "big", content, size: 0 }] })
+    ).toBe("Attachments exceed 10 MB");
+  });
+});
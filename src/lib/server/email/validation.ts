@@ -0,0 +1,134 @@
+/**
+ * Email message validation - addresses, headers, and attachments from request bodies
+ */
+
+import type { BulkRecipient, EmailAttachment, EmailMessage } from "./types";
+
+// Total decoded size of all attachments of one message
+export const MAX_ATTACHMENTS_BYTES = 10 * 1024 * 1024;
+
+// Header field names (RFC 5322 printable characters except colon)
+const HEADER_NAME_PATTERN = /^[!-9;-~]+$/;
+const CID_PATTERN = /^[\w.@+-]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+// A bare address or "Name <address>"
+const ADDRESS_PATTERN = /^(?:[^<>]*<[^\s@<>]+@[^\s@<>]+>|[^\s@<>]+@[^\s@<>]+)$/;
+
+// Headers that are set from message fields and must not be overridden
+const RESERVED_HEADERS = new Set([
+  "from",
+  "to",
+  "cc",
+  "bcc",
+  "reply-to",
+  "subject",
+  "date",
+  "message-id",
+  "mime-version",
+  "content-type",
+  "content-transfer-encoding",
+]);
+
+// Normalize an address field to a list ("a@x.com, b@x.com" or an array).
+// Check request values with validateMessageFields first.
+export function toAddressList(value: string | string[] | undefined): string[] {
+  const list = Array.isArray(value) ? value : (value ?? "").split(",");
+  return list.map((address) => String(address).trim()).filter(Boolean);
+}
+
+export function isBulkRecipient(value: unknown): value is BulkRecipient {
+  if (!value || typeof value !== "object") return false;
+  const recipient = value as Partial<BulkRecipient>;
+  return (
+    typeof recipient.to === "string" &&
+    recipient.to.trim() !== "" &&
+    isValidAddressField(recipient.to) &&
+    !!recipient.data &&
+    typeof recipient.data === "object" &&
+    !Array.isArray(recipient.data)
+  );
+}
+
+function isAddressField(value: unknown): value is string | string[] {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((address) => typeof address === "string"))
+  );
+}
+
+function hasLineBreak(value: string): boolean {
+  return /[\r\n]/.test(value);
+}
+
+function isValidAddressField(value: unknown): value is string | string[] {
+  return (
+    isAddressField(value) &&
+    toAddressList(value).every((address) => !hasLineBreak(address) && ADDRESS_PATTERN.test(address))
+  );
+}
+
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+function validateAttachment(value: unknown): string | null {
+  if (!value || typeof value !== "object") return "Invalid attachment";
+  const attachment = value as Partial<EmailAttachment>;
+
+  if (typeof attachment.filename !== "string" || !attachment.filename.trim()) {
+    return "Every attachment needs a file name";
+  }
+  if (typeof attachment.content !== "string" || !BASE64_PATTERN.test(attachment.content)) {
+    return `Attachment "${attachment.filename}" must be base64-encoded`;
+  }
+  if (attachment.cid !== undefined && !CID_PATTERN.test(attachment.cid)) {
+    return `Invalid content ID for attachment "${attachment.filename}"`;
+  }
+  return null;
+}
+
+// Returns an error message for the first invalid field, or null when the message is valid.
+// `to` may be missing since bulk templates get it per recipient.
+export function validateMessageFields(message: Partial<EmailMessage>): string | null {
+  for (const field of ["to", "from", "cc", "bcc", "replyTo"] as const) {
+    const value = message[field];
+    if (value === undefined) continue;
+    if (!isValidAddressField(value)) {
+      return `Invalid ${field} address`;
+    }
+  }
+
+  if (message.headers !== undefined) {
+    if (!message.headers || typeof message.headers !== "object") return "Invalid headers";
+
+    for (const [name, value] of Object.entries(message.headers)) {
+      if (!HEADER_NAME_PATTERN.test(name)) return `Invalid header name "${name}"`;
+      if (RESERVED_HEADERS.has(name.toLowerCase())) {
+        return `Header "${name}" is set from the message fields`;
+      }
+      if (typeof value !== "string" || hasLineBreak(value)) {
+        return `Invalid value for header "${name}"`;
+      }
+    }
+  }
+
+  if (message.attachments !== undefined) {
+    if (!Array.isArray(message.attachments)) return "Invalid attachments";
+
+    for (const attachment of message.attachments) {
+      const error = validateAttachment(attachment);
+      if (error) return error;
+    }
+
+    const totalBytes = message.attachments.reduce(
+      (total, attachment) => total + decodedSize(attachment.content),
+      0
+    );
+    if (totalBytes > MAX_ATTACHMENTS_BYTES) {
+      return `Attachments exceed ${MAX_ATTACHMENTS_BYTES / 1024 / 1024} MB`;
+    }
+  }
+
+  return null;
+}
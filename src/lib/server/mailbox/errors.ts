@@ -0,0 +1,10 @@
+/**
+ * Local mailbox errors
+ */
+
+export class MessageNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Message "${id}" not found`);
+    this.name = "MessageNotFoundError";
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * File system mailbox adapter - one JSON file per captured message, plus a small
+ * summary file next to it for listing
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MessageNotFoundError } from "./errors";
+import type {
+  CaptureInput,
+  CapturedMessage,
+  CapturedMessageSummary,
+  MailboxStorageAdapter,
+} from "./types";
+
+export const MAX_CAPTURED_MESSAGES = 200;
+
+// Message ids are used as file names, so keep them to a safe character set
+const MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const SUMMARY_SUFFIX = ".summary.json";
+
+export function isValidMessageId(id: string): boolean {
+  return MESSAGE_ID_PATTERN.test(id);
+}
+
+function toMessageSummary(message: CapturedMessage): CapturedMessageSummary {
+  const { id, receivedAt, from, to, subject, attachments } = message;
+  return { id, receivedAt, from, to, subject, attachmentCount: attachments.length };
+}
+
+export function createFileSystemMailbox(
+  directory: string,
+  maxMessages = MAX_CAPTURED_MESSAGES
+): MailboxStorageAdapter {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+  const summaryPath = (id: string) => path.join(directory, `${id}${SUMMARY_SUFFIX}`);
+
+  // Ids start with the capture time, so file names sort oldest first
+  const createId = () => `${Date.now().toString(36)}-${randomUUID()}`;
+
+  async function listIds(): Promise<string[]> {
+    try {
+      const entries = await readdir(directory);
+      return entries
+        .filter((name) => name.endsWith(".json") && !name.endsWith(SUMMARY_SUFFIX))
+        .map((name) => name.slice(0, -5))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async function readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // Write to a temporary file first so readers never see a partial file
+  async function writeJson(file: string, value: unknown): Promise<void> {
+    const tmpPath = `${file}.${randomUUID()}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(value), "utf8");
+    await rename(tmpPath, file);
+  }
+
+  const read = (id: string) => readJson<CapturedMessage>(filePath(id));
+
+  async function remove(id: string): Promise<void> {
+    await rm(summaryPath(id), { force: true });
+    await rm(filePath(id), { force: true });
+  }
+
+  // A crash between the two writes in add() leaves a message without a summary
+  async function readSummary(id: string): Promise<CapturedMessageSummary | null> {
+    const summary = await readJson<CapturedMessageSummary>(summaryPath(id));
+    if (summary) return summary;
+
+    const message = await read(id);
+    if (!message) return null;
+    await writeJson(summaryPath(id), toMessageSummary(message));
+    return toMessageSummary(message);
+  }
+
+  return {
+    async list() {
+      // Newest first
+      const ids = await listIds();
+      const summaries = await Promise.all(ids.reverse().map(readSummary));
+      return summaries.filter((summary): summary is CapturedMessageSummary => summary !== null);
+    },
+
+    get: read,
+
+    async add(input: CaptureInput) {
+      const message: CapturedMessage = {
+        ...input,
+        id: createId(),
+        receivedAt: new Date().toISOString(),
+      };
+
+      // The message is written before its summary; a missing summary is rebuilt by list()
+      await mkdir(directory, { recursive: true });
+      await writeJson(filePath(message.id), message);
+      await writeJson(summaryPath(message.id), toMessageSummary(message));
+
+      // Drop the oldest messages beyond the limit
+      const ids = await listIds();
+      await Promise.all(ids.slice(0, -maxMessages).map(remove));
+
+      return message;
+    },
+
+    async delete(id: string) {
+      if (!(await read(id))) throw new MessageNotFoundError(id);
+      await remove(id);
+    },
+
+    async clear() {
+      const ids = await listIds();
+      await Promise.all(ids.map(remove));
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Local mailbox - messages captured by the "local" send mode, for testing offline
+ *
+ * Messages are stored as JSON files in MAILBOX_DIR (default: ./.data/mailbox).
+ * Another backend can be plugged in with setMailboxStorage().
+ */
+
+import path from "node:path";
+import { createFileSystemMailbox } from "./fileSystemAdapter";
+import type { MailboxStorageAdapter } from "./types";
+
+let storage: MailboxStorageAdapter | null = null;
+
+export function getMailboxStorage(): MailboxStorageAdapter {
+  if (!storage) {
+    const directory = process.env.MAILBOX_DIR || path.join(process.cwd(), ".data", "mailbox");
+    storage = createFileSystemMailbox(directory);
+  }
+  return storage;
+}
+
+// Replace the storage backend (e.g. an in-memory adapter)
+export function setMailboxStorage(adapter: MailboxStorageAdapter): void {
+  storage = adapter;
+}
+
+export {
+  createFileSystemMailbox,
+  isValidMessageId,
+  MAX_CAPTURED_MESSAGES,
+} from "./fileSystemAdapter";
+export { MessageNotFoundError } from "./errors";
+export type {
+  CapturedAttachment,
+  CapturedHeader,
+  CapturedMessage,
+  CapturedMessageSummary,
+  CaptureInput,
+  MailboxStorageAdapter,
+} from "./types";
@@ -0,0 +1,63 @@
+/**
+ * Local mailbox types - messages captured by the "local" send mode
+ */
+
+export interface CapturedAttachment {
+  filename: string;
+  contentType: string;
+  // Decoded size in bytes
+  size: number;
+  // Content-ID of an inline image
+  cid?: string;
+  // Base64-encoded file content
+  content: string;
+}
+
+export interface CapturedHeader {
+  name: string;
+  value: string;
+}
+
+// A message as it would have been sent
+export interface CapturedMessage {
+  id: string;
+  // ISO 8601 timestamp
+  receivedAt: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  // MIME headers in the order they appear in the message
+  headers: CapturedHeader[];
+  attachments: CapturedAttachment[];
+  // Complete RFC 822 message (.eml)
+  raw: string;
+}
+
+// Mailbox listing entry (without bodies and attachments)
+export interface CapturedMessageSummary {
+  id: string;
+  receivedAt: string;
+  from: string;
+  to: string[];
+  subject: string;
+  attachmentCount: number;
+}
+
+export type CaptureInput = Omit<CapturedMessage, "id" | "receivedAt">;
+
+/**
+ * Storage for captured messages. Implementations keep at most a fixed number
+ * of messages and drop the oldest ones.
+ */
+export interface MailboxStorageAdapter {
+  list(): Promise<CapturedMessageSummary[]>;
+  get(id: string): Promise<CapturedMessage | null>;
+  add(input: CaptureInput): Promise<CapturedMessage>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
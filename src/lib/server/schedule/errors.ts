@@ -0,0 +1,26 @@
+/**
+ * Scheduled send errors
+ */
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Scheduled send "${id}" not found`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+// The job changed since it was read (e.g. the scheduler started sending it)
+export class JobConflictError extends Error {
+  constructor(id: string) {
+    super(`Scheduled send "${id}" was changed by another request`);
+    this.name = "JobConflictError";
+  }
+}
+
+// The job is being sent and can't be changed or cancelled
+export class JobInProgressError extends Error {
+  constructor(id: string) {
+    super(`Scheduled send "${id}" is being sent`);
+    this.name = "JobInProgressError";
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * File system job store - one JSON file per scheduled send, plus a small
+ * summary file next to it for listing
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { JobConflictError, JobNotFoundError } from "./errors";
+import { toJobSummary } from "./summary";
+import type {
+  JobStorageAdapter,
+  ScheduledJob,
+  ScheduledJobStatus,
+  ScheduledJobSummary,
+  ScheduleInput,
+} from "./types";
+
+// Finished jobs kept for the list; older ones are dropped
+export const MAX_FINISHED_JOBS = 100;
+
+const FINISHED_STATUSES: ScheduledJobStatus[] = ["sent", "partial", "failed"];
+
+// Job ids are used as file names, so keep them to a safe character set
+const JOB_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const SUMMARY_SUFFIX = ".summary.json";
+
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+export function createFileSystemJobStore(
+  directory: string,
+  maxFinishedJobs = MAX_FINISHED_JOBS
+): JobStorageAdapter {
+  // Serializes read-modify-write cycles per job within this process
+  const locks = new Map<string, Promise<unknown>>();
+
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+  const summaryPath = (id: string) => path.join(directory, `${id}${SUMMARY_SUFFIX}`);
+
+  async function withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = locks.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    locks.set(id, next);
+    try {
+      return await next;
+    } finally {
+      if (locks.get(id) === next) locks.delete(id);
+    }
+  }
+
+  async function readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // Write to a temporary file first so readers never see a partial file.
+  // Only the server's user can read jobs.
+  async function writeJson(file: string, value: unknown): Promise<void> {
+    const tmpPath = `${file}.${randomUUID()}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(value), { encoding: "utf8", mode: 0o600 });
+    await rename(tmpPath, file);
+  }
+
+  const read = (id: string) => readJson<ScheduledJob>(filePath(id));
+
+  // The job is written before its summary; a missing summary is rebuilt by list()
+  async function write(job: ScheduledJob): Promise<void> {
+    await mkdir(directory, { recursive: true });
+    await writeJson(filePath(job.id), job);
+    await writeJson(summaryPath(job.id), toJobSummary(job));
+  }
+
+  async function remove(id: string): Promise<void> {
+    await rm(summaryPath(id), { force: true });
+    await rm(filePath(id), { force: true });
+  }
+
+  async function readSummary(id: string): Promise<ScheduledJobSummary | null> {
+    const summary = await readJson<ScheduledJobSummary>(summaryPath(id));
+    if (summary) return summary;
+
+    const job = await read(id);
+    if (!job) return null;
+    await writeJson(summaryPath(id), toJobSummary(job));
+    return toJobSummary(job);
+  }
+
+  async function list(): Promise<ScheduledJobSummary[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const ids = entries
+      .filter((name) => name.endsWith(".json") && !name.endsWith(SUMMARY_SUFFIX))
+      .map((name) => name.slice(0, -5));
+    const summaries = await Promise.all(ids.map(readSummary));
+    return summaries
+      .filter((summary): summary is ScheduledJobSummary => summary !== null)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+  }
+
+  // Drop the least recently finished jobs beyond the limit
+  async function pruneFinished(): Promise<void> {
+    const finished = (await list())
+      .filter((summary) => FINISHED_STATUSES.includes(summary.status))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    for (const summary of finished.slice(maxFinishedJobs)) {
+      await withLock(summary.id, async () => {
+        // Skip jobs queued again in the meantime
+        const current = await read(summary.id);
+        if (current && FINISHED_STATUSES.includes(current.status)) {
+          await remove(summary.id);
+        }
+      });
+    }
+  }
+
+  return {
+    list,
+
+    get: read,
+
+    async add(input: ScheduleInput, status: "scheduled" | "sending" = "scheduled") {
+      const now = new Date().toISOString();
+      const job: ScheduledJob = {
+        ...input,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        status,
+      };
+      await write(job);
+      return job;
+    },
+
+    async update(job: ScheduledJob) {
+      const updated = await withLock(job.id, async () => {
+        const current = await read(job.id);
+        if (!current) throw new JobNotFoundError(job.id);
+        if (current.updatedAt !== job.updatedAt) throw new JobConflictError(job.id);
+
+        // Always later than the version it replaces, so every write is detectable
+        const updatedAt = new Date(
+          Math.max(Date.now(), Date.parse(current.updatedAt) + 1)
+        ).toISOString();
+        const next = { ...job, updatedAt };
+        await write(next);
+        return next;
+      });
+
+      if (FINISHED_STATUSES.includes(updated.status)) {
+        await pruneFinished();
+      }
+      return updated;
+    },
+
+    delete(id: string, expectedUpdatedAt?: string) {
+      return withLock(id, async () => {
+        const current = await read(id);
+        if (!current) throw new JobNotFoundError(id);
+        if (expectedUpdatedAt !== undefined && current.updatedAt !== expectedUpdatedAt) {
+          throw new JobConflictError(id);
+        }
+        await remove(id);
+      });
+    },
+  };
+}
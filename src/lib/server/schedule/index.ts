@@ -0,0 +1,47 @@
+/**
+ * Scheduled sends - a persistent queue of emails to send at a later time
+ *
+ * Jobs are stored as JSON files in SCHEDULE_DIR (default: ./.data/schedule), so
+ * they survive restarts. Another backend can be plugged in with setJobStore().
+ */
+
+import path from "node:path";
+import { createFileSystemJobStore } from "./fileSystemAdapter";
+import { startScheduler as startPolling } from "./scheduler";
+import type { JobStorageAdapter } from "./types";
+
+let store: JobStorageAdapter | null = null;
+
+export function getJobStore(): JobStorageAdapter {
+  if (!store) {
+    const directory = process.env.SCHEDULE_DIR || path.join(process.cwd(), ".data", "schedule");
+    store = createFileSystemJobStore(directory);
+  }
+  return store;
+}
+
+// Replace the storage backend (e.g. an in-memory adapter)
+export function setJobStore(adapter: JobStorageAdapter): void {
+  store = adapter;
+}
+
+// Start sending due jobs (see instrumentation.ts)
+export function startScheduler(): void {
+  startPolling(getJobStore);
+}
+
+export { toJobSummary, toJobDetails } from "./summary";
+export { createFileSystemJobStore, isValidJobId, MAX_FINISHED_JOBS } from "./fileSystemAdapter";
+export { runJob, runDueJobs, POLL_INTERVAL_MS } from "./scheduler";
+export { parseSendAt, validateScheduleInput } from "./validation";
+export { JobNotFoundError, JobInProgressError, JobConflictError } from "./errors";
+export type {
+  ScheduledJobStatus,
+  ScheduledJobResult,
+  ScheduledTransport,
+  ScheduledJob,
+  ScheduledJobSummary,
+  ScheduledJobDetails,
+  ScheduleInput,
+  JobStorageAdapter,
+} from "./types";
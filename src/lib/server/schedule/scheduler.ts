@@ -0,0 +1,171 @@
+/**
+ * Scheduler - sends jobs when they are due
+ *
+ * Due jobs are checked every POLL_INTERVAL_MS and sent one at a time. Jobs left
+ * in 'sending' by a stopped server are marked failed rather than sent twice.
+ */
+
+import { createEmailSender, sendBulk, type BulkSendResult } from "@/lib/server/email";
+import { resolveTransport, type ResolvedTransport } from "@/lib/server/sender-profiles";
+import { JobConflictError } from "./errors";
+import type { JobStorageAdapter, ScheduledJob, ScheduledJobResult } from "./types";
+
+export const POLL_INTERVAL_MS = 15_000;
+
+// Bulk progress is stored at most this often
+const PROGRESS_INTERVAL_MS = 1_000;
+
+// Shared across module reloads in development so only one timer runs
+const globalScheduler = globalThis as typeof globalThis & {
+  mailStudioScheduler?: { timer: ReturnType<typeof setInterval>; running: boolean };
+};
+
+async function sendJob(
+  job: ScheduledJob,
+  resolved: ResolvedTransport,
+  onProgress: (result: ScheduledJobResult) => void
+): Promise<ScheduledJobResult> {
+  const { transport, from } = resolved;
+  const sender = await createEmailSender(transport);
+  const email = { ...job.email, from: job.email.from || from };
+  const realDelivery = transport.mode !== "test" && transport.mode !== "local";
+
+  if (job.recipients) {
+    const done: BulkSendResult[] = [];
+    let reportedAt = Date.now();
+    const results = await sendBulk(
+      sender,
+      email,
+      job.recipients,
+      job.bulkOptions ?? { concurrency: 1, intervalMs: 0 },
+      (result) => {
+        done.push(result);
+        if (Date.now() - reportedAt < PROGRESS_INTERVAL_MS) return;
+        reportedAt = Date.now();
+        const sent = done.filter((recipient) => recipient.success).length;
+        onProgress({ sent, failed: done.length - sent, realDelivery, results: [...done] });
+      }
+    );
+    const sent = results.filter((result) => result.success).length;
+    return { sent, failed: results.length - sent, realDelivery, results };
+  }
+
+  const result = await sender.send({ ...email, to: job.to ?? [] });
+  return {
+    sent: 1,
+    failed: 0,
+    realDelivery: result.realDelivery,
+    messageId: result.messageId,
+    previewUrl: result.previewUrl,
+  };
+}
+
+// Send a job and store its outcome. Bulk sends started from a request pass the
+// transport resolved from it, which may hold credentials that are never stored.
+export async function runJob(
+  store: JobStorageAdapter,
+  job: ScheduledJob,
+  resolved?: ResolvedTransport
+): Promise<ScheduledJob> {
+  let current = await store.update({
+    ...job,
+    status: "sending",
+    result: undefined,
+    error: undefined,
+  });
+
+  // Progress is written one update at a time, and the outcome after the last one
+  let progress = Promise.resolve();
+  const reportProgress = (result: ScheduledJobResult) => {
+    progress = progress
+      .then(async () => {
+        current = await store.update({ ...current, result });
+      })
+      .catch((error) => console.error(`Scheduled send ${job.id} progress:`, error));
+  };
+
+  try {
+    const result = await sendJob(
+      current,
+      resolved ?? (await resolveTransport(current.transport)),
+      reportProgress
+    );
+    await progress;
+    const status = result.failed === 0 ? "sent" : result.sent === 0 ? "failed" : "partial";
+    return await store.update({ ...current, status, result });
+  } catch (error) {
+    console.error(`Scheduled send ${job.id} failed:`, error);
+    await progress;
+    const message = error instanceof Error ? error.message : "Failed to send email";
+    return await store.update({ ...current, status: "failed", result: undefined, error: message });
+  }
+}
+
+export async function runDueJobs(store: JobStorageAdapter, now = new Date()): Promise<void> {
+  const summaries = await store.list();
+  const due = summaries.filter(
+    (job) => job.status === "scheduled" && new Date(job.sendAt).getTime() <= now.getTime()
+  );
+  for (const summary of due) {
+    // Skip jobs cancelled or rescheduled while earlier ones were sending
+    const current = await store.get(summary.id);
+    if (current?.status !== "scheduled" || current.sendAt !== summary.sendAt) continue;
+    try {
+      await runJob(store, current);
+    } catch (error) {
+      // Changed by a request before it could be picked up
+      if (!(error instanceof JobConflictError)) throw error;
+    }
+  }
+}
+
+// Jobs started since `startedAt` (e.g. bulk sends) belong to this server
+async function recoverInterruptedJobs(store: JobStorageAdapter, startedAt: Date): Promise<void> {
+  const summaries = await store.list();
+  const interrupted = summaries.filter(
+    (candidate) => candidate.status === "sending" && new Date(candidate.updatedAt) < startedAt
+  );
+  for (const summary of interrupted) {
+    const job = await store.get(summary.id);
+    if (job?.status !== "sending" || job.updatedAt !== summary.updatedAt) continue;
+    try {
+      await store.update({
+        ...job,
+        status: "failed",
+        error: "Interrupted by a server restart; reschedule to send again",
+      });
+    } catch (error) {
+      if (!(error instanceof JobConflictError)) throw error;
+    }
+  }
+}
+
+// Start checking for due jobs. Safe to call more than once.
+export function startScheduler(getStore: () => JobStorageAdapter): void {
+  if (globalScheduler.mailStudioScheduler) return;
+
+  const state = { timer: setInterval(tick, POLL_INTERVAL_MS), running: false };
+  globalScheduler.mailStudioScheduler = state;
+  // Don't keep the process alive for the timer alone
+  state.timer.unref?.();
+
+  async function tick() {
+    if (state.running) return;
+    state.running = true;
+    try {
+      await runDueJobs(getStore());
+    } catch (error) {
+      console.error("Scheduler error:", error);
+    } finally {
+      state.running = false;
+    }
+  }
+
+  state.running = true;
+  recoverInterruptedJobs(getStore(), new Date())
+    .catch((error) => console.error("Scheduler recovery error:", error))
+    .finally(() => {
+      state.running = false;
+      tick();
+    });
+}
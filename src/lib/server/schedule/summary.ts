@@ -0,0 +1,32 @@
+/**
+ * Job summaries - what clients see of scheduled jobs
+ */
+
+import type { ScheduledJob, ScheduledJobDetails, ScheduledJobSummary } from "./types";
+
+// Recipients listed in job summaries
+const SUMMARY_RECIPIENTS = 3;
+
+export function toJobSummary(job: ScheduledJob): ScheduledJobSummary {
+  const to = job.recipients ? job.recipients.map((recipient) => recipient.to) : (job.to ?? []);
+  const results = job.result?.results?.filter((result) => !result.success);
+  return {
+    id: job.id,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    sendAt: job.sendAt,
+    status: job.status,
+    mode: job.transport.mode,
+    profileId: job.transport.profileId,
+    subject: job.email.subject,
+    bulk: !!job.recipients,
+    recipientCount: to.length,
+    to: to.slice(0, SUMMARY_RECIPIENTS),
+    result: job.result && { ...job.result, results },
+    error: job.error,
+  };
+}
+
+export function toJobDetails(job: ScheduledJob): ScheduledJobDetails {
+  return { ...toJobSummary(job), email: job.email, previewData: job.recipients?.[0]?.data };
+}
@@ -0,0 +1,98 @@
+/**
+ * Scheduled send types - jobs queued to be sent at a later time
+ */
+
+import type {
+  BulkRecipient,
+  BulkSendOptions,
+  BulkSendResult,
+  EmailTemplate,
+  SendMode,
+} from "@/lib/server/email";
+import type { SampleData } from "@/features/editor/types";
+import type { SenderTransportRequest } from "@/lib/server/sender-profiles";
+
+// 'sending' jobs are in progress; the others are waiting or finished
+export type ScheduledJobStatus = "scheduled" | "sending" | "sent" | "partial" | "failed";
+
+export interface ScheduledJobResult {
+  sent: number;
+  failed: number;
+  realDelivery: boolean;
+  // Single sends
+  messageId?: string;
+  previewUrl?: string | null;
+  // Bulk sends, one result per recipient
+  results?: BulkSendResult[];
+}
+
+// A sender profile id, or a credential-free mode; credentials are never stored
+export type ScheduledTransport = Pick<SenderTransportRequest, "mode" | "profileId">;
+
+export interface ScheduledJob {
+  id: string;
+  // ISO 8601 timestamps
+  createdAt: string;
+  updatedAt: string;
+  sendAt: string;
+  status: ScheduledJobStatus;
+  transport: ScheduledTransport;
+  // Content snapshot taken when the job was scheduled; bulk templates keep merge tags
+  email: EmailTemplate;
+  // Single send: recipient addresses
+  to?: string[];
+  // Bulk send: one personalized message per recipient
+  recipients?: BulkRecipient[];
+  bulkOptions?: BulkSendOptions;
+  result?: ScheduledJobResult;
+  error?: string;
+}
+
+// What clients see of a job (no content); bulk results list only the failed recipients
+export interface ScheduledJobSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  sendAt: string;
+  status: ScheduledJobStatus;
+  mode: SendMode;
+  profileId?: string;
+  subject: string;
+  bulk: boolean;
+  recipientCount: number;
+  // First recipients, for display
+  to: string[];
+  result?: ScheduledJobResult;
+  error?: string;
+}
+
+// Job with its content snapshot, without credentials
+export interface ScheduledJobDetails extends ScheduledJobSummary {
+  email: EmailTemplate;
+  // Variables of the first bulk recipient, to preview the template
+  previewData?: SampleData;
+}
+
+export type ScheduleInput = Pick<
+  ScheduledJob,
+  "sendAt" | "transport" | "email" | "to" | "recipients" | "bulkOptions"
+>;
+
+/**
+ * Storage for scheduled jobs. list() returns summaries, so it never loads the
+ * recipients and content of every job.
+ *
+ * update() replaces the stored job only if it is unchanged since `job` was read
+ * (same updatedAt), and delete() likewise when given the expected updatedAt;
+ * otherwise they throw JobConflictError. Both throw JobNotFoundError when the job
+ * doesn't exist. Implementations keep a limited number of finished jobs.
+ *
+ * add() queues a job; sends started right away (bulk sends) are added as 'sending'.
+ */
+export interface JobStorageAdapter {
+  list(): Promise<ScheduledJobSummary[]>;
+  get(id: string): Promise<ScheduledJob | null>;
+  add(input: ScheduleInput, status?: "scheduled" | "sending"): Promise<ScheduledJob>;
+  update(job: ScheduledJob): Promise<ScheduledJob>;
+  delete(id: string, expectedUpdatedAt?: string): Promise<void>;
+}
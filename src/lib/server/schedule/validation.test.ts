@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseSendAt, validateScheduleInput } from "./validation";
+import type { ScheduleInput } from "./types";
+
+const now = new Date("2026-01-01T12:00:00Z");
+const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+const input: ScheduleInput = {
+  sendAt: future,
+  transport: { mode: "sendgrid", profileId: "marketing" },
+  email: { subject: "Hi", html: "<p>Hi</p>" },
+  to: ["ada@x.test"],
+};
+
+describe("parseSendAt", () => {
+  it("accepts only date strings in the future", () => {
+    expect(parseSendAt("2026-01-01T13:00:00Z", now)).toEqual(new Date("2026-01-01T13:00:00Z"));
+    expect(parseSendAt("2026-01-01T12:00:00Z", now)).toBeNull();
+    expect(parseSendAt("tomorrow", now)).toBeNull();
+    expect(parseSendAt(Date.now() + 1000, now)).toBeNull();
+  });
+});
+
+describe("validateScheduleInput", () => {
+  it("accepts a single send through a profile", () => {
+    expect(validateScheduleInput(input)).toBeNull();
+  });
+
+  it("requires a profile unless the mode needs no credentials", () => {
+    expect(validateScheduleInput({ ...input, transport: { mode: "sendgrid" } })).toBe(
+      "Scheduled sends need a sender profile; credentials are not stored"
+    );
+    expect(validateScheduleInput({ ...input, transport: { mode: "local" } })).toBeNull();
+  });
+
+  it("rejects past send times, missing content and missing recipients", () => {
+    expect(validateScheduleInput({ ...input, sendAt: "2000-01-01T00:00:00Z" })).toBe(
+      "The send time must be a date in the future"
+    );
+    expect(validateScheduleInput({ ...input, email: { subject: "", html: "x" } })).toBe(
+      "Missing email content (subject, html)"
+    );
+    expect(validateScheduleInput({ ...input, to: [] })).toBe("Missing recipient address");
+    expect(validateScheduleInput({ ...input, to: ["ada@x.test\nBcc: e@x.test"] })).toBe(
+      "Invalid to address"
+    );
+  });
+
+  it("validates bulk recipients", () => {
+    const bulk = { ...input, to: undefined };
+    expect(validateScheduleInput({ ...bulk, recipients: [{ to: "ada@x.test", data: {} }] })).toBe(
+      null
+    );
+    expect(validateScheduleInput({ ...bulk, recipients: [] })).toBe("Missing recipients");
+    expect(validateScheduleInput({ ...bulk, recipients: [{ to: "ada", data: {} }] })).toBe(
+      "Every recipient needs a valid email address and a data object"
+    );
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Request payload validation for the schedule API
+ */
+
+import {
+  isBulkRecipient,
+  toAddressList,
+  validateMessageFields,
+  MAX_BULK_RECIPIENTS,
+} from "@/lib/server/email";
+import { isCredentialFreeMode } from "@/lib/server/sender-profiles";
+import type { ScheduleInput } from "./types";
+
+// Returns the send time, or null when it isn't a valid date in the future
+export function parseSendAt(value: unknown, now = new Date()): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()) || date.getTime() <= now.getTime()) return null;
+  return date;
+}
+
+// Returns an error message for the first invalid field, or null when the job is valid
+export function validateScheduleInput(input: Partial<ScheduleInput>): string | null {
+  if (!parseSendAt(input.sendAt)) return "The send time must be a date in the future";
+  if (!input.transport?.mode) return "Missing send mode";
+  if (input.transport.profileId === undefined && !isCredentialFreeMode(input.transport.mode)) {
+    return "Scheduled sends need a sender profile; credentials are not stored";
+  }
+  if (!input.email?.subject || !input.email?.html) return "Missing email content (subject, html)";
+
+  if (input.recipients !== undefined) {
+    if (!Array.isArray(input.recipients) || input.recipients.length === 0) {
+      return "Missing recipients";
+    }
+    if (input.recipients.length > MAX_BULK_RECIPIENTS) {
+      return `Too many recipients (maximum ${MAX_BULK_RECIPIENTS})`;
+    }
+    if (!input.recipients.every(isBulkRecipient)) {
+      return "Every recipient needs a valid email address and a data object";
+    }
+    return validateMessageFields(input.email);
+  }
+
+  const invalidField = validateMessageFields({ ...input.email, to: input.to });
+  if (invalidField) return invalidField;
+  if (toAddressList(input.to).length === 0) return "Missing recipient address";
+  return null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Sender profile configuration - read from environment variables
+ *
+ * - SENDER_PROFILES: JSON list of profiles
+ * - SENDER_PROFILES_FILE: path to a JSON file with more profiles, plain or
+ *   encrypted with SENDER_PROFILES_KEY
+ * - SENDER_PROFILES_ENFORCED: "true" to refuse credentials sent by clients
+ */
+
+import { readFile } from "node:fs/promises";
+import { EMAIL_PROVIDERS } from "@/lib/server/email";
+import { decryptProfiles, isEncryptedProfilesFile } from "./crypto";
+import { SenderProfileConfigError } from "./errors";
+import type { SenderProfile, SenderProfileSettings } from "./types";
+
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SenderProfileConfigError(`${source} is not valid JSON`);
+  }
+}
+
+function toProfile(value: unknown, source: string): SenderProfile {
+  if (!isRecord(value) || typeof value.id !== "string" || !PROFILE_ID_PATTERN.test(value.id)) {
+    throw new SenderProfileConfigError(
+      `${source}: every profile needs an id of letters, digits, "-" or "_"`
+    );
+  }
+  const { id, mode } = value;
+  if (typeof mode !== "string" || !Object.hasOwn(EMAIL_PROVIDERS, mode)) {
+    throw new SenderProfileConfigError(`${source}: profile "${id}" has an unknown mode`);
+  }
+  if (value.name !== undefined && typeof value.name !== "string") {
+    throw new SenderProfileConfigError(`${source}: profile "${id}" has an invalid name`);
+  }
+  if (value.from !== undefined && typeof value.from !== "string") {
+    throw new SenderProfileConfigError(`${source}: profile "${id}" has an invalid from address`);
+  }
+  // Credentials are checked by the provider when a message is sent
+  return { ...value, name: value.name || id } as SenderProfile;
+}
+
+// A list of profiles, or an object with a `profiles` list
+function toProfiles(value: unknown, source: string): SenderProfile[] {
+  const list = isRecord(value) ? value.profiles : value;
+  if (!Array.isArray(list)) {
+    throw new SenderProfileConfigError(`${source} must contain a list of profiles`);
+  }
+  return list.map((profile) => toProfile(profile, source));
+}
+
+async function readProfilesFile(filePath: string): Promise<SenderProfile[]> {
+  let text: string;
+  try {
+    text = await readFile(filePath, "utf8");
+  } catch {
+    throw new SenderProfileConfigError(`Can't read the sender profiles file ${filePath}`);
+  }
+
+  const content = parseJson(text, "SENDER_PROFILES_FILE");
+  if (!isEncryptedProfilesFile(content)) return toProfiles(content, "SENDER_PROFILES_FILE");
+
+  const key = process.env.SENDER_PROFILES_KEY;
+  if (!key) {
+    throw new SenderProfileConfigError("SENDER_PROFILES_KEY is required for an encrypted file");
+  }
+  return toProfiles(
+    parseJson(decryptProfiles(content, key), "SENDER_PROFILES_FILE"),
+    "SENDER_PROFILES_FILE"
+  );
+}
+
+export async function loadSenderProfiles(): Promise<SenderProfileSettings> {
+  const profiles: SenderProfile[] = [];
+
+  if (process.env.SENDER_PROFILES) {
+    profiles.push(
+      ...toProfiles(parseJson(process.env.SENDER_PROFILES, "SENDER_PROFILES"), "SENDER_PROFILES")
+    );
+  }
+  if (process.env.SENDER_PROFILES_FILE) {
+    profiles.push(...(await readProfilesFile(process.env.SENDER_PROFILES_FILE)));
+  }
+
+  const ids = new Set<string>();
+  for (const profile of profiles) {
+    if (ids.has(profile.id)) {
+      throw new SenderProfileConfigError(`Duplicate sender profile id "${profile.id}"`);
+    }
+    ids.add(profile.id);
+  }
+
+  const enforced = ["true", "1"].includes(process.env.SENDER_PROFILES_ENFORCED ?? "");
+  return { profiles, enforced };
+}
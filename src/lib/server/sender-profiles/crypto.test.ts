@@ -0,0 +1,50 @@
+import { createCipheriv, randomBytes, scryptSync } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { SenderProfileConfigError } from "./errors";
+import { decryptProfiles, isEncryptedProfilesFile } from "./crypto";
+import type { EncryptedProfilesFile } from "./types";
+
+// Same format as scripts/encrypt-sender-profiles.mjs
+function encrypt(plaintext: string, passphrase: string): EncryptedProfilesFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return {
+    version: 1,
+    algorithm: "aes-256-gcm",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+const profiles = '[{"id":"main","name":"Main","mode":"postmark","api":{"apiKey":"secret"}}]';
+
+describe("decryptProfiles", () => {
+  it("decrypts a file written by the encryption script", () => {
+    expect(decryptProfiles(encrypt(profiles, "passphrase"), "passphrase")).toBe(profiles);
+  });
+
+  it("refuses a wrong passphrase or a modified file", () => {
+    const file = encrypt(profiles, "passphrase");
+    expect(() => decryptProfiles(file, "wrong")).toThrow(SenderProfileConfigError);
+
+    const data = Buffer.from(file.data, "base64");
+    data[0] ^= 1;
+    expect(() => decryptProfiles({ ...file, data: data.toString("base64") }, "passphrase")).toThrow(
+      SenderProfileConfigError
+    );
+  });
+});
+
+describe("isEncryptedProfilesFile", () => {
+  it("recognizes encrypted files but not profile lists", () => {
+    expect(isEncryptedProfilesFile(encrypt(profiles, "passphrase"))).toBe(true);
+    expect(isEncryptedProfilesFile(JSON.parse(profiles))).toBe(false);
+    expect(
+      isEncryptedProfilesFile({ algorithm: "aes-256-cbc", salt: "", iv: "", tag: "", data: "" })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Profiles file encryption - AES-256-GCM with a key derived from a passphrase (scrypt)
+ *
+ * Files are written by scripts/encrypt-sender-profiles.mjs; keep its format in
+ * sync with decryptProfiles().
+ */
+
+import { createDecipheriv, scryptSync } from "node:crypto";
+import { SenderProfileConfigError } from "./errors";
+import type { EncryptedProfilesFile } from "./types";
+
+const KEY_LENGTH = 32;
+
+export function isEncryptedProfilesFile(value: unknown): value is EncryptedProfilesFile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const file = value as Partial<EncryptedProfilesFile>;
+  return (
+    file.algorithm === "aes-256-gcm" &&
+    typeof file.salt === "string" &&
+    typeof file.iv === "string" &&
+    typeof file.tag === "string" &&
+    typeof file.data === "string"
+  );
+}
+
+export function decryptProfiles(file: EncryptedProfilesFile, passphrase: string): string {
+  const key = scryptSync(passphrase, Buffer.from(file.salt, "base64"), KEY_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new SenderProfileConfigError("Can't decrypt the sender profiles file (wrong key?)");
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Sender profile errors
+ */
+
+export class SenderProfileNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Sender profile "${id}" not found`);
+    this.name = "SenderProfileNotFoundError";
+  }
+}
+
+// Credentials were sent in the request while the server only allows its profiles
+export class RawCredentialsRefusedError extends Error {
+  constructor() {
+    super("This server only sends through its sender profiles; credentials can't be sent");
+    this.name = "RawCredentialsRefusedError";
+  }
+}
+
+// SENDER_PROFILES or the profiles file is invalid, or can't be decrypted
+export class SenderProfileConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SenderProfileConfigError";
+  }
+}
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { RawCredentialsRefusedError, SenderProfileNotFoundError } from "./errors";
+import { resolveTransport, setSenderProfiles, toProfileSummary } from "./index";
+import type { SenderProfile } from "./types";
+
+const profile: SenderProfile = {
+  id: "marketing",
+  name: "Marketing",
+  mode: "sendgrid",
+  from: "news@x.test",
+  api: { apiKey: "SG.secret" },
+};
+
+describe("resolveTransport", () => {
+  beforeEach(() => setSenderProfiles({ profiles: [profile], enforced: false }));
+
+  it("uses the referenced profile's credentials and sender", async () => {
+    expect(await resolveTransport({ mode: "test", profileId: "marketing" })).toEqual({
+      transport: { mode: "sendgrid", resendApiKey: undefined, smtp: undefined, api: profile.api },
+      from: "news@x.test",
+    });
+  });
+
+  it("fails for an unknown profile", async () => {
+    await expect(resolveTransport({ mode: "test", profileId: "other" })).rejects.toThrow(
+      SenderProfileNotFoundError
+    );
+  });
+
+  it("accepts request credentials unless profiles are enforced", async () => {
+    const request = { mode: "postmark" as const, api: { apiKey: "pm" } };
+    expect((await resolveTransport(request)).transport.api).toEqual({ apiKey: "pm" });
+
+    setSenderProfiles({ profiles: [profile], enforced: true });
+    await expect(resolveTransport(request)).rejects.toThrow(RawCredentialsRefusedError);
+    await expect(resolveTransport({ mode: "test", api: { apiKey: "x" } })).rejects.toThrow(
+      RawCredentialsRefusedError
+    );
+    expect((await resolveTransport({ mode: "local" })).transport.mode).toBe("local");
+  });
+});
+
+describe("toProfileSummary", () => {
+  it("leaves out credentials", () => {
+    expect(toProfileSummary(profile)).toEqual({
+      id: "marketing",
+      name: "Marketing",
+      mode: "sendgrid",
+      from: "news@x.test",
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Sender profiles - named transports whose credentials stay on the server
+ *
+ * Clients send a profileId instead of API keys or SMTP passwords. With
+ * SENDER_PROFILES_ENFORCED, requests carrying credentials are refused and only
+ * profiles (or the credential-free test and local modes) can be used.
+ */
+
+import type { SendMode } from "@/lib/server/email";
+import { loadSenderProfiles } from "./config";
+import { RawCredentialsRefusedError, SenderProfileNotFoundError } from "./errors";
+import type {
+  ResolvedTransport,
+  SenderProfile,
+  SenderProfileSettings,
+  SenderProfileSummary,
+  SenderTransportRequest,
+} from "./types";
+
+// Modes that work without credentials
+const CREDENTIAL_FREE_MODES: SendMode[] = ["test", "local"];
+
+let settings: Promise<SenderProfileSettings> | null = null;
+
+// Profiles are read once; a failed load is retried on the next call
+export function getSenderProfiles(): Promise<SenderProfileSettings> {
+  if (!settings) {
+    settings = loadSenderProfiles().catch((error) => {
+      settings = null;
+      throw error;
+    });
+  }
+  return settings;
+}
+
+// Replace the configured profiles (e.g. from another secret store)
+export function setSenderProfiles(value: SenderProfileSettings): void {
+  settings = Promise.resolve(value);
+}
+
+// Whether a mode can send without a profile or credentials
+export function isCredentialFreeMode(mode: SendMode): boolean {
+  return CREDENTIAL_FREE_MODES.includes(mode);
+}
+
+export function toProfileSummary(profile: SenderProfile): SenderProfileSummary {
+  return { id: profile.id, name: profile.name, mode: profile.mode, from: profile.from };
+}
+
+// Transport settings for a send request: the referenced profile, or the
+// credentials from the request when profiles aren't enforced
+export async function resolveTransport(
+  request: SenderTransportRequest
+): Promise<ResolvedTransport> {
+  const { profiles, enforced } = await getSenderProfiles();
+
+  if (request.profileId !== undefined) {
+    const profile = profiles.find((candidate) => candidate.id === request.profileId);
+    if (!profile) throw new SenderProfileNotFoundError(String(request.profileId));
+
+    const { mode, resendApiKey, smtp, api } = profile;
+    return { transport: { mode, resendApiKey, smtp, api }, from: profile.from };
+  }
+
+  const { mode, resendApiKey, smtp, api } = request;
+  if (enforced && (resendApiKey || smtp || api || !isCredentialFreeMode(mode))) {
+    throw new RawCredentialsRefusedError();
+  }
+  return { transport: { mode, resendApiKey, smtp, api } };
+}
+
+export { loadSenderProfiles } from "./config";
+export { decryptProfiles } from "./crypto";
+export {
+  SenderProfileNotFoundError,
+  RawCredentialsRefusedError,
+  SenderProfileConfigError,
+} from "./errors";
+export type {
+  SenderProfile,
+  SenderProfileSummary,
+  SenderProfileSettings,
+  SenderTransportRequest,
+  ResolvedTransport,
+  EncryptedProfilesFile,
+} from "./types";
@@ -0,0 +1,49 @@
+/**
+ * Sender profile types - named transports configured on the server
+ */
+
+import type { TransportConfig } from "@/lib/server/email";
+
+// A transport with its credentials, referenced by clients through its id
+export interface SenderProfile extends TransportConfig {
+  id: string;
+  name: string;
+  // Default sender address when the message has none
+  from?: string;
+}
+
+// What clients see of a profile (no credentials)
+export interface SenderProfileSummary {
+  id: string;
+  name: string;
+  mode: SenderProfile["mode"];
+  from?: string;
+}
+
+export interface SenderProfileSettings {
+  profiles: SenderProfile[];
+  // Refuse credentials sent in request bodies; only profiles can be used
+  enforced: boolean;
+}
+
+// Transport fields of a send request: a profile id, or raw credentials
+export interface SenderTransportRequest extends TransportConfig {
+  profileId?: string;
+}
+
+export interface ResolvedTransport {
+  transport: TransportConfig;
+  // Default sender address from the profile
+  from?: string;
+}
+
+// Profiles config file encrypted with SENDER_PROFILES_KEY (see crypto.ts)
+export interface EncryptedProfilesFile {
+  version: 1;
+  algorithm: "aes-256-gcm";
+  // Base64-encoded scrypt salt, IV, auth tag, and ciphertext
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}